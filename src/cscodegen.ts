@@ -0,0 +1,427 @@
+import { IndentedStringBuilder } from "./tscodegen.js"
+
+export class CsDocument {
+	readonly usings: string[] = []
+	readonly namespaceName: string
+	readonly types: CsType[] = []
+
+	constructor(namespaceName: string) {
+		this.namespaceName = namespaceName
+	}
+
+	addUsing(namespaceName: string) {
+		if (!this.usings.includes(namespaceName)) { this.usings.push(namespaceName) }
+	}
+
+	addClass(name: string): CsClass {
+		let csClass: CsClass = new CsClass(name)
+		this.types.push(csClass)
+		return csClass
+	}
+
+	addEnum(name: string): CsEnum {
+		let csEnum: CsEnum = new CsEnum(name)
+		this.types.push(csEnum)
+		return csEnum
+	}
+
+	private static appendDocComment(sb: IndentedStringBuilder, node: CsNode, parameters: CsParameter[] = []) {
+		let escape = (str: string) => str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+		if (node.docComment !== null) {
+			let lines: string[] = node.docComment.split("\n").map((x) => escape(x))
+			if (lines.length === 1) {
+				sb.appendLine(`/// <summary>${lines[0]}</summary>`)
+			} else {
+				sb.appendLine("/// <summary>")
+				for (let line of lines) {
+					sb.appendLine(`/// ${line}`.trimEnd())
+				}
+				sb.appendLine("/// </summary>")
+			}
+		}
+		for (let parameter of parameters) {
+			if (parameter.docComment === null) { continue }
+			sb.appendLine(`/// <param name="${parameter.name}">${escape(parameter.docComment).replace(/\n/g, " ")}</param>`)
+		}
+	}
+
+	toString(): string {
+		let sb: IndentedStringBuilder = new IndentedStringBuilder(true)
+
+		sb.appendLine("// This document was generated. Do not modify. Changes might be overwritten.")
+		sb.appendLine()
+		sb.appendLine("#nullable enable")
+		sb.appendLine()
+
+		for (let using of this.usings) {
+			sb.appendLine(`using ${using};`)
+		}
+		sb.appendLine()
+
+		sb.open(`namespace ${this.namespaceName}`)
+		for (let csType of this.types) {
+			sb.appendLine()
+			CsDocument.appendDocComment(sb, csType)
+			if (csType instanceof CsClass) {
+				let csClass: CsClass = csType as CsClass
+				sb.open(csClass.header)
+				for (let field of csClass.fields) {
+					sb.appendLine(field.toString())
+				}
+				for (let property of csClass.properties) {
+					CsDocument.appendDocComment(sb, property)
+					sb.appendLine(property.toString())
+				}
+				if (csClass.constructorImpl !== null) {
+					sb.appendLine()
+					CsDocument.appendDocComment(sb, csClass.constructorImpl, csClass.constructorImpl.parameters)
+					sb.open(csClass.constructorImpl.header)
+					sb.appendLines(csClass.constructorImpl.code.toString())
+					sb.close()
+				}
+				for (let method of csClass.methods) {
+					sb.appendLine()
+					CsDocument.appendDocComment(sb, method, method.parameters)
+					sb.open(method.header)
+					sb.appendLines(method.code.toString())
+					sb.close()
+				}
+				sb.close()
+			} else if (csType instanceof CsEnum) {
+				let csEnum: CsEnum = csType as CsEnum
+				sb.open(csEnum.header)
+				for (let i=0; i<csEnum.values.length; i++) {
+					let commaStr: string = i === csEnum.values.length - 1 ? "" : ","
+					CsDocument.appendDocComment(sb, csEnum.values[i])
+					sb.appendLine(csEnum.values[i].name+commaStr)
+				}
+				sb.close()
+			}
+		}
+		sb.close()
+		return sb.toString()
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export abstract class CsNode {
+	docComment: string | null = null
+}
+
+// ----------------------------------------------------------------------
+
+export abstract class CsType extends CsNode {
+	readonly name: string
+	isPublic: boolean = true
+
+	constructor(name: string) {
+		super()
+		this.name = name
+	}
+
+	protected get accessStr(): string {
+		return this.isPublic ? "public " : "internal "
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class CsEnum extends CsType {
+	readonly values: CsEnumValue[] = []
+
+	constructor(name: string) {
+		super(name)
+	}
+
+	get header(): string {
+		return `${this.accessStr}enum ${this.name}`
+	}
+
+	addValue(name: string): CsEnumValue {
+		let value: CsEnumValue = new CsEnumValue(name)
+		this.values.push(value)
+		return value
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class CsEnumValue extends CsNode {
+	readonly name: string
+
+	constructor(name: string) {
+		super()
+		this.name = name
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class CsClass extends CsType {
+	isStatic: boolean = false
+	isAbstract: boolean = false
+	baseType: string | null = null
+
+	fields: CsField[] = []
+	properties: CsProperty[] = []
+	methods: CsMethod[] = []
+	constructorImpl: CsConstructor | null = null
+
+	constructor(name: string) {
+		super(name)
+	}
+
+	get header(): string {
+		let staticStr: string = this.isStatic ? "static " : ""
+		let abstractStr: string = this.isAbstract ? "abstract " : ""
+		let baseStr: string = this.baseType === null ? "" : ` : ${this.baseType}`
+		return `${this.accessStr}${staticStr}${abstractStr}class ${this.name}${baseStr}`
+	}
+
+	addMethod(name: string, parameters: CsParameter[], returnType: string | null): CsMethod {
+		let method: CsMethod = new CsMethod(name, parameters, returnType)
+		this.methods.push(method)
+		return method
+	}
+
+	addStaticMethod(name: string, parameters: CsParameter[], returnType: string): CsMethod {
+		let method: CsMethod = this.addMethod(name, parameters, returnType)
+		method.isStatic = true
+		return method
+	}
+
+	addProperty(name: string, type: string, initializer: string | null = null): CsProperty {
+		let property: CsProperty = new CsProperty(name, type, initializer)
+		this.properties.push(property)
+		return property
+	}
+
+	addField(name: string, type: string, initializer: string | null = null): CsField {
+		let field: CsField = new CsField(name, type, initializer)
+		this.fields.push(field)
+		return field
+	}
+
+	setConstructor(parameters: CsParameter[]): CsConstructor {
+		let constructor: CsConstructor = new CsConstructor(this.name, parameters)
+		this.constructorImpl = constructor
+		return constructor
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class CsMethod extends CsNode {
+	readonly name: string
+	readonly parameters: CsParameter[]
+	readonly returnType: string | null
+	isStatic: boolean = false
+	isPrivate: boolean = false
+	isNew: boolean = false
+	constraint: string | null = null
+	readonly code: IndentedStringBuilder = new IndentedStringBuilder(true)
+
+	constructor(name: string, parameters: CsParameter[], returnType: string | null) {
+		super()
+		this.name = name
+		this.parameters = parameters
+		this.returnType = returnType
+	}
+
+	get header(): string {
+		let modifiersStr: string = (this.isPrivate ? "private " : "public ") + (this.isStatic ? "static " : "") + (this.isNew ? "new " : "")
+		let returnTypeStr: string = this.returnType === null ? "" : `${this.returnType} `
+		let constraintStr: string = this.constraint === null ? "" : ` ${this.constraint}`
+		return `${modifiersStr}${returnTypeStr}${this.name}(${CsParameter.join(this.parameters)})${constraintStr}`
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class CsProperty extends CsNode {
+	readonly name: string
+	readonly type: string
+	initializer: string | null
+	isNew: boolean = false
+
+	constructor(name: string, type: string, initializer: string | null = null) {
+		super()
+		this.name = name
+		this.type = type
+		this.initializer = initializer
+	}
+
+	toString(): string {
+		let newStr: string = this.isNew ? "new " : ""
+		let initializerStr: string = this.initializer === null ? "" : ` = ${this.initializer};`
+		return `public ${newStr}${this.type} ${this.name} { get; set; }${initializerStr}`
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class CsField extends CsNode {
+	readonly name: string
+	readonly type: string
+	initializer: string | null
+	isReadonly: boolean = false
+
+	constructor(name: string, type: string, initializer: string | null = null) {
+		super()
+		this.name = name
+		this.type = type
+		this.initializer = initializer
+	}
+
+	toString(): string {
+		let readonlyStr: string = this.isReadonly ? "readonly " : ""
+		let initializerStr: string = this.initializer === null ? "" : ` = ${this.initializer}`
+		return `private ${readonlyStr}${this.type} ${this.name}${initializerStr};`
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class CsParameter extends CsNode {
+	readonly name: string
+	readonly type: string
+
+	constructor(name: string, type: string) {
+		super()
+		this.name = name
+		this.type = type
+	}
+
+	toString(): string {
+		return `${this.type} ${this.name}`
+	}
+
+	static join(parameters: CsParameter[]): string {
+		return parameters.map((x) => x.toString()).join(", ")
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class CsConstructor extends CsNode {
+	readonly className: string
+	readonly parameters: CsParameter[]
+	baseArguments: string[] | null = null
+	readonly code: IndentedStringBuilder = new IndentedStringBuilder(true)
+
+	constructor(className: string, parameters: CsParameter[]) {
+		super()
+		this.className = className
+		this.parameters = parameters
+	}
+
+	get header(): string {
+		let baseStr: string = this.baseArguments === null ? "" : ` : base(${this.baseArguments.join(", ")})`
+		return `public ${this.className}(${CsParameter.join(this.parameters)})${baseStr}`
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class CsLookup {
+	private readonly names: string[] = []
+	private readonly nameLookup: Map<Object, string> = new Map<Object, string>()
+	private readonly lookup: Map<Object, Object> = new Map<Object, Object>()
+
+	private readonly startUpperCase: boolean
+
+	constructor(startUpperCase: boolean) {
+		this.startUpperCase = startUpperCase
+	}
+
+	generateName(name: string): string {
+		if (name.length === 0) { throw new Error("Invalid name") }
+		name = CsUtil.getIdentifier(name, this.startUpperCase)
+
+		if (this.names.indexOf(name) < 0) {
+			return name
+		}
+		for (let i=2; i<100; i++) {
+			let newName: string = name + i
+			if (this.names.indexOf(newName) < 0) {
+				return newName
+			}
+		}
+		throw new Error("Too many identical names")
+	}
+
+	add(source: Object, name: string, mapped: Object) {
+		if (this.names.indexOf(name) >= 0) { throw new Error("Already contains name") }
+		this.nameLookup.set(source, name)
+		this.lookup.set(source, mapped)
+		this.names.push(name)
+	}
+
+	has(source: Object): boolean {
+		return this.lookup.has(source)
+	}
+
+	get(source: Object): Object {
+		if (!this.lookup.has(source)) { throw new Error("Does not contain source") }
+		return this.lookup.get(source)!
+	}
+
+	getName(source: Object): string {
+		if (!this.nameLookup.has(source)) { throw new Error("Does not contain source") }
+		return this.nameLookup.get(source)!
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export abstract class CsUtil {
+	static escapeString(str: string): string {
+		let result: string = "\""
+		for (let char of str) {
+			switch (char) {
+				case "\\": result += "\\\\"; break
+				case "\"": result += "\\\""; break
+				case "\n": result += "\\n"; break
+				case "\r": result += "\\r"; break
+				case "\t": result += "\\t"; break
+				case "\0": result += "\\0"; break
+				default: result += char
+			}
+		}
+		result += "\""
+		return result
+	}
+
+	static keywords: string[] = ["abstract", "as", "base", "bool", "break", "byte", "case", "catch", "char", "checked", "class", "const", "continue",
+		"decimal", "default", "delegate", "do", "double", "else", "enum", "event", "explicit", "extern", "false", "finally", "fixed", "float", "for",
+		"foreach", "goto", "if", "implicit", "in", "int", "interface", "internal", "is", "lock", "long", "namespace", "new", "null", "object", "operator",
+		"out", "override", "params", "private", "protected", "public", "readonly", "ref", "return", "sbyte", "sealed", "short", "sizeof", "stackalloc",
+		"static", "string", "struct", "switch", "this", "throw", "true", "try", "typeof", "uint", "ulong", "unchecked", "unsafe", "ushort", "using",
+		"virtual", "void", "volatile", "while"]
+
+	static getIdentifier(str: string, startUpperCase: boolean): string {
+		let words: string[] = str.split(/[^\p{L}\p{Mn}\p{Mc}\p{Nd}\p{Nl}\p{Pc}]+/u).filter((x) => x.length > 0)
+		let result: string = words.map((x, i) => i === 0 ? x : x.substring(0, 1).toUpperCase() + x.substring(1)).join("")
+		if (result.length === 0 || /^[\p{Nd}\p{Mn}\p{Mc}]/u.test(result)) {
+			result = "_" + result
+		}
+		let firstChar: string = result.substring(0, 1)
+		result = (startUpperCase ? firstChar.toUpperCase() : firstChar.toLowerCase()) + result.substring(1)
+		if (CsUtil.keywords.includes(result)) {
+			result = "@" + result
+		}
+		return result
+	}
+
+	static getDoubleLiteral(value: number): string {
+		let str: string = value.toString()
+		return /^-?[0-9]+$/.test(str) ? str + ".0" : str
+	}
+
+	static getStringArrayCode(strings: (string | null)[]): string {
+		let nullableStr: string = strings.includes(null) ? "?" : ""
+		if (strings.length === 0) { return `new string${nullableStr}[0]` }
+		return `new string${nullableStr}[] { ${strings.map((x) => x === null ? "null" : CsUtil.escapeString(x)).join(", ")} }`
+	}
+}
@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import { SmlSchemaCli } from "./smlschema-cli.js"
+
+process.exitCode = new SmlSchemaCli().run(process.argv.slice(2))
@@ -0,0 +1,343 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import * as fs from "fs"
+import * as path from "path"
+import { SmlDocument, SmlElement, SmlEmptyNode, SmlNode } from "./sml.js"
+import { SmlSchema, SmlValidator, SsSchemaError, SsValidationIssue, SsValidationSeverity } from "./smlschema.js"
+import { SmlSchemaCodeGen, SmlSchemaCodeGenBackend, SmlSchemaCodeGenOptions, SmlSchemaCodeGenTarget, SmlSchemaTsCodeGenBackend } from "./smlschema-codegen.js"
+import { SmlSchemaCsCodeGenBackend, SmlSchemaCsCodeGenOptions } from "./smlschema-codegen-cs.js"
+import { SmlSchemaInferenceOptions, SmlSchemaInferrer } from "./smlschema-inference.js"
+import { SmlSchemaFile } from "./smlschema-io.js"
+
+// ----------------------------------------------------------------------
+
+export enum SmlSchemaCliExitCode {
+	Success = 0,
+	Failure = 1,
+	Error = 2
+}
+
+// ----------------------------------------------------------------------
+
+export class SmlSchemaCliUsageError extends Error {
+}
+
+// ----------------------------------------------------------------------
+
+class SsCliArguments {
+	readonly positionals: string[] = []
+	private readonly options: Map<string, string | null> = new Map<string, string | null>()
+
+	constructor(args: string[], valueOptions: string[], flagOptions: string[]) {
+		for (let i=0; i<args.length; i++) {
+			let arg: string = args[i]
+			if (arg === "--") {
+				this.positionals.push(...args.slice(i+1))
+				break
+			} else if (valueOptions.includes(arg)) {
+				if (i+1 >= args.length) { throw new SmlSchemaCliUsageError(`Option ${arg} requires a value`) }
+				this.options.set(arg, args[++i])
+			} else if (flagOptions.includes(arg)) {
+				this.options.set(arg, null)
+			} else if (arg.startsWith("-") && arg.length > 1) {
+				throw new SmlSchemaCliUsageError(`Unknown option ${arg}`)
+			} else {
+				this.positionals.push(arg)
+			}
+		}
+	}
+
+	has(...names: string[]): boolean {
+		return names.some((x) => this.options.has(x))
+	}
+
+	get(...names: string[]): string | null {
+		for (let name of names) {
+			if (this.options.has(name)) { return this.options.get(name)! }
+		}
+		return null
+	}
+}
+
+// ----------------------------------------------------------------------
+
+abstract class SsGlob {
+	static hasWildcard(pattern: string): boolean {
+		return /[*?]/.test(pattern)
+	}
+
+	private static getSegmentRegExp(segment: string): RegExp {
+		let source: string = segment.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*").replace(/\?/g, "[^/]")
+		return new RegExp("^" + source + "$")
+	}
+
+	private static expandSegments(dirPath: string, segments: string[], results: string[]) {
+		if (segments.length === 0) {
+			if (fs.existsSync(dirPath) && fs.statSync(dirPath).isFile()) { results.push(dirPath) }
+			return
+		}
+		let segment: string = segments[0]
+		let rest: string[] = segments.slice(1)
+		if (!SsGlob.hasWildcard(segment)) {
+			SsGlob.expandSegments(path.join(dirPath, segment), rest, results)
+			return
+		}
+		if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) { return }
+		let entries: fs.Dirent[] = fs.readdirSync(dirPath, { withFileTypes: true })
+		if (segment === "**") {
+			SsGlob.expandSegments(dirPath, rest, results)
+			for (let entry of entries) {
+				if (entry.isDirectory()) { SsGlob.expandSegments(path.join(dirPath, entry.name), segments, results) }
+			}
+			return
+		}
+		let regExp: RegExp = SsGlob.getSegmentRegExp(segment)
+		for (let entry of entries) {
+			if (regExp.test(entry.name)) { SsGlob.expandSegments(path.join(dirPath, entry.name), rest, results) }
+		}
+	}
+
+	static expand(patterns: string[]): string[] {
+		let results: string[] = []
+		for (let pattern of patterns) {
+			if (!SsGlob.hasWildcard(pattern)) {
+				results.push(pattern)
+				continue
+			}
+			let normalized: string = pattern.replace(/\\/g, "/")
+			let isAbsolute: boolean = path.isAbsolute(normalized)
+			let segments: string[] = normalized.split("/").filter((x) => x.length > 0)
+			let matches: string[] = []
+			SsGlob.expandSegments(isAbsolute ? path.parse(path.resolve(normalized)).root : ".", segments, matches)
+			if (matches.length === 0) { throw new Error(`No files match "${pattern}"`) }
+			results.push(...matches.sort())
+		}
+		return results.filter((x, i) => results.indexOf(x) === i)
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SmlSchemaCli {
+	private readonly stdout: (text: string) => void
+	private readonly stderr: (text: string) => void
+
+	constructor(stdout: (text: string) => void = (text) => process.stdout.write(text), stderr: (text: string) => void = (text) => process.stderr.write(text)) {
+		this.stdout = stdout
+		this.stderr = stderr
+	}
+
+	static readonly usage: string = `Usage: smlschema <command> [options]
+
+Commands:
+  validate <schema> <documents...>   Validate SML documents against a schema
+  check <schemas...>                 Check that schema files are valid
+  codegen <schema>                   Generate TypeScript or C# code from a schema
+  format <schemas...>                Rewrite schema files in canonical form
+  infer <documents...>               Infer a schema from sample documents
+
+Options:
+  --json                             Write machine-readable JSON to stdout (validate, check, format)
+  -o, --output <file>                Write output to a file instead of stdout (codegen, infer)
+  --language <ts|cs>                 Code generation language, default ts (codegen)
+  --target <classes|interfaces>      TypeScript code generation target (codegen)
+  --string-unions                    Generate TypeScript enums as string unions (codegen)
+  --try-load                         Generate TypeScript tryLoad methods that collect all errors (codegen)
+  --namespace <name>                 C# namespace of the generated code (codegen)
+  --write                            Overwrite files with formatted output, refused for files with comments (format)
+  --check                            Only report files that are not formatted (format)
+  --exact-array-ranges               Use the observed value counts as array bounds (infer)
+
+Document and schema arguments may contain * ? and ** wildcards.
+Exit codes: 0 success, 1 validation, schema or format check failure, 2 usage or input error.
+`
+
+	private static readFile(filePath: string): string {
+		let content: string
+		try {
+			content = fs.readFileSync(filePath, "utf-8")
+		} catch (e) {
+			throw new Error(`Could not read file "${filePath}"`)
+		}
+		if (content.startsWith("\uFEFF")) { content = content.substring(1) }
+		return content
+	}
+
+	private static issueToJson(issue: SsValidationIssue): object {
+		return { severity: SsValidationSeverity[issue.severity], code: issue.codeName, message: issue.message, path: issue.path, line: issue.lineNumber }
+	}
+
+	private static hasComments(nodes: SmlNode[]): boolean {
+		for (let node of nodes) {
+			if (node.hasComment) { return true }
+			if (node instanceof SmlElement) {
+				let element: SmlElement = node as SmlElement
+				if (element.hasEndComment || SmlSchemaCli.hasComments(element.nodes)) { return true }
+			}
+		}
+		return false
+	}
+
+	private static documentHasComments(content: string): boolean {
+		let document: SmlDocument = SmlDocument.parse(content, true)
+		let emptyNodes: SmlEmptyNode[] = [...document.emptyNodesBefore, ...document.emptyNodesAfter]
+		return SmlSchemaCli.hasComments([...emptyNodes, document.root])
+	}
+
+	private static loadSchema(filePath: string): SmlSchema {
+		if (!fs.existsSync(filePath)) { throw new Error(`Schema file "${filePath}" does not exist`) }
+		return SmlSchemaFile.loadSync(filePath)
+	}
+
+	private writeOutput(text: string, outputPath: string | null) {
+		if (outputPath === null) {
+			this.stdout(text.endsWith("\n") ? text : text + "\n")
+		} else {
+			fs.writeFileSync(outputPath, text, "utf-8")
+		}
+	}
+
+	private writeIssues(filePath: string, issues: SsValidationIssue[]) {
+		for (let issue of issues) {
+			this.stdout(`${filePath}: ${issue.toString()}\n`)
+		}
+	}
+
+	private static tryLoadSchema(filePath: string, issues: SsValidationIssue[]): SmlSchema | null {
+		try {
+			return SmlSchemaCli.loadSchema(filePath)
+		} catch (e) {
+			if (e instanceof SsSchemaError) {
+				issues.push(...(e as SsSchemaError).issues)
+				return null
+			}
+			throw e
+		}
+	}
+
+	private runValidate(args: SsCliArguments): SmlSchemaCliExitCode {
+		if (args.positionals.length < 2) { throw new SmlSchemaCliUsageError("Command validate requires a schema and at least one document") }
+		let schemaPath: string = args.positionals[0]
+		let schemaIssues: SsValidationIssue[] = []
+		let schema: SmlSchema | null = SmlSchemaCli.tryLoadSchema(schemaPath, schemaIssues)
+		let files: { file: string, valid: boolean, issues: object[] }[] = []
+		if (schema === null) {
+			files.push({ file: schemaPath, valid: false, issues: schemaIssues.map((x) => SmlSchemaCli.issueToJson(x)) })
+			if (!args.has("--json")) { this.writeIssues(schemaPath, schemaIssues) }
+		} else {
+			let validator: SmlValidator = new SmlValidator(schema)
+			for (let documentPath of SsGlob.expand(args.positionals.slice(1))) {
+				let issues: SsValidationIssue[] = validator.validateContent(SmlSchemaCli.readFile(documentPath))
+				files.push({ file: documentPath, valid: issues.length === 0, issues: issues.map((x) => SmlSchemaCli.issueToJson(x)) })
+				if (!args.has("--json")) { this.writeIssues(documentPath, issues) }
+			}
+		}
+		let valid: boolean = files.every((x) => x.valid)
+		if (args.has("--json")) { this.stdout(JSON.stringify({ valid, files }, null, "\t") + "\n") }
+		return valid ? SmlSchemaCliExitCode.Success : SmlSchemaCliExitCode.Failure
+	}
+
+	private runCheck(args: SsCliArguments): SmlSchemaCliExitCode {
+		if (args.positionals.length < 1) { throw new SmlSchemaCliUsageError("Command check requires at least one schema") }
+		let files: { file: string, valid: boolean, issues: object[] }[] = []
+		for (let schemaPath of SsGlob.expand(args.positionals)) {
+			let issues: SsValidationIssue[] = []
+			SmlSchemaCli.tryLoadSchema(schemaPath, issues)
+			files.push({ file: schemaPath, valid: issues.length === 0, issues: issues.map((x) => SmlSchemaCli.issueToJson(x)) })
+			if (!args.has("--json")) { this.writeIssues(schemaPath, issues) }
+		}
+		let valid: boolean = files.every((x) => x.valid)
+		if (args.has("--json")) { this.stdout(JSON.stringify({ valid, files }, null, "\t") + "\n") }
+		return valid ? SmlSchemaCliExitCode.Success : SmlSchemaCliExitCode.Failure
+	}
+
+	private runCodeGen(args: SsCliArguments): SmlSchemaCliExitCode {
+		if (args.positionals.length !== 1) { throw new SmlSchemaCliUsageError("Command codegen requires exactly one schema") }
+		let backend: SmlSchemaCodeGenBackend
+		let language: string | null = args.get("--language")
+		if (language === null || language === "ts") {
+			let options: SmlSchemaCodeGenOptions = new SmlSchemaCodeGenOptions()
+			let target: string | null = args.get("--target")
+			if (target === "interfaces") { options.target = SmlSchemaCodeGenTarget.Interfaces }
+			else if (target !== null && target !== "classes") { throw new SmlSchemaCliUsageError(`Unknown target "${target}"`) }
+			options.enumsAsStringUnions = args.has("--string-unions")
+			options.generateTryLoad = args.has("--try-load")
+			backend = new SmlSchemaTsCodeGenBackend(options)
+		} else if (language === "cs") {
+			let options: SmlSchemaCsCodeGenOptions = new SmlSchemaCsCodeGenOptions()
+			options.namespaceName = args.get("--namespace") ?? options.namespaceName
+			backend = new SmlSchemaCsCodeGenBackend(options)
+		} else {
+			throw new SmlSchemaCliUsageError(`Unknown language "${language}"`)
+		}
+		let schema: SmlSchema = SmlSchemaCli.loadSchema(args.positionals[0])
+		this.writeOutput(new SmlSchemaCodeGen(schema, backend).generate(), args.get("-o", "--output"))
+		return SmlSchemaCliExitCode.Success
+	}
+
+	private runFormat(args: SsCliArguments): SmlSchemaCliExitCode {
+		if (args.positionals.length < 1) { throw new SmlSchemaCliUsageError("Command format requires at least one schema") }
+		let filePaths: string[] = SsGlob.expand(args.positionals)
+		let isCheck: boolean = args.has("--check")
+		let isWrite: boolean = args.has("--write")
+		if (!isCheck && !isWrite && filePaths.length > 1) { throw new SmlSchemaCliUsageError("Formatting multiple schemas requires --write or --check") }
+		let unformatted: string[] = []
+		let writes: Map<string, string> = new Map<string, string>()
+		for (let filePath of filePaths) {
+			let formatted: string = SmlSchemaCli.loadSchema(filePath).toString()
+			if (!formatted.endsWith("\n")) { formatted += "\n" }
+			let content: string = SmlSchemaCli.readFile(filePath)
+			if (content !== formatted) {
+				unformatted.push(filePath)
+				if (isWrite && !isCheck) {
+					if (SmlSchemaCli.documentHasComments(content)) { throw new Error(`Schema file "${filePath}" contains comments which would be lost by formatting`) }
+					writes.set(filePath, formatted)
+				}
+			}
+			if (!isCheck && !isWrite) { this.stdout(formatted) }
+		}
+		writes.forEach((formatted, filePath) => fs.writeFileSync(filePath, formatted, "utf-8"))
+		if (args.has("--json")) { this.stdout(JSON.stringify({ formatted: unformatted.length === 0, files: unformatted }, null, "\t") + "\n") }
+		else if (isCheck || isWrite) { unformatted.forEach((x) => this.stdout(`${x}\n`)) }
+		return isCheck && unformatted.length > 0 ? SmlSchemaCliExitCode.Failure : SmlSchemaCliExitCode.Success
+	}
+
+	private runInfer(args: SsCliArguments): SmlSchemaCliExitCode {
+		if (args.positionals.length < 1) { throw new SmlSchemaCliUsageError("Command infer requires at least one document") }
+		let options: SmlSchemaInferenceOptions = new SmlSchemaInferenceOptions()
+		options.exactArrayRanges = args.has("--exact-array-ranges")
+		let inferrer: SmlSchemaInferrer = new SmlSchemaInferrer(options)
+		for (let documentPath of SsGlob.expand(args.positionals)) {
+			inferrer.addDocument(SmlDocument.parse(SmlSchemaCli.readFile(documentPath)))
+		}
+		this.writeOutput(inferrer.toSchema().toString(), args.get("-o", "--output"))
+		return SmlSchemaCliExitCode.Success
+	}
+
+	run(args: string[]): SmlSchemaCliExitCode {
+		try {
+			let command: string | undefined = args[0]
+			let cliArgs: SsCliArguments = new SsCliArguments(args.slice(1), ["-o", "--output", "--target", "--language", "--namespace"], ["--json", "--string-unions", "--try-load", "--write", "--check", "--exact-array-ranges"])
+			if (command === "validate") { return this.runValidate(cliArgs) }
+			else if (command === "check") { return this.runCheck(cliArgs) }
+			else if (command === "codegen") { return this.runCodeGen(cliArgs) }
+			else if (command === "format") { return this.runFormat(cliArgs) }
+			else if (command === "infer") { return this.runInfer(cliArgs) }
+			else if (command === "help" || command === "--help" || command === "-h") {
+				this.stdout(SmlSchemaCli.usage)
+				return SmlSchemaCliExitCode.Success
+			}
+			throw new SmlSchemaCliUsageError(command === undefined ? "No command given" : `Unknown command "${command}"`)
+		} catch (e) {
+			if (e instanceof SmlSchemaCliUsageError) {
+				this.stderr(`Error: ${e.message}\n\n${SmlSchemaCli.usage}`)
+			} else if (e instanceof SsSchemaError) {
+				(e as SsSchemaError).issues.forEach((x) => this.stderr(`${x.toString()}\n`))
+				return SmlSchemaCliExitCode.Failure
+			} else {
+				this.stderr(`Error: ${e instanceof Error ? e.message : ""+e}\n`)
+			}
+			return SmlSchemaCliExitCode.Error
+		}
+	}
+}
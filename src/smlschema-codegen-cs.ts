@@ -0,0 +1,869 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import { SmlSchema, SsAttributeDataType, SsAttributeDef, SsChoice, SsChoiceAlternative, SsDefinitions, SsElementDef, SsEnumTypeDef, SsListContent, SsNumberTypeDef, SsOrderedAttribute, SsOrderedChoice, SsOrderedContent, SsOrderedElement, SsPredefinedType, SsRange, SsStringTypeDef, SsStructDef, SsStructValue, SsUnorderedAttribute, SsUnorderedChoice, SsUnorderedContent, SsUnorderedElement, SsValueTypeDef, SsWhitespaceRule } from "./smlschema.js"
+import { SmlSchemaCodeGenBackend } from "./smlschema-codegen.js"
+import { CsClass, CsConstructor, CsDocument, CsEnum, CsLookup, CsMethod, CsParameter, CsProperty, CsUtil } from "./cscodegen.js"
+import { IndentedStringBuilder } from "./tscodegen.js"
+
+// ----------------------------------------------------------------------
+
+class CsPropertyCode {
+	readonly typeName: string
+	readonly initialization: string | null
+	readonly load: string
+
+	constructor(typeName: string, initialization: string | null, load: string) {
+		this.typeName = typeName
+		this.initialization = initialization
+		this.load = load
+	}
+}
+
+// ----------------------------------------------------------------------
+
+class CsMemberCode {
+	readonly name: string
+	readonly typeName: string
+	readonly initialization: string | null
+	readonly declared: boolean
+	readonly description: string | null
+
+	constructor(name: string, typeName: string, initialization: string | null, declared: boolean, description: string | null) {
+		this.name = name
+		this.typeName = typeName
+		this.initialization = initialization
+		this.declared = declared
+		this.description = description
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SmlSchemaCsCodeGenOptions {
+	namespaceName: string = "Generated"
+	smlNamespaceName: string = "Stenway.Sml"
+}
+
+// ----------------------------------------------------------------------
+
+export class SmlSchemaCsCodeGenBackend extends SmlSchemaCodeGenBackend {
+	private readonly options: SmlSchemaCsCodeGenOptions
+	private rootElementDef: SsElementDef | null = null
+	private document: CsDocument
+	private typeLookup: CsLookup = new CsLookup(true)
+	private readonly enumValueLookups: Map<SsEnumTypeDef, CsLookup> = new Map<SsEnumTypeDef, CsLookup>()
+	private readonly memberNames: Map<SsElementDef, string[]> = new Map<SsElementDef, string[]>()
+
+	private utilsClass: CsClass | null = null
+	private nodeReaderGenerated: boolean = false
+
+	constructor(options: SmlSchemaCsCodeGenOptions = new SmlSchemaCsCodeGenOptions()) {
+		super()
+		this.options = options
+		this.document = new CsDocument(options.namespaceName)
+	}
+
+	private getPredefinedTypeString(predefinedType: SsPredefinedType): string {
+		switch(predefinedType) {
+			case SsPredefinedType.Bool:		return "bool"
+			case SsPredefinedType.Int:		return "long"
+			case SsPredefinedType.UInt:		return "long"
+			case SsPredefinedType.Number:	return "double"
+			case SsPredefinedType.String:	return "string"
+			case SsPredefinedType.Date:		return "DateTime"
+			case SsPredefinedType.Time:		return "TimeSpan"
+			case SsPredefinedType.Base64:	return "byte[]"
+			case SsPredefinedType.DateTime:	return "DateTimeOffset"
+			default: throw new Error("Todo "+predefinedType)
+		}
+	}
+
+	private getPredefinedTypeInitialization(predefinedType: SsPredefinedType): string | null {
+		switch(predefinedType) {
+			case SsPredefinedType.String:	return `""`
+			case SsPredefinedType.Base64:	return `new byte[0]`
+			default: return null
+		}
+	}
+
+	private getPredefinedTypeParseMethod(predefinedType: SsPredefinedType): string | null {
+		switch(predefinedType) {
+			case SsPredefinedType.Bool:		return "SmlLoadUtils.ParseBool"
+			case SsPredefinedType.Int:		return "SmlLoadUtils.ParseInt"
+			case SsPredefinedType.UInt:		return "SmlLoadUtils.ParseUInt"
+			case SsPredefinedType.Number:	return "SmlLoadUtils.ParseNumber"
+			case SsPredefinedType.String:	return null
+			case SsPredefinedType.Date:		return "SmlLoadUtils.ParseDate"
+			case SsPredefinedType.Time:		return "SmlLoadUtils.ParseTime"
+			case SsPredefinedType.Base64:	return "SmlLoadUtils.ParseBase64"
+			case SsPredefinedType.DateTime:	return "SmlLoadUtils.ParseDateTime"
+			default: throw new Error("Todo "+predefinedType)
+		}
+	}
+
+	private getValueTypeString(valueTypeDef: SsValueTypeDef): string {
+		if (valueTypeDef instanceof SsStringTypeDef) {
+			return "string"
+		} else if (valueTypeDef instanceof SsNumberTypeDef) {
+			return this.getPredefinedTypeString((valueTypeDef as SsNumberTypeDef).baseType)
+		}
+		return this.typeLookup.getName(valueTypeDef)
+	}
+
+	private getValueTypeInitialization(valueTypeDef: SsValueTypeDef): string | null {
+		if (valueTypeDef instanceof SsStringTypeDef) {
+			return `""`
+		}
+		return null
+	}
+
+	private getElementalTypeString(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null): string {
+		return predefinedType !== null ? this.getPredefinedTypeString(predefinedType) : this.getValueTypeString(valueTypeDef!)
+	}
+
+	private getElementalInitialization(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null): string | null {
+		return predefinedType !== null ? this.getPredefinedTypeInitialization(predefinedType) : this.getValueTypeInitialization(valueTypeDef!)
+	}
+
+	private isElementalReferenceType(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null): boolean {
+		if (predefinedType !== null) { return predefinedType === SsPredefinedType.String || predefinedType === SsPredefinedType.Base64 }
+		return valueTypeDef instanceof SsStringTypeDef
+	}
+
+	private getElementalParseMethod(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null): string | null {
+		return predefinedType !== null ? this.getPredefinedTypeParseMethod(predefinedType) : `ValueTypeUtils.Parse${this.typeLookup.getName(valueTypeDef!)}`
+	}
+
+	private getElementalParseCode(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, str: string): string {
+		let parseMethod: string | null = this.getElementalParseMethod(predefinedType, valueTypeDef)
+		return parseMethod === null ? str : `${parseMethod}(${str})`
+	}
+
+	private getElementalNullableParseCode(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, str: string): string {
+		let parseMethod: string | null = this.getElementalParseMethod(predefinedType, valueTypeDef)
+		if (parseMethod === null) { return str }
+		let kindStr: string = this.isElementalReferenceType(predefinedType, valueTypeDef) ? "Object" : "Value"
+		return `SmlLoadUtils.ParseNullable${kindStr}(${str}, ${parseMethod})`
+	}
+
+	private getElementalLiteralCode(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, str: string): string {
+		if (predefinedType !== null) {
+			switch(predefinedType) {
+				case SsPredefinedType.Bool:		return str.toLowerCase() === "true" ? "true" : "false"
+				case SsPredefinedType.Int:		return Number(str).toString()
+				case SsPredefinedType.UInt:		return Number(str).toString()
+				case SsPredefinedType.Number:	return CsUtil.getDoubleLiteral(Number(str))
+				case SsPredefinedType.String:	return CsUtil.escapeString(str)
+				default: return this.getElementalParseCode(predefinedType, null, CsUtil.escapeString(str))
+			}
+		} else if (valueTypeDef instanceof SsEnumTypeDef) {
+			let enumTypeDef: SsEnumTypeDef = valueTypeDef as SsEnumTypeDef
+			let value: string = enumTypeDef.values.find((x) => x.toLowerCase() === str.toLowerCase())!
+			return `${this.typeLookup.getName(enumTypeDef)}.${this.enumValueLookups.get(enumTypeDef)!.getName(value)}`
+		} else if (valueTypeDef instanceof SsStringTypeDef) {
+			return CsUtil.escapeString(str)
+		} else if (valueTypeDef instanceof SsNumberTypeDef) {
+			let numberTypeDef: SsNumberTypeDef = valueTypeDef as SsNumberTypeDef
+			return numberTypeDef.baseType === SsPredefinedType.Number ? CsUtil.getDoubleLiteral(Number(str)) : Number(str).toString()
+		}
+		throw new Error("Todo")
+	}
+
+	private getRangeArgumentsStr(range: SsRange): string {
+		return `${range.min ?? 0}, ${range.max ?? "null"}`
+	}
+
+	private getAttributeDataTypePropertyCode(dataType: SsAttributeDataType, forceNullable: boolean, asArray: boolean): CsPropertyCode {
+		let elementalTypeName: string
+		let elementalInitialization: string | null
+		if (dataType.isStruct) {
+			elementalTypeName = this.typeLookup.getName(dataType.structDef!)
+			elementalInitialization = `new ${elementalTypeName}()`
+		} else {
+			elementalTypeName = this.getElementalTypeString(dataType.predefinedType, dataType.valueTypeDef)
+			elementalInitialization = this.getElementalInitialization(dataType.predefinedType, dataType.valueTypeDef)
+		}
+
+		let itemTypeName: string = elementalTypeName + (dataType.nullable ? "?" : "")
+		let typeName: string = itemTypeName
+		let initialization: string | null = elementalInitialization
+		if (dataType.isArray) {
+			typeName = itemTypeName + "[]"
+			initialization = `Array.Empty<${itemTypeName}>()`
+		}
+		let isNullable: boolean = (!dataType.isArray && dataType.nullable) || (dataType.isArray && dataType.arrayNullable) || forceNullable
+		if (isNullable) {
+			if (!typeName.endsWith("?")) { typeName += "?" }
+			initialization = null
+		}
+		if (asArray) {
+			typeName = `List<${typeName}>`
+			initialization = `new ${typeName}()`
+		}
+
+		let loadCode: string
+		if (dataType.isStruct) {
+			if (dataType.isArray) {
+				loadCode = `${elementalTypeName}.LoadArray(sCurAttribute, ${this.getRangeArgumentsStr(dataType.arrayRange!)})`
+			} else {
+				loadCode = `${elementalTypeName}.Load(sCurAttribute)`
+			}
+		} else if (dataType.isArray) {
+			let parseMethod: string | null = this.getElementalParseMethod(dataType.predefinedType, dataType.valueTypeDef)
+			if (dataType.nullable) {
+				loadCode = `SmlLoadUtils.GetNullableValues(sCurAttribute, ${this.getRangeArgumentsStr(dataType.arrayRange!)})`
+				if (parseMethod !== null) {
+					loadCode += `.Select((x) => ${this.getElementalNullableParseCode(dataType.predefinedType, dataType.valueTypeDef, "x")}).ToArray()`
+				}
+			} else {
+				loadCode = `SmlLoadUtils.GetValues(sCurAttribute, ${this.getRangeArgumentsStr(dataType.arrayRange!)})`
+				if (parseMethod !== null) {
+					loadCode += `.Select(${parseMethod}).ToArray()`
+				}
+			}
+		} else if (dataType.nullable) {
+			loadCode = this.getElementalNullableParseCode(dataType.predefinedType, dataType.valueTypeDef, "SmlLoadUtils.GetNullableValue(sCurAttribute)")
+		} else {
+			loadCode = this.getElementalParseCode(dataType.predefinedType, dataType.valueTypeDef, "SmlLoadUtils.GetValue(sCurAttribute)")
+		}
+		if ((dataType.isStruct && !dataType.isArray && dataType.nullable) || dataType.arrayNullable) {
+			loadCode = `(SmlLoadUtils.IsNullValue(sCurAttribute) ? null : ${loadCode})`
+		}
+		return new CsPropertyCode(typeName, initialization, loadCode)
+	}
+
+	private getDefaultValueCode(dataType: SsAttributeDataType, values: (string | null)[]): string {
+		if (values.length === 1 && values[0] === null && ((dataType.nullable && !dataType.isArray) || dataType.arrayNullable)) {
+			return "null"
+		}
+		if (dataType.isStruct) {
+			let structName: string = this.typeLookup.getName(dataType.structDef!)
+			let attributeCode: string = `new SmlAttribute("Default", ${CsUtil.getStringArrayCode(values)})`
+			return dataType.isArray ? `${structName}.LoadArray(${attributeCode}, 0, null)` : `${structName}.Load(${attributeCode})`
+		} else if (dataType.isArray) {
+			let itemTypeName: string = this.getElementalTypeString(dataType.predefinedType, dataType.valueTypeDef) + (dataType.nullable ? "?" : "")
+			let items: string[] = values.map((x) => x === null ? "null" : this.getElementalLiteralCode(dataType.predefinedType, dataType.valueTypeDef, x))
+			if (items.length === 0) { return `Array.Empty<${itemTypeName}>()` }
+			return `new ${itemTypeName}[] { ${items.join(", ")} }`
+		}
+		return this.getElementalLiteralCode(dataType.predefinedType, dataType.valueTypeDef, values[0]!)
+	}
+
+	private generateContentElement(elementDef: SsElementDef, occurrence: SsRange, ordered: boolean, members: CsMemberCode[], propertyLookup: CsLookup, sbLoad: IndentedStringBuilder, declare: boolean = true) {
+		let elementName: string = elementDef.name
+
+		let elementalTypeName: string = this.getElementTypeName(elementDef)
+
+		let typeName: string = elementalTypeName
+		let initialization: string | null = `new ${typeName}()`
+
+		if (occurrence.isOptional) {
+			typeName += "?"
+			initialization = null
+		}
+		let asArray: boolean = !occurrence.isRequired && !occurrence.isOptional
+		if (asArray) {
+			elementName += "List"
+			typeName = `List<${typeName}>`
+			initialization = `new ${typeName}()`
+		}
+		elementName = propertyLookup.generateName(elementName)
+		propertyLookup.add(elementDef, elementName, elementDef)
+
+		let source: string = ordered ? "reader.Elements(" : "SmlLoadUtils.Elements(sElement, "
+		let loadStr: string = `${elementalTypeName}.Load(sCurElement)`
+		sbLoad.open(`foreach (SmlElement sCurElement in ${source}${CsUtil.escapeString(elementDef.name)}, ${this.getRangeArgumentsStr(occurrence)}))`)
+		sbLoad.appendLine(asArray ? `element.${elementName}.Add(${loadStr});` : `element.${elementName} = ${loadStr};`)
+		sbLoad.close()
+
+		members.push(new CsMemberCode(elementName, typeName, initialization, declare, elementDef.description))
+	}
+
+	private generateContentAttribute(attributeDef: SsAttributeDef, occurrence: SsRange, ordered: boolean, members: CsMemberCode[], propertyLookup: CsLookup, sbLoad: IndentedStringBuilder, declare: boolean = true) {
+		let attributeName: string = attributeDef.name
+
+		let hasDefault: boolean = occurrence.isOptional && attributeDef.hasDefault
+		let forceNullable: boolean = occurrence.isOptional && !hasDefault
+		let asArray: boolean = !occurrence.isRequired && !occurrence.isOptional
+		if (asArray) {
+			attributeName += "List"
+		}
+		attributeName = propertyLookup.generateName(attributeName)
+		propertyLookup.add(attributeDef, attributeName, attributeDef)
+
+		let code: CsPropertyCode = this.getAttributeDataTypePropertyCode(attributeDef.dataType, forceNullable, asArray)
+
+		let source: string = ordered ? "reader.Attributes(" : "SmlLoadUtils.Attributes(sElement, "
+		sbLoad.open(`foreach (SmlAttribute sCurAttribute in ${source}${CsUtil.escapeString(attributeDef.name)}, ${this.getRangeArgumentsStr(occurrence)}))`)
+		sbLoad.appendLine(asArray ? `element.${attributeName}.Add(${code.load});` : `element.${attributeName} = ${code.load};`)
+		sbLoad.close()
+
+		let initialization: string | null = hasDefault ? this.getDefaultValueCode(attributeDef.dataType, attributeDef.defaultValues!) : code.initialization
+		members.push(new CsMemberCode(attributeName, code.typeName, initialization, declare, attributeDef.description))
+	}
+
+	private generateContentChoice(choice: SsChoice, occurrence: SsRange, ordered: boolean, members: CsMemberCode[], propertyLookup: CsLookup, sbLoad: IndentedStringBuilder, declare: boolean = true) {
+		let alternatives: SsChoiceAlternative[] = choice.alternatives
+		let choiceName: string = alternatives.map((x) => CsUtil.getIdentifier(x.name, true)).join("Or")
+		let choiceTypeName: string = this.getChoiceTypeName(choice, choiceName)
+
+		let asArray: boolean = !occurrence.isRequired && !occurrence.isOptional
+		if (asArray) {
+			choiceName += "List"
+		}
+		choiceName = propertyLookup.generateName(choiceName)
+		propertyLookup.add(choice, choiceName, choice)
+
+		let variantInitializations: string[] = []
+		let variantLoads: string[] = []
+		for (let alternative of alternatives) {
+			let variantTypeName: string = this.typeLookup.getName(alternative)
+			if (alternative.isElement) {
+				let elementTypeName: string = this.getElementTypeName(alternative.elementDef!)
+				variantInitializations.push(`new ${variantTypeName}(new ${elementTypeName}())`)
+				variantLoads.push(`new ${variantTypeName}(${elementTypeName}.Load((SmlElement)sCurNode))`)
+			} else {
+				let code: CsPropertyCode = this.getAttributeDataTypePropertyCode(alternative.attributeDef!.dataType, false, false)
+				let valueInitialization: string = code.initialization ?? (code.typeName.endsWith("?") ? "null" : `default(${code.typeName})`)
+				variantInitializations.push(`new ${variantTypeName}(${valueInitialization})`)
+				variantLoads.push(`new ${variantTypeName}(${code.load})`)
+			}
+		}
+		let typeName: string = choiceTypeName
+		let initialization: string | null = variantInitializations[0]
+		if (occurrence.isOptional) {
+			typeName += "?"
+			initialization = null
+		} else if (asArray) {
+			typeName = `List<${typeName}>`
+			initialization = `new ${typeName}()`
+		}
+
+		let elementNamesStr: string = CsUtil.getStringArrayCode(alternatives.filter((x) => x.isElement).map((x) => x.name))
+		let attributeNamesStr: string = CsUtil.getStringArrayCode(alternatives.filter((x) => !x.isElement).map((x) => x.name))
+		let source: string = ordered ? "reader.ChoiceNodes(" : "SmlLoadUtils.ChoiceNodes(sElement, "
+		sbLoad.open(`foreach (SmlNode sCurNode in ${source}${elementNamesStr}, ${attributeNamesStr}, ${this.getRangeArgumentsStr(occurrence)}))`)
+		for (let i=0; i<alternatives.length; i++) {
+			let condition: string = `SmlLoadUtils.Is${alternatives[i].isElement ? "Element" : "Attribute"}(sCurNode, ${CsUtil.escapeString(alternatives[i].name)})`
+			if (i === 0) {
+				sbLoad.open(`if (${condition})`)
+			} else {
+				sbLoad.closeAndOpen(`else if (${condition})`)
+			}
+			if (!alternatives[i].isElement) {
+				sbLoad.appendLine(`SmlAttribute sCurAttribute = (SmlAttribute)sCurNode;`)
+			}
+			sbLoad.appendLine(asArray ? `element.${choiceName}.Add(${variantLoads[i]});` : `element.${choiceName} = ${variantLoads[i]};`)
+		}
+		sbLoad.close()
+		sbLoad.close()
+
+		members.push(new CsMemberCode(choiceName, typeName, initialization, declare, null))
+	}
+
+	private getChoiceTypeName(choice: SsChoice, choiceName: string): string {
+		if (this.typeLookup.has(choice)) { return this.typeLookup.getName(choice) }
+		let name: string = this.typeLookup.generateName(choiceName + "Choice")
+		let choiceClass: CsClass = this.document.addClass(name)
+		choiceClass.isAbstract = true
+		choiceClass.docComment = `Choice of ${choice}`
+		this.typeLookup.add(choice, name, choiceClass)
+		for (let alternative of choice.alternatives) {
+			let variantName: string = this.typeLookup.generateName(name + CsUtil.getIdentifier(alternative.name, true))
+			let variantClass: CsClass = this.document.addClass(variantName)
+			variantClass.baseType = name
+			this.typeLookup.add(alternative, variantName, variantClass)
+			let valueTypeName: string = alternative.isElement ? this.getElementTypeName(alternative.elementDef!) : this.getAttributeDataTypePropertyCode(alternative.attributeDef!.dataType, false, false).typeName
+			variantClass.addProperty("Value", valueTypeName)
+			variantClass.setConstructor([new CsParameter("value", valueTypeName)]).code.
+				appendLine(`Value = value;`)
+		}
+		return name
+	}
+
+	private getElementTypeName(elementDef: SsElementDef): string {
+		if (!this.typeLookup.has(elementDef)) {
+			let suffix: string = elementDef === this.rootElementDef ? "Document" : "Element"
+			this.typeLookup.add(elementDef, this.typeLookup.generateName(elementDef.name + suffix), elementDef)
+		}
+		return this.typeLookup.getName(elementDef)
+	}
+
+	generateElement(elementDef: SsElementDef) {
+		let isRootElement: boolean = elementDef === this.rootElementDef
+		let baseName: string | null = elementDef.baseElementDef === null ? null : this.getElementTypeName(elementDef.baseElementDef)
+		let name: string = this.getElementTypeName(elementDef)
+		let elementClass: CsClass = this.document.addClass(name)
+		elementClass.baseType = baseName
+		elementClass.docComment = elementDef.description
+
+		let propertyLookup: CsLookup = new CsLookup(true)
+		for (let reservedName of [name, "Load", "Parse"]) {
+			propertyLookup.add(reservedName, reservedName, reservedName)
+		}
+		let members: CsMemberCode[] = []
+		let sbLoad: IndentedStringBuilder = new IndentedStringBuilder(true)
+		if (elementDef.content instanceof SsUnorderedContent) {
+			let unorderedContent: SsUnorderedContent = elementDef.content as SsUnorderedContent
+			let choiceAlternatives: SsChoiceAlternative[] = unorderedContent.unorderedChoices.flatMap((x) => x.choice.alternatives)
+			let elementNames: string[] = unorderedContent.unorderedElements.map((x) => x.elementDef.name)
+			elementNames.push(...choiceAlternatives.filter((x) => x.isElement).map((x) => x.name))
+			let attributeNames: string[] = unorderedContent.unorderedAttributes.map((x) => x.attributeDef.name)
+			attributeNames.push(...choiceAlternatives.filter((x) => !x.isElement).map((x) => x.name))
+			sbLoad.appendLine(`SmlLoadUtils.AssureNames(sElement, ${CsUtil.getStringArrayCode(elementNames)}, ${CsUtil.getStringArrayCode(attributeNames)});`)
+
+			let ownItems: (SsUnorderedElement | SsUnorderedAttribute | SsUnorderedChoice)[] = [...unorderedContent.ownUnorderedElements, ...unorderedContent.ownUnorderedAttributes, ...unorderedContent.ownUnorderedChoices]
+			for (let item of this.getUnorderedItems(elementDef)) {
+				let declare: boolean = ownItems.includes(item)
+				if (item instanceof SsUnorderedElement) {
+					this.generateContentElement(item.elementDef, item.occurrence, false, members, propertyLookup, sbLoad, declare)
+				} else if (item instanceof SsUnorderedAttribute) {
+					this.generateContentAttribute(item.attributeDef, item.occurrence, false, members, propertyLookup, sbLoad, declare)
+				} else {
+					this.generateContentChoice(item.choice, item.occurrence, false, members, propertyLookup, sbLoad, declare)
+				}
+			}
+		} else if (elementDef.content instanceof SsOrderedContent) {
+			let orderedContent: SsOrderedContent = elementDef.content as SsOrderedContent
+			this.generateNodeReaderClass()
+			sbLoad.appendLine(`SmlNodeReader reader = new SmlNodeReader(sElement);`)
+			for (let item of orderedContent.items) {
+				if (item instanceof SsOrderedElement) {
+					let orderedElement: SsOrderedElement = item as SsOrderedElement
+					this.generateContentElement(orderedElement.elementDef, orderedElement.occurrence, true, members, propertyLookup, sbLoad)
+				} else if (item instanceof SsOrderedChoice) {
+					let orderedChoice: SsOrderedChoice = item as SsOrderedChoice
+					this.generateContentChoice(orderedChoice.choice, orderedChoice.occurrence, true, members, propertyLookup, sbLoad)
+				} else {
+					let orderedAttribute: SsOrderedAttribute = item as SsOrderedAttribute
+					this.generateContentAttribute(orderedAttribute.attributeDef, orderedAttribute.occurrence, true, members, propertyLookup, sbLoad)
+				}
+			}
+			sbLoad.appendLine(`reader.AssureEnd();`)
+		} else if (elementDef.content instanceof SsListContent) {
+			let listContent: SsListContent = elementDef.content as SsListContent
+			if (listContent.isElementList) {
+				sbLoad.appendLine(`SmlLoadUtils.AssureNames(sElement, ${CsUtil.getStringArrayCode([listContent.listElementDef!.name])}, ${CsUtil.getStringArrayCode([])});`)
+				this.generateContentElement(listContent.listElementDef!, listContent.occurrence, false, members, propertyLookup, sbLoad)
+			} else {
+				sbLoad.appendLine(`SmlLoadUtils.AssureNames(sElement, ${CsUtil.getStringArrayCode([])}, ${CsUtil.getStringArrayCode([listContent.listAttributeDef!.name])});`)
+				this.generateContentAttribute(listContent.listAttributeDef!, listContent.occurrence, false, members, propertyLookup, sbLoad)
+			}
+		}
+
+		let inheritedNames: string[] = elementDef.baseElementDef === null ? [] : this.memberNames.get(elementDef.baseElementDef) ?? []
+		for (let member of members.filter((x) => x.declared)) {
+			let property: CsProperty = elementClass.addProperty(member.name, member.typeName, member.initialization)
+			property.docComment = member.description
+			property.isNew = inheritedNames.includes(member.name)
+		}
+		this.memberNames.set(elementDef, members.map((x) => x.name))
+		let loadMethod: CsMethod = elementClass.addStaticMethod("Load", [new CsParameter("sElement", "SmlElement")], name)
+		loadMethod.isNew = baseName !== null
+		loadMethod.code.
+			appendLine(`SmlLoadUtils.AssureName(sElement, ${CsUtil.escapeString(elementDef.name)});`).
+			appendLine(`${name} element = new ${name}();`).
+			appendLines(sbLoad.toString()).
+			appendLine(`return element;`)
+
+		if (isRootElement) {
+			elementClass.addStaticMethod("Parse", [new CsParameter("content", "string")], name).code.
+				appendLine(`SmlDocument sDocument = SmlDocument.Parse(content);`).
+				appendLine(`return Load(sDocument.Root);`)
+		}
+	}
+
+	generateValueType(valueTypeDef: SsValueTypeDef, definitions: SsDefinitions) {
+		let utilsClass: CsClass = this.getValueTypeUtilsClass()
+		if (valueTypeDef instanceof SsEnumTypeDef) {
+			let enumTypeDef: SsEnumTypeDef = valueTypeDef as SsEnumTypeDef
+			let name: string = this.typeLookup.generateName(enumTypeDef.name + "Enum")
+			let csEnum: CsEnum = this.document.addEnum(name)
+			csEnum.docComment = enumTypeDef.description
+			this.typeLookup.add(enumTypeDef, name, csEnum)
+			let valueLookup: CsLookup = new CsLookup(true)
+			this.enumValueLookups.set(enumTypeDef, valueLookup)
+			for (let value of enumTypeDef.values) {
+				let valueName: string = valueLookup.generateName(value)
+				valueLookup.add(value, valueName, value)
+				csEnum.addValue(valueName).docComment = enumTypeDef.getValueDescription(value)
+			}
+
+			let parseMethod: CsMethod = utilsClass.addStaticMethod(`Parse${name}`, [new CsParameter("value", "string")], name)
+			for (let value of enumTypeDef.values) {
+				parseMethod.code.
+					open(`if (SmlLoadUtils.HasName(value, ${CsUtil.escapeString(value)}))`).
+						appendLine(`return ${name}.${valueLookup.getName(value)};`).
+					close()
+			}
+			parseMethod.code.appendLine(`throw new SmlLoadException("Value \\"" + value + ${CsUtil.escapeString("\" is not one of " + enumTypeDef.values.join(", "))});`)
+		} else if (valueTypeDef instanceof SsStringTypeDef) {
+			let stringTypeDef: SsStringTypeDef = valueTypeDef as SsStringTypeDef
+			let name: string = this.typeLookup.generateName(stringTypeDef.name + "Type")
+			this.typeLookup.add(stringTypeDef, name, utilsClass)
+
+			let getErrorCode = (message: string) => `throw new SmlLoadException("Value \\"" + value + ${CsUtil.escapeString("\" " + message)});`
+			let sbCheck: IndentedStringBuilder = new IndentedStringBuilder(true)
+			if (stringTypeDef.minLength !== null || stringTypeDef.maxLength !== null) {
+				let conditions: string[] = []
+				if (stringTypeDef.minLength !== null) { conditions.push(`length < ${stringTypeDef.minLength}`) }
+				if (stringTypeDef.maxLength !== null) { conditions.push(`length > ${stringTypeDef.maxLength}`) }
+				sbCheck.appendLine(`int length = value.Length - value.Count((c) => char.IsLowSurrogate(c));`).
+					open(`if (${conditions.join(" || ")})`).
+						appendLine(`throw new SmlLoadException("Value \\"" + value + "\\" has a length of " + length + ${CsUtil.escapeString(` but ${stringTypeDef.name} expects ${new SsRange(stringTypeDef.minLength, stringTypeDef.maxLength)}`)});`).
+					close()
+			}
+			if (stringTypeDef.pattern !== null) {
+				sbCheck.open(`if (!Regex.IsMatch(value, ${CsUtil.escapeString(stringTypeDef.patternRegExpSource!)}))`).
+					appendLine(getErrorCode(`does not match the pattern of ${stringTypeDef.name}`)).
+				close()
+			}
+			if (stringTypeDef.characterClasses !== null) {
+				sbCheck.open(`if (!Regex.IsMatch(value, ${CsUtil.escapeString(stringTypeDef.charactersRegExpSource!)}))`).
+					appendLine(getErrorCode(`contains characters not allowed by ${stringTypeDef.name}`)).
+				close()
+			}
+			if (stringTypeDef.whitespace !== SsWhitespaceRule.Preserve) {
+				sbCheck.open(`if (value != value.Trim())`).
+					appendLine(getErrorCode(`has leading or trailing whitespace not allowed by ${stringTypeDef.name}`)).
+				close()
+			}
+			if (stringTypeDef.whitespace === SsWhitespaceRule.Collapsed) {
+				sbCheck.open(`if (Regex.IsMatch(value, @"\\s\\s"))`).
+					appendLine(getErrorCode(`has consecutive whitespace not allowed by ${stringTypeDef.name}`)).
+				close()
+			}
+			sbCheck.appendLine(`return value;`)
+
+			utilsClass.addStaticMethod(`Parse${name}`, [new CsParameter("value", "string")], "string").code.
+				appendLines(sbCheck.toString())
+		} else if (valueTypeDef instanceof SsNumberTypeDef) {
+			let numberTypeDef: SsNumberTypeDef = valueTypeDef as SsNumberTypeDef
+			let name: string = this.typeLookup.generateName(numberTypeDef.name + "Type")
+			this.typeLookup.add(numberTypeDef, name, utilsClass)
+
+			let typeName: string = this.getPredefinedTypeString(numberTypeDef.baseType)
+			let sbCheck: IndentedStringBuilder = new IndentedStringBuilder(true)
+			sbCheck.appendLine(`${typeName} result = ${this.getPredefinedTypeParseMethod(numberTypeDef.baseType)}(value);`)
+			let conditions: string[] = []
+			if (numberTypeDef.min !== null) { conditions.push(`result ${numberTypeDef.minExclusive ? "<=" : "<"} ${numberTypeDef.min}`) }
+			if (numberTypeDef.max !== null) { conditions.push(`result ${numberTypeDef.maxExclusive ? ">=" : ">"} ${numberTypeDef.max}`) }
+			if (conditions.length > 0) {
+				sbCheck.open(`if (${conditions.join(" || ")})`).
+					appendLine(`throw new SmlLoadException("Value " + value + ${CsUtil.escapeString(` is out of range of ${numberTypeDef.name} which expects ${numberTypeDef.getRangeString()}`)});`).
+				close()
+			}
+			if (numberTypeDef.step !== null) {
+				sbCheck.appendLine(`double quotient = (result - ${numberTypeDef.min ?? 0}) / ${CsUtil.getDoubleLiteral(numberTypeDef.step)};`).
+					open(`if (Math.Abs(quotient - Math.Round(quotient)) > 1e-9)`).
+						appendLine(`throw new SmlLoadException("Value " + value + ${CsUtil.escapeString(` is not a multiple of step ${numberTypeDef.step} of ${numberTypeDef.name}`)});`).
+					close()
+			}
+			if (numberTypeDef.decimalPlaces !== null && numberTypeDef.baseType === SsPredefinedType.Number) {
+				sbCheck.open(`if (Math.Round(result, ${numberTypeDef.decimalPlaces}) != result)`).
+					appendLine(`throw new SmlLoadException("Value " + value + ${CsUtil.escapeString(` has more than ${numberTypeDef.decimalPlaces} decimal places allowed by ${numberTypeDef.name}`)});`).
+				close()
+			}
+			sbCheck.appendLine(`return result;`)
+
+			utilsClass.addStaticMethod(`Parse${name}`, [new CsParameter("value", "string")], typeName).code.
+				appendLines(sbCheck.toString())
+		} else {
+			throw new Error("TODO")
+		}
+	}
+
+	private generateStructValue(value: SsStructValue, valueIndex: number, structClass: CsClass, propertyLookup: CsLookup, sbLoad: IndentedStringBuilder) {
+		let name: string = propertyLookup.generateName(value.name)
+		propertyLookup.add(value, name, value)
+
+		let typeName: string = this.getElementalTypeString(value.predefinedType, value.valueTypeDef)
+		let initialization: string | null = this.getElementalInitialization(value.predefinedType, value.valueTypeDef)
+		let hasDefault: boolean = value.defaultValue !== null
+		if (value.nullable || (value.optional && !hasDefault)) {
+			typeName += "?"
+			initialization = null
+		}
+		if (hasDefault) {
+			initialization = this.getElementalLiteralCode(value.predefinedType, value.valueTypeDef, value.defaultValue!)
+		}
+		structClass.addProperty(name, typeName, initialization).docComment = value.description
+
+		let valueStr: string = `values[index+${valueIndex}]`
+		let loadCode: string
+		if (value.nullable) {
+			loadCode = this.getElementalNullableParseCode(value.predefinedType, value.valueTypeDef, valueStr)
+		} else {
+			loadCode = this.getElementalParseCode(value.predefinedType, value.valueTypeDef, `SmlLoadUtils.NotNull(${valueStr})`)
+		}
+		if (value.optional) {
+			sbLoad.open(`if (count > ${valueIndex})`)
+			sbLoad.appendLine(`result.${name} = ${loadCode};`)
+			sbLoad.close()
+		} else {
+			sbLoad.appendLine(`result.${name} = ${loadCode};`)
+		}
+	}
+
+	generateStruct(structDef: SsStructDef, definitions: SsDefinitions) {
+		let name: string = this.typeLookup.generateName(structDef.name + "Struct")
+		let structClass: CsClass = this.document.addClass(name)
+		structClass.docComment = structDef.description
+		this.typeLookup.add(structDef, name, structClass)
+
+		let propertyLookup: CsLookup = new CsLookup(true)
+		for (let reservedName of [name, "Load", "LoadArray", "LoadValues"]) {
+			propertyLookup.add(reservedName, reservedName, reservedName)
+		}
+		let sbLoad: IndentedStringBuilder = new IndentedStringBuilder(true)
+		let values: SsStructValue[] = structDef.values
+		for (let i=0; i<values.length; i++) {
+			this.generateStructValue(values[i], i, structClass, propertyLookup, sbLoad)
+		}
+		let size: number = values.length
+		let requiredCount: number = values.filter((x) => !x.optional).length
+
+		structClass.addStaticMethod("Load", [new CsParameter("sAttribute", "SmlAttribute")], name).code.
+			appendLine(`SmlLoadUtils.AssureValueCount(sAttribute, ${requiredCount}, ${size});`).
+			appendLine(`return LoadValues(sAttribute.Values, 0, sAttribute.Values.Length);`)
+
+		structClass.addStaticMethod("LoadArray", [new CsParameter("sAttribute", "SmlAttribute"), new CsParameter("min", "int"), new CsParameter("max", "int?")], `${name}[]`).code.
+			open(`if (sAttribute.Values.Length % ${size} != 0)`).
+				appendLine(`throw new SmlLoadException("Value count of attribute \\"" + sAttribute.Name + "\\" is not a multiple of ${size}");`).
+			close().
+			appendLine(`int count = sAttribute.Values.Length / ${size};`).
+			open(`if (count < min || (max != null && count > max))`).
+				appendLine(`throw new SmlLoadException("Attribute \\"" + sAttribute.Name + "\\" has " + count + " array items but expected " + min + ".." + (max == null ? "N" : max.ToString()));`).
+			close().
+			appendLine(`${name}[] structs = new ${name}[count];`).
+			open(`for (int i=0; i<count; i++)`).
+				appendLine(`structs[i] = LoadValues(sAttribute.Values, i*${size}, ${size});`).
+			close().
+			appendLine(`return structs;`)
+
+		structClass.addStaticMethod("LoadValues", [new CsParameter("values", "string?[]"), new CsParameter("index", "int"), new CsParameter("count", "int")], name).code.
+			appendLine(`${name} result = new ${name}();`).
+			appendLines(sbLoad.toString()).
+			appendLine(`return result;`)
+	}
+
+	private getValueTypeUtilsClass(): CsClass {
+		if (this.utilsClass === null) {
+			this.utilsClass = this.document.addClass("ValueTypeUtils")
+			this.utilsClass.isStatic = true
+		}
+		return this.utilsClass
+	}
+
+	private generateNodeReaderClass() {
+		if (this.nodeReaderGenerated) { return }
+		this.nodeReaderGenerated = true
+
+		let readerClass: CsClass = this.document.addClass("SmlNodeReader")
+		readerClass.isPublic = false
+		readerClass.addField("element", "SmlElement").isReadonly = true
+		readerClass.addField("nodes", "List<SmlNode>").isReadonly = true
+		readerClass.addField("index", "int", "0")
+
+		readerClass.setConstructor([new CsParameter("element", "SmlElement")]).code.
+			appendLine(`this.element = element;`).
+			appendLine(`nodes = element.Nodes.Where((x) => x is SmlElement || x is SmlAttribute).ToList();`)
+
+		let nodesMethod: CsMethod = readerClass.addMethod("Nodes", [new CsParameter("isMatch", "Func<SmlNode, bool>"), new CsParameter("min", "int"), new CsParameter("max", "int?"), new CsParameter("description", "string")], "List<SmlNode>")
+		nodesMethod.isPrivate = true
+		nodesMethod.code.
+			appendLine(`List<SmlNode> result = new List<SmlNode>();`).
+			open(`while (index < nodes.Count && (max == null || result.Count < max) && isMatch(nodes[index]))`).
+				appendLine(`result.Add(nodes[index]);`).
+				appendLine(`index++;`).
+			close().
+			open(`if (result.Count < min)`).
+				appendLine(`throw new SmlLoadException("Element \\"" + element.Name + "\\" must contain " + min + ".." + (max == null ? "N" : max.ToString()) + " " + description + " at this position but has " + result.Count);`).
+			close().
+			appendLine(`return result;`)
+
+		readerClass.addMethod("Elements", [new CsParameter("name", "string"), new CsParameter("min", "int"), new CsParameter("max", "int?")], "IEnumerable<SmlElement>").code.
+			appendLine(`return Nodes((x) => SmlLoadUtils.IsElement(x, name), min, max, "elements \\"" + name + "\\"").Cast<SmlElement>();`)
+
+		readerClass.addMethod("Attributes", [new CsParameter("name", "string"), new CsParameter("min", "int"), new CsParameter("max", "int?")], "IEnumerable<SmlAttribute>").code.
+			appendLine(`return Nodes((x) => SmlLoadUtils.IsAttribute(x, name), min, max, "attributes \\"" + name + "\\"").Cast<SmlAttribute>();`)
+
+		readerClass.addMethod("ChoiceNodes", [new CsParameter("elementNames", "string[]"), new CsParameter("attributeNames", "string[]"), new CsParameter("min", "int"), new CsParameter("max", "int?")], "IEnumerable<SmlNode>").code.
+			appendLine(`return Nodes((x) => SmlLoadUtils.IsChoiceNode(x, elementNames, attributeNames), min, max, "nodes of the choice " + string.Join(", ", elementNames.Concat(attributeNames)));`)
+
+		readerClass.addMethod("AssureEnd", [], "void").code.
+			open(`if (index < nodes.Count)`).
+				appendLine(`SmlNode node = nodes[index];`).
+				appendLine(`string name = node is SmlElement ? ((SmlElement)node).Name : ((SmlAttribute)node).Name;`).
+				appendLine(`throw new SmlLoadException("Unexpected node \\"" + name + "\\" in element \\"" + element.Name + "\\"");`).
+			close()
+	}
+
+	private generateLoadUtilsClass() {
+		let exceptionClass: CsClass = this.document.addClass("SmlLoadException")
+		exceptionClass.baseType = "Exception"
+		let exceptionConstructor: CsConstructor = exceptionClass.setConstructor([new CsParameter("message", "string")])
+		exceptionConstructor.baseArguments = ["message"]
+
+		let utilsClass: CsClass = this.document.addClass("SmlLoadUtils")
+		utilsClass.isPublic = false
+		utilsClass.isStatic = true
+
+		utilsClass.addStaticMethod("HasName", [new CsParameter("name", "string"), new CsParameter("expectedName", "string")], "bool").code.
+			appendLine(`return string.Equals(name, expectedName, StringComparison.OrdinalIgnoreCase);`)
+
+		utilsClass.addStaticMethod("IsElement", [new CsParameter("node", "SmlNode"), new CsParameter("name", "string")], "bool").code.
+			appendLine(`return node is SmlElement && HasName(((SmlElement)node).Name, name);`)
+
+		utilsClass.addStaticMethod("IsAttribute", [new CsParameter("node", "SmlNode"), new CsParameter("name", "string")], "bool").code.
+			appendLine(`return node is SmlAttribute && HasName(((SmlAttribute)node).Name, name);`)
+
+		utilsClass.addStaticMethod("IsChoiceNode", [new CsParameter("node", "SmlNode"), new CsParameter("elementNames", "string[]"), new CsParameter("attributeNames", "string[]")], "bool").code.
+			appendLine(`return elementNames.Any((x) => IsElement(node, x)) || attributeNames.Any((x) => IsAttribute(node, x));`)
+
+		utilsClass.addStaticMethod("AssureName", [new CsParameter("sElement", "SmlElement"), new CsParameter("name", "string")], "void").code.
+			open(`if (!HasName(sElement.Name, name))`).
+				appendLine(`throw new SmlLoadException("Element with name \\"" + name + "\\" expected but found \\"" + sElement.Name + "\\"");`).
+			close()
+
+		utilsClass.addStaticMethod("AssureNames", [new CsParameter("sElement", "SmlElement"), new CsParameter("elementNames", "string[]"), new CsParameter("attributeNames", "string[]")], "void").code.
+			open(`foreach (SmlNode node in sElement.Nodes)`).
+				open(`if (node is SmlElement && !elementNames.Any((x) => IsElement(node, x)))`).
+					appendLine(`throw new SmlLoadException("Element \\"" + sElement.Name + "\\" contains the unexpected element \\"" + ((SmlElement)node).Name + "\\"");`).
+				closeAndOpen(`else if (node is SmlAttribute && !attributeNames.Any((x) => IsAttribute(node, x)))`).
+					appendLine(`throw new SmlLoadException("Element \\"" + sElement.Name + "\\" contains the unexpected attribute \\"" + ((SmlAttribute)node).Name + "\\"");`).
+				close().
+			close()
+
+		utilsClass.addStaticMethod("AssureCount", [new CsParameter("sElement", "SmlElement"), new CsParameter("count", "int"), new CsParameter("min", "int"), new CsParameter("max", "int?"), new CsParameter("description", "string")], "void").code.
+			open(`if (count < min || (max != null && count > max))`).
+				appendLine(`throw new SmlLoadException("Element \\"" + sElement.Name + "\\" must contain " + min + ".." + (max == null ? "N" : max.ToString()) + " " + description + " but has " + count);`).
+			close()
+
+		utilsClass.addStaticMethod("Elements", [new CsParameter("sElement", "SmlElement"), new CsParameter("name", "string"), new CsParameter("min", "int"), new CsParameter("max", "int?")], "List<SmlElement>").code.
+			appendLine(`List<SmlElement> result = sElement.Nodes.Where((x) => IsElement(x, name)).Cast<SmlElement>().ToList();`).
+			appendLine(`AssureCount(sElement, result.Count, min, max, "elements \\"" + name + "\\"");`).
+			appendLine(`return result;`)
+
+		utilsClass.addStaticMethod("Attributes", [new CsParameter("sElement", "SmlElement"), new CsParameter("name", "string"), new CsParameter("min", "int"), new CsParameter("max", "int?")], "List<SmlAttribute>").code.
+			appendLine(`List<SmlAttribute> result = sElement.Nodes.Where((x) => IsAttribute(x, name)).Cast<SmlAttribute>().ToList();`).
+			appendLine(`AssureCount(sElement, result.Count, min, max, "attributes \\"" + name + "\\"");`).
+			appendLine(`return result;`)
+
+		utilsClass.addStaticMethod("ChoiceNodes", [new CsParameter("sElement", "SmlElement"), new CsParameter("elementNames", "string[]"), new CsParameter("attributeNames", "string[]"), new CsParameter("min", "int"), new CsParameter("max", "int?")], "List<SmlNode>").code.
+			appendLine(`List<SmlNode> result = sElement.Nodes.Where((x) => IsChoiceNode(x, elementNames, attributeNames)).ToList();`).
+			appendLine(`AssureCount(sElement, result.Count, min, max, "nodes of the choice " + string.Join(", ", elementNames.Concat(attributeNames)));`).
+			appendLine(`return result;`)
+
+		utilsClass.addStaticMethod("AssureValueCount", [new CsParameter("sAttribute", "SmlAttribute"), new CsParameter("min", "int"), new CsParameter("max", "int?")], "void").code.
+			appendLine(`int count = sAttribute.Values.Length;`).
+			open(`if (count < min || (max != null && count > max))`).
+				appendLine(`throw new SmlLoadException("Attribute \\"" + sAttribute.Name + "\\" must have " + min + ".." + (max == null ? "N" : max.ToString()) + " values but has " + count);`).
+			close()
+
+		utilsClass.addStaticMethod("IsNullValue", [new CsParameter("sAttribute", "SmlAttribute")], "bool").code.
+			appendLine(`return sAttribute.Values.Length == 1 && sAttribute.Values[0] == null;`)
+
+		utilsClass.addStaticMethod("NotNull", [new CsParameter("value", "string?")], "string").code.
+			open(`if (value == null)`).
+				appendLine(`throw new SmlLoadException("Value must not be null");`).
+			close().
+			appendLine(`return value;`)
+
+		utilsClass.addStaticMethod("GetValue", [new CsParameter("sAttribute", "SmlAttribute")], "string").code.
+			appendLine(`AssureValueCount(sAttribute, 1, 1);`).
+			appendLine(`return NotNull(sAttribute.Values[0]);`)
+
+		utilsClass.addStaticMethod("GetNullableValue", [new CsParameter("sAttribute", "SmlAttribute")], "string?").code.
+			appendLine(`AssureValueCount(sAttribute, 1, 1);`).
+			appendLine(`return sAttribute.Values[0];`)
+
+		utilsClass.addStaticMethod("GetValues", [new CsParameter("sAttribute", "SmlAttribute"), new CsParameter("min", "int"), new CsParameter("max", "int?")], "string[]").code.
+			appendLine(`AssureValueCount(sAttribute, min, max);`).
+			appendLine(`return sAttribute.Values.Select((x) => NotNull(x)).ToArray();`)
+
+		utilsClass.addStaticMethod("GetNullableValues", [new CsParameter("sAttribute", "SmlAttribute"), new CsParameter("min", "int"), new CsParameter("max", "int?")], "string?[]").code.
+			appendLine(`AssureValueCount(sAttribute, min, max);`).
+			appendLine(`return sAttribute.Values;`)
+
+		for (let [kindStr, constraint] of [["Value", "struct"], ["Object", "class"]]) {
+			let parseMethod: CsMethod = utilsClass.addStaticMethod(`ParseNullable${kindStr}<T>`, [new CsParameter("value", "string?"), new CsParameter("parse", "Func<string, T>")], "T?")
+			parseMethod.constraint = `where T : ${constraint}`
+			parseMethod.code.appendLine(`return value == null ? null : parse(value);`)
+		}
+
+		utilsClass.addStaticMethod("ParseBool", [new CsParameter("value", "string")], "bool").code.
+			open(`if (HasName(value, "true"))`).
+				appendLine(`return true;`).
+			closeAndOpen(`else if (HasName(value, "false"))`).
+				appendLine(`return false;`).
+			close().
+			appendLine(`throw new SmlLoadException("Value \\"" + value + "\\" is not a valid Bool");`)
+
+		for (let [methodName, pattern, typeName] of [["ParseInt", "^[-+]?[0-9]+$", "Int"], ["ParseUInt", "^[+]?[0-9]+$", "UInt"]]) {
+			utilsClass.addStaticMethod(methodName, [new CsParameter("value", "string")], "long").code.
+				appendLine(`long result;`).
+				open(`if (!Regex.IsMatch(value, ${CsUtil.escapeString(pattern)}) || !long.TryParse(value, NumberStyles.AllowLeadingSign, CultureInfo.InvariantCulture, out result))`).
+					appendLine(`throw new SmlLoadException("Value \\"" + value + "\\" is not a valid ${typeName}");`).
+				close().
+				appendLine(`return result;`)
+		}
+
+		utilsClass.addStaticMethod("ParseNumber", [new CsParameter("value", "string")], "double").code.
+			appendLine(`double result;`).
+			open(`if (!Regex.IsMatch(value, ${CsUtil.escapeString("^[-+]?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?$")}) || !double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out result))`).
+				appendLine(`throw new SmlLoadException("Value \\"" + value + "\\" is not a valid Number");`).
+			close().
+			appendLine(`return result;`)
+
+		utilsClass.addStaticMethod("ParseDate", [new CsParameter("value", "string")], "DateTime").code.
+			appendLine(`DateTime result;`).
+			open(`if (!DateTime.TryParseExact(value, "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out result))`).
+				appendLine(`throw new SmlLoadException("Value \\"" + value + "\\" is not a valid Date");`).
+			close().
+			appendLine(`return result;`)
+
+		utilsClass.addStaticMethod("ParseTime", [new CsParameter("value", "string")], "TimeSpan").code.
+			appendLine(`TimeSpan result;`).
+			open(`if (!TimeSpan.TryParseExact(value, new string[] { @"hh\\:mm", @"hh\\:mm\\:ss", @"hh\\:mm\\:ss\\.FFFFFFF" }, CultureInfo.InvariantCulture, out result))`).
+				appendLine(`throw new SmlLoadException("Value \\"" + value + "\\" is not a valid Time");`).
+			close().
+			appendLine(`return result;`)
+
+		utilsClass.addStaticMethod("ParseDateTime", [new CsParameter("value", "string")], "DateTimeOffset").code.
+			appendLine(`DateTimeOffset result;`).
+			open(`if (!DateTimeOffset.TryParse(value, CultureInfo.InvariantCulture, DateTimeStyles.AssumeUniversal, out result))`).
+				appendLine(`throw new SmlLoadException("Value \\"" + value + "\\" is not a valid DateTime");`).
+			close().
+			appendLine(`return result;`)
+
+		utilsClass.addStaticMethod("ParseBase64", [new CsParameter("value", "string")], "byte[]").code.
+			open(`try`).
+				appendLine(`return Convert.FromBase64String(value);`).
+			closeAndOpen(`catch (FormatException)`).
+				appendLine(`throw new SmlLoadException("Value \\"" + value + "\\" is not a valid Base64 string");`).
+			close()
+	}
+
+	begin(schema: SmlSchema) {
+		this.rootElementDef = schema.hasRootElement ? schema.getRootElement() : null
+		this.document = new CsDocument(this.options.namespaceName)
+		this.typeLookup = new CsLookup(true)
+		this.enumValueLookups.clear()
+		this.memberNames.clear()
+		this.utilsClass = null
+		this.nodeReaderGenerated = false
+		for (let namespaceName of ["System", "System.Collections.Generic", "System.Globalization", "System.Linq", "System.Text.RegularExpressions", this.options.smlNamespaceName]) {
+			this.document.addUsing(namespaceName)
+		}
+		for (let reservedName of ["SmlLoadException", "SmlLoadUtils", "SmlNodeReader", "ValueTypeUtils"]) {
+			this.typeLookup.add(reservedName, reservedName, reservedName)
+		}
+
+		this.generateLoadUtilsClass()
+	}
+
+	end(): string {
+		return this.document.toString()
+	}
+}
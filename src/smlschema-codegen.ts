@@ -1,7 +1,7 @@
 ﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
 
-import { SmlSchema, SsAttributeDataType, SsDefinitions, SsElementDef, SsEnumTypeDef, SsPredefinedType, SsPredefinedTypeUtil, SsRange, SsStructDef, SsStructValue, SsUnorderedAttribute, SsUnorderedContent, SsUnorderedElement, SsValueTypeDef } from "./smlschema.js";
-import { IndentedStringBuilder, TsClass, TsClassMethod, TsDocument, TsEnum, TsLookup, TsUtil } from "./tscodegen.js";
+import { SmlSchema, SsAttributeDataType, SsAttributeDef, SsChoice, SsChoiceAlternative, SsDefinitions, SsElementDef, SsEnumTypeDef, SsListContent, SsNumberTypeDef, SsOrderedAttribute, SsOrderedChoice, SsOrderedContent, SsOrderedElement, SsPredefinedType, SsPredefinedTypeUtil, SsRange, SsStringTypeDef, SsStructDef, SsStructValue, SsUnorderedAttribute, SsUnorderedChoice, SsUnorderedContent, SsUnorderedElement, SsValueTypeDef, SsWhitespaceRule } from "./smlschema.js";
+import { IndentedStringBuilder, TsClass, TsClassMethod, TsDocument, TsEnum, TsInterface, TsLookup, TsParameter, TsProperty, TsTypeAlias, TsUtil } from "./tscodegen.js";
 
 // ----------------------------------------------------------------------
 
@@ -19,15 +19,239 @@ class TsPropertyCode {
 
 // ----------------------------------------------------------------------
 
+class TsMemberCode {
+	readonly name: string
+	readonly typeName: string
+	readonly initialization: string
+	readonly declared: boolean
+	readonly description: string | null
+
+	constructor(name: string, typeName: string, initialization: string, declared: boolean, description: string | null) {
+		this.name = name
+		this.typeName = typeName
+		this.initialization = initialization
+		this.declared = declared
+		this.description = description
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export enum SmlSchemaCodeGenTarget {
+	Classes,
+	Interfaces
+}
+
+// ----------------------------------------------------------------------
+
+export class SmlSchemaCodeGenOptions {
+	target: SmlSchemaCodeGenTarget = SmlSchemaCodeGenTarget.Classes
+	enumsAsStringUnions: boolean = false
+	generateTryLoad: boolean = false
+}
+
+// ----------------------------------------------------------------------
+
+export abstract class SmlSchemaCodeGenBackend {
+	abstract begin(schema: SmlSchema): void
+	abstract generateValueType(valueTypeDef: SsValueTypeDef, definitions: SsDefinitions): void
+	abstract generateStruct(structDef: SsStructDef, definitions: SsDefinitions): void
+	abstract generateElement(elementDef: SsElementDef): void
+	abstract end(): string
+
+	protected getUnorderedItems(elementDef: SsElementDef): (SsUnorderedElement | SsUnorderedAttribute | SsUnorderedChoice)[] {
+		let unorderedContent: SsUnorderedContent = elementDef.content as SsUnorderedContent
+		let ownItems: (SsUnorderedElement | SsUnorderedAttribute | SsUnorderedChoice)[] = [...unorderedContent.ownUnorderedElements, ...unorderedContent.ownUnorderedAttributes, ...unorderedContent.ownUnorderedChoices]
+		if (elementDef.baseElementDef === null || elementDef.baseElementDef.content === null) { return ownItems }
+		let result: (SsUnorderedElement | SsUnorderedAttribute | SsUnorderedChoice)[] = this.getUnorderedItems(elementDef.baseElementDef).map((baseItem) => {
+			let ownItem: SsUnorderedElement | SsUnorderedAttribute | SsUnorderedChoice | undefined = undefined
+			if (baseItem instanceof SsUnorderedElement) {
+				ownItem = unorderedContent.ownUnorderedElements.find((x) => x.elementDef.name === baseItem.elementDef.name)
+			} else if (baseItem instanceof SsUnorderedAttribute) {
+				ownItem = unorderedContent.ownUnorderedAttributes.find((x) => x.attributeDef.name === baseItem.attributeDef.name)
+			}
+			return ownItem ?? baseItem
+		})
+		result.push(...ownItems.filter((x) => !result.includes(x)))
+		return result
+	}
+}
+
+// ----------------------------------------------------------------------
+
 export class SmlSchemaCodeGen {
 	private readonly schema: SmlSchema
+	private readonly backend: SmlSchemaCodeGenBackend
+	private readonly generatedDefs: Set<Object> = new Set<Object>()
+
+	constructor(schema: SmlSchema, backend: SmlSchemaCodeGenBackend | SmlSchemaCodeGenOptions = new SmlSchemaCodeGenOptions()) {
+		this.schema = schema
+		this.backend = backend instanceof SmlSchemaCodeGenBackend ? backend : new SmlSchemaTsCodeGenBackend(backend)
+	}
+
+	private generateValueTypes(definitions: SsDefinitions) {
+		for (let valueTypeDef of definitions.valueTypeDefs.values) {
+			if (this.generatedDefs.has(valueTypeDef)) { continue }
+			this.generatedDefs.add(valueTypeDef)
+			this.backend.generateValueType(valueTypeDef, definitions)
+		}
+
+		for (let elementDef of definitions.elementDefs.values) {
+			this.generateValueTypes(elementDef.definitions)
+		}
+	}
+
+	private generateStructs(definitions: SsDefinitions) {
+		for (let structDef of definitions.structDefs.values) {
+			if (this.generatedDefs.has(structDef)) { continue }
+			this.generatedDefs.add(structDef)
+			this.backend.generateStruct(structDef, definitions)
+		}
+
+		for (let elementDef of definitions.elementDefs.values) {
+			this.generateStructs(elementDef.definitions)
+		}
+	}
+
+	private static getReferencedElementDefs(elementDef: SsElementDef): SsElementDef[] {
+		let choices: SsChoice[] = []
+		let result: SsElementDef[] = []
+		if (elementDef.content instanceof SsUnorderedContent) {
+			let unorderedContent: SsUnorderedContent = elementDef.content as SsUnorderedContent
+			result.push(...unorderedContent.ownUnorderedElements.map((x) => x.elementDef))
+			choices.push(...unorderedContent.ownUnorderedChoices.map((x) => x.choice))
+		} else if (elementDef.content instanceof SsOrderedContent) {
+			for (let item of (elementDef.content as SsOrderedContent).items) {
+				if (item instanceof SsOrderedElement) { result.push((item as SsOrderedElement).elementDef) }
+				else if (item instanceof SsOrderedChoice) { result.push(...(item as SsOrderedChoice).choice.alternatives.filter((x) => x.isElement).map((x) => x.elementDef!)) }
+			}
+		} else if (elementDef.content instanceof SsListContent && (elementDef.content as SsListContent).isElementList) {
+			result.push((elementDef.content as SsListContent).listElementDef!)
+		}
+		for (let choice of choices) {
+			result.push(...choice.alternatives.filter((x) => x.isElement).map((x) => x.elementDef!))
+		}
+		return result
+	}
+
+	private generateElement(elementDef: SsElementDef) {
+		if (this.generatedDefs.has(elementDef)) { return }
+		if (elementDef.baseElementDef !== null) { this.generateElement(elementDef.baseElementDef) }
+		this.generatedDefs.add(elementDef)
+		this.backend.generateElement(elementDef)
+
+		this.generateElements(elementDef.definitions)
+		for (let referencedElementDef of SmlSchemaCodeGen.getReferencedElementDefs(elementDef)) {
+			this.generateElement(referencedElementDef)
+		}
+	}
+
+	private generateElements(definitions: SsDefinitions) {
+		for (let elementDef of definitions.elementDefs.values) {
+			this.generateElement(elementDef)
+		}
+	}
+
+	generate(): string {
+		this.generatedDefs.clear()
+		this.backend.begin(this.schema)
+
+		for (let definitions of [this.schema.importedDefinitions, this.schema.definitions]) {
+			this.generateValueTypes(definitions)
+			this.generateStructs(definitions)
+		}
+		this.generateElements(this.schema.importedDefinitions)
+		this.generateElements(this.schema.definitions)
+
+		return this.backend.end()
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SmlSchemaTsCodeGenBackend extends SmlSchemaCodeGenBackend {
+	private readonly options: SmlSchemaCodeGenOptions
+	private rootElementDef: SsElementDef | null = null
 	private document: TsDocument = new TsDocument()
-	private readonly typeLookup: TsLookup = new TsLookup(true)
+	private typeLookup: TsLookup = new TsLookup(true)
 
 	private utilsClass: TsClass | null = null
+	private nodeReaderClass: TsClass | null = null
+	private dateValueClass: TsClass | null = null
+	private timeValueClass: TsClass | null = null
+	private base64Generated: boolean = false
+	private uintGenerated: boolean = false
+	private dateTimeGenerated: boolean = false
+	private readonly generatedArrayMethods: Set<string> = new Set<string>()
 
-	constructor(schema: SmlSchema) {
-		this.schema = schema
+	constructor(options: SmlSchemaCodeGenOptions = new SmlSchemaCodeGenOptions()) {
+		super()
+		this.options = options
+	}
+
+	private get isClassTarget(): boolean {
+		return this.options.target === SmlSchemaCodeGenTarget.Classes
+	}
+
+	private getInstanceStr(parameterName: string): string {
+		return this.isClassTarget ? "this" : parameterName
+	}
+
+	private getNewCode(typeName: string): string {
+		return this.isClassTarget ? `new ${typeName}()` : `create${typeName}()`
+	}
+
+	private getLoadCode(typeName: string, suffix: string, args: string): string {
+		return this.isClassTarget ? `${typeName}.load${suffix}(${args})` : `load${typeName}${suffix}(${args})`
+	}
+
+	private getElementLoadCode(typeName: string, sElementStr: string): string {
+		return this.getLoadCode(typeName, "", this.options.generateTryLoad ? `${sElementStr}, context` : sElementStr)
+	}
+
+	private openGuardedBlock(sb: IndentedStringBuilder) {
+		sb.open(this.options.generateTryLoad ? "try" : "")
+	}
+
+	private closeGuardedBlock(sb: IndentedStringBuilder, sNodeStr: string = "null") {
+		if (this.options.generateTryLoad) {
+			sb.closeAndOpen("catch (error)")
+			sb.appendLine(`SmlLoadContext.handle(context, error, ${sNodeStr})`)
+		}
+		sb.close()
+	}
+
+	private appendGuardedLine(sb: IndentedStringBuilder, line: string, sNodeStr: string = "null") {
+		if (this.options.generateTryLoad) {
+			this.openGuardedBlock(sb)
+			sb.appendLine(line)
+			this.closeGuardedBlock(sb, sNodeStr)
+		} else {
+			sb.appendLine(line)
+		}
+	}
+
+	private getElementSerializeCode(typeName: string, valueStr: string): string {
+		return this.isClassTarget ? `${valueStr}.serialize()` : `serialize${typeName}(${valueStr})`
+	}
+
+	private getStructValuesCode(structName: string, isArray: boolean, valueStr: string): string {
+		if (this.isClassTarget) {
+			return isArray ? `${structName}.arrayToValues(${valueStr})` : `${valueStr}.toValues()`
+		}
+		return isArray ? `get${structName}ArrayValues(${valueStr})` : `get${structName}Values(${valueStr})`
+	}
+
+	private getObjectLiteralCode(members: TsMemberCode[]): string {
+		if (members.length === 0) { return "{}" }
+		let sb: IndentedStringBuilder = new IndentedStringBuilder()
+		sb.open("")
+		for (let i=0; i<members.length; i++) {
+			let commaStr: string = i === members.length - 1 ? "" : ","
+			sb.appendLine(`${members[i].name}: ${members[i].initialization}${commaStr}`)
+		}
+		sb.close()
+		return sb.toString().trimStart()
 	}
 
 	private getPredefinedTypeString(predefinedType: SsPredefinedType): string {
@@ -37,6 +261,9 @@ export class SmlSchemaCodeGen {
 			case SsPredefinedType.UInt:		return "number"
 			case SsPredefinedType.Number:	return "number"
 			case SsPredefinedType.String:	return "string"
+			case SsPredefinedType.Date:		this.generateDateValueClass(); return "DateValue"
+			case SsPredefinedType.Time:		this.generateTimeValueClass(); return "TimeValue"
+			case SsPredefinedType.Base64:	this.generateBase64Utils(); return "Uint8Array"
 			case SsPredefinedType.DateTime:	return "Date"
 			default: throw new Error("Todo "+predefinedType)
 		}
@@ -49,25 +276,107 @@ export class SmlSchemaCodeGen {
 			case SsPredefinedType.UInt:		return "0"
 			case SsPredefinedType.Number:	return "0.0"
 			case SsPredefinedType.String:	return `""`
+			case SsPredefinedType.Date:		return `new DateValue()`
+			case SsPredefinedType.Time:		return `new TimeValue()`
+			case SsPredefinedType.Base64:	return `new Uint8Array(0)`
 			case SsPredefinedType.DateTime:	return `new Date()`
 			default: throw new Error("Todo "+predefinedType)
 		}
 	}
 
+	private getPredefinedTypeParseCodeOrNull(predefinedType: SsPredefinedType, str: string): string | null {
+		switch(predefinedType) {
+			case SsPredefinedType.Date:		return `DateValue.parse(${str})`
+			case SsPredefinedType.Time:		return `TimeValue.parse(${str})`
+			case SsPredefinedType.Base64:	return `ValueTypeUtils.parseBase64(${str})`
+			case SsPredefinedType.DateTime:	this.generateDateTimeUtils(); return `ValueTypeUtils.parseDateTime(${str})`
+			default: return null
+		}
+	}
+
+	private static getSmlValueTypeString(predefinedType: SsPredefinedType): string {
+		switch(predefinedType) {
+			case SsPredefinedType.Bool:		return "Bool"
+			case SsPredefinedType.Int:		return "Int"
+			case SsPredefinedType.UInt:		return "Int"
+			case SsPredefinedType.Number:	return "Float"
+			case SsPredefinedType.String:	return "String"
+			default: throw new Error(`Predefined type ${SsPredefinedTypeUtil.getPredefinedTypeString(predefinedType)} has no SML value accessor`)
+		}
+	}
+
+	private static getMinValueCountString(range: SsRange): string {
+		return range.min === null || range.min < 1 ? "null" : range.min.toString()
+	}
+
+	private static getValueCountRangeString(range: SsRange): string {
+		if ((range.min === null || range.min <= 1) && range.max === null) { return "" }
+		return `${SmlSchemaTsCodeGenBackend.getMinValueCountString(range)}, ${range.max}`
+	}
+
+	private getPredefinedTypeValueLoadCode(predefinedType: SsPredefinedType, attributeStr: string, indexStr: string | null): string {
+		let parseCode: string | null = this.getPredefinedTypeParseCodeOrNull(predefinedType, indexStr === null ? `${attributeStr}.asString()` : `${attributeStr}.getString(${indexStr})`)
+		if (parseCode !== null) { return parseCode }
+		let smlTypeStr: string = SmlSchemaTsCodeGenBackend.getSmlValueTypeString(predefinedType)
+		let loadCode: string = indexStr === null ? `${attributeStr}.as${smlTypeStr}()` : `${attributeStr}.get${smlTypeStr}(${indexStr})`
+		if (predefinedType === SsPredefinedType.UInt) {
+			this.generateUIntUtils()
+			loadCode = `ValueTypeUtils.checkUInt(${loadCode})`
+		}
+		return loadCode
+	}
+
+	private getPredefinedTypeArrayLoadCode(predefinedType: SsPredefinedType, attributeStr: string, nullable: boolean, range: SsRange): string {
+		let rangeStr: string = SmlSchemaTsCodeGenBackend.getValueCountRangeString(range)
+		let nullStr: string = nullable ? "x === null ? null : " : ""
+		let parseCode: string | null = this.getPredefinedTypeParseCodeOrNull(predefinedType, "x")
+		if (parseCode !== null) {
+			return `${attributeStr}.as${(nullable ? "Nullable" : "")}StringArray(${rangeStr}).map((x) => ${nullStr}${parseCode})`
+		}
+		if (predefinedType === SsPredefinedType.String) {
+			return `${attributeStr}.as${(nullable ? "Nullable" : "")}StringArray(${rangeStr})`
+		} else if (!nullable && (predefinedType === SsPredefinedType.Int || predefinedType === SsPredefinedType.Number)) {
+			return `${attributeStr}.as${SmlSchemaTsCodeGenBackend.getSmlValueTypeString(predefinedType)}Array(${rangeStr})`
+		}
+		let methodName: string = `as${(nullable ? "Nullable" : "")}${SsPredefinedTypeUtil.getPredefinedTypeString(predefinedType)}Array`
+		if (!this.generatedArrayMethods.has(methodName)) {
+			this.generatedArrayMethods.add(methodName)
+			let typeName: string = this.getPredefinedTypeString(predefinedType)
+			let parameterStr: string = nullable ? "x, i" : "_, i"
+			this.utilsClass!.addStaticMethod(methodName, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("min", "number | null"), new TsParameter("max", "number | null")], nullable ? `(${typeName} | null)[]` : `${typeName}[]`).code.
+				appendLine(`return sAttribute.as${(nullable ? "Nullable" : "")}StringArray(min, max).map((${parameterStr}) => ${nullStr}${this.getPredefinedTypeValueLoadCode(predefinedType, "sAttribute", "i")})`)
+		}
+		return `ValueTypeUtils.${methodName}(${attributeStr}, ${SmlSchemaTsCodeGenBackend.getMinValueCountString(range)}, ${range.max})`
+	}
+
 	private getValueTypeInitialization(valueTypeDef: SsValueTypeDef, typeName: string): string {
 		if (valueTypeDef instanceof SsEnumTypeDef) {
 			let enumTypeDef: SsEnumTypeDef = valueTypeDef as SsEnumTypeDef
+			if (this.options.enumsAsStringUnions) { return TsUtil.escapeString(enumTypeDef.values[0]) }
 			let firstValue: string = TsUtil.getIdentifier(enumTypeDef.values[0], true)
 			return `${typeName}.${firstValue}`
+		} else if (valueTypeDef instanceof SsStringTypeDef) {
+			return `""`
+		} else if (valueTypeDef instanceof SsNumberTypeDef) {
+			return `0`
 		}
 		throw new Error("Todo")
 	}
 
+	private getValueTypeString(valueTypeDef: SsValueTypeDef): string {
+		if (valueTypeDef instanceof SsStringTypeDef) {
+			return "string"
+		} else if (valueTypeDef instanceof SsNumberTypeDef) {
+			return "number"
+		}
+		return this.typeLookup.getName(valueTypeDef)
+	}
+
 	private getAttributeDataTypeString(dataType: SsAttributeDataType): string {
 		if (dataType.isPredefinedType) {
 			return this.getPredefinedTypeString(dataType.predefinedType!)
 		} else if (dataType.isValueType) {
-			return this.typeLookup.getName(dataType.valueTypeDef!)
+			return this.getValueTypeString(dataType.valueTypeDef!)
 		} else if (dataType.isStruct) {
 			return this.typeLookup.getName(dataType.structDef!)
 		}
@@ -80,7 +389,7 @@ export class SmlSchemaCodeGen {
 		} else if (dataType.isValueType) {
 			return this.getValueTypeInitialization(dataType.valueTypeDef!, typeName)
 		} else if (dataType.isStruct) {
-			return `new ${typeName}()`
+			return this.getNewCode(typeName)
 		}
 		throw new Error("Todo")
 	}
@@ -116,183 +425,661 @@ export class SmlSchemaCodeGen {
 		}
 		let loadCode: string = ""
 		if (dataType.isPredefinedType) {
-			loadCode += "sCurAttribute.as"
-			let typeNameStr: string = SsPredefinedTypeUtil.getPredefinedTypeString(dataType.predefinedType!)
 			if (dataType.isArray) {
-				let rangeStr: string = ""
-				if (!(dataType.arrayRange!.isRepeatedPlus)) {
-					rangeStr = `${dataType.arrayRange!.min}, ${dataType.arrayRange!.max}`
-				}
-				loadCode += `${(dataType.nullable ? "Nullable" : "")}${typeNameStr}Array(${rangeStr})`
+				loadCode = this.getPredefinedTypeArrayLoadCode(dataType.predefinedType!, "sCurAttribute", dataType.nullable, dataType.arrayRange!)
 			} else {
-				loadCode += typeNameStr + "()"
+				loadCode = this.getPredefinedTypeValueLoadCode(dataType.predefinedType!, "sCurAttribute", null)
 			}
 		} else if (dataType.isValueType) {
-			loadCode = `ValueTypeUtils.as${elementalTypeName}(sCurAttribute)`
-			if (dataType.isArray) { throw new Error("Todo") }
+			let valueTypeName: string = this.typeLookup.getName(dataType.valueTypeDef!)
+			if (dataType.isArray) {
+				let rangeStr: string = `${SmlSchemaTsCodeGenBackend.getMinValueCountString(dataType.arrayRange!)}, ${dataType.arrayRange!.max}`
+				loadCode = `ValueTypeUtils.as${(dataType.nullable ? "Nullable" : "")}${valueTypeName}Array(sCurAttribute, ${rangeStr})`
+			} else {
+				loadCode = `ValueTypeUtils.as${valueTypeName}(sCurAttribute)`
+			}
+		} else if (dataType.isArray) {
+			loadCode = this.getLoadCode(elementalTypeName, "Array", `sCurAttribute, ${dataType.arrayRange!.min === null ? 0 : dataType.arrayRange!.min}, ${dataType.arrayRange!.max}`)
 		} else {
-			throw new Error("Todo")
+			loadCode = this.getLoadCode(elementalTypeName, "", "sCurAttribute")
+		}
+		if ((!dataType.isArray && dataType.nullable) || dataType.arrayNullable) {
+			loadCode = `(sCurAttribute.isNullValue() ? null : ${loadCode})`
 		}
 		return new TsPropertyCode(typeName, initialization, loadCode)
 	}
 
-	private generateUnorderedElement(unorderedElement: SsUnorderedElement, elementClass: TsClass, sbLoad: IndentedStringBuilder) {
-		let elementName: string = unorderedElement.elementDef.name
+	private getElementalSerializeCode(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, valueStr: string): string {
+		if (predefinedType !== null) {
+			switch(predefinedType) {
+				case SsPredefinedType.Bool:		return `(${valueStr} ? "true" : "false")`
+				case SsPredefinedType.Int:		return `${valueStr}.toString()`
+				case SsPredefinedType.UInt:		return `${valueStr}.toString()`
+				case SsPredefinedType.Number:	return `${valueStr}.toString()`
+				case SsPredefinedType.String:	return valueStr
+				case SsPredefinedType.Date:		return `${valueStr}.toString()`
+				case SsPredefinedType.Time:		return `${valueStr}.toString()`
+				case SsPredefinedType.Base64:	return `ValueTypeUtils.getBase64String(${valueStr})`
+				case SsPredefinedType.DateTime:	return `${valueStr}.toISOString()`
+				default: throw new Error("Todo "+predefinedType)
+			}
+		} else if (valueTypeDef !== null) {
+			return `ValueTypeUtils.get${this.typeLookup.getName(valueTypeDef)}String(${valueStr})`
+		}
+		throw new Error("Todo")
+	}
+
+	private getElementalLiteralCode(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, str: string): string {
+		if (predefinedType !== null) {
+			switch(predefinedType) {
+				case SsPredefinedType.Bool:		return str.toLowerCase() === "true" ? "true" : "false"
+				case SsPredefinedType.Int:		return Number(str).toString()
+				case SsPredefinedType.UInt:		return Number(str).toString()
+				case SsPredefinedType.Number:	return Number(str).toString()
+				case SsPredefinedType.String:	return TsUtil.escapeString(str)
+				case SsPredefinedType.DateTime:	return `new Date(${TsUtil.escapeString(str)})`
+				default: return this.getPredefinedTypeParseCodeOrNull(predefinedType, TsUtil.escapeString(str))!
+			}
+		} else if (valueTypeDef instanceof SsEnumTypeDef) {
+			let enumTypeDef: SsEnumTypeDef = valueTypeDef as SsEnumTypeDef
+			let value: string = enumTypeDef.values.find((x) => x.toLowerCase() === str.toLowerCase())!
+			if (this.options.enumsAsStringUnions) { return TsUtil.escapeString(value) }
+			return `${this.typeLookup.getName(enumTypeDef)}.${TsUtil.getIdentifier(value, true)}`
+		} else if (valueTypeDef instanceof SsStringTypeDef) {
+			return TsUtil.escapeString(str)
+		} else if (valueTypeDef instanceof SsNumberTypeDef) {
+			return Number(str).toString()
+		}
+		throw new Error("Todo")
+	}
 
-		let elementalTypeName: string = this.typeLookup.getName(unorderedElement.elementDef)
+	private getDefaultValueCode(dataType: SsAttributeDataType, values: (string | null)[]): string {
+		if (values.length === 1 && values[0] === null && ((dataType.nullable && !dataType.isArray) || dataType.arrayNullable)) {
+			return "null"
+		}
+		if (dataType.isStruct) {
+			let structName: string = this.typeLookup.getName(dataType.structDef!)
+			let attributeCode: string = `new SmlAttribute("Default", [${values.map((x) => x === null ? "null" : TsUtil.escapeString(x)).join(", ")}])`
+			return dataType.isArray ? this.getLoadCode(structName, "Array", `${attributeCode}, 0, null`) : this.getLoadCode(structName, "", attributeCode)
+		} else if (dataType.isArray) {
+			let items: string[] = values.map((x) => x === null ? "null" : this.getElementalLiteralCode(dataType.predefinedType, dataType.valueTypeDef, x))
+			return `[${items.join(", ")}]`
+		}
+		return this.getElementalLiteralCode(dataType.predefinedType, dataType.valueTypeDef, values[0]!)
+	}
+
+	private getAttributeDataTypeSerializeCode(dataType: SsAttributeDataType, valueStr: string): string {
+		let code: string
+		if (dataType.isStruct) {
+			let structName: string = this.typeLookup.getName(dataType.structDef!)
+			code = this.getStructValuesCode(structName, dataType.isArray, valueStr)
+			if (dataType.arrayNullable || (!dataType.isArray && dataType.nullable)) {
+				code = `${valueStr} === null ? [null] : ${code}`
+			}
+		} else if (dataType.isArray) {
+			let itemCode: string = this.getElementalSerializeCode(dataType.predefinedType, dataType.valueTypeDef, "x")
+			if (dataType.nullable) {
+				itemCode = `x === null ? null : ${itemCode}`
+			}
+			code = `${valueStr}.map((x) => ${itemCode})`
+			if (dataType.arrayNullable) {
+				code = `${valueStr} === null ? [null] : ${code}`
+			}
+		} else {
+			code = `[${this.getElementalSerializeCode(dataType.predefinedType, dataType.valueTypeDef, valueStr)}]`
+			if (dataType.nullable) {
+				code = `${valueStr} === null ? [null] : ${code}`
+			}
+		}
+		return code
+	}
+
+	private generateContentElement(elementDef: SsElementDef, occurrence: SsRange, ordered: boolean, members: TsMemberCode[], propertyLookup: TsLookup, sbLoad: IndentedStringBuilder, sbSerialize: IndentedStringBuilder, declare: boolean = true) {
+		let elementName: string = elementDef.name
+
+		let elementalTypeName: string = this.getElementTypeName(elementDef)
 
 		let typeName: string = elementalTypeName
-		let initialization: string = `new ${typeName}()`
+		let initialization: string = this.getNewCode(typeName)
 
-		let isOptional: boolean = unorderedElement.occurrence.isOptional
+		let isOptional: boolean = occurrence.isOptional
 		if (isOptional) {
 			typeName += " | null"
 			initialization = "null"
 		}
-		let asArray: boolean = unorderedElement.occurrence.isRepeatedPlus || unorderedElement.occurrence.isRepeatedStar
+		let asArray: boolean = !occurrence.isRequired && !occurrence.isOptional
 		if (asArray) {
 			elementName += "List"
 			typeName = "("+typeName+")[]"
 			initialization = "[]"
 		}
-		elementName = TsUtil.getIdentifier(elementName, false)
+		elementName = propertyLookup.generateName(elementName)
+		propertyLookup.add(elementDef, elementName, elementDef)
 
-		let loadStr: string = `${elementalTypeName}.load(sCurElement)`
-		let nameStr: string = TsUtil.escapeString(unorderedElement.elementDef.name)
-		sbLoad.open("")
-		if (unorderedElement.occurrence.isRequired) {
-			sbLoad.appendLine(`let sCurElement: SmlElement = sElement.requiredElement(${nameStr})`)
+		let source: string = ordered ? "reader" : "sElement"
+		let loadStr: string = this.getElementLoadCode(elementalTypeName, "sCurElement")
+		let nameStr: string = TsUtil.escapeString(elementDef.name)
+		this.openGuardedBlock(sbLoad)
+		if (occurrence.isRequired) {
+			sbLoad.appendLine(`let sCurElement: SmlElement = ${source}.requiredElement(${nameStr})`)
 			sbLoad.appendLine(`element.${elementName} = ${loadStr}`)
-		} else if (unorderedElement.occurrence.isOptional) {
-			sbLoad.appendLine(`let sCurElement: SmlElement | null = sElement.optionalElement(${nameStr})`)
+		} else if (occurrence.isOptional) {
+			sbLoad.appendLine(`let sCurElement: SmlElement | null = ${source}.optionalElement(${nameStr})`)
 			sbLoad.open(`if (sCurElement !== null)`)
 			sbLoad.appendLine(`element.${elementName} = ${loadStr}`)
 			sbLoad.close()
 		} else {
-			if (unorderedElement.occurrence.isRepeatedPlus) {
-				sbLoad.open(`for (let sCurElement of sElement.oneOrMoreAttributes(${nameStr}))`)
-			} else if (unorderedElement.occurrence.isRepeatedStar) {
-				sbLoad.open(`for (let sCurElement of sElement.attributes(${nameStr}))`)
-			} else { throw new Error() }
+			if (ordered) {
+				sbLoad.open(`for (let sCurElement of reader.elements(${nameStr}, ${occurrence.min ?? 0}, ${occurrence.max}))`)
+			} else if (occurrence.isRepeatedPlus) {
+				sbLoad.open(`for (let sCurElement of sElement.oneOrMoreElements(${nameStr}))`)
+			} else if (occurrence.isRepeatedStar) {
+				sbLoad.open(`for (let sCurElement of sElement.elements(${nameStr}))`)
+			} else {
+				sbLoad.appendLine(`sElement.assureElementCountMinMax(${occurrence.min ?? 0}, ${occurrence.max}, ${nameStr})`)
+				sbLoad.open(`for (let sCurElement of sElement.elements(${nameStr}))`)
+			}
 			sbLoad.appendLine(`element.${elementName}.push(${loadStr})`)
 			sbLoad.close()
 		}
-		sbLoad.close()
+		this.closeGuardedBlock(sbLoad)
 
-		elementClass.addProperty(`${elementName}: ${typeName} = ${initialization}`)
+		let valueStr: string = `${this.getInstanceStr("element")}.${elementName}`
+		if (occurrence.isRequired) {
+			sbSerialize.appendLine(`sElement.nodes.push(${this.getElementSerializeCode(elementalTypeName, valueStr)})`)
+		} else if (occurrence.isOptional) {
+			sbSerialize.open(`if (${valueStr} !== null)`)
+			sbSerialize.appendLine(`sElement.nodes.push(${this.getElementSerializeCode(elementalTypeName, valueStr)})`)
+			sbSerialize.close()
+		} else {
+			sbSerialize.open(`for (let item of ${valueStr})`)
+			sbSerialize.appendLine(`sElement.nodes.push(${this.getElementSerializeCode(elementalTypeName, "item")})`)
+			sbSerialize.close()
+		}
+
+		members.push(new TsMemberCode(elementName, typeName, initialization, declare, elementDef.description))
 	}
 
-	private generateUnorderedAttribute(unorderedAttribute: SsUnorderedAttribute, elementClass: TsClass, sbLoad: IndentedStringBuilder) {
-		let attributeName: string = unorderedAttribute.attributeDef.name
+	private generateContentAttribute(attributeDef: SsAttributeDef, occurrence: SsRange, ordered: boolean, members: TsMemberCode[], propertyLookup: TsLookup, sbLoad: IndentedStringBuilder, sbSerialize: IndentedStringBuilder, declare: boolean = true) {
+		let attributeName: string = attributeDef.name
 
-		let forceNullable: boolean = unorderedAttribute.occurrence.isOptional
-		let asArray: boolean = unorderedAttribute.occurrence.isRepeatedPlus || unorderedAttribute.occurrence.isRepeatedStar
+		let hasDefault: boolean = occurrence.isOptional && attributeDef.hasDefault
+		let forceNullable: boolean = occurrence.isOptional && !hasDefault
+		let asArray: boolean = !occurrence.isRequired && !occurrence.isOptional
 		if (asArray) {
 			attributeName += "List"
 		}
-		attributeName = TsUtil.getIdentifier(attributeName, false)
+		attributeName = propertyLookup.generateName(attributeName)
+		propertyLookup.add(attributeDef, attributeName, attributeDef)
 
-		let code: TsPropertyCode = this.getAttributeDataTypePropertyCode(unorderedAttribute.attributeDef.dataType, forceNullable, asArray)
+		let code: TsPropertyCode = this.getAttributeDataTypePropertyCode(attributeDef.dataType, forceNullable, asArray)
 		
-		let nameStr: string = TsUtil.escapeString(unorderedAttribute.attributeDef.name)
-		sbLoad.open("")
-		if (unorderedAttribute.occurrence.isRequired) {
-			sbLoad.appendLine(`let sCurAttribute: SmlAttribute = sElement.requiredAttribute(${nameStr})`)
-			sbLoad.appendLine(`element.${attributeName} = ${code.load}`)
-		} else if (unorderedAttribute.occurrence.isOptional) {
-			sbLoad.appendLine(`let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute(${nameStr})`)
+		let source: string = ordered ? "reader" : "sElement"
+		let nameStr: string = TsUtil.escapeString(attributeDef.name)
+		this.openGuardedBlock(sbLoad)
+		if (occurrence.isRequired) {
+			sbLoad.appendLine(`let sCurAttribute: SmlAttribute = ${source}.requiredAttribute(${nameStr})`)
+			this.appendGuardedLine(sbLoad, `element.${attributeName} = ${code.load}`, "sCurAttribute")
+		} else if (occurrence.isOptional) {
+			sbLoad.appendLine(`let sCurAttribute: SmlAttribute | null = ${source}.optionalAttribute(${nameStr})`)
 			sbLoad.open(`if (sCurAttribute !== null)`)
-			sbLoad.appendLine(`element.${attributeName} = ${code.load}`)
+			this.appendGuardedLine(sbLoad, `element.${attributeName} = ${code.load}`, "sCurAttribute")
 			sbLoad.close()
 		} else {
-			if (unorderedAttribute.occurrence.isRepeatedPlus) {
+			if (ordered) {
+				sbLoad.open(`for (let sCurAttribute of reader.attributes(${nameStr}, ${occurrence.min ?? 0}, ${occurrence.max}))`)
+			} else if (occurrence.isRepeatedPlus) {
 				sbLoad.open(`for (let sCurAttribute of sElement.oneOrMoreAttributes(${nameStr}))`)
-			} else if (unorderedAttribute.occurrence.isRepeatedStar) {
+			} else if (occurrence.isRepeatedStar) {
+				sbLoad.open(`for (let sCurAttribute of sElement.attributes(${nameStr}))`)
+			} else {
+				sbLoad.appendLine(`sElement.assureAttributeCountMinMax(${occurrence.min ?? 0}, ${occurrence.max}, ${nameStr})`)
 				sbLoad.open(`for (let sCurAttribute of sElement.attributes(${nameStr}))`)
-			} else { throw new Error() }
-			sbLoad.appendLine(`element.${attributeName}.push(${code.load})`)
+			}
+			this.appendGuardedLine(sbLoad, `element.${attributeName}.push(${code.load})`, "sCurAttribute")
 			sbLoad.close()
 		}
+		this.closeGuardedBlock(sbLoad)
+
+		let valueStr: string = `${this.getInstanceStr("element")}.${attributeName}`
+		if (occurrence.isRequired || hasDefault) {
+			sbSerialize.appendLine(`sElement.addAttribute(${nameStr}, ${this.getAttributeDataTypeSerializeCode(attributeDef.dataType, valueStr)})`)
+		} else if (occurrence.isOptional) {
+			sbSerialize.open(`if (${valueStr} !== null)`)
+			sbSerialize.appendLine(`sElement.addAttribute(${nameStr}, ${this.getAttributeDataTypeSerializeCode(attributeDef.dataType, valueStr)})`)
+			sbSerialize.close()
+		} else {
+			sbSerialize.open(`for (let item of ${valueStr})`)
+			sbSerialize.appendLine(`sElement.addAttribute(${nameStr}, ${this.getAttributeDataTypeSerializeCode(attributeDef.dataType, "item")})`)
+			sbSerialize.close()
+		}
+
+		let initialization: string = hasDefault ? this.getDefaultValueCode(attributeDef.dataType, attributeDef.defaultValues!) : code.initialization
+		members.push(new TsMemberCode(attributeName, code.typeName, initialization, declare, attributeDef.description))
+	}
+
+	private generateContentChoice(choice: SsChoice, occurrence: SsRange, ordered: boolean, members: TsMemberCode[], propertyLookup: TsLookup, sbLoad: IndentedStringBuilder, sbSerialize: IndentedStringBuilder, declare: boolean = true) {
+		let alternatives: SsChoiceAlternative[] = choice.alternatives
+		let choiceName: string = alternatives.map((x) => TsUtil.getIdentifier(x.name, true)).join("Or")
+
+		let asArray: boolean = !occurrence.isRequired && !occurrence.isOptional
+		if (asArray) {
+			choiceName += "List"
+		}
+		choiceName = propertyLookup.generateName(choiceName)
+		propertyLookup.add(choice, choiceName, choice)
+
+		let variantTypeNames: string[] = []
+		let variantInitializations: string[] = []
+		let variantLoads: string[] = []
+		let elementTypeNames: string[] = []
+		for (let alternative of alternatives) {
+			let kindStr: string = TsUtil.escapeString(alternative.name)
+			if (alternative.isElement) {
+				let elementTypeName: string = this.getElementTypeName(alternative.elementDef!)
+				variantTypeNames.push(`{ kind: ${kindStr}, value: ${elementTypeName} }`)
+				variantInitializations.push(`{ kind: ${kindStr}, value: ${this.getNewCode(elementTypeName)} }`)
+				variantLoads.push(`{ kind: ${kindStr}, value: ${this.getElementLoadCode(elementTypeName, "sCurNode as SmlElement")} }`)
+				elementTypeNames.push(elementTypeName)
+			} else {
+				let code: TsPropertyCode = this.getAttributeDataTypePropertyCode(alternative.attributeDef!.dataType, false, false)
+				variantTypeNames.push(`{ kind: ${kindStr}, value: ${code.typeName} }`)
+				variantInitializations.push(`{ kind: ${kindStr}, value: ${code.initialization} }`)
+				variantLoads.push(`{ kind: ${kindStr}, value: ${code.load} }`)
+				elementTypeNames.push("")
+			}
+		}
+		let typeName: string = variantTypeNames.join(" | ")
+		let initialization: string = variantInitializations[0]
+		if (occurrence.isOptional) {
+			typeName += " | null"
+			initialization = "null"
+		} else if (asArray) {
+			typeName = "(" + typeName + ")[]"
+			initialization = "[]"
+		}
+
+		let elementNamesStr: string = `[${TsUtil.escapeStrings(alternatives.filter((x) => x.isElement).map((x) => x.name))}]`
+		let attributeNamesStr: string = `[${TsUtil.escapeStrings(alternatives.filter((x) => !x.isElement).map((x) => x.name))}]`
+		this.openGuardedBlock(sbLoad)
+		if (ordered) {
+			sbLoad.open(`for (let sCurNode of reader.choiceNodes(${elementNamesStr}, ${attributeNamesStr}, ${occurrence.min ?? 0}, ${occurrence.max}))`)
+		} else {
+			if (!asArray) {
+				sbLoad.appendLine(`sElement.assureChoice(${elementNamesStr}, ${attributeNamesStr}, ${occurrence.isOptional})`)
+			}
+			sbLoad.open(`for (let sCurNode of sElement.nodes)`)
+		}
+		for (let i=0; i<alternatives.length; i++) {
+			let condition: string = `sCurNode.is${alternatives[i].isElement ? "Element" : "Attribute"}WithName(${TsUtil.escapeString(alternatives[i].name)})`
+			if (i === 0) {
+				sbLoad.open(`if (${condition})`)
+			} else {
+				sbLoad.closeAndOpen(`else if (${condition})`)
+			}
+			let assignment: string = asArray ? `element.${choiceName}.push(${variantLoads[i]})` : `element.${choiceName} = ${variantLoads[i]}`
+			if (!alternatives[i].isElement) {
+				sbLoad.appendLine(`let sCurAttribute: SmlAttribute = sCurNode as SmlAttribute`)
+				this.appendGuardedLine(sbLoad, assignment, "sCurAttribute")
+			} else {
+				sbLoad.appendLine(assignment)
+			}
+		}
+		sbLoad.close()
 		sbLoad.close()
+		let countConditions: string[] = []
+		if (!ordered && asArray && occurrence.min !== null && occurrence.min > 0) { countConditions.push(`element.${choiceName}.length < ${occurrence.min}`) }
+		if (!ordered && asArray && occurrence.max !== null) { countConditions.push(`element.${choiceName}.length > ${occurrence.max}`) }
+		if (countConditions.length > 0) {
+			let message: string = `Element "${choice.elementDef.name}" must contain ${occurrence} nodes of the choice ${choice}`
+			sbLoad.open(`if (${countConditions.join(" || ")})`)
+			sbLoad.appendLine(`throw new Error(${TsUtil.escapeString(message)})`)
+			sbLoad.close()
+		}
+		this.closeGuardedBlock(sbLoad)
+
+		let valueStr: string = `${this.getInstanceStr("element")}.${choiceName}`
+		if (occurrence.isOptional) {
+			sbSerialize.open(`if (${valueStr} !== null)`)
+		} else if (asArray) {
+			sbSerialize.open(`for (let item of ${valueStr})`)
+			valueStr = "item"
+		}
+		for (let i=0; i<alternatives.length; i++) {
+			let condition: string = `${valueStr}.kind === ${TsUtil.escapeString(alternatives[i].name)}`
+			if (i === 0) {
+				sbSerialize.open(`if (${condition})`)
+			} else {
+				sbSerialize.closeAndOpen(`else if (${condition})`)
+			}
+			if (alternatives[i].isElement) {
+				sbSerialize.appendLine(`sElement.nodes.push(${this.getElementSerializeCode(elementTypeNames[i], `${valueStr}.value`)})`)
+			} else {
+				let attributeDef: SsAttributeDef = alternatives[i].attributeDef!
+				sbSerialize.appendLine(`sElement.addAttribute(${TsUtil.escapeString(attributeDef.name)}, ${this.getAttributeDataTypeSerializeCode(attributeDef.dataType, `${valueStr}.value`)})`)
+			}
+		}
+		sbSerialize.close()
+		if (occurrence.isOptional || asArray) {
+			sbSerialize.close()
+		}
 
-		elementClass.addProperty(`${attributeName}: ${code.typeName} = ${code.initialization}`)
+		members.push(new TsMemberCode(choiceName, typeName, initialization, declare, null))
 	}
 
-	private generateElementDef(elementDef: SsElementDef) {
-		let isRootElement: boolean = this.schema.getRootElement() === elementDef
-		let suffix: string = isRootElement ? "Document" : "Element"
-		
-		let name: string = this.typeLookup.generateName(elementDef.name + suffix)
-		let elementClass: TsClass = this.document.addClass(`export class ${name}`)
-		this.typeLookup.add(elementDef, name, elementClass)
-		
-		this.generateElements(elementDef.definitions)
+	private getElementTypeName(elementDef: SsElementDef): string {
+		if (!this.typeLookup.has(elementDef)) {
+			let suffix: string = elementDef === this.rootElementDef ? "Document" : "Element"
+			this.typeLookup.add(elementDef, this.typeLookup.generateName(elementDef.name + suffix), elementDef)
+		}
+		return this.typeLookup.getName(elementDef)
+	}
 
+	generateElement(elementDef: SsElementDef) {
+		let isRootElement: boolean = elementDef === this.rootElementDef
+		let baseName: string | null = elementDef.baseElementDef === null ? null : this.getElementTypeName(elementDef.baseElementDef)
+		let name: string = this.getElementTypeName(elementDef)
+		let elementClass: TsClass | null = null
+		let elementInterface: TsInterface | null = null
+		if (this.isClassTarget) {
+			elementClass = this.document.addClass(name)
+			elementClass.extendsType = baseName
+			elementClass.docComment = elementDef.description
+		} else {
+			elementInterface = this.document.addInterface(name)
+			elementInterface.docComment = elementDef.description
+			if (baseName !== null) { elementInterface.extendsTypes.push(baseName) }
+		}
+
+		let propertyLookup: TsLookup = new TsLookup(false)
+		let members: TsMemberCode[] = []
 		let sbLoad: IndentedStringBuilder = new IndentedStringBuilder()
+		let sbSerialize: IndentedStringBuilder = new IndentedStringBuilder()
 		if (elementDef.content instanceof SsUnorderedContent) {
 			let unorderedContent: SsUnorderedContent = elementDef.content as SsUnorderedContent
-			if (unorderedContent.unorderedElements.length > 0) {
-				let names: string[] = unorderedContent.unorderedElements.map((x) => x.elementDef.name)
-				sbLoad.appendLine(`sElement.assureElementNames([${TsUtil.escapeStrings(names)}])`)
+			let choiceAlternatives: SsChoiceAlternative[] = unorderedContent.unorderedChoices.flatMap((x) => x.choice.alternatives)
+			let elementNames: string[] = unorderedContent.unorderedElements.map((x) => x.elementDef.name)
+			elementNames.push(...choiceAlternatives.filter((x) => x.isElement).map((x) => x.name))
+			if (elementNames.length > 0) {
+				this.appendGuardedLine(sbLoad, `sElement.assureElementNames([${TsUtil.escapeStrings(elementNames)}])`)
 			} else {
-				sbLoad.appendLine(`sElement.assureNoElements()`)
+				this.appendGuardedLine(sbLoad, `sElement.assureNoElements()`)
 			}
-			if (unorderedContent.unorderedAttributes.length > 0) {
-				let names: string[] = unorderedContent.unorderedAttributes.map((x) => x.attributeDef.name)
-				sbLoad.appendLine(`sElement.assureAttributeNames([${TsUtil.escapeStrings(names)}])`)
+			let attributeNames: string[] = unorderedContent.unorderedAttributes.map((x) => x.attributeDef.name)
+			attributeNames.push(...choiceAlternatives.filter((x) => !x.isElement).map((x) => x.name))
+			if (attributeNames.length > 0) {
+				this.appendGuardedLine(sbLoad, `sElement.assureAttributeNames([${TsUtil.escapeStrings(attributeNames)}])`)
 			} else {
-				sbLoad.appendLine(`sElement.assureNoAttributes()`)
+				this.appendGuardedLine(sbLoad, `sElement.assureNoAttributes()`)
+			}
+			let ownItems: (SsUnorderedElement | SsUnorderedAttribute | SsUnorderedChoice)[] = [...unorderedContent.ownUnorderedElements, ...unorderedContent.ownUnorderedAttributes, ...unorderedContent.ownUnorderedChoices]
+			for (let item of this.getUnorderedItems(elementDef)) {
+				let declare: boolean = ownItems.includes(item)
+				if (item instanceof SsUnorderedElement) {
+					this.generateContentElement(item.elementDef, item.occurrence, false, members, propertyLookup, sbLoad, sbSerialize, declare)
+				} else if (item instanceof SsUnorderedAttribute) {
+					this.generateContentAttribute(item.attributeDef, item.occurrence, false, members, propertyLookup, sbLoad, sbSerialize, declare)
+				} else {
+					this.generateContentChoice(item.choice, item.occurrence, false, members, propertyLookup, sbLoad, sbSerialize, declare)
+				}
 			}
-			for (let unorderedElement of unorderedContent.unorderedElements) {
-				this.generateUnorderedElement(unorderedElement, elementClass, sbLoad)
+		} else if (elementDef.content instanceof SsOrderedContent) {
+			let orderedContent: SsOrderedContent = elementDef.content as SsOrderedContent
+			this.generateNodeReaderClass()
+			sbLoad.appendLine(`let reader: SmlNodeReader = new SmlNodeReader(sElement)`)
+			for (let item of orderedContent.items) {
+				if (item instanceof SsOrderedElement) {
+					let orderedElement: SsOrderedElement = item as SsOrderedElement
+					this.generateContentElement(orderedElement.elementDef, orderedElement.occurrence, true, members, propertyLookup, sbLoad, sbSerialize)
+				} else if (item instanceof SsOrderedChoice) {
+					let orderedChoice: SsOrderedChoice = item as SsOrderedChoice
+					this.generateContentChoice(orderedChoice.choice, orderedChoice.occurrence, true, members, propertyLookup, sbLoad, sbSerialize)
+				} else {
+					let orderedAttribute: SsOrderedAttribute = item as SsOrderedAttribute
+					this.generateContentAttribute(orderedAttribute.attributeDef, orderedAttribute.occurrence, true, members, propertyLookup, sbLoad, sbSerialize)
+				}
 			}
-			for (let unorderedAttribute of unorderedContent.unorderedAttributes) {
-				this.generateUnorderedAttribute(unorderedAttribute, elementClass, sbLoad)
+			this.appendGuardedLine(sbLoad, `reader.assureEnd()`)
+		} else if (elementDef.content instanceof SsListContent) {
+			let listContent: SsListContent = elementDef.content as SsListContent
+			if (listContent.isElementList) {
+				this.appendGuardedLine(sbLoad, `sElement.assureElementNames([${TsUtil.escapeString(listContent.listElementDef!.name)}])`)
+				this.appendGuardedLine(sbLoad, `sElement.assureNoAttributes()`)
+				this.generateContentElement(listContent.listElementDef!, listContent.occurrence, false, members, propertyLookup, sbLoad, sbSerialize)
+			} else {
+				this.appendGuardedLine(sbLoad, `sElement.assureNoElements()`)
+				this.appendGuardedLine(sbLoad, `sElement.assureAttributeNames([${TsUtil.escapeString(listContent.listAttributeDef!.name)}])`)
+				this.generateContentAttribute(listContent.listAttributeDef!, listContent.occurrence, false, members, propertyLookup, sbLoad, sbSerialize)
 			}
 		}
 
-		elementClass.addMethod(`static load(sElement: SmlElement): ${name}`).code.
-			appendLine(`sElement.assureName(${TsUtil.escapeString(elementDef.name)})`).
-			appendLine(`let element: ${name} = new ${name}()`).
-			appendLines(sbLoad.toString()).
-			appendLine(`return element`)
+		let sbLoadMethod: IndentedStringBuilder = new IndentedStringBuilder()
+		if (this.options.generateTryLoad) { sbLoadMethod.appendLine(`context?.enter(sElement)`) }
+		this.appendGuardedLine(sbLoadMethod, `sElement.assureName(${TsUtil.escapeString(elementDef.name)})`)
+		sbLoadMethod.appendLine(`let element: ${name} = ${this.getNewCode(name)}`).
+			appendLines(sbLoad.toString())
+		if (this.options.generateTryLoad) { sbLoadMethod.appendLine(`context?.leave()`) }
+		sbLoadMethod.appendLine(`return element`)
+
+		let loadParameters: TsParameter[] = [new TsParameter("sElement", "SmlElement")]
+		if (this.options.generateTryLoad) { loadParameters.push(new TsParameter("context", "SmlLoadContext | null", "null")) }
+		let tryLoadTypeName: string = `{ value: ${name}, errors: SmlLoadError[] }`
+		let sbTryLoadMethod: IndentedStringBuilder = new IndentedStringBuilder().
+			appendLine(`let context: SmlLoadContext = new SmlLoadContext()`).
+			appendLine(`let value: ${name} = ${this.getElementLoadCode(name, "sElement")}`).
+			appendLine(`return { value: value, errors: context.errors }`)
+
+		let sbSerializeMethod: IndentedStringBuilder = new IndentedStringBuilder().
+			appendLine(`let sElement: SmlElement = new SmlElement(${TsUtil.escapeString(elementDef.name)})`).
+			appendLines(sbSerialize.toString()).
+			appendLine(`return sElement`)
+
+		let parseCode: string = `return ${this.getLoadCode(name, "", "sDocument.root")}`
+		let toDocumentCode: string = `return new SmlDocument(${this.getElementSerializeCode(name, this.getInstanceStr("element"))})`
+
+		if (elementClass !== null) {
+			for (let member of members.filter((x) => x.declared)) {
+				elementClass.addProperty(member.name, member.typeName, member.initialization).docComment = member.description
+			}
+			elementClass.addStaticMethod("load", loadParameters, name).code.appendLines(sbLoadMethod.toString())
+			if (this.options.generateTryLoad) {
+				elementClass.addStaticMethod("tryLoad", [new TsParameter("sElement", "SmlElement")], tryLoadTypeName).code.appendLines(sbTryLoadMethod.toString())
+			}
+			elementClass.addMethod("serialize", [], "SmlElement").code.appendLines(sbSerializeMethod.toString())
+
+			if (isRootElement) {
+				elementClass.addStaticMethod("parse", [new TsParameter("content", "string")], name).code.
+					appendLine(`let sDocument: SmlDocument = SmlDocument.parse(content)`).
+					appendLine(parseCode)
+
+				if (this.options.generateTryLoad) {
+					elementClass.addStaticMethod("tryParse", [new TsParameter("content", "string")], tryLoadTypeName).code.
+						appendLine(`let sDocument: SmlDocument = SmlDocument.parse(content)`).
+						appendLine(`return ${name}.tryLoad(sDocument.root)`)
+				}
+
+				elementClass.addMethod("toDocument", [], "SmlDocument").code.
+					appendLine(toDocumentCode)
+
+				elementClass.addMethod("toString", [], "string").code.
+					appendLine(`return this.toDocument().toString()`)
+			}
+		} else {
+			for (let member of members.filter((x) => x.declared)) {
+				elementInterface!.addProperty(member.name, member.typeName).docComment = member.description
+			}
+			this.document.addFunction(`create${name}`, [], name).code.
+				appendLine(`return ${this.getObjectLiteralCode(members)}`)
+			this.document.addFunction(`load${name}`, loadParameters, name).code.appendLines(sbLoadMethod.toString())
+			if (this.options.generateTryLoad) {
+				this.document.addFunction(`tryLoad${name}`, [new TsParameter("sElement", "SmlElement")], tryLoadTypeName).code.appendLines(sbTryLoadMethod.toString())
+			}
+			this.document.addFunction(`serialize${name}`, [new TsParameter("element", name)], "SmlElement").code.appendLines(sbSerializeMethod.toString())
 
-		if (isRootElement) {
-			elementClass.addMethod(`static parse(content: string): ${name}`).code.
-				appendLine(`let sDocument: SmlDocument = SmlDocument.parse(content)`).
-				appendLine(`return ${name}.load(sDocument.root)`)
+			if (isRootElement) {
+				this.document.addFunction(`parse${name}`, [new TsParameter("content", "string")], name).code.
+					appendLine(`let sDocument: SmlDocument = SmlDocument.parse(content)`).
+					appendLine(parseCode)
+
+				if (this.options.generateTryLoad) {
+					this.document.addFunction(`tryParse${name}`, [new TsParameter("content", "string")], tryLoadTypeName).code.
+						appendLine(`let sDocument: SmlDocument = SmlDocument.parse(content)`).
+						appendLine(`return tryLoad${name}(sDocument.root)`)
+				}
+
+				this.document.addFunction(`to${name}SmlDocument`, [new TsParameter("element", name)], "SmlDocument").code.
+					appendLine(toDocumentCode)
+
+				this.document.addFunction(`stringify${name}`, [new TsParameter("element", name)], "string").code.
+					appendLine(`return to${name}SmlDocument(element).toString()`)
+			}
 		}
 	}
 
-	private generateValueType(valueTypeDef: SsValueTypeDef, definitions: SsDefinitions) {
+	generateValueType(valueTypeDef: SsValueTypeDef, definitions: SsDefinitions) {
 		if (valueTypeDef instanceof SsEnumTypeDef) {
 			let enumTypeDef: SsEnumTypeDef = valueTypeDef as SsEnumTypeDef
 			let name: string = this.typeLookup.generateName(enumTypeDef.name + "Enum")
-			let tsEnum: TsEnum = this.document.addEnum(`export enum ${name}`)
-			this.typeLookup.add(enumTypeDef, name, tsEnum)
-			for (let value of enumTypeDef.values) {
-				tsEnum.addValue(TsUtil.getIdentifier(value, true))
+			let tsValueStrings: string = enumTypeDef.values.map((x) => TsUtil.escapeString(x)).join(", ")
+			if (this.options.enumsAsStringUnions) {
+				let tsTypeAlias: TsTypeAlias = this.document.addTypeAlias(name, enumTypeDef.values.map((x) => TsUtil.escapeString(x)).join(" | "))
+				tsTypeAlias.docComment = enumTypeDef.description
+				this.typeLookup.add(enumTypeDef, name, tsTypeAlias)
+
+				this.utilsClass!.addStaticMethod(`as${name}`, [new TsParameter("sAttribute", "SmlAttribute")], name).code.
+					appendLine(`let values: ${name}[] = [${tsValueStrings}]`).
+					appendLine(`return values[sAttribute.assureValueCount(1).getEnum(values)]`)
+				this.utilsClass!.addStaticMethod(`get${name}`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("index", "number")], name).code.
+					appendLine(`let values: ${name}[] = [${tsValueStrings}]`).
+					appendLine(`return values[sAttribute.getEnum(values, index)]`)
+			} else {
+				let tsEnum: TsEnum = this.document.addEnum(name)
+				tsEnum.docComment = enumTypeDef.description
+				this.typeLookup.add(enumTypeDef, name, tsEnum)
+				for (let value of enumTypeDef.values) {
+					tsEnum.addValue(TsUtil.getIdentifier(value, true)).docComment = enumTypeDef.getValueDescription(value)
+				}
+
+				this.utilsClass!.addStaticMethod(`as${name}`, [new TsParameter("sAttribute", "SmlAttribute")], name).code.
+					appendLine(`return sAttribute.assureValueCount(1).getEnum([${tsValueStrings}])`)
+				this.utilsClass!.addStaticMethod(`get${name}`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("index", "number")], name).code.
+					appendLine(`return sAttribute.getEnum([${tsValueStrings}], index)`)
 			}
+			this.utilsClass!.addStaticMethod(`as${name}Array`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("min", "number | null"), new TsParameter("max", "number | null")], `${name}[]`).code.
+				appendLine(`return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.get${name}(sAttribute, i))`)
+			this.utilsClass!.addStaticMethod(`asNullable${name}Array`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("min", "number | null"), new TsParameter("max", "number | null")], `(${name} | null)[]`).code.
+				appendLine(`return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.get${name}(sAttribute, i))`)
+			this.utilsClass!.addStaticMethod(`get${name}String`, [new TsParameter("value", name)], "string").code.
+				appendLine(this.options.enumsAsStringUnions ? `return value` : `return [${tsValueStrings}][value]`)
+		} else if (valueTypeDef instanceof SsStringTypeDef) {
+			let stringTypeDef: SsStringTypeDef = valueTypeDef as SsStringTypeDef
+			let name: string = this.typeLookup.generateName(stringTypeDef.name + "Type")
+			this.typeLookup.add(stringTypeDef, name, this.utilsClass!)
 
-			let tsValueStrings: string = enumTypeDef.values.map((x) => TsUtil.escapeString(x)).join(", ")
-			this.utilsClass!.addMethod(`static as${name}(sAttribute: SmlAttribute): ${name}`).code.
-				appendLine(`return sAttribute.assureValueCount(1).getEnum([${tsValueStrings}])`)
+			let getErrorCode = (message: string) => `throw new Error("Value \\"" + value + ${TsUtil.escapeString("\" " + message)})`
+			let sbCheck: IndentedStringBuilder = new IndentedStringBuilder()
+			if (stringTypeDef.minLength !== null || stringTypeDef.maxLength !== null) {
+				let conditions: string[] = []
+				if (stringTypeDef.minLength !== null) { conditions.push(`length < ${stringTypeDef.minLength}`) }
+				if (stringTypeDef.maxLength !== null) { conditions.push(`length > ${stringTypeDef.maxLength}`) }
+				sbCheck.appendLine(`let length: number = [...value].length`).
+					open(`if (${conditions.join(" || ")})`).
+						appendLine(`throw new Error("Value \\"" + value + "\\" has a length of " + length + ${TsUtil.escapeString(` but ${stringTypeDef.name} expects ${new SsRange(stringTypeDef.minLength, stringTypeDef.maxLength)}`)})`).
+					close()
+			}
+			if (stringTypeDef.pattern !== null) {
+				sbCheck.open(`if (!new RegExp(${TsUtil.escapeString(stringTypeDef.patternRegExpSource!)}, "u").test(value))`).
+					appendLine(getErrorCode(`does not match the pattern of ${stringTypeDef.name}`)).
+				close()
+			}
+			if (stringTypeDef.characterClasses !== null) {
+				sbCheck.open(`if (!new RegExp(${TsUtil.escapeString(stringTypeDef.charactersRegExpSource!)}, "u").test(value))`).
+					appendLine(getErrorCode(`contains characters not allowed by ${stringTypeDef.name}`)).
+				close()
+			}
+			if (stringTypeDef.whitespace !== SsWhitespaceRule.Preserve) {
+				sbCheck.open(`if (value !== value.trim())`).
+					appendLine(getErrorCode(`has leading or trailing whitespace not allowed by ${stringTypeDef.name}`)).
+				close()
+			}
+			if (stringTypeDef.whitespace === SsWhitespaceRule.Collapsed) {
+				sbCheck.open(`if (/\\s\\s/u.test(value))`).
+					appendLine(getErrorCode(`has consecutive whitespace not allowed by ${stringTypeDef.name}`)).
+				close()
+			}
+			sbCheck.appendLine(`return value`)
+
+			this.utilsClass!.addStaticMethod(`check${name}`, [new TsParameter("value", "string")], "string").code.
+				appendLines(sbCheck.toString())
+			this.utilsClass!.addStaticMethod(`as${name}`, [new TsParameter("sAttribute", "SmlAttribute")], "string").code.
+				appendLine(`return ValueTypeUtils.check${name}(sAttribute.asString())`)
+			this.utilsClass!.addStaticMethod(`get${name}`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("index", "number")], "string").code.
+				appendLine(`return ValueTypeUtils.check${name}(sAttribute.getString(index))`)
+			this.utilsClass!.addStaticMethod(`as${name}Array`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("min", "number | null"), new TsParameter("max", "number | null")], "string[]").code.
+				appendLine(`return sAttribute.asStringArray(min, max).map((x) => ValueTypeUtils.check${name}(x))`)
+			this.utilsClass!.addStaticMethod(`asNullable${name}Array`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("min", "number | null"), new TsParameter("max", "number | null")], "(string | null)[]").code.
+				appendLine(`return sAttribute.asNullableStringArray(min, max).map((x) => x === null ? null : ValueTypeUtils.check${name}(x))`)
+			this.utilsClass!.addStaticMethod(`get${name}String`, [new TsParameter("value", "string")], "string").code.
+				appendLine(`return ValueTypeUtils.check${name}(value)`)
+		} else if (valueTypeDef instanceof SsNumberTypeDef) {
+			let numberTypeDef: SsNumberTypeDef = valueTypeDef as SsNumberTypeDef
+			let name: string = this.typeLookup.generateName(numberTypeDef.name + "Type")
+			this.typeLookup.add(numberTypeDef, name, this.utilsClass!)
+
+			let sbCheck: IndentedStringBuilder = new IndentedStringBuilder()
+			let conditions: string[] = []
+			if (numberTypeDef.min !== null) { conditions.push(`value ${numberTypeDef.minExclusive ? "<=" : "<"} ${numberTypeDef.min}`) }
+			if (numberTypeDef.max !== null) { conditions.push(`value ${numberTypeDef.maxExclusive ? ">=" : ">"} ${numberTypeDef.max}`) }
+			if (conditions.length > 0) {
+				sbCheck.open(`if (${conditions.join(" || ")})`).
+					appendLine(`throw new Error("Value " + value + ${TsUtil.escapeString(` is out of range of ${numberTypeDef.name} which expects ${numberTypeDef.getRangeString()}`)})`).
+				close()
+			}
+			if (numberTypeDef.step !== null) {
+				sbCheck.appendLine(`let quotient: number = (value - ${numberTypeDef.min ?? 0}) / ${numberTypeDef.step}`).
+					open(`if (Math.abs(quotient - Math.round(quotient)) > 1e-9)`).
+						appendLine(`throw new Error("Value " + value + ${TsUtil.escapeString(` is not a multiple of step ${numberTypeDef.step} of ${numberTypeDef.name}`)})`).
+					close()
+			}
+			if (numberTypeDef.decimalPlaces !== null) {
+				let factor: number = Math.pow(10, numberTypeDef.decimalPlaces)
+				sbCheck.open(`if (Math.round(value * ${factor}) / ${factor} !== value)`).
+					appendLine(`throw new Error("Value " + value + ${TsUtil.escapeString(` has more than ${numberTypeDef.decimalPlaces} decimal places allowed by ${numberTypeDef.name}`)})`).
+				close()
+			}
+			sbCheck.appendLine(`return value`)
+
+			this.utilsClass!.addStaticMethod(`check${name}`, [new TsParameter("value", "number")], "number").code.
+				appendLines(sbCheck.toString())
+			this.utilsClass!.addStaticMethod(`as${name}`, [new TsParameter("sAttribute", "SmlAttribute")], "number").code.
+				appendLine(`return ValueTypeUtils.check${name}(${this.getPredefinedTypeValueLoadCode(numberTypeDef.baseType, "sAttribute", null)})`)
+			this.utilsClass!.addStaticMethod(`get${name}`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("index", "number")], "number").code.
+				appendLine(`return ValueTypeUtils.check${name}(${this.getPredefinedTypeValueLoadCode(numberTypeDef.baseType, "sAttribute", "index")})`)
+			this.utilsClass!.addStaticMethod(`as${name}Array`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("min", "number | null"), new TsParameter("max", "number | null")], "number[]").code.
+				appendLine(`return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.get${name}(sAttribute, i))`)
+			this.utilsClass!.addStaticMethod(`asNullable${name}Array`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("min", "number | null"), new TsParameter("max", "number | null")], "(number | null)[]").code.
+				appendLine(`return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.get${name}(sAttribute, i))`)
+			this.utilsClass!.addStaticMethod(`get${name}String`, [new TsParameter("value", "number")], "string").code.
+				appendLine(`return ValueTypeUtils.check${name}(value).toString()`)
 		} else {
-			throw new Error("TODO")
+			throw new Error(`Value type "${valueTypeDef.name}" is not supported by the TypeScript code generator`)
 		}
 	}
 
-	private generateValueTypes(definitions: SsDefinitions) {
-		for (let valueTypeDef of definitions.valueTypeDefs.values) {
-			this.generateValueType(valueTypeDef, definitions)
+	private getStructValueLoadCode(value: SsStructValue, indexStr: string): string {
+		let loadCode: string
+		if (value.isPredefinedType) {
+			loadCode = this.getPredefinedTypeValueLoadCode(value.predefinedType!, "sAttribute", indexStr)
+		} else {
+			loadCode = `ValueTypeUtils.get${this.typeLookup.getName(value.valueTypeDef!)}(sAttribute, ${indexStr})`
 		}
-
-		for (let elementDef of definitions.elementDefs.values) {
-			this.generateValueTypes(elementDef.definitions)
+		if (value.nullable) {
+			loadCode = `(sAttribute.values[${indexStr}] === null ? null : ${loadCode})`
 		}
+		return loadCode
 	}
 
-	private generateStructValue(value: SsStructValue, structClass: TsClass) {
+	private generateStructValue(value: SsStructValue, valueIndex: number, members: TsMemberCode[], sbLoad: IndentedStringBuilder, sbSerialize: IndentedStringBuilder) {
 		let name: string = TsUtil.getIdentifier(value.name, false)
 		
 		let typeName: string
@@ -302,51 +1089,374 @@ export class SmlSchemaCodeGen {
 			typeName = this.getPredefinedTypeString(value.predefinedType!)
 			initialization = this.getPredefinedTypeInitialization(value.predefinedType!)
 		} else {
-			typeName = this.typeLookup.getName(value.valueTypeDef!)
+			typeName = this.getValueTypeString(value.valueTypeDef!)
 			initialization = this.getValueTypeInitialization(value.valueTypeDef!, typeName)
 		}
-		structClass.addProperty(`${name}: ${typeName} = ${initialization}`)
+		let hasDefault: boolean = value.defaultValue !== null
+		if (value.nullable || (value.optional && !hasDefault)) {
+			typeName += " | null"
+			initialization = "null"
+		}
+		if (hasDefault) {
+			initialization = this.getElementalLiteralCode(value.predefinedType, value.valueTypeDef, value.defaultValue!)
+		}
+		members.push(new TsMemberCode(name, typeName, initialization, true, value.description))
+
+		let valueStr: string = `${this.getInstanceStr("struct")}.${name}`
+		let loadCode: string = this.getStructValueLoadCode(value, `index+${valueIndex}`)
+		let serializeCode: string = this.getElementalSerializeCode(value.predefinedType, value.valueTypeDef, valueStr)
+		if (value.optional) {
+			sbLoad.open(`if (count > ${valueIndex})`)
+			sbLoad.appendLine(`struct.${name} = ${loadCode}`)
+			sbLoad.close()
+		} else {
+			sbLoad.appendLine(`struct.${name} = ${loadCode}`)
+		}
+		if (value.optional && !hasDefault) {
+			sbSerialize.open(`if (${valueStr} === null)`)
+			sbSerialize.appendLine(`return values`)
+			sbSerialize.close()
+		} else if (value.nullable) {
+			serializeCode = `${valueStr} === null ? null : ${serializeCode}`
+		}
+		sbSerialize.appendLine(`values.push(${serializeCode})`)
 	}
 
-	private generateStruct(structDef: SsStructDef, definitions: SsDefinitions) {
+	generateStruct(structDef: SsStructDef, definitions: SsDefinitions) {
 		let name: string = this.typeLookup.generateName(structDef.name + "Struct")
-		let structClass: TsClass = this.document.addClass(`export class ${name}`)
-		this.typeLookup.add(structDef, name, structClass)
+		let structClass: TsClass | null = null
+		let structInterface: TsInterface | null = null
+		if (this.isClassTarget) {
+			structClass = this.document.addClass(name)
+			structClass.docComment = structDef.description
+			this.typeLookup.add(structDef, name, structClass)
+		} else {
+			structInterface = this.document.addInterface(name)
+			structInterface.docComment = structDef.description
+			this.typeLookup.add(structDef, name, structInterface)
+		}
 
-		for (let value of structDef.values) {
-			this.generateStructValue(value, structClass)
+		let members: TsMemberCode[] = []
+		let sbLoad: IndentedStringBuilder = new IndentedStringBuilder()
+		let sbSerialize: IndentedStringBuilder = new IndentedStringBuilder()
+		let values: SsStructValue[] = structDef.values
+		for (let i=0; i<values.length; i++) {
+			this.generateStructValue(values[i], i, members, sbLoad, sbSerialize)
 		}
-	}
+		let size: number = values.length
+		let requiredCount: number = values.filter((x) => !x.optional).length
 
-	private generateStructs(definitions: SsDefinitions) {
-		for (let structDef of definitions.structDefs.values) {
-			this.generateStruct(structDef, definitions)
+		let sbLoadMethod: IndentedStringBuilder = new IndentedStringBuilder().
+			appendLine(`sAttribute.assureValueCountMinMax(${requiredCount}, ${size})`).
+			appendLine(`return ${this.getLoadCode(name, "Values", "sAttribute, 0, sAttribute.valueCount")}`)
+
+		let sbLoadArrayMethod: IndentedStringBuilder = new IndentedStringBuilder().
+			open(`if (sAttribute.valueCount % ${size} !== 0)`).
+				appendLine(`throw new Error(\`Value count of attribute "\${sAttribute.name}" is not a multiple of ${size}\`)`).
+			close().
+			appendLine(`let count: number = sAttribute.valueCount / ${size}`).
+			open(`if (count < min || (max !== null && count > max))`).
+				appendLine(`throw new Error(\`Attribute "\${sAttribute.name}" has \${count} array items but expected \${min}..\${max === null ? "N" : max}\`)`).
+			close().
+			appendLine(`let structs: ${name}[] = []`).
+			open(`for (let i=0; i<count; i++)`).
+				appendLine(`structs.push(${this.getLoadCode(name, "Values", `sAttribute, i*${size}, ${size}`)})`).
+			close().
+			appendLine(`return structs`)
+
+		let sbLoadValuesMethod: IndentedStringBuilder = new IndentedStringBuilder().
+			appendLine(`let struct: ${name} = ${this.getNewCode(name)}`).
+			appendLines(sbLoad.toString()).
+			appendLine(`return struct`)
+
+		let sbToValuesMethod: IndentedStringBuilder = new IndentedStringBuilder().
+			appendLine(`let values: (string | null)[] = []`).
+			appendLines(sbSerialize.toString()).
+			appendLine(`return values`)
+
+		let sbArrayToValuesMethod: IndentedStringBuilder = new IndentedStringBuilder().
+			appendLine(`let values: (string | null)[] = []`).
+			open(`for (let struct of structs)`).
+				appendLine(`values.push(...${this.getStructValuesCode(name, false, "struct")})`).
+			close().
+			appendLine(`return values`)
+
+		if (structClass !== null) {
+			for (let member of members) {
+				structClass.addProperty(member.name, member.typeName, member.initialization).docComment = member.description
+			}
+			structClass.addStaticMethod("load", [new TsParameter("sAttribute", "SmlAttribute")], name).code.appendLines(sbLoadMethod.toString())
+			structClass.addStaticMethod("loadArray", [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("min", "number"), new TsParameter("max", "number | null")], `${name}[]`).code.appendLines(sbLoadArrayMethod.toString())
+			structClass.addStaticMethod("loadValues", [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("index", "number"), new TsParameter("count", "number")], name).code.appendLines(sbLoadValuesMethod.toString())
+			structClass.addMethod("toValues", [], "(string | null)[]").code.appendLines(sbToValuesMethod.toString())
+			structClass.addStaticMethod("arrayToValues", [new TsParameter("structs", `${name}[]`)], "(string | null)[]").code.appendLines(sbArrayToValuesMethod.toString())
+		} else {
+			for (let member of members) {
+				structInterface!.addProperty(member.name, member.typeName).docComment = member.description
+			}
+			this.document.addFunction(`create${name}`, [], name).code.
+				appendLine(`return ${this.getObjectLiteralCode(members)}`)
+			this.document.addFunction(`load${name}`, [new TsParameter("sAttribute", "SmlAttribute")], name).code.appendLines(sbLoadMethod.toString())
+			this.document.addFunction(`load${name}Array`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("min", "number"), new TsParameter("max", "number | null")], `${name}[]`).code.appendLines(sbLoadArrayMethod.toString())
+			this.document.addFunction(`load${name}Values`, [new TsParameter("sAttribute", "SmlAttribute"), new TsParameter("index", "number"), new TsParameter("count", "number")], name).code.appendLines(sbLoadValuesMethod.toString())
+			this.document.addFunction(`get${name}Values`, [new TsParameter("struct", name)], "(string | null)[]").code.appendLines(sbToValuesMethod.toString())
+			this.document.addFunction(`get${name}ArrayValues`, [new TsParameter("structs", `${name}[]`)], "(string | null)[]").code.appendLines(sbArrayToValuesMethod.toString())
 		}
+	}
 
-		for (let elementDef of definitions.elementDefs.values) {
-			this.generateStructs(elementDef.definitions)
+	private generateValueTypeUtilsClass() {
+		this.utilsClass = this.document.addClass("ValueTypeUtils")
+		this.utilsClass.isExported = false
+		this.utilsClass.isAbstract = true
+	}
+
+	private generateLoadContextClass() {
+		let errorClass: TsClass = this.document.addClass("SmlLoadError")
+		errorClass.addProperty("path", "string").isReadonly = true
+		errorClass.addProperty("message", "string").isReadonly = true
+		errorClass.setConstructor([new TsParameter("path", "string"), new TsParameter("message", "string")]).code.
+			appendLine(`this.path = path`).
+			appendLine(`this.message = message`)
+		errorClass.addMethod("toString", [], "string").code.
+			appendLine(`return \`\${this.path}: \${this.message}\``)
+
+		let contextClass: TsClass = this.document.addClass("SmlLoadContext")
+		contextClass.addProperty("errors", "SmlLoadError[]", "[]").isReadonly = true
+		let sElementsProperty: TsProperty = contextClass.addProperty("sElements", "SmlElement[]", "[]")
+		sElementsProperty.isPrivate = true
+		sElementsProperty.isReadonly = true
+		let pathsProperty: TsProperty = contextClass.addProperty("paths", "string[]", "[]")
+		pathsProperty.isPrivate = true
+		pathsProperty.isReadonly = true
+		contextClass.addMethod("getPath", [new TsParameter("sNode", "SmlNode | null")], "string").code.
+			appendLine(`let path: string = this.paths.length > 0 ? this.paths[this.paths.length-1] : ""`).
+			appendLine(`if (!(sNode instanceof SmlNamedNode)) { return path }`).
+			appendLine(`let nodePath: string = (path.length > 0 ? path + "/" : "") + sNode.name`).
+			appendLine(`if (this.sElements.length === 0) { return nodePath }`).
+			appendLine(`let sSiblings: SmlNode[] = this.sElements[this.sElements.length-1].nodes.filter((x) => x instanceof SmlNamedNode && (x instanceof SmlElement) === (sNode instanceof SmlElement) && x.hasName(sNode.name))`).
+			open(`if (sSiblings.length > 1)`).
+				appendLine(`nodePath += \`[\${sSiblings.indexOf(sNode)+1}]\``).
+			close().
+			appendLine(`return nodePath`)
+		contextClass.addMethod("enter", [new TsParameter("sElement", "SmlElement")], "void").code.
+			appendLine(`this.paths.push(this.getPath(sElement))`).
+			appendLine(`this.sElements.push(sElement)`)
+		contextClass.addMethod("leave", [], "void").code.
+			appendLine(`this.paths.pop()`).
+			appendLine(`this.sElements.pop()`)
+		contextClass.addStaticMethod("handle", [new TsParameter("context", "SmlLoadContext | null"), new TsParameter("error", "unknown"), new TsParameter("sNode", "SmlNode | null")], "void").code.
+			appendLine(`if (context === null) { throw error }`).
+			appendLine(`context.errors.push(new SmlLoadError(context.getPath(sNode), error instanceof Error ? error.message : String(error)))`)
+	}
+
+	private generateNodeReaderClass() {
+		if (this.nodeReaderClass !== null) { return }
+		this.nodeReaderClass = this.document.addClass("SmlNodeReader")
+		this.nodeReaderClass.isExported = false
+		let sNodesProperty: TsProperty = this.nodeReaderClass.addProperty("sNodes", "SmlNamedNode[]")
+		sNodesProperty.isPrivate = true
+		sNodesProperty.isReadonly = true
+		this.nodeReaderClass.addProperty("index", "number", "0").isPrivate = true
+		this.nodeReaderClass.setConstructor([new TsParameter("sElement", "SmlElement")]).code.
+			appendLine(`this.sNodes = sElement.nodes.filter((x) => x instanceof SmlNamedNode) as SmlNamedNode[]`)
+		let hasNodeMethod: TsClassMethod = this.nodeReaderClass.addMethod("hasNode", [new TsParameter("name", "string"), new TsParameter("isElement", "boolean")], "boolean")
+		hasNodeMethod.isPrivate = true
+		hasNodeMethod.code.
+			appendLine(`if (this.index >= this.sNodes.length) { return false }`).
+			appendLine(`let sNode: SmlNamedNode = this.sNodes[this.index]`).
+			appendLine(`return (sNode instanceof SmlElement) === isElement && sNode.hasName(name)`)
+		let nodesMethod: TsClassMethod = this.nodeReaderClass.addMethod("nodes", [new TsParameter("name", "string"), new TsParameter("isElement", "boolean"), new TsParameter("min", "number"), new TsParameter("max", "number | null")], "SmlNamedNode[]")
+		nodesMethod.isPrivate = true
+		nodesMethod.code.
+			appendLine(`let result: SmlNamedNode[] = []`).
+			open(`while ((max === null || result.length < max) && this.hasNode(name, isElement))`).
+				appendLine(`result.push(this.sNodes[this.index++])`).
+			close().
+			open(`if (result.length < min)`).
+				appendLine(`throw new Error(\`\${isElement ? "Element" : "Attribute"} "\${name}" expected at position \${this.index+1}\`)`).
+			close().
+			appendLine(`return result`)
+		this.nodeReaderClass.addMethod("requiredElement", [new TsParameter("name", "string")], "SmlElement").code.
+			appendLine(`return this.nodes(name, true, 1, 1)[0] as SmlElement`)
+		this.nodeReaderClass.addMethod("optionalElement", [new TsParameter("name", "string")], "SmlElement | null").code.
+			appendLine(`let sElements: SmlNamedNode[] = this.nodes(name, true, 0, 1)`).
+			appendLine(`return sElements.length > 0 ? sElements[0] as SmlElement : null`)
+		this.nodeReaderClass.addMethod("elements", [new TsParameter("name", "string"), new TsParameter("min", "number"), new TsParameter("max", "number | null")], "SmlElement[]").code.
+			appendLine(`return this.nodes(name, true, min, max) as SmlElement[]`)
+		this.nodeReaderClass.addMethod("requiredAttribute", [new TsParameter("name", "string")], "SmlAttribute").code.
+			appendLine(`return this.nodes(name, false, 1, 1)[0] as SmlAttribute`)
+		this.nodeReaderClass.addMethod("optionalAttribute", [new TsParameter("name", "string")], "SmlAttribute | null").code.
+			appendLine(`let sAttributes: SmlNamedNode[] = this.nodes(name, false, 0, 1)`).
+			appendLine(`return sAttributes.length > 0 ? sAttributes[0] as SmlAttribute : null`)
+		this.nodeReaderClass.addMethod("attributes", [new TsParameter("name", "string"), new TsParameter("min", "number"), new TsParameter("max", "number | null")], "SmlAttribute[]").code.
+			appendLine(`return this.nodes(name, false, min, max) as SmlAttribute[]`)
+		this.nodeReaderClass.addMethod("choiceNodes", [new TsParameter("elementNames", "string[]"), new TsParameter("attributeNames", "string[]"), new TsParameter("min", "number"), new TsParameter("max", "number | null")], "SmlNamedNode[]").code.
+			appendLine(`let result: SmlNamedNode[] = []`).
+			open(`while ((max === null || result.length < max) && this.index < this.sNodes.length)`).
+				appendLine(`let sNode: SmlNamedNode = this.sNodes[this.index]`).
+				appendLine(`let names: string[] = sNode instanceof SmlElement ? elementNames : attributeNames`).
+				appendLine(`if (names.find((x) => sNode.hasName(x)) === undefined) { break }`).
+				appendLine(`result.push(this.sNodes[this.index++])`).
+			close().
+			open(`if (result.length < min)`).
+				appendLine(`throw new Error(\`One of \${[...elementNames, ...attributeNames].join(", ")} expected at position \${this.index+1}\`)`).
+			close().
+			appendLine(`return result`)
+		this.nodeReaderClass.addMethod("assureEnd", [], null).code.
+			open(`if (this.index < this.sNodes.length)`).
+				appendLine(`throw new Error(\`Unexpected node "\${this.sNodes[this.index].name}" at position \${this.index+1}\`)`).
+			close()
+	}
+
+	private generateDateValueClass() {
+		if (this.dateValueClass !== null) { return }
+		this.dateValueClass = this.document.addClass("DateValue")
+		for (let propertyName of ["year", "month", "day"]) {
+			this.dateValueClass.addProperty(propertyName, "number").isReadonly = true
 		}
+		this.dateValueClass.setConstructor([new TsParameter("year", "number", "1970"), new TsParameter("month", "number", "1"), new TsParameter("day", "number", "1")]).code.
+			open(`if (!DateValue.isValid(year, month, day))`).
+				appendLine(`throw new Error(\`Invalid date \${year}-\${month}-\${day}\`)`).
+			close().
+			appendLine(`this.year = year`).
+			appendLine(`this.month = month`).
+			appendLine(`this.day = day`)
+		this.dateValueClass.addStaticMethod("isValid", [new TsParameter("year", "number"), new TsParameter("month", "number"), new TsParameter("day", "number")], "boolean").code.
+			open(`if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day))`).
+				appendLine(`return false`).
+			close().
+			open(`if (year < 0 || year > 9999 || month < 1 || month > 12 || day < 1)`).
+				appendLine(`return false`).
+			close().
+			appendLine(`let isLeapYear: boolean = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0`).
+			appendLine(`let daysInMonth: number[] = [31, isLeapYear ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]`).
+			appendLine(`return day <= daysInMonth[month-1]`)
+		this.dateValueClass.addStaticMethod("parse", [new TsParameter("str", "string")], "DateValue").code.
+			appendLine(`let match: RegExpExecArray | null = /^([0-9]{4})-([0-9]{2})-([0-9]{2})$/.exec(str)`).
+			open(`if (match === null || !DateValue.isValid(parseInt(match[1]), parseInt(match[2]), parseInt(match[3])))`).
+				appendLine(`throw new Error(\`Invalid date "\${str}"\`)`).
+			close().
+			appendLine(`return new DateValue(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]))`)
+		this.dateValueClass.addMethod("toString", [], "string").code.
+			appendLine(`return \`\${this.year.toString().padStart(4, "0")}-\${this.month.toString().padStart(2, "0")}-\${this.day.toString().padStart(2, "0")}\``)
 	}
 
-	private generateElements(definitions: SsDefinitions) {
-		for (let elementDef of definitions.elementDefs.values) {
-			this.generateElementDef(elementDef)
+	private generateTimeValueClass() {
+		if (this.timeValueClass !== null) { return }
+		this.timeValueClass = this.document.addClass("TimeValue")
+		for (let propertyName of ["hour", "minute", "second", "millisecond"]) {
+			this.timeValueClass.addProperty(propertyName, "number").isReadonly = true
 		}
+		this.timeValueClass.setConstructor([new TsParameter("hour", "number", "0"), new TsParameter("minute", "number", "0"), new TsParameter("second", "number", "0"), new TsParameter("millisecond", "number", "0")]).code.
+			open(`if (!TimeValue.isValid(hour, minute, second, millisecond))`).
+				appendLine(`throw new Error(\`Invalid time \${hour}:\${minute}:\${second}.\${millisecond}\`)`).
+			close().
+			appendLine(`this.hour = hour`).
+			appendLine(`this.minute = minute`).
+			appendLine(`this.second = second`).
+			appendLine(`this.millisecond = millisecond`)
+		this.timeValueClass.addStaticMethod("isValid", [new TsParameter("hour", "number"), new TsParameter("minute", "number"), new TsParameter("second", "number"), new TsParameter("millisecond", "number")], "boolean").code.
+			open(`if (!Number.isInteger(hour) || !Number.isInteger(minute) || !Number.isInteger(second) || !Number.isInteger(millisecond))`).
+				appendLine(`return false`).
+			close().
+			appendLine(`return hour >= 0 && hour <= 23 && minute >= 0 && minute <= 59 && second >= 0 && second <= 59 && millisecond >= 0 && millisecond <= 999`)
+		this.timeValueClass.addStaticMethod("parse", [new TsParameter("str", "string")], "TimeValue").code.
+			appendLine(`let match: RegExpExecArray | null = /^([0-9]{2}):([0-9]{2})(?::([0-9]{2})(?:\\.([0-9]{1,3}))?)?$/.exec(str)`).
+			open(`if (match !== null)`).
+				appendLine(`let second: number = match[3] !== undefined ? parseInt(match[3]) : 0`).
+				appendLine(`let millisecond: number = match[4] !== undefined ? parseInt(match[4].padEnd(3, "0")) : 0`).
+				open(`if (TimeValue.isValid(parseInt(match[1]), parseInt(match[2]), second, millisecond))`).
+					appendLine(`return new TimeValue(parseInt(match[1]), parseInt(match[2]), second, millisecond)`).
+				close().
+			close().
+			appendLine(`throw new Error(\`Invalid time "\${str}"\`)`)
+		this.timeValueClass.addMethod("toString", [], "string").code.
+			appendLine(`let result: string = \`\${this.hour.toString().padStart(2, "0")}:\${this.minute.toString().padStart(2, "0")}:\${this.second.toString().padStart(2, "0")}\``).
+			open(`if (this.millisecond !== 0)`).
+				appendLine(`result += "." + this.millisecond.toString().padStart(3, "0")`).
+			close().
+			appendLine(`return result`)
 	}
 
-	private generateValueTypeUtilsClass() {
-		this.utilsClass = this.document.addClass(`abstract class ValueTypeUtils`)
+	private generateUIntUtils() {
+		if (this.uintGenerated) { return }
+		this.uintGenerated = true
+		this.utilsClass!.addStaticMethod("checkUInt", [new TsParameter("value", "number")], "number").code.
+			open(`if (value < 0)`).
+				appendLine(`throw new Error(\`Value \${value} is not a valid UInt\`)`).
+			close().
+			appendLine(`return value`)
 	}
 
-	generate(): string {
-		this.document.addImport("SmlDocument, SmlElement, SmlAttribute", "./sml.js")
+	private generateDateTimeUtils() {
+		if (this.dateTimeGenerated) { return }
+		this.dateTimeGenerated = true
+		this.utilsClass!.addStaticMethod("parseDateTime", [new TsParameter("str", "string")], "Date").code.
+			appendLine(`let date: Date = new Date(str)`).
+			open(`if (!/^[0-9]{4}-[0-9]{2}-[0-9]{2}[T ][0-9]{2}:[0-9]{2}(:[0-9]{2}(\\.[0-9]{1,3})?)?(Z|[-+][0-9]{2}:[0-9]{2})?$/.test(str) || isNaN(date.getTime()))`).
+				appendLine(`throw new Error(\`Invalid date time "\${str}"\`)`).
+			close().
+			appendLine(`return date`)
+	}
+
+	private generateBase64Utils() {
+		if (this.base64Generated) { return }
+		this.base64Generated = true
+		let base64CharsProperty: TsProperty = this.utilsClass!.addProperty("base64Chars", "string", TsUtil.escapeString("ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"))
+		base64CharsProperty.isPrivate = true
+		base64CharsProperty.isStatic = true
+		base64CharsProperty.isReadonly = true
+		this.utilsClass!.addStaticMethod("parseBase64", [new TsParameter("str", "string")], "Uint8Array").code.
+			open(`if (!/^([A-Za-z0-9+/]{4})*([A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(str))`).
+				appendLine(`throw new Error(\`Invalid Base64 string "\${str}"\`)`).
+			close().
+			appendLine(`let paddingCount: number = str.endsWith("==") ? 2 : (str.endsWith("=") ? 1 : 0)`).
+			appendLine(`let bytes: Uint8Array = new Uint8Array(str.length / 4 * 3 - paddingCount)`).
+			appendLine(`let byteIndex: number = 0`).
+			open(`for (let i=0; i<str.length; i+=4)`).
+				appendLine(`let bits: number = 0`).
+				open(`for (let j=0; j<4; j++)`).
+					appendLine(`let char: string = str.charAt(i+j)`).
+					appendLine(`bits = (bits << 6) | (char === "=" ? 0 : ValueTypeUtils.base64Chars.indexOf(char))`).
+				close().
+				open(`for (let j=0; j<3 && byteIndex < bytes.length; j++)`).
+					appendLine(`bytes[byteIndex++] = (bits >> (16 - j*8)) & 0xFF`).
+				close().
+			close().
+			appendLine(`return bytes`)
+		this.utilsClass!.addStaticMethod("getBase64String", [new TsParameter("bytes", "Uint8Array")], "string").code.
+			appendLine(`let result: string = ""`).
+			open(`for (let i=0; i<bytes.length; i+=3)`).
+				appendLine(`let count: number = Math.min(3, bytes.length - i)`).
+				appendLine(`let bits: number = (bytes[i] << 16) | ((count > 1 ? bytes[i+1] : 0) << 8) | (count > 2 ? bytes[i+2] : 0)`).
+				open(`for (let j=0; j<4; j++)`).
+					appendLine(`result += j > count ? "=" : ValueTypeUtils.base64Chars.charAt((bits >> (18 - j*6)) & 0x3F)`).
+				close().
+			close().
+			appendLine(`return result`)
+	}
+
+	begin(schema: SmlSchema) {
+		this.rootElementDef = schema.hasRootElement ? schema.getRootElement() : null
+		this.document = new TsDocument()
+		this.typeLookup = new TsLookup(true)
+		this.utilsClass = null
+		this.nodeReaderClass = null
+		this.dateValueClass = null
+		this.timeValueClass = null
+		this.base64Generated = false
+		this.uintGenerated = false
+		this.dateTimeGenerated = false
+		this.generatedArrayMethods.clear()
+		this.document.addImport(this.options.generateTryLoad ? "SmlDocument, SmlElement, SmlAttribute, SmlNamedNode, SmlNode" : "SmlDocument, SmlElement, SmlAttribute, SmlNamedNode", "./sml.js")
 
 		this.generateValueTypeUtilsClass()
+		if (this.options.generateTryLoad) {
+			this.generateLoadContextClass()
+		}
+	}
 
-		this.generateValueTypes(this.schema.definitions)
-		this.generateStructs(this.schema.definitions)
-		this.generateElements(this.schema.definitions)
-		
+	end(): string {
 		return this.document.toString()
 	}
 }
\ No newline at end of file
@@ -0,0 +1,517 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import { SmlSchema, SsAttributeDataType, SsAttributeDef, SsChoice, SsDefinitions, SsElementDef, SsEnumTypeDef, SsImport, SsListContent, SsNumberTypeDef, SsOrderedAttribute, SsOrderedChoice, SsOrderedContent, SsOrderedElement, SsOrderedItem, SsPredefinedType, SsPredefinedTypeUtil, SsRange, SsStringTypeDef, SsStructDef, SsStructValue, SsUnorderedContent, SsValueTypeDef, SsWhitespaceRule } from "./smlschema.js"
+
+// ----------------------------------------------------------------------
+
+export enum SsCompatibility {
+	Full,
+	Backward,
+	Forward,
+	Breaking
+}
+
+// ----------------------------------------------------------------------
+
+export enum SsSchemaChangeKind {
+	RootElementChanged,
+	ImportAdded,
+	ImportRemoved,
+	ImportAliasChanged,
+	ElementDefAdded,
+	ElementDefRemoved,
+	AttributeDefAdded,
+	AttributeDefRemoved,
+	ValueTypeDefAdded,
+	ValueTypeDefRemoved,
+	ValueTypeDefChanged,
+	StructDefAdded,
+	StructDefRemoved,
+	StructValueAdded,
+	StructValueRemoved,
+	StructValueChanged,
+	EnumValueAdded,
+	EnumValueRemoved,
+	ContentChanged,
+	BaseElementChanged,
+	ElementAdded,
+	ElementRemoved,
+	AttributeAdded,
+	AttributeRemoved,
+	ChoiceAdded,
+	ChoiceRemoved,
+	ChoiceAlternativeAdded,
+	ChoiceAlternativeRemoved,
+	OccurrenceChanged,
+	DataTypeChanged
+}
+
+// ----------------------------------------------------------------------
+
+export class SsSchemaChange {
+	readonly kind: SsSchemaChangeKind
+	readonly compatibility: SsCompatibility
+	readonly path: string
+	readonly message: string
+
+	get kindName(): string {
+		return SsSchemaChangeKind[this.kind]
+	}
+
+	get compatibilityName(): string {
+		return SsCompatibility[this.compatibility]
+	}
+
+	constructor(kind: SsSchemaChangeKind, compatibility: SsCompatibility, path: string, message: string) {
+		this.kind = kind
+		this.compatibility = compatibility
+		this.path = path
+		this.message = message
+	}
+
+	toString(): string {
+		return `${this.compatibilityName} ${this.kindName}: ${this.path.length > 0 ? this.path + ": " : ""}${this.message}`
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SsSchemaDiff {
+	readonly changes: SsSchemaChange[]
+
+	get isBackwardCompatible(): boolean {
+		return this.changes.every((x) => x.compatibility === SsCompatibility.Full || x.compatibility === SsCompatibility.Backward)
+	}
+
+	get isForwardCompatible(): boolean {
+		return this.changes.every((x) => x.compatibility === SsCompatibility.Full || x.compatibility === SsCompatibility.Forward)
+	}
+
+	get compatibility(): SsCompatibility {
+		return SsCompatibilityUtil.get(this.isBackwardCompatible, this.isForwardCompatible)
+	}
+
+	constructor(changes: SsSchemaChange[]) {
+		this.changes = changes
+	}
+
+	toJson(): object {
+		return {
+			compatibility: SsCompatibility[this.compatibility],
+			changes: this.changes.map((x) => ({ kind: x.kindName, compatibility: x.compatibilityName, path: x.path, message: x.message }))
+		}
+	}
+
+	toString(): string {
+		return this.changes.map((x) => x.toString()).join("\n")
+	}
+}
+
+// ----------------------------------------------------------------------
+
+abstract class SsCompatibilityUtil {
+	static get(backward: boolean, forward: boolean): SsCompatibility {
+		if (backward && forward) { return SsCompatibility.Full }
+		else if (backward) { return SsCompatibility.Backward }
+		else if (forward) { return SsCompatibility.Forward }
+		return SsCompatibility.Breaking
+	}
+
+	static rangeContains(outer: SsRange, inner: SsRange): boolean {
+		return (outer.min ?? 0) <= (inner.min ?? 0) && (outer.max === null || (inner.max !== null && inner.max <= outer.max))
+	}
+
+	static getRangeCompatibility(oldRange: SsRange, newRange: SsRange): SsCompatibility {
+		return SsCompatibilityUtil.get(SsCompatibilityUtil.rangeContains(newRange, oldRange), SsCompatibilityUtil.rangeContains(oldRange, newRange))
+	}
+
+	static isLowerBoundLooser(bound: number | null, exclusive: boolean, otherBound: number | null, otherExclusive: boolean): boolean {
+		if (bound === null) { return true }
+		if (otherBound === null) { return false }
+		return bound < otherBound || (bound === otherBound && (!exclusive || otherExclusive))
+	}
+
+	static isUpperBoundLooser(bound: number | null, exclusive: boolean, otherBound: number | null, otherExclusive: boolean): boolean {
+		if (bound === null) { return true }
+		if (otherBound === null) { return false }
+		return bound > otherBound || (bound === otherBound && (!exclusive || otherExclusive))
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SmlSchemaComparer {
+	private readonly oldSchema: SmlSchema
+	private readonly newSchema: SmlSchema
+	private changes: SsSchemaChange[] = []
+
+	constructor(oldSchema: SmlSchema, newSchema: SmlSchema) {
+		this.oldSchema = oldSchema
+		this.newSchema = newSchema
+	}
+
+	private addChange(kind: SsSchemaChangeKind, compatibility: SsCompatibility, path: string, message: string) {
+		this.changes.push(new SsSchemaChange(kind, compatibility, path, message))
+	}
+
+	private static getPath(path: string, name: string): string {
+		return path.length > 0 ? path + "/" + name : name
+	}
+
+	private static isPredefinedSubset(predefinedType: SsPredefinedType, otherPredefinedType: SsPredefinedType): boolean {
+		if (predefinedType === otherPredefinedType || otherPredefinedType === SsPredefinedType.String) { return true }
+		if (predefinedType === SsPredefinedType.UInt) { return otherPredefinedType === SsPredefinedType.Int || otherPredefinedType === SsPredefinedType.Number }
+		if (predefinedType === SsPredefinedType.Int) { return otherPredefinedType === SsPredefinedType.Number }
+		return false
+	}
+
+	private static isElementalSubset(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, otherPredefinedType: SsPredefinedType | null, otherValueTypeDef: SsValueTypeDef | null): boolean {
+		if (otherPredefinedType === SsPredefinedType.String) { return true }
+		if (predefinedType !== null && otherPredefinedType !== null) { return SmlSchemaComparer.isPredefinedSubset(predefinedType, otherPredefinedType) }
+		if (valueTypeDef !== null && otherValueTypeDef !== null) {
+			if (valueTypeDef.name === otherValueTypeDef.name) { return true }
+			if (valueTypeDef instanceof SsEnumTypeDef && otherValueTypeDef instanceof SsEnumTypeDef) {
+				let otherValues: string[] = (otherValueTypeDef as SsEnumTypeDef).values
+				return (valueTypeDef as SsEnumTypeDef).values.every((x) => otherValues.includes(x))
+			}
+			return false
+		}
+		if (valueTypeDef instanceof SsNumberTypeDef && otherPredefinedType !== null) {
+			return SmlSchemaComparer.isPredefinedSubset((valueTypeDef as SsNumberTypeDef).baseType, otherPredefinedType)
+		}
+		return false
+	}
+
+	private static isDataTypeSubset(dataType: SsAttributeDataType, otherDataType: SsAttributeDataType): boolean {
+		if (dataType.isStruct || otherDataType.isStruct) {
+			if (!dataType.isStruct || !otherDataType.isStruct || dataType.structDef!.name !== otherDataType.structDef!.name) { return false }
+		} else if (!SmlSchemaComparer.isElementalSubset(dataType.predefinedType, dataType.valueTypeDef, otherDataType.predefinedType, otherDataType.valueTypeDef)) {
+			return false
+		}
+		if (dataType.nullable && !otherDataType.nullable) { return false }
+		if (dataType.arrayNullable && !otherDataType.arrayNullable) { return false }
+		let arrayRange: SsRange = dataType.arrayRange ?? SsRange.required()
+		let otherArrayRange: SsRange = otherDataType.arrayRange ?? SsRange.required()
+		return SsCompatibilityUtil.rangeContains(otherArrayRange, arrayRange)
+	}
+
+	private compareDataTypes(oldDataType: SsAttributeDataType, newDataType: SsAttributeDataType, path: string, description: string) {
+		let oldStr: string = oldDataType.toString()
+		let newStr: string = newDataType.toString()
+		if (oldStr === newStr) { return }
+		let compatibility: SsCompatibility = SsCompatibilityUtil.get(SmlSchemaComparer.isDataTypeSubset(oldDataType, newDataType), SmlSchemaComparer.isDataTypeSubset(newDataType, oldDataType))
+		this.addChange(SsSchemaChangeKind.DataTypeChanged, compatibility, path, `Data type of ${description} changed from ${oldStr} to ${newStr}`)
+	}
+
+	private compareOccurrences(oldOccurrence: SsRange, newOccurrence: SsRange, path: string, description: string) {
+		if (oldOccurrence.toString() === newOccurrence.toString()) { return }
+		this.addChange(SsSchemaChangeKind.OccurrenceChanged, SsCompatibilityUtil.getRangeCompatibility(oldOccurrence, newOccurrence), path, `Occurrence of ${description} changed from ${oldOccurrence} to ${newOccurrence}`)
+	}
+
+	private compareEnumTypeDefs(oldEnumTypeDef: SsEnumTypeDef, newEnumTypeDef: SsEnumTypeDef, path: string) {
+		for (let value of oldEnumTypeDef.values) {
+			if (!newEnumTypeDef.values.includes(value)) {
+				this.addChange(SsSchemaChangeKind.EnumValueRemoved, SsCompatibility.Forward, SmlSchemaComparer.getPath(path, value), `Value "${value}" was removed from enum "${oldEnumTypeDef.name}"`)
+			}
+		}
+		for (let value of newEnumTypeDef.values) {
+			if (!oldEnumTypeDef.values.includes(value)) {
+				this.addChange(SsSchemaChangeKind.EnumValueAdded, SsCompatibility.Backward, SmlSchemaComparer.getPath(path, value), `Value "${value}" was added to enum "${newEnumTypeDef.name}"`)
+			}
+		}
+	}
+
+	private static getStringTypeCompatibility(oldStringTypeDef: SsStringTypeDef, newStringTypeDef: SsStringTypeDef): SsCompatibility {
+		if (oldStringTypeDef.pattern !== newStringTypeDef.pattern || oldStringTypeDef.whitespace !== newStringTypeDef.whitespace ||
+			oldStringTypeDef.charactersRegExpSource !== newStringTypeDef.charactersRegExpSource) { return SsCompatibility.Breaking }
+		let oldLength: SsRange = new SsRange(oldStringTypeDef.minLength, oldStringTypeDef.maxLength)
+		let newLength: SsRange = new SsRange(newStringTypeDef.minLength, newStringTypeDef.maxLength)
+		return SsCompatibilityUtil.getRangeCompatibility(oldLength, newLength)
+	}
+
+	private static getNumberTypeCompatibility(oldNumberTypeDef: SsNumberTypeDef, newNumberTypeDef: SsNumberTypeDef): SsCompatibility {
+		let backward: boolean = SmlSchemaComparer.isPredefinedSubset(oldNumberTypeDef.baseType, newNumberTypeDef.baseType) &&
+			SsCompatibilityUtil.isLowerBoundLooser(newNumberTypeDef.min, newNumberTypeDef.minExclusive, oldNumberTypeDef.min, oldNumberTypeDef.minExclusive) &&
+			SsCompatibilityUtil.isUpperBoundLooser(newNumberTypeDef.max, newNumberTypeDef.maxExclusive, oldNumberTypeDef.max, oldNumberTypeDef.maxExclusive)
+		let forward: boolean = SmlSchemaComparer.isPredefinedSubset(newNumberTypeDef.baseType, oldNumberTypeDef.baseType) &&
+			SsCompatibilityUtil.isLowerBoundLooser(oldNumberTypeDef.min, oldNumberTypeDef.minExclusive, newNumberTypeDef.min, newNumberTypeDef.minExclusive) &&
+			SsCompatibilityUtil.isUpperBoundLooser(oldNumberTypeDef.max, oldNumberTypeDef.maxExclusive, newNumberTypeDef.max, newNumberTypeDef.maxExclusive)
+		for (let [oldValue, newValue] of [[oldNumberTypeDef.step, newNumberTypeDef.step], [oldNumberTypeDef.decimalPlaces, newNumberTypeDef.decimalPlaces]]) {
+			if (oldValue === newValue) { continue }
+			if (newValue !== null) { backward = false }
+			if (oldValue !== null) { forward = false }
+		}
+		return SsCompatibilityUtil.get(backward, forward)
+	}
+
+	private static getValueTypeDefStr(valueTypeDef: SsValueTypeDef): string {
+		if (valueTypeDef instanceof SsStringTypeDef) {
+			let stringTypeDef: SsStringTypeDef = valueTypeDef as SsStringTypeDef
+			return `StringType(length ${new SsRange(stringTypeDef.minLength, stringTypeDef.maxLength)}, pattern ${stringTypeDef.pattern ?? "-"}, characters ${stringTypeDef.charactersRegExpSource ?? "-"}, whitespace ${SsWhitespaceRule[stringTypeDef.whitespace]})`
+		} else if (valueTypeDef instanceof SsNumberTypeDef) {
+			let numberTypeDef: SsNumberTypeDef = valueTypeDef as SsNumberTypeDef
+			return `NumberType(${SsPredefinedTypeUtil.getPredefinedTypeString(numberTypeDef.baseType)}, min ${numberTypeDef.min ?? "-"}${numberTypeDef.minExclusive ? " exclusive" : ""}, max ${numberTypeDef.max ?? "-"}${numberTypeDef.maxExclusive ? " exclusive" : ""}, step ${numberTypeDef.step ?? "-"}, decimal places ${numberTypeDef.decimalPlaces ?? "-"})`
+		}
+		return "EnumType"
+	}
+
+	private compareValueTypeDefs(oldValueTypeDef: SsValueTypeDef, newValueTypeDef: SsValueTypeDef, path: string) {
+		if (oldValueTypeDef instanceof SsEnumTypeDef && newValueTypeDef instanceof SsEnumTypeDef) {
+			this.compareEnumTypeDefs(oldValueTypeDef as SsEnumTypeDef, newValueTypeDef as SsEnumTypeDef, path)
+			return
+		}
+		let compatibility: SsCompatibility
+		if (oldValueTypeDef instanceof SsStringTypeDef && newValueTypeDef instanceof SsStringTypeDef) {
+			compatibility = SmlSchemaComparer.getStringTypeCompatibility(oldValueTypeDef as SsStringTypeDef, newValueTypeDef as SsStringTypeDef)
+		} else if (oldValueTypeDef instanceof SsNumberTypeDef && newValueTypeDef instanceof SsNumberTypeDef) {
+			compatibility = SmlSchemaComparer.getNumberTypeCompatibility(oldValueTypeDef as SsNumberTypeDef, newValueTypeDef as SsNumberTypeDef)
+		} else {
+			compatibility = SsCompatibility.Breaking
+		}
+		let oldStr: string = SmlSchemaComparer.getValueTypeDefStr(oldValueTypeDef)
+		let newStr: string = SmlSchemaComparer.getValueTypeDefStr(newValueTypeDef)
+		if (oldStr === newStr) { return }
+		this.addChange(SsSchemaChangeKind.ValueTypeDefChanged, compatibility, path, `Value type "${oldValueTypeDef.name}" changed from ${oldStr} to ${newStr}`)
+	}
+
+	private compareStructDefs(oldStructDef: SsStructDef, newStructDef: SsStructDef, path: string) {
+		let oldValues: SsStructValue[] = oldStructDef.values
+		let newValues: SsStructValue[] = newStructDef.values
+		let oldNames: string[] = oldValues.map((x) => x.name)
+		let newNames: string[] = newValues.map((x) => x.name)
+		let commonCount: number = 0
+		while (commonCount < oldNames.length && commonCount < newNames.length && oldNames[commonCount] === newNames[commonCount]) { commonCount++ }
+		for (let i=0; i<commonCount; i++) {
+			let oldValue: SsStructValue = oldValues[i]
+			let newValue: SsStructValue = newValues[i]
+			let oldStr: string = (oldValue.optional ? "Optional " : "Required ") + oldValue.getTypeString()
+			let newStr: string = (newValue.optional ? "Optional " : "Required ") + newValue.getTypeString()
+			if (oldStr === newStr) { continue }
+			let isOldSubset: boolean = SmlSchemaComparer.isElementalSubset(oldValue.predefinedType, oldValue.valueTypeDef, newValue.predefinedType, newValue.valueTypeDef) && (!oldValue.nullable || newValue.nullable)
+			let isNewSubset: boolean = SmlSchemaComparer.isElementalSubset(newValue.predefinedType, newValue.valueTypeDef, oldValue.predefinedType, oldValue.valueTypeDef) && (!newValue.nullable || oldValue.nullable)
+			let compatibility: SsCompatibility = SsCompatibilityUtil.get(isOldSubset && (!oldValue.optional || newValue.optional), isNewSubset && (!newValue.optional || oldValue.optional))
+			this.addChange(SsSchemaChangeKind.StructValueChanged, compatibility, SmlSchemaComparer.getPath(path, oldValue.name), `Value "${oldValue.name}" of struct "${oldStructDef.name}" changed from ${oldStr} to ${newStr}`)
+		}
+		for (let oldValue of oldValues.slice(commonCount)) {
+			let compatibility: SsCompatibility = oldValue.optional && commonCount === newValues.length ? SsCompatibility.Forward : SsCompatibility.Breaking
+			this.addChange(SsSchemaChangeKind.StructValueRemoved, compatibility, SmlSchemaComparer.getPath(path, oldValue.name), `Value "${oldValue.name}" was removed from struct "${oldStructDef.name}"`)
+		}
+		for (let newValue of newValues.slice(commonCount)) {
+			let compatibility: SsCompatibility = newValue.optional && commonCount === oldValues.length ? SsCompatibility.Backward : SsCompatibility.Breaking
+			this.addChange(SsSchemaChangeKind.StructValueAdded, compatibility, SmlSchemaComparer.getPath(path, newValue.name), `Value "${newValue.name}" was added to struct "${newStructDef.name}"`)
+		}
+	}
+
+	private compareAddedOrRemoved(oldOccurrence: SsRange | null, newOccurrence: SsRange | null, kind: SsSchemaChangeKind, path: string, description: string) {
+		if (oldOccurrence !== null) {
+			let compatibility: SsCompatibility = (oldOccurrence.min ?? 0) === 0 ? SsCompatibility.Forward : SsCompatibility.Breaking
+			this.addChange(kind, compatibility, path, `${description} was removed`)
+		} else {
+			let compatibility: SsCompatibility = (newOccurrence!.min ?? 0) === 0 ? SsCompatibility.Backward : SsCompatibility.Breaking
+			this.addChange(kind, compatibility, path, `${description} was added`)
+		}
+	}
+
+	private compareChoices(oldChoice: SsChoice, newChoice: SsChoice, path: string, elementName: string) {
+		for (let oldAlternative of oldChoice.alternatives) {
+			let newAlternative = newChoice.alternatives.find((x) => x.name === oldAlternative.name && x.isElement === oldAlternative.isElement)
+			let description: string = `${oldAlternative.isElement ? "Element" : "Attribute"} alternative "${oldAlternative.name}" of a choice in element "${elementName}"`
+			if (newAlternative === undefined) {
+				this.addChange(SsSchemaChangeKind.ChoiceAlternativeRemoved, SsCompatibility.Forward, SmlSchemaComparer.getPath(path, oldAlternative.name), `${description} was removed`)
+			} else if (!oldAlternative.isElement) {
+				this.compareDataTypes(oldAlternative.attributeDef!.dataType, newAlternative.attributeDef!.dataType, SmlSchemaComparer.getPath(path, oldAlternative.name), description.charAt(0).toLowerCase() + description.substring(1))
+			}
+		}
+		for (let newAlternative of newChoice.alternatives) {
+			if (oldChoice.alternatives.find((x) => x.name === newAlternative.name && x.isElement === newAlternative.isElement) === undefined) {
+				this.addChange(SsSchemaChangeKind.ChoiceAlternativeAdded, SsCompatibility.Backward, SmlSchemaComparer.getPath(path, newAlternative.name), `${newAlternative.isElement ? "Element" : "Attribute"} alternative "${newAlternative.name}" of a choice in element "${elementName}" was added`)
+			}
+		}
+	}
+
+	private compareUnorderedContents(oldContent: SsUnorderedContent, newContent: SsUnorderedContent, path: string, elementName: string) {
+		for (let oldElement of oldContent.unorderedElements) {
+			let newElement = newContent.unorderedElements.find((x) => x.elementDef.name === oldElement.elementDef.name)
+			let itemPath: string = SmlSchemaComparer.getPath(path, oldElement.elementDef.name)
+			let description: string = `element "${oldElement.elementDef.name}" in element "${elementName}"`
+			if (newElement === undefined) { this.compareAddedOrRemoved(oldElement.occurrence, null, SsSchemaChangeKind.ElementRemoved, itemPath, "Child " + description) }
+			else { this.compareOccurrences(oldElement.occurrence, newElement.occurrence, itemPath, description) }
+		}
+		for (let newElement of newContent.unorderedElements) {
+			if (oldContent.unorderedElements.find((x) => x.elementDef.name === newElement.elementDef.name) === undefined) {
+				this.compareAddedOrRemoved(null, newElement.occurrence, SsSchemaChangeKind.ElementAdded, SmlSchemaComparer.getPath(path, newElement.elementDef.name), `Child element "${newElement.elementDef.name}" in element "${elementName}"`)
+			}
+		}
+		for (let oldAttribute of oldContent.unorderedAttributes) {
+			let newAttribute = newContent.unorderedAttributes.find((x) => x.attributeDef.name === oldAttribute.attributeDef.name)
+			let itemPath: string = SmlSchemaComparer.getPath(path, oldAttribute.attributeDef.name)
+			let description: string = `attribute "${oldAttribute.attributeDef.name}" in element "${elementName}"`
+			if (newAttribute === undefined) {
+				this.compareAddedOrRemoved(oldAttribute.occurrence, null, SsSchemaChangeKind.AttributeRemoved, itemPath, "Attribute " + description.substring(10))
+			} else {
+				this.compareOccurrences(oldAttribute.occurrence, newAttribute.occurrence, itemPath, description)
+				this.compareDataTypes(oldAttribute.attributeDef.dataType, newAttribute.attributeDef.dataType, itemPath, description)
+			}
+		}
+		for (let newAttribute of newContent.unorderedAttributes) {
+			if (oldContent.unorderedAttributes.find((x) => x.attributeDef.name === newAttribute.attributeDef.name) === undefined) {
+				this.compareAddedOrRemoved(null, newAttribute.occurrence, SsSchemaChangeKind.AttributeAdded, SmlSchemaComparer.getPath(path, newAttribute.attributeDef.name), `Attribute "${newAttribute.attributeDef.name}" in element "${elementName}"`)
+			}
+		}
+		let matchedNewChoices: SsChoice[] = []
+		for (let oldChoice of oldContent.unorderedChoices) {
+			let oldNames: string[] = oldChoice.choice.alternatives.map((x) => x.name)
+			let newChoice = newContent.unorderedChoices.find((x) => !matchedNewChoices.includes(x.choice) && x.choice.alternatives.some((y) => oldNames.includes(y.name)))
+			let itemPath: string = SmlSchemaComparer.getPath(path, oldNames.join("|"))
+			if (newChoice === undefined) {
+				this.compareAddedOrRemoved(oldChoice.occurrence, null, SsSchemaChangeKind.ChoiceRemoved, itemPath, `Choice ${oldChoice.choice} in element "${elementName}"`)
+			} else {
+				matchedNewChoices.push(newChoice.choice)
+				this.compareOccurrences(oldChoice.occurrence, newChoice.occurrence, itemPath, `choice ${oldChoice.choice} in element "${elementName}"`)
+				this.compareChoices(oldChoice.choice, newChoice.choice, itemPath, elementName)
+			}
+		}
+		for (let newChoice of newContent.unorderedChoices) {
+			if (!matchedNewChoices.includes(newChoice.choice)) {
+				this.compareAddedOrRemoved(null, newChoice.occurrence, SsSchemaChangeKind.ChoiceAdded, SmlSchemaComparer.getPath(path, newChoice.choice.alternatives.map((x) => x.name).join("|")), `Choice ${newChoice.choice} in element "${elementName}"`)
+			}
+		}
+	}
+
+	private static getOrderedItemName(item: SsOrderedItem): string {
+		if (item instanceof SsOrderedElement) { return "Element " + (item as SsOrderedElement).elementDef.name }
+		else if (item instanceof SsOrderedChoice) { return "Choice " + (item as SsOrderedChoice).choice.alternatives.map((x) => x.name).join("|") }
+		return "Attribute " + (item as SsOrderedAttribute).attributeDef.name
+	}
+
+	private compareOrderedContents(oldContent: SsOrderedContent, newContent: SsOrderedContent, path: string, elementName: string) {
+		let oldNames: string[] = oldContent.items.map((x) => SmlSchemaComparer.getOrderedItemName(x))
+		let newNames: string[] = newContent.items.map((x) => SmlSchemaComparer.getOrderedItemName(x))
+		if (oldNames.join(", ") !== newNames.join(", ")) {
+			this.addChange(SsSchemaChangeKind.ContentChanged, SsCompatibility.Breaking, path, `Ordered content of element "${elementName}" changed from (${oldNames.join(", ")}) to (${newNames.join(", ")})`)
+			return
+		}
+		let newItems: SsOrderedItem[] = newContent.items
+		oldContent.items.forEach((oldItem, i) => {
+			let newItem: SsOrderedItem = newItems[i]
+			let itemPath: string = SmlSchemaComparer.getPath(path, oldNames[i].substring(oldNames[i].indexOf(" ")+1))
+			let description: string = `${oldNames[i].toLowerCase().substring(0, oldNames[i].indexOf(" "))} "${itemPath.substring(itemPath.lastIndexOf("/")+1)}" in element "${elementName}"`
+			this.compareOccurrences(oldItem.occurrence, newItem.occurrence, itemPath, description)
+			if (oldItem instanceof SsOrderedAttribute) {
+				this.compareDataTypes((oldItem as SsOrderedAttribute).attributeDef.dataType, (newItem as SsOrderedAttribute).attributeDef.dataType, itemPath, description)
+			} else if (oldItem instanceof SsOrderedChoice) {
+				this.compareChoices((oldItem as SsOrderedChoice).choice, (newItem as SsOrderedChoice).choice, itemPath, elementName)
+			}
+		})
+	}
+
+	private compareListContents(oldContent: SsListContent, newContent: SsListContent, path: string, elementName: string) {
+		let oldName: string = oldContent.isElementList ? oldContent.listElementDef!.name : oldContent.listAttributeDef!.name
+		let newName: string = newContent.isElementList ? newContent.listElementDef!.name : newContent.listAttributeDef!.name
+		if (oldContent.isElementList !== newContent.isElementList || oldName !== newName) {
+			this.addChange(SsSchemaChangeKind.ContentChanged, SsCompatibility.Breaking, path, `List content of element "${elementName}" changed from "${oldName}" to "${newName}"`)
+			return
+		}
+		let itemPath: string = SmlSchemaComparer.getPath(path, oldName)
+		let description: string = `${oldContent.isElementList ? "element" : "attribute"} "${oldName}" in element "${elementName}"`
+		this.compareOccurrences(oldContent.occurrence, newContent.occurrence, itemPath, description)
+		if (oldContent.isAttributeList) {
+			this.compareDataTypes(oldContent.listAttributeDef!.dataType, newContent.listAttributeDef!.dataType, itemPath, description)
+		}
+	}
+
+	private static getContentTypeName(elementDef: SsElementDef): string {
+		if (elementDef.isUnordered) { return "unordered content" }
+		else if (elementDef.isOrdered) { return "ordered content" }
+		else if (elementDef.isList) { return "list content" }
+		return "no content"
+	}
+
+	private compareElementDefs(oldElementDef: SsElementDef, newElementDef: SsElementDef, path: string) {
+		let oldBaseName: string | null = oldElementDef.baseElementDef === null ? null : oldElementDef.baseElementDef.name
+		let newBaseName: string | null = newElementDef.baseElementDef === null ? null : newElementDef.baseElementDef.name
+		if (oldBaseName !== newBaseName) {
+			// inherited content is part of the compared unordered content, so its effects are reported there
+			this.addChange(SsSchemaChangeKind.BaseElementChanged, SsCompatibility.Full, path, `Base element of element "${oldElementDef.name}" changed from ${oldBaseName === null ? "none" : `"${oldBaseName}"`} to ${newBaseName === null ? "none" : `"${newBaseName}"`}`)
+		}
+
+		let oldContent = oldElementDef.content
+		let newContent = newElementDef.content
+		if (oldContent instanceof SsUnorderedContent && newContent instanceof SsUnorderedContent) {
+			this.compareUnorderedContents(oldContent as SsUnorderedContent, newContent as SsUnorderedContent, path, oldElementDef.name)
+		} else if (oldContent instanceof SsOrderedContent && newContent instanceof SsOrderedContent) {
+			this.compareOrderedContents(oldContent as SsOrderedContent, newContent as SsOrderedContent, path, oldElementDef.name)
+		} else if (oldContent instanceof SsListContent && newContent instanceof SsListContent) {
+			this.compareListContents(oldContent as SsListContent, newContent as SsListContent, path, oldElementDef.name)
+		} else if (oldContent !== null || newContent !== null) {
+			let oldTypeName: string = SmlSchemaComparer.getContentTypeName(oldElementDef)
+			let newTypeName: string = SmlSchemaComparer.getContentTypeName(newElementDef)
+			this.addChange(SsSchemaChangeKind.ContentChanged, SsCompatibility.Breaking, path, `Content of element "${oldElementDef.name}" changed from ${oldTypeName} to ${newTypeName}`)
+		}
+
+		this.compareDefinitions(oldElementDef.definitions, newElementDef.definitions, path, false)
+	}
+
+	private compareDefinitionLists<T extends { name: string }>(oldDefs: T[], newDefs: T[], path: string, isImportable: boolean, typeName: string, addedKind: SsSchemaChangeKind, removedKind: SsSchemaChangeKind, compare: (oldDef: T, newDef: T, defPath: string) => void) {
+		let removedCompatibility: SsCompatibility = isImportable ? SsCompatibility.Breaking : SsCompatibility.Full
+		for (let oldDef of oldDefs) {
+			let newDef: T | undefined = newDefs.find((x) => x.name === oldDef.name)
+			let defPath: string = SmlSchemaComparer.getPath(path, oldDef.name)
+			if (newDef === undefined) { this.addChange(removedKind, removedCompatibility, defPath, `${typeName} "${oldDef.name}" was removed`) }
+			else { compare(oldDef, newDef, defPath) }
+		}
+		for (let newDef of newDefs) {
+			if (oldDefs.find((x) => x.name === newDef.name) === undefined) {
+				this.addChange(addedKind, SsCompatibility.Full, SmlSchemaComparer.getPath(path, newDef.name), `${typeName} "${newDef.name}" was added`)
+			}
+		}
+	}
+
+	private compareDefinitions(oldDefinitions: SsDefinitions, newDefinitions: SsDefinitions, path: string, isImportable: boolean) {
+		this.compareDefinitionLists(oldDefinitions.valueTypeDefs.values, newDefinitions.valueTypeDefs.values, path, isImportable, "Value type", SsSchemaChangeKind.ValueTypeDefAdded, SsSchemaChangeKind.ValueTypeDefRemoved,
+			(oldDef, newDef, defPath) => this.compareValueTypeDefs(oldDef, newDef, defPath))
+		this.compareDefinitionLists(oldDefinitions.structDefs.values, newDefinitions.structDefs.values, path, isImportable, "Struct", SsSchemaChangeKind.StructDefAdded, SsSchemaChangeKind.StructDefRemoved,
+			(oldDef, newDef, defPath) => this.compareStructDefs(oldDef, newDef, defPath))
+		this.compareDefinitionLists<SsAttributeDef>(oldDefinitions.attributeDefs.values, newDefinitions.attributeDefs.values, path, isImportable, "Attribute definition", SsSchemaChangeKind.AttributeDefAdded, SsSchemaChangeKind.AttributeDefRemoved,
+			(oldDef, newDef, defPath) => this.compareDataTypes(oldDef.dataType, newDef.dataType, defPath, `attribute definition "${oldDef.name}"`))
+		this.compareDefinitionLists(oldDefinitions.elementDefs.values, newDefinitions.elementDefs.values, path, isImportable, "Element definition", SsSchemaChangeKind.ElementDefAdded, SsSchemaChangeKind.ElementDefRemoved,
+			(oldDef, newDef, defPath) => this.compareElementDefs(oldDef, newDef, defPath))
+	}
+
+	private compareImports(oldImports: SsImport[], newImports: SsImport[], path: string) {
+		for (let oldImport of oldImports) {
+			let newImport: SsImport | undefined = newImports.find((x) => x.path === oldImport.path)
+			let importPath: string = SmlSchemaComparer.getPath(path, oldImport.path)
+			if (newImport === undefined) {
+				this.addChange(SsSchemaChangeKind.ImportRemoved, SsCompatibility.Full, importPath, `Import "${oldImport.path}" was removed`)
+				continue
+			}
+			if (oldImport.alias !== newImport.alias) {
+				this.addChange(SsSchemaChangeKind.ImportAliasChanged, SsCompatibility.Full, importPath, `Alias of import "${oldImport.path}" changed from ${oldImport.alias === null ? "none" : `"${oldImport.alias}"`} to ${newImport.alias === null ? "none" : `"${newImport.alias}"`}`)
+			}
+			this.compareImports(oldImport.schema.imports, newImport.schema.imports, importPath)
+			this.compareDefinitions(oldImport.schema.definitions, newImport.schema.definitions, importPath, false)
+		}
+		for (let newImport of newImports) {
+			if (oldImports.find((x) => x.path === newImport.path) === undefined) {
+				this.addChange(SsSchemaChangeKind.ImportAdded, SsCompatibility.Full, SmlSchemaComparer.getPath(path, newImport.path), `Import "${newImport.path}" was added`)
+			}
+		}
+	}
+
+	compare(): SsSchemaDiff {
+		this.changes = []
+		let oldRootName: string | null = this.oldSchema.hasRootElement ? this.oldSchema.getRootElement().name : null
+		let newRootName: string | null = this.newSchema.hasRootElement ? this.newSchema.getRootElement().name : null
+		if (oldRootName !== newRootName) {
+			this.addChange(SsSchemaChangeKind.RootElementChanged, SsCompatibility.Breaking, "", `Root element changed from "${oldRootName ?? "-"}" to "${newRootName ?? "-"}"`)
+		}
+		this.compareImports(this.oldSchema.imports, this.newSchema.imports, "")
+		this.compareDefinitions(this.oldSchema.definitions, this.newSchema.definitions, "", !this.oldSchema.hasRootElement)
+		return new SsSchemaDiff(this.changes)
+	}
+
+	static compare(oldSchema: SmlSchema, newSchema: SmlSchema): SsSchemaDiff {
+		return new SmlSchemaComparer(oldSchema, newSchema).compare()
+	}
+}
@@ -0,0 +1,197 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import { SmlAttribute, SmlDocument, SmlElement } from "./sml.js"
+import { SmlSchema, SsAttributeDataType, SsAttributeDef, SsElementDef, SsPredefinedType, SsPredefinedTypeUtil, SsRange, SsUnorderedContent, SsValueTypeDef } from "./smlschema.js"
+
+// ----------------------------------------------------------------------
+
+class SsObservedOccurrence {
+	readonly name: string
+	presentCount: number = 0
+	minCount: number | null = null
+	maxCount: number = 0
+
+	constructor(name: string) {
+		this.name = name
+	}
+
+	addCount(count: number) {
+		this.presentCount++
+		this.minCount = this.minCount === null ? count : Math.min(this.minCount, count)
+		this.maxCount = Math.max(this.maxCount, count)
+	}
+
+	getOccurrence(parentCount: number): SsRange {
+		let isAlwaysPresent: boolean = this.presentCount === parentCount
+		if (this.maxCount <= 1) { return isAlwaysPresent ? SsRange.required() : SsRange.optional() }
+		return isAlwaysPresent ? SsRange.repeatedPlus() : SsRange.repeatedStar()
+	}
+}
+
+// ----------------------------------------------------------------------
+
+class SsObservedAttribute extends SsObservedOccurrence {
+	minValueCount: number | null = null
+	maxValueCount: number = 0
+	hasNullValue: boolean = false
+	valueCount: number = 0
+	readonly distinctValues: Set<string> = new Set<string>()
+	readonly candidateTypes: SsPredefinedType[] = [SsPredefinedType.Bool, SsPredefinedType.UInt, SsPredefinedType.Int, SsPredefinedType.Number, SsPredefinedType.Date, SsPredefinedType.Time, SsPredefinedType.DateTime]
+
+	addValues(values: (string | null)[], maxDistinctValues: number) {
+		this.minValueCount = this.minValueCount === null ? values.length : Math.min(this.minValueCount, values.length)
+		this.maxValueCount = Math.max(this.maxValueCount, values.length)
+		for (let value of values) {
+			if (value === null) {
+				this.hasNullValue = true
+				continue
+			}
+			this.valueCount++
+			if (this.distinctValues.size <= maxDistinctValues) { this.distinctValues.add(value) }
+			for (let i=this.candidateTypes.length-1; i>=0; i--) {
+				if (!SsPredefinedTypeUtil.isValidValue(this.candidateTypes[i], value)) { this.candidateTypes.splice(i, 1) }
+			}
+		}
+	}
+}
+
+// ----------------------------------------------------------------------
+
+class SsObservedElement {
+	readonly name: string
+	instanceCount: number = 0
+	readonly elements: Map<string, SsObservedOccurrence> = new Map<string, SsObservedOccurrence>()
+	readonly attributes: Map<string, SsObservedAttribute> = new Map<string, SsObservedAttribute>()
+
+	constructor(name: string) {
+		this.name = name
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SmlSchemaInferenceOptions {
+	inferEnums: boolean = true
+	maxEnumValues: number = 8
+	minEnumSamplesPerValue: number = 2
+	exactArrayRanges: boolean = false
+}
+
+// ----------------------------------------------------------------------
+
+export class SmlSchemaInferrer {
+	private readonly options: SmlSchemaInferenceOptions
+	private readonly observedElements: Map<string, SsObservedElement> = new Map<string, SsObservedElement>()
+	private rootElementName: string | null = null
+
+	constructor(options: SmlSchemaInferenceOptions = new SmlSchemaInferenceOptions()) {
+		this.options = options
+	}
+
+	private observeElement(sElement: SmlElement) {
+		if (!this.observedElements.has(sElement.name)) {
+			this.observedElements.set(sElement.name, new SsObservedElement(sElement.name))
+		}
+		let observedElement: SsObservedElement = this.observedElements.get(sElement.name)!
+		observedElement.instanceCount++
+
+		let elementCounts: Map<string, number> = new Map<string, number>()
+		let sAttributes: Map<string, SmlAttribute[]> = new Map<string, SmlAttribute[]>()
+		for (let sChildElement of sElement.elements()) {
+			elementCounts.set(sChildElement.name, (elementCounts.get(sChildElement.name) ?? 0) + 1)
+			this.observeElement(sChildElement)
+		}
+		for (let sAttribute of sElement.attributes()) {
+			if (!sAttributes.has(sAttribute.name)) { sAttributes.set(sAttribute.name, []) }
+			sAttributes.get(sAttribute.name)!.push(sAttribute)
+		}
+
+		for (let [name, count] of elementCounts) {
+			if (!observedElement.elements.has(name)) {
+				observedElement.elements.set(name, new SsObservedOccurrence(name))
+			}
+			observedElement.elements.get(name)!.addCount(count)
+		}
+		for (let [name, sCurAttributes] of sAttributes) {
+			if (!observedElement.attributes.has(name)) {
+				observedElement.attributes.set(name, new SsObservedAttribute(name))
+			}
+			let observedAttribute: SsObservedAttribute = observedElement.attributes.get(name)!
+			observedAttribute.addCount(sCurAttributes.length)
+			for (let sAttribute of sCurAttributes) {
+				observedAttribute.addValues(sAttribute.values, this.options.maxEnumValues)
+			}
+		}
+	}
+
+	addDocument(document: SmlDocument) {
+		let name: string = document.root.name
+		if (this.rootElementName !== null && this.rootElementName !== name) { throw new Error(`Root element "${name}" differs from root element "${this.rootElementName}" of previous documents`) }
+		this.rootElementName = name
+		this.observeElement(document.root)
+	}
+
+	addContent(content: string) {
+		this.addDocument(SmlDocument.parse(content))
+	}
+
+	private getUniqueValueTypeName(schema: SmlSchema, name: string): string {
+		let uniqueName: string = name
+		for (let i=2; schema.definitions.valueTypeDefs.has(uniqueName); i++) {
+			uniqueName = name + i
+		}
+		return uniqueName
+	}
+
+	private getDataType(schema: SmlSchema, observedAttribute: SsObservedAttribute): SsAttributeDataType {
+		let predefinedType: SsPredefinedType | null = null
+		let valueTypeDef: SsValueTypeDef | null = null
+		let distinctCount: number = observedAttribute.distinctValues.size
+		if (observedAttribute.valueCount > 0 && observedAttribute.candidateTypes.length > 0) {
+			predefinedType = observedAttribute.candidateTypes[0]
+		} else if (this.options.inferEnums && distinctCount > 0 && distinctCount <= this.options.maxEnumValues &&
+				observedAttribute.valueCount >= distinctCount * this.options.minEnumSamplesPerValue) {
+			let values: string[] = Array.from(observedAttribute.distinctValues).sort()
+			valueTypeDef = schema.definitions.addEnum(this.getUniqueValueTypeName(schema, observedAttribute.name), values)
+		} else {
+			predefinedType = SsPredefinedType.String
+		}
+
+		let arrayRange: SsRange | null = null
+		if (observedAttribute.maxValueCount > 1) {
+			if (this.options.exactArrayRanges) { arrayRange = new SsRange(observedAttribute.minValueCount!, observedAttribute.maxValueCount) }
+			else { arrayRange = observedAttribute.minValueCount === 0 ? SsRange.repeatedStar() : SsRange.repeatedPlus() }
+		}
+		return new SsAttributeDataType(predefinedType, valueTypeDef, null, observedAttribute.hasNullValue, arrayRange, false)
+	}
+
+	toSchema(): SmlSchema {
+		if (this.rootElementName === null) { throw new Error("No documents added") }
+		let schema: SmlSchema = new SmlSchema()
+		for (let observedElement of this.observedElements.values()) {
+			schema.definitions.elementDefs.add(observedElement.name).setUnorderedContent()
+		}
+		for (let observedElement of this.observedElements.values()) {
+			let elementDef: SsElementDef = schema.definitions.elementDefs.get(observedElement.name)
+			let content: SsUnorderedContent = elementDef.content as SsUnorderedContent
+			for (let observedChild of observedElement.elements.values()) {
+				content.addElement(observedChild.name, observedChild.getOccurrence(observedElement.instanceCount))
+			}
+			for (let observedAttribute of observedElement.attributes.values()) {
+				let attributeDef: SsAttributeDef = new SsAttributeDef(observedAttribute.name, elementDef.definitions)
+				attributeDef.dataType = this.getDataType(schema, observedAttribute)
+				content.addInlineAttribute(attributeDef, observedAttribute.getOccurrence(observedElement.instanceCount))
+			}
+		}
+		schema.setRootElementByName(this.rootElementName)
+		return schema
+	}
+
+	static infer(documents: SmlDocument[], options: SmlSchemaInferenceOptions = new SmlSchemaInferenceOptions()): SmlSchema {
+		let inferrer: SmlSchemaInferrer = new SmlSchemaInferrer(options)
+		for (let document of documents) {
+			inferrer.addDocument(document)
+		}
+		return inferrer.toSchema()
+	}
+}
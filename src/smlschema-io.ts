@@ -0,0 +1,27 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import * as fs from "fs"
+import * as path from "path"
+import { SmlSchema, SsResolvedSchema, SsSchemaResolver } from "./smlschema.js"
+
+// ----------------------------------------------------------------------
+
+export class SsFileSystemSchemaResolver extends SsSchemaResolver {
+	resolve(filePath: string, basePath: string | null): SsResolvedSchema {
+		let resolvedPath: string = basePath === null ? path.resolve(filePath) : path.resolve(path.dirname(basePath), filePath)
+		let content: string = fs.readFileSync(resolvedPath, "utf-8")
+		if (content.startsWith("\uFEFF")) {
+			content = content.substring(1)
+		}
+		return new SsResolvedSchema(resolvedPath, content)
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export abstract class SmlSchemaFile {
+	static loadSync(filePath: string, resolver: SsSchemaResolver = new SsFileSystemSchemaResolver()): SmlSchema {
+		let resolved: SsResolvedSchema = resolver.resolve(filePath, null)
+		return SmlSchema.parse(resolved.content, resolver, resolved.path)
+	}
+}
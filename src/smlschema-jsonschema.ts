@@ -0,0 +1,297 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import { SmlSchema, SsAttributeDataType, SsAttributeDef, SsChoice, SsElementDef, SsEnumTypeDef, SsListContent, SsNumberTypeDef, SsOrderedAttribute, SsOrderedChoice, SsOrderedContent, SsOrderedElement, SsPredefinedType, SsRange, SsStringTypeDef, SsStructDef, SsStructValue, SsUnorderedContent, SsValueTypeDef } from "./smlschema.js"
+
+// ----------------------------------------------------------------------
+
+export type SsJsonSchema = { [key: string]: unknown }
+
+// ----------------------------------------------------------------------
+
+export class SmlSchemaJsonSchemaOptions {
+	structsAsTuples: boolean = false
+}
+
+// ----------------------------------------------------------------------
+
+/**
+ * Exports a JSON Schema (draft 2020-12) for the JSON projection of documents matching an SmlSchema.
+ * An element becomes an object keyed by its child element and attribute names, a node that can occur
+ * more than once becomes an array, a single-valued attribute becomes its value, an array data type
+ * becomes an array of values and a struct becomes an object (or a tuple). A choice becomes a property
+ * named after its alternatives joined with "|", holding an object with exactly one of the alternatives.
+ */
+export class SmlSchemaJsonSchemaExporter {
+	static readonly dialect: string = "https://json-schema.org/draft/2020-12/schema"
+
+	private readonly schema: SmlSchema
+	private readonly options: SmlSchemaJsonSchemaOptions
+
+	private readonly defNames: Map<Object, string> = new Map<Object, string>()
+	private defs: { [name: string]: SsJsonSchema } = {}
+
+	constructor(schema: SmlSchema, options: SmlSchemaJsonSchemaOptions = new SmlSchemaJsonSchemaOptions()) {
+		this.schema = schema
+		this.options = options
+	}
+
+	private getRef(def: SsElementDef | SsValueTypeDef | SsStructDef): SsJsonSchema {
+		if (!this.defNames.has(def)) {
+			let suffix: string
+			if (def instanceof SsElementDef) { suffix = "Element" }
+			else if (def instanceof SsStructDef) { suffix = "Struct" }
+			else if (def instanceof SsEnumTypeDef) { suffix = "Enum" }
+			else { suffix = "Type" }
+			let name: string = def.name.replace(/[^A-Za-z0-9_.-]/g, "_") + suffix
+			for (let i=2; this.defs[name] !== undefined; i++) {
+				name = def.name.replace(/[^A-Za-z0-9_.-]/g, "_") + suffix + i
+			}
+			this.defNames.set(def, name)
+			this.defs[name] = {}
+			if (def instanceof SsElementDef) { this.defs[name] = this.getElementSchema(def) }
+			else if (def instanceof SsStructDef) { this.defs[name] = this.getStructSchema(def) }
+			else { this.defs[name] = this.getValueTypeSchema(def) }
+		}
+		return { $ref: `#/$defs/${this.defNames.get(def)!}` }
+	}
+
+	private static withDescription(schema: SsJsonSchema, description: string | null): SsJsonSchema {
+		if (description !== null) { schema.description = description }
+		return schema
+	}
+
+	private static getNullable(schema: SsJsonSchema): SsJsonSchema {
+		if (typeof schema.type === "string") {
+			return { ...schema, type: [schema.type, "null"] }
+		}
+		return { anyOf: [schema, { type: "null" }] }
+	}
+
+	private static getArray(itemSchema: SsJsonSchema, range: SsRange): SsJsonSchema {
+		let schema: SsJsonSchema = { type: "array", items: itemSchema }
+		if (range.min !== null && range.min > 0) { schema.minItems = range.min }
+		if (range.max !== null) { schema.maxItems = range.max }
+		return schema
+	}
+
+	private static getPredefinedTypeSchema(predefinedType: SsPredefinedType): SsJsonSchema {
+		switch (predefinedType) {
+			case SsPredefinedType.Bool: return { type: "boolean" }
+			case SsPredefinedType.Int: return { type: "integer" }
+			case SsPredefinedType.UInt: return { type: "integer", minimum: 0 }
+			case SsPredefinedType.Number: return { type: "number" }
+			case SsPredefinedType.String: return { type: "string" }
+			case SsPredefinedType.Date: return { type: "string", format: "date" }
+			case SsPredefinedType.Time: return { type: "string", pattern: "^[0-9]{2}:[0-9]{2}(:[0-9]{2}(\\.[0-9]{1,3})?)?$" }
+			case SsPredefinedType.Base64: return { type: "string", contentEncoding: "base64" }
+			case SsPredefinedType.DateTime: return { type: "string", pattern: "^[0-9]{4}-[0-9]{2}-[0-9]{2}[T ][0-9]{2}:[0-9]{2}(:[0-9]{2}(\\.[0-9]{1,3})?)?(Z|[-+][0-9]{2}:[0-9]{2})?$" }
+		}
+		throw new Error("Invalid predefined type")
+	}
+
+	private getValueTypeSchema(valueTypeDef: SsValueTypeDef): SsJsonSchema {
+		let schema: SsJsonSchema
+		let description: string | null = valueTypeDef.description
+		if (valueTypeDef instanceof SsEnumTypeDef) {
+			let enumTypeDef: SsEnumTypeDef = valueTypeDef as SsEnumTypeDef
+			schema = { enum: enumTypeDef.values }
+		} else if (valueTypeDef instanceof SsStringTypeDef) {
+			let stringTypeDef: SsStringTypeDef = valueTypeDef as SsStringTypeDef
+			schema = { type: "string" }
+			if (stringTypeDef.minLength !== null) { schema.minLength = stringTypeDef.minLength }
+			if (stringTypeDef.maxLength !== null) { schema.maxLength = stringTypeDef.maxLength }
+			let patterns: string[] = [stringTypeDef.patternRegExpSource, stringTypeDef.charactersRegExpSource].filter((x) => x !== null) as string[]
+			if (patterns.length === 1) { schema.pattern = patterns[0] }
+			else if (patterns.length > 1) { schema.allOf = patterns.map((x) => ({ pattern: x })) }
+		} else if (valueTypeDef instanceof SsNumberTypeDef) {
+			let numberTypeDef: SsNumberTypeDef = valueTypeDef as SsNumberTypeDef
+			schema = SmlSchemaJsonSchemaExporter.getPredefinedTypeSchema(numberTypeDef.baseType)
+			if (numberTypeDef.min !== null) { schema[numberTypeDef.minExclusive ? "exclusiveMinimum" : "minimum"] = numberTypeDef.min }
+			if (numberTypeDef.max !== null) { schema[numberTypeDef.maxExclusive ? "exclusiveMaximum" : "maximum"] = numberTypeDef.max }
+			let multipleOfs: number[] = []
+			if (numberTypeDef.step !== null) {
+				if (numberTypeDef.min === null || numberTypeDef.min % numberTypeDef.step === 0) {
+					multipleOfs.push(numberTypeDef.step)
+				} else {
+					// JSON Schema cannot express steps that are offset from the minimum, so the step is only documented
+					let stepDescription: string = `Value must be ${numberTypeDef.min} plus a multiple of ${numberTypeDef.step}`
+					description = description === null ? stepDescription : `${description}. ${stepDescription}`
+				}
+			}
+			if (numberTypeDef.decimalPlaces !== null) { multipleOfs.push(Math.pow(10, -numberTypeDef.decimalPlaces)) }
+			if (multipleOfs.length === 1) { schema.multipleOf = multipleOfs[0] }
+			else if (multipleOfs.length > 1) { schema.allOf = multipleOfs.map((x) => ({ multipleOf: x })) }
+		} else {
+			throw new Error("Todo")
+		}
+		return SmlSchemaJsonSchemaExporter.withDescription(schema, description)
+	}
+
+	private getElementalSchema(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, nullable: boolean): SsJsonSchema {
+		let schema: SsJsonSchema = predefinedType !== null ? SmlSchemaJsonSchemaExporter.getPredefinedTypeSchema(predefinedType) : this.getRef(valueTypeDef!)
+		return nullable ? SmlSchemaJsonSchemaExporter.getNullable(schema) : schema
+	}
+
+	private getStructSchema(structDef: SsStructDef): SsJsonSchema {
+		let values: SsStructValue[] = structDef.values
+		let valueSchemas: SsJsonSchema[] = []
+		for (let value of values) {
+			let valueSchema: SsJsonSchema = this.getElementalSchema(value.predefinedType, value.valueTypeDef, value.nullable)
+			if (value.defaultValue !== null) { valueSchema = { ...valueSchema, default: this.getJsonValue(value.predefinedType, value.valueTypeDef, value.defaultValue) } }
+			valueSchemas.push(SmlSchemaJsonSchemaExporter.withDescription(valueSchema, value.description))
+		}
+		let requiredCount: number = values.filter((x) => !x.optional).length
+		let schema: SsJsonSchema
+		if (this.options.structsAsTuples) {
+			schema = { type: "array", prefixItems: valueSchemas, items: false, minItems: requiredCount, maxItems: values.length }
+		} else {
+			let properties: { [name: string]: SsJsonSchema } = {}
+			for (let i=0; i<values.length; i++) {
+				properties[values[i].name] = valueSchemas[i]
+			}
+			schema = { type: "object", properties: properties, required: values.filter((x) => !x.optional).map((x) => x.name), additionalProperties: false }
+		}
+		return SmlSchemaJsonSchemaExporter.withDescription(schema, structDef.description)
+	}
+
+	private getJsonValue(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, str: string | null): unknown {
+		if (str === null) { return null }
+		let baseType: SsPredefinedType | null = valueTypeDef instanceof SsNumberTypeDef ? (valueTypeDef as SsNumberTypeDef).baseType : predefinedType
+		switch (baseType) {
+			case SsPredefinedType.Bool: return str.toLowerCase() === "true"
+			case SsPredefinedType.Int:
+			case SsPredefinedType.UInt:
+			case SsPredefinedType.Number: return parseFloat(str)
+		}
+		return str
+	}
+
+	private getStructJsonValue(structDef: SsStructDef, values: (string | null)[]): unknown {
+		let structValues: SsStructValue[] = structDef.values.slice(0, values.length)
+		let jsonValues: unknown[] = structValues.map((x, i) => this.getJsonValue(x.predefinedType, x.valueTypeDef, values[i]))
+		if (this.options.structsAsTuples) { return jsonValues }
+		let result: { [name: string]: unknown } = {}
+		for (let i=0; i<structValues.length; i++) {
+			result[structValues[i].name] = jsonValues[i]
+		}
+		return result
+	}
+
+	private getAttributeJsonValue(dataType: SsAttributeDataType, values: (string | null)[]): unknown {
+		if (dataType.isArray && values.length === 1 && values[0] === null && dataType.arrayNullable) { return null }
+		if (dataType.isStruct) {
+			let structDef: SsStructDef = dataType.structDef!
+			if (!dataType.isArray) { return values.length === 1 && values[0] === null ? null : this.getStructJsonValue(structDef, values) }
+			let size: number = structDef.values.length
+			let result: unknown[] = []
+			for (let i=0; i<values.length; i+=size) {
+				result.push(this.getStructJsonValue(structDef, values.slice(i, i+size)))
+			}
+			return result
+		}
+		let jsonValues: unknown[] = values.map((x) => this.getJsonValue(dataType.predefinedType, dataType.valueTypeDef, x))
+		return dataType.isArray ? jsonValues : jsonValues[0]
+	}
+
+	private getAttributeSchema(attributeDef: SsAttributeDef): SsJsonSchema {
+		let dataType: SsAttributeDataType = attributeDef.dataType
+		let schema: SsJsonSchema
+		if (dataType.isStruct) {
+			schema = this.getRef(dataType.structDef!)
+			if (dataType.nullable) { schema = SmlSchemaJsonSchemaExporter.getNullable(schema) }
+		} else {
+			schema = this.getElementalSchema(dataType.predefinedType, dataType.valueTypeDef, dataType.nullable)
+		}
+		if (dataType.isArray) {
+			schema = SmlSchemaJsonSchemaExporter.getArray(schema, dataType.arrayRange!)
+			if (dataType.arrayNullable) { schema = SmlSchemaJsonSchemaExporter.getNullable(schema) }
+		}
+		if (attributeDef.hasDefault) {
+			schema = { ...schema, default: this.getAttributeJsonValue(dataType, attributeDef.defaultValues!) }
+		}
+		return SmlSchemaJsonSchemaExporter.withDescription(schema, attributeDef.description)
+	}
+
+	private getChoiceSchema(choice: SsChoice): SsJsonSchema {
+		let alternativeSchemas: SsJsonSchema[] = []
+		for (let alternative of choice.alternatives) {
+			let valueSchema: SsJsonSchema = alternative.isElement ? this.getRef(alternative.elementDef!) : this.getAttributeSchema(alternative.attributeDef!)
+			alternativeSchemas.push({ type: "object", properties: { [alternative.name]: valueSchema }, required: [alternative.name], additionalProperties: false })
+		}
+		return { oneOf: alternativeSchemas }
+	}
+
+	private addProperty(elementDef: SsElementDef, item: SsElementDef | SsAttributeDef | SsChoice, occurrence: SsRange, properties: { [name: string]: SsJsonSchema }, required: string[]) {
+		let name: string
+		let valueSchema: SsJsonSchema
+		if (item instanceof SsElementDef) {
+			name = item.name
+			valueSchema = this.getRef(item)
+		} else if (item instanceof SsAttributeDef) {
+			name = item.name
+			valueSchema = this.getAttributeSchema(item)
+		} else {
+			name = item.alternatives.map((x) => x.name).join("|")
+			valueSchema = this.getChoiceSchema(item)
+		}
+		if (properties[name] !== undefined) { throw new Error(`Element "${elementDef.name}" cannot be exported because "${name}" occurs more than once in its content`) }
+		let isSingle: boolean = occurrence.max !== null && occurrence.max <= 1
+		properties[name] = isSingle ? valueSchema : SmlSchemaJsonSchemaExporter.getArray(valueSchema, occurrence)
+		if (occurrence.min !== null && occurrence.min > 0) { required.push(name) }
+	}
+
+	private getElementSchema(elementDef: SsElementDef): SsJsonSchema {
+		let properties: { [name: string]: SsJsonSchema } = {}
+		let required: string[] = []
+
+		if (elementDef.content instanceof SsUnorderedContent) {
+			let unorderedContent: SsUnorderedContent = elementDef.content as SsUnorderedContent
+			for (let unorderedElement of unorderedContent.unorderedElements) {
+				this.addProperty(elementDef, unorderedElement.elementDef, unorderedElement.occurrence, properties, required)
+			}
+			for (let unorderedAttribute of unorderedContent.unorderedAttributes) {
+				this.addProperty(elementDef, unorderedAttribute.attributeDef, unorderedAttribute.occurrence, properties, required)
+			}
+			for (let unorderedChoice of unorderedContent.unorderedChoices) {
+				this.addProperty(elementDef, unorderedChoice.choice, unorderedChoice.occurrence, properties, required)
+			}
+		} else if (elementDef.content instanceof SsOrderedContent) {
+			let orderedContent: SsOrderedContent = elementDef.content as SsOrderedContent
+			for (let item of orderedContent.items) {
+				if (item instanceof SsOrderedElement) {
+					this.addProperty(elementDef, (item as SsOrderedElement).elementDef, item.occurrence, properties, required)
+				} else if (item instanceof SsOrderedChoice) {
+					this.addProperty(elementDef, (item as SsOrderedChoice).choice, item.occurrence, properties, required)
+				} else {
+					this.addProperty(elementDef, (item as SsOrderedAttribute).attributeDef, item.occurrence, properties, required)
+				}
+			}
+		} else if (elementDef.content instanceof SsListContent) {
+			let listContent: SsListContent = elementDef.content as SsListContent
+			let listItem: SsElementDef | SsAttributeDef = listContent.isElementList ? listContent.listElementDef! : listContent.listAttributeDef!
+			this.addProperty(elementDef, listItem, listContent.occurrence, properties, required)
+		}
+
+		let schema: SsJsonSchema = { type: "object", properties: properties }
+		if (required.length > 0) { schema.required = required }
+		schema.additionalProperties = false
+		return SmlSchemaJsonSchemaExporter.withDescription(schema, elementDef.description)
+	}
+
+	export(): SsJsonSchema {
+		this.defNames.clear()
+		this.defs = {}
+		if (!this.schema.hasRootElement) {
+			this.schema.definitions.elementDefs.values.forEach((x) => this.getRef(x))
+			return { $schema: SmlSchemaJsonSchemaExporter.dialect, $defs: this.defs }
+		}
+		let rootElementDef: SsElementDef = this.schema.getRootElement()
+		let rootRef: SsJsonSchema = this.getRef(rootElementDef)
+		let result: SsJsonSchema = { $schema: SmlSchemaJsonSchemaExporter.dialect, title: rootElementDef.name, ...rootRef, $defs: this.defs }
+		return result
+	}
+
+	toString(): string {
+		return JSON.stringify(this.export(), null, "\t")
+	}
+}
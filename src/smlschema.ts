@@ -1,15 +1,41 @@
 ﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
 
-import { SmlDocument, SmlElement, SmlAttribute } from "./sml.js"
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode, SmlNode, SmlParserError } from "./sml.js"
 
 // ----------------------------------------------------------------------
 
 export class SmlSchema {
+	readonly importedDefinitions: SsDefinitions
 	readonly definitions: SsDefinitions
 	private _rootElement: SsElementDef | null = null
+	private readonly _imports: SsImport[] = []
+
+	get imports(): SsImport[] {
+		return [...this._imports]
+	}
 	
 	constructor() {
-		this.definitions = new SsDefinitions(null, null)
+		this.importedDefinitions = new SsDefinitions(null, null)
+		this.definitions = new SsDefinitions(null, this.importedDefinitions)
+	}
+
+	addImport(path: string, alias: string | null, schema: SmlSchema) {
+		if (alias !== null && (alias.length === 0 || alias.includes("."))) { throw new Error(`Invalid import alias "${alias}"`) }
+		if (alias !== null && this._imports.find((x) => x.alias === alias) !== undefined) { throw new Error(`Import alias "${alias}" already used`) }
+		let prefix: string = alias === null ? "" : alias + "."
+		for (let valueTypeDef of schema.definitions.valueTypeDefs.values) {
+			this.importedDefinitions.valueTypeDefs.addExisting(prefix + valueTypeDef.name, valueTypeDef)
+		}
+		for (let structDef of schema.definitions.structDefs.values) {
+			this.importedDefinitions.structDefs.addExisting(prefix + structDef.name, structDef)
+		}
+		for (let attributeDef of schema.definitions.attributeDefs.values) {
+			this.importedDefinitions.attributeDefs.addExisting(prefix + attributeDef.name, attributeDef)
+		}
+		for (let elementDef of schema.definitions.elementDefs.values) {
+			this.importedDefinitions.elementDefs.addExisting(prefix + elementDef.name, elementDef)
+		}
+		this._imports.push(new SsImport(path, alias, schema))
 	}
 
 	getRootElement(): SsElementDef {
@@ -21,22 +47,100 @@ export class SmlSchema {
 		this._rootElement = this.definitions.elementDefs.get(name)
 	}
 
+	get hasRootElement(): boolean {
+		return this._rootElement !== null
+	}
+
 	setRootElementDefault() {
 		if (this.definitions.elementDefs.values.length > 1) { throw new Error("Cannot set default root element because the schema contains multiple ElementDefs at root level") }
-		this._rootElement = this.definitions.elementDefs.values[0]
+		this._rootElement = this.definitions.elementDefs.values.length === 1 ? this.definitions.elementDefs.values[0] : null
 	}
 
-	static parse(content: string): SmlSchema {
-		return new SmlSchemaLoader().parse(content)
+	static parse(content: string, resolver: SsSchemaResolver | null = null, path: string | null = null): SmlSchema {
+		return new SmlSchemaLoader(resolver, path).parse(content)
 	}
 
 	serialize(): SmlDocument {
-		return SmlSchemaSerializer.serialize(this)
+		return new SmlSchemaSerializer(this).serialize()
 	}
 
 	toString(): string {
 		return this.serialize().toString()
 	}
+
+	validate(document: SmlDocument): SsValidationIssue[] {
+		return new SmlValidator(this).validate(document)
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SsImport {
+	readonly path: string
+	readonly alias: string | null
+	readonly schema: SmlSchema
+
+	constructor(path: string, alias: string | null, schema: SmlSchema) {
+		this.path = path
+		this.alias = alias
+		this.schema = schema
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SsResolvedSchema {
+	readonly path: string
+	readonly content: string
+
+	constructor(path: string, content: string) {
+		this.path = path
+		this.content = content
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export abstract class SsSchemaResolver {
+	abstract resolve(path: string, basePath: string | null): SsResolvedSchema
+}
+
+// ----------------------------------------------------------------------
+
+export class SsMemorySchemaResolver extends SsSchemaResolver {
+	private readonly schemas: Map<string, string> = new Map<string, string>()
+
+	constructor(schemas: Map<string, string> | null = null) {
+		super()
+		if (schemas !== null) {
+			for (let [path, content] of schemas) {
+				this.add(path, content)
+			}
+		}
+	}
+
+	add(path: string, content: string) {
+		this.schemas.set(SsMemorySchemaResolver.normalize(path), content)
+	}
+
+	resolve(path: string, basePath: string | null): SsResolvedSchema {
+		if (!path.startsWith("/") && basePath !== null) {
+			let index: number = basePath.lastIndexOf("/")
+			path = basePath.substring(0, index+1) + path
+		}
+		path = SsMemorySchemaResolver.normalize(path)
+		if (!this.schemas.has(path)) { throw new Error(`Schema "${path}" not found`) }
+		return new SsResolvedSchema(path, this.schemas.get(path)!)
+	}
+
+	private static normalize(path: string): string {
+		let segments: string[] = []
+		for (let segment of path.split("/")) {
+			if (segment === "..") { segments.pop() }
+			else if (segment !== "." && segment !== "") { segments.push(segment) }
+		}
+		return "/" + segments.join("/")
+	}
 }
 
 // ----------------------------------------------------------------------
@@ -48,16 +152,23 @@ export class SsDefinitionList<T> {
 	private readonly typeDescription: string
 	private readonly selfDescription: string
 	private readonly newFunction: (name: string) => T
+	private readonly allowShadowing: boolean
 
 	get values(): T[] {
 		return Array.from(this.map.values())
 	}
 
-	constructor(parentList: SsDefinitionList<T> | null, typeDescription: string, selfDescription: string, newFunction: (name: string) => T) {
+	constructor(parentList: SsDefinitionList<T> | null, typeDescription: string, selfDescription: string, newFunction: (name: string) => T, allowShadowing: boolean = true) {
 		this.parentList = parentList
 		this.typeDescription = typeDescription
 		this.selfDescription = selfDescription
 		this.newFunction = newFunction
+		this.allowShadowing = allowShadowing
+	}
+
+	private assureNotExisting(name: string) {
+		if (this.map.has(name)) { throw new Error(`${this.typeDescription} "${name}" already exists in ${this.selfDescription}`) }
+		if (!this.allowShadowing && this.parentList !== null && this.parentList.has(name)) { throw new Error(`${this.typeDescription} "${name}" of ${this.selfDescription} would shadow an imported ${this.typeDescription}`) }
 	}
 
 	has(name: string): boolean {
@@ -79,14 +190,14 @@ export class SsDefinitionList<T> {
 	}
 
 	add(name: string): T {
-		if (this.map.has(name)) { throw new Error(`${this.typeDescription} "${name}" already exists in ${this.selfDescription}`) }
+		this.assureNotExisting(name)
 		let item: T = this.newFunction(name)
 		this.map.set(name, item)
 		return item
 	}
 
 	addExisting(name: string, item: T): T {
-		if (this.map.has(name)) { throw new Error(`${this.typeDescription} "${name}" already exists in ${this.selfDescription}`) }
+		this.assureNotExisting(name)
 		this.map.set(name, item)
 		return item
 	}
@@ -106,15 +217,34 @@ export class SsDefinitions {
 		this.ownerElementDef = ownerElementDef
 		
 		let selfDescription: string = this.ownerElementDef === null ? "schema" : `ElementDef "${this.ownerElementDef.name}"`
-		this.valueTypeDefs = new SsDefinitionList<SsValueTypeDef>(parentDefinitions === null ? null : parentDefinitions.valueTypeDefs, "ValueTypeDef", selfDescription, (name: string): SsValueTypeDef => { throw new Error("Not supported") } )
-		this.structDefs = new SsDefinitionList<SsStructDef>(parentDefinitions === null ? null : parentDefinitions.structDefs, "StructDef", selfDescription, (name: string): SsStructDef => { return new SsStructDef(name, this) } )
-		this.attributeDefs = new SsDefinitionList<SsAttributeDef>(parentDefinitions === null ? null : parentDefinitions.attributeDefs, "AttributeDef", selfDescription, (name: string): SsAttributeDef => { return new SsAttributeDef(name, this) } )
-		this.elementDefs = new SsDefinitionList<SsElementDef>(parentDefinitions === null ? null : parentDefinitions.elementDefs, "ElementDef", selfDescription, (name: string): SsElementDef => { return new SsElementDef(name, this) } )
+		let allowShadowing: boolean = this.ownerElementDef !== null
+		this.valueTypeDefs = new SsDefinitionList<SsValueTypeDef>(parentDefinitions === null ? null : parentDefinitions.valueTypeDefs, "ValueTypeDef", selfDescription, (name: string): SsValueTypeDef => { throw new Error("Not supported") }, allowShadowing)
+		this.structDefs = new SsDefinitionList<SsStructDef>(parentDefinitions === null ? null : parentDefinitions.structDefs, "StructDef", selfDescription, (name: string): SsStructDef => { return new SsStructDef(name, this) }, allowShadowing)
+		this.attributeDefs = new SsDefinitionList<SsAttributeDef>(parentDefinitions === null ? null : parentDefinitions.attributeDefs, "AttributeDef", selfDescription, (name: string): SsAttributeDef => { return new SsAttributeDef(name, this) }, allowShadowing)
+		this.elementDefs = new SsDefinitionList<SsElementDef>(parentDefinitions === null ? null : parentDefinitions.elementDefs, "ElementDef", selfDescription, (name: string): SsElementDef => { return new SsElementDef(name, this) }, allowShadowing)
+	}
+
+	get isEmpty(): boolean {
+		return this.valueTypeDefs.values.length === 0 && this.structDefs.values.length === 0 &&
+			this.attributeDefs.values.length === 0 && this.elementDefs.values.length === 0
 	}
 
-	addEnum(name: string, values: string[]) {
+	addEnum(name: string, values: string[]): SsEnumTypeDef {
 		let enumTypeDef: SsEnumTypeDef = new SsEnumTypeDef(name, values)
 		this.valueTypeDefs.addExisting(name, enumTypeDef)
+		return enumTypeDef
+	}
+
+	addNumberType(name: string, baseType: SsPredefinedType): SsNumberTypeDef {
+		let numberTypeDef: SsNumberTypeDef = new SsNumberTypeDef(name, baseType)
+		this.valueTypeDefs.addExisting(name, numberTypeDef)
+		return numberTypeDef
+	}
+
+	addStringType(name: string): SsStringTypeDef {
+		let stringTypeDef: SsStringTypeDef = new SsStringTypeDef(name)
+		this.valueTypeDefs.addExisting(name, stringTypeDef)
+		return stringTypeDef
 	}
 }
 
@@ -150,6 +280,18 @@ export class SsRange {
 		return this.min !== null && this.max !== null && this.min === this.max
 	}
 
+	contains(value: number): boolean {
+		if (this.min !== null && value < this.min) { return false }
+		if (this.max !== null && value > this.max) { return false }
+		return true
+	}
+
+	toString(): string {
+		let minStr: string = this.min === null ? "0" : ""+this.min
+		if (this.isFixed) { return minStr }
+		return minStr + ".." + (this.max === null ? "N" : this.max)
+	}
+
 	static required(): SsRange {
 		return new SsRange(1, 1)
 	}
@@ -176,26 +318,67 @@ export class SsRange {
 export class SsElementDef {
 	readonly definitions: SsDefinitions
 	readonly name: string
+	description: string | null = null
 	private _content: SsElementContent | null = null
+	private _baseElementDef: SsElementDef | null = null
 
 	get content(): SsElementContent | null {
 		return this._content
 	}
 
+	get baseElementDef(): SsElementDef | null {
+		return this._baseElementDef
+	}
+
 	get isUnordered(): boolean {
 		return this._content !== null && this._content instanceof SsUnorderedContent
 	}
 
+	get isOrdered(): boolean {
+		return this._content !== null && this._content instanceof SsOrderedContent
+	}
+
+	get isList(): boolean {
+		return this._content !== null && this._content instanceof SsListContent
+	}
+
 	constructor(name: string, parentDefinitions: SsDefinitions) {
 		this.name = name
 		this.definitions = new SsDefinitions(this, parentDefinitions)
 	}
 
+	setBaseElementDef(baseElementDef: SsElementDef) {
+		for (let curElementDef: SsElementDef | null = baseElementDef; curElementDef !== null; curElementDef = curElementDef.baseElementDef) {
+			if (curElementDef === this) { throw new Error(`Element "${this.name}" cannot extend element "${baseElementDef.name}" because of a cyclic extension`) }
+		}
+		if (baseElementDef.content !== null && !baseElementDef.isUnordered) { throw new Error(`Element "${this.name}" cannot extend element "${baseElementDef.name}" because it has no unordered content`) }
+		if (this._content === null) {
+			this.setUnorderedContent()
+		} else if (!this.isUnordered) {
+			throw new Error(`Element "${this.name}" must have unordered content to extend element "${baseElementDef.name}"`)
+		}
+		this._baseElementDef = baseElementDef
+	}
+
 	setUnorderedContent(): SsUnorderedContent {
 		let unorderedContent: SsUnorderedContent = new SsUnorderedContent(this)
 		this._content = unorderedContent
 		return unorderedContent
 	}
+
+	setOrderedContent(): SsOrderedContent {
+		if (this._baseElementDef !== null) { throw new Error(`Element "${this.name}" extends element "${this._baseElementDef.name}" and must have unordered content`) }
+		let orderedContent: SsOrderedContent = new SsOrderedContent(this)
+		this._content = orderedContent
+		return orderedContent
+	}
+
+	setListContent(): SsListContent {
+		if (this._baseElementDef !== null) { throw new Error(`Element "${this.name}" extends element "${this._baseElementDef.name}" and must have unordered content`) }
+		let listContent: SsListContent = new SsListContent(this)
+		this._content = listContent
+		return listContent
+	}
 }
 
 // ----------------------------------------------------------------------
@@ -213,38 +396,116 @@ export abstract class SsElementContent {
 export class SsUnorderedContent extends SsElementContent {
 	private readonly _elements: Map<String, SsUnorderedElement> = new Map<String, SsUnorderedElement>()
 	private readonly _attributes: Map<String, SsUnorderedAttribute> = new Map<String, SsUnorderedAttribute>()
+	private readonly _choices: SsUnorderedChoice[] = []
 
-	get unorderedElements(): SsUnorderedElement[] {
+	get ownUnorderedElements(): SsUnorderedElement[] {
 		return Array.from(this._elements.values())
 	}
 
-	get unorderedAttributes(): SsUnorderedAttribute[] {
+	get ownUnorderedAttributes(): SsUnorderedAttribute[] {
 		return Array.from(this._attributes.values())
 	}
 
+	get unorderedElements(): SsUnorderedElement[] {
+		let ownElements: SsUnorderedElement[] = this.ownUnorderedElements
+		let baseContent: SsUnorderedContent | null = this.baseContent
+		if (baseContent === null) { return ownElements }
+		let result: SsUnorderedElement[] = baseContent.unorderedElements.map((baseElement) => ownElements.find((x) => x.elementDef.name === baseElement.elementDef.name) ?? baseElement)
+		result.push(...ownElements.filter((x) => !result.includes(x)))
+		return result
+	}
+
+	get unorderedAttributes(): SsUnorderedAttribute[] {
+		let ownAttributes: SsUnorderedAttribute[] = this.ownUnorderedAttributes
+		let baseContent: SsUnorderedContent | null = this.baseContent
+		if (baseContent === null) { return ownAttributes }
+		let result: SsUnorderedAttribute[] = baseContent.unorderedAttributes.map((baseAttribute) => ownAttributes.find((x) => x.attributeDef.name === baseAttribute.attributeDef.name) ?? baseAttribute)
+		result.push(...ownAttributes.filter((x) => !result.includes(x)))
+		return result
+	}
+
+	get ownUnorderedChoices(): SsUnorderedChoice[] {
+		return [...this._choices]
+	}
+
+	get unorderedChoices(): SsUnorderedChoice[] {
+		let baseContent: SsUnorderedContent | null = this.baseContent
+		if (baseContent === null) { return this.ownUnorderedChoices }
+		return [...baseContent.unorderedChoices, ...this._choices]
+	}
+
+	private get baseContent(): SsUnorderedContent | null {
+		let baseElementDef: SsElementDef | null = this.elementDef.baseElementDef
+		if (baseElementDef === null || baseElementDef.content === null) { return null }
+		if (!(baseElementDef.content instanceof SsUnorderedContent)) { throw new Error(`Element "${this.elementDef.name}" cannot extend element "${baseElementDef.name}" because it has no unordered content`) }
+		return baseElementDef.content as SsUnorderedContent
+	}
+
 	constructor(elementDef: SsElementDef) {
 		super(elementDef)
 	}
 
+	private containsName(name: string, isElement: boolean): boolean {
+		let names: string[] = isElement ? this.ownUnorderedElements.map((x) => x.elementDef.name) : this.ownUnorderedAttributes.map((x) => x.attributeDef.name)
+		for (let unorderedChoice of this._choices) {
+			names.push(...unorderedChoice.choice.alternatives.filter((x) => x.isElement === isElement).map((x) => x.name))
+		}
+		return names.includes(name)
+	}
+
 	addElement(elementName: string, occurrence: SsRange) {
-		if (this._elements.has(elementName)) { throw new Error(`Element "${this.elementDef.name}" already contains an unordered element with name "${elementName}"`) }
 		let childElementDef: SsElementDef = this.elementDef.definitions.elementDefs.get(elementName)
+		if (this._elements.has(elementName) || this.containsName(childElementDef.name, true)) { throw new Error(`Element "${this.elementDef.name}" already contains an unordered element with name "${elementName}"`) }
 		let unorderedElement: SsUnorderedElement = new SsUnorderedElement(childElementDef, occurrence)
 		this._elements.set(elementName, unorderedElement)
 	}
 
 	addAttribute(attributeName: string, occurrence: SsRange) {
-		if (this._attributes.has(attributeName)) { throw new Error(`Element "${this.elementDef.name}" already contains an unordered attribute with name "${attributeName}"`) }
 		let childAttributeDef: SsAttributeDef = this.elementDef.definitions.attributeDefs.get(attributeName)
+		if (this._attributes.has(attributeName) || this.containsName(childAttributeDef.name, false)) { throw new Error(`Element "${this.elementDef.name}" already contains an unordered attribute with name "${attributeName}"`) }
 		let unorderedAttribute: SsUnorderedAttribute = new SsUnorderedAttribute(childAttributeDef, occurrence, false)
 		this._attributes.set(attributeName, unorderedAttribute)
 	}
 
 	addInlineAttribute(inlineAttributeDef: SsAttributeDef, occurrence: SsRange) {
-		if (this._attributes.has(inlineAttributeDef.name)) { throw new Error(`Element "${this.elementDef.name}" already contains an unordered attribute with name "${inlineAttributeDef.name}"`) }
+		if (this._attributes.has(inlineAttributeDef.name) || this.containsName(inlineAttributeDef.name, false)) { throw new Error(`Element "${this.elementDef.name}" already contains an unordered attribute with name "${inlineAttributeDef.name}"`) }
 		let unorderedAttribute: SsUnorderedAttribute = new SsUnorderedAttribute(inlineAttributeDef, occurrence, true)
 		this._attributes.set(inlineAttributeDef.name, unorderedAttribute)
 	}
+
+	addChoice(choice: SsChoice, occurrence: SsRange) {
+		choice.assureAlternatives()
+		for (let alternative of choice.alternatives) {
+			if (this.containsName(alternative.name, alternative.isElement)) { throw new Error(`Element "${this.elementDef.name}" already contains an unordered ${alternative.isElement ? "element" : "attribute"} with name "${alternative.name}"`) }
+		}
+		this._choices.push(new SsUnorderedChoice(choice, occurrence))
+	}
+
+	private checkInheritedOccurrence(baseOccurrence: SsRange, occurrence: SsRange, nodeType: string, name: string) {
+		let isWithin: boolean = (occurrence.min ?? 0) >= (baseOccurrence.min ?? 0) && (baseOccurrence.max === null || (occurrence.max !== null && occurrence.max <= baseOccurrence.max))
+		if (!isWithin) { throw new Error(`Occurrence ${occurrence} of inherited ${nodeType} "${name}" in element "${this.elementDef.name}" must lie within ${baseOccurrence}`) }
+		let baseIsSingle: boolean = baseOccurrence.isRequired || baseOccurrence.isOptional
+		if (baseIsSingle !== (occurrence.isRequired || occurrence.isOptional)) { throw new Error(`Occurrence of inherited ${nodeType} "${name}" in element "${this.elementDef.name}" cannot change between single and repeated`) }
+	}
+
+	checkInheritance() {
+		let baseContent: SsUnorderedContent | null = this.baseContent
+		if (baseContent === null) { return }
+		let baseElements: SsUnorderedElement[] = baseContent.unorderedElements
+		for (let ownElement of this.ownUnorderedElements) {
+			let baseElement: SsUnorderedElement | undefined = baseElements.find((x) => x.elementDef.name === ownElement.elementDef.name)
+			if (baseElement === undefined) { continue }
+			if (baseElement.elementDef !== ownElement.elementDef) { throw new Error(`Element "${this.elementDef.name}" redeclares inherited element "${ownElement.elementDef.name}" with a different definition`) }
+			this.checkInheritedOccurrence(baseElement.occurrence, ownElement.occurrence, "element", ownElement.elementDef.name)
+		}
+		let baseAttributes: SsUnorderedAttribute[] = baseContent.unorderedAttributes
+		for (let ownAttribute of this.ownUnorderedAttributes) {
+			let baseAttribute: SsUnorderedAttribute | undefined = baseAttributes.find((x) => x.attributeDef.name === ownAttribute.attributeDef.name)
+			if (baseAttribute === undefined) { continue }
+			if (baseAttribute.attributeDef.dataType.toString() !== ownAttribute.attributeDef.dataType.toString()) { throw new Error(`Element "${this.elementDef.name}" redeclares inherited attribute "${ownAttribute.attributeDef.name}" with a different data type`) }
+			this.checkInheritedOccurrence(baseAttribute.occurrence, ownAttribute.occurrence, "attribute", ownAttribute.attributeDef.name)
+		}
+	}
 }
 
 // ----------------------------------------------------------------------
@@ -275,10 +536,222 @@ export class SsUnorderedAttribute {
 
 // ----------------------------------------------------------------------
 
+export class SsUnorderedChoice {
+	readonly choice: SsChoice
+	readonly occurrence: SsRange
+
+	constructor(choice: SsChoice, occurrence: SsRange) {
+		this.choice = choice
+		this.occurrence = occurrence
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SsChoice {
+	readonly elementDef: SsElementDef
+	private readonly _alternatives: SsChoiceAlternative[] = []
+
+	get alternatives(): SsChoiceAlternative[] {
+		return [...this._alternatives]
+	}
+
+	constructor(elementDef: SsElementDef) {
+		this.elementDef = elementDef
+	}
+
+	private addAlternative(alternative: SsChoiceAlternative) {
+		if (this._alternatives.find((x) => x.name === alternative.name) !== undefined) { throw new Error(`Choice in element "${this.elementDef.name}" already contains an alternative with name "${alternative.name}"`) }
+		this._alternatives.push(alternative)
+	}
+
+	addElement(elementName: string) {
+		let childElementDef: SsElementDef = this.elementDef.definitions.elementDefs.get(elementName)
+		this.addAlternative(new SsChoiceAlternative(childElementDef, null, false))
+	}
+
+	addAttribute(attributeName: string) {
+		let childAttributeDef: SsAttributeDef = this.elementDef.definitions.attributeDefs.get(attributeName)
+		this.addAlternative(new SsChoiceAlternative(null, childAttributeDef, false))
+	}
+
+	addInlineAttribute(inlineAttributeDef: SsAttributeDef) {
+		this.addAlternative(new SsChoiceAlternative(null, inlineAttributeDef, true))
+	}
+
+	getAlternativeOrNull(sNode: SmlNamedNode): SsChoiceAlternative | null {
+		let isElement: boolean = sNode instanceof SmlElement
+		return this._alternatives.find((x) => x.isElement === isElement && sNode.hasName(x.name)) ?? null
+	}
+
+	assureAlternatives() {
+		if (this._alternatives.length < 2) { throw new Error(`Choice in element "${this.elementDef.name}" must contain at least two alternatives`) }
+	}
+
+	toString(): string {
+		return this._alternatives.map((x) => `"${x.name}"`).join(", ")
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SsChoiceAlternative {
+	readonly elementDef: SsElementDef | null
+	readonly attributeDef: SsAttributeDef | null
+	readonly inline: boolean
+
+	get isElement(): boolean {
+		return this.elementDef !== null
+	}
+
+	get name(): string {
+		return this.elementDef !== null ? this.elementDef.name : this.attributeDef!.name
+	}
+
+	constructor(elementDef: SsElementDef | null, attributeDef: SsAttributeDef | null, inline: boolean) {
+		this.elementDef = elementDef
+		this.attributeDef = attributeDef
+		this.inline = inline
+	}
+}
+
+// ----------------------------------------------------------------------
+
 export class SsOrderedContent extends SsElementContent {
+	private readonly _items: SsOrderedItem[] = []
+
+	get items(): SsOrderedItem[] {
+		return [...this._items]
+	}
+
+	constructor(elementDef: SsElementDef) {
+		super(elementDef)
+	}
+
+	addElement(elementName: string, occurrence: SsRange) {
+		let childElementDef: SsElementDef = this.elementDef.definitions.elementDefs.get(elementName)
+		this._items.push(new SsOrderedElement(childElementDef, occurrence))
+	}
+
+	addAttribute(attributeName: string, occurrence: SsRange) {
+		let childAttributeDef: SsAttributeDef = this.elementDef.definitions.attributeDefs.get(attributeName)
+		this._items.push(new SsOrderedAttribute(childAttributeDef, occurrence, false))
+	}
+
+	addInlineAttribute(inlineAttributeDef: SsAttributeDef, occurrence: SsRange) {
+		this._items.push(new SsOrderedAttribute(inlineAttributeDef, occurrence, true))
+	}
+
+	addChoice(choice: SsChoice, occurrence: SsRange) {
+		choice.assureAlternatives()
+		this._items.push(new SsOrderedChoice(choice, occurrence))
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export abstract class SsOrderedItem {
+	readonly occurrence: SsRange
+
+	constructor(occurrence: SsRange) {
+		this.occurrence = occurrence
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SsOrderedElement extends SsOrderedItem {
+	readonly elementDef: SsElementDef
+
+	constructor(elementDef: SsElementDef, occurrence: SsRange) {
+		super(occurrence)
+		this.elementDef = elementDef
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SsOrderedAttribute extends SsOrderedItem {
+	readonly attributeDef: SsAttributeDef
+	readonly inline: boolean
+
+	constructor(attributeDef: SsAttributeDef, occurrence: SsRange, inline: boolean) {
+		super(occurrence)
+		this.attributeDef = attributeDef
+		this.inline = inline
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SsOrderedChoice extends SsOrderedItem {
+	readonly choice: SsChoice
+
+	constructor(choice: SsChoice, occurrence: SsRange) {
+		super(occurrence)
+		this.choice = choice
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SsListContent extends SsElementContent {
+	private _listElementDef: SsElementDef | null = null
+	private _listAttributeDef: SsAttributeDef | null = null
+	private _occurrence: SsRange | null = null
+	private _inline: boolean = false
+
+	get listElementDef(): SsElementDef | null {
+		return this._listElementDef
+	}
+
+	get listAttributeDef(): SsAttributeDef | null {
+		return this._listAttributeDef
+	}
+
+	get occurrence(): SsRange {
+		if (this._occurrence === null) { throw new Error(`List content of element "${this.elementDef.name}" has no item`) }
+		return this._occurrence
+	}
+
+	get inline(): boolean {
+		return this._inline
+	}
+
+	get isElementList(): boolean {
+		return this._listElementDef !== null
+	}
+
+	get isAttributeList(): boolean {
+		return this._listAttributeDef !== null
+	}
+
 	constructor(elementDef: SsElementDef) {
 		super(elementDef)
 	}
+
+	private assureNoItem() {
+		if (this._occurrence !== null) { throw new Error(`List content of element "${this.elementDef.name}" already has an item`) }
+	}
+
+	addElement(elementName: string, occurrence: SsRange) {
+		this.assureNoItem()
+		this._listElementDef = this.elementDef.definitions.elementDefs.get(elementName)
+		this._occurrence = occurrence
+	}
+
+	addAttribute(attributeName: string, occurrence: SsRange) {
+		this.assureNoItem()
+		this._listAttributeDef = this.elementDef.definitions.attributeDefs.get(attributeName)
+		this._occurrence = occurrence
+	}
+
+	addInlineAttribute(inlineAttributeDef: SsAttributeDef, occurrence: SsRange) {
+		this.assureNoItem()
+		this._listAttributeDef = inlineAttributeDef
+		this._occurrence = occurrence
+		this._inline = true
+	}
 }
 
 // ----------------------------------------------------------------------
@@ -324,20 +797,17 @@ export class SsAttributeDataType {
 		if (arrayRange === null && arrayNullable === true) { throw new Error() }
 		this.arrayNullable = arrayNullable
 		if (this.isArray && this.isStruct && this.structDef!.hasOptional) { throw new Error(`Array of struct "${this.structDef!.name}" with optional values not allowed`) }
+		if (this.isArray && this.isStruct && this.nullable) { throw new Error(`Array of nullable struct "${this.structDef!.name}" not allowed`) }
 	}
 
-	toString(): string {
+	toString(getName: (def: SsValueTypeDef | SsStructDef) => string = (def) => def.name): string {
 		let typeName: string
 		if (this.predefinedType !== null) { typeName = SsPredefinedTypeUtil.getPredefinedTypeString(this.predefinedType) }
-		else if (this.valueTypeDef !== null) { typeName = this.valueTypeDef.name }
-		else { typeName = this.structDef!.name }
+		else if (this.valueTypeDef !== null) { typeName = getName(this.valueTypeDef) }
+		else { typeName = getName(this.structDef!) }
 		if (this.nullable) { typeName += "?" }
 		if (this.arrayRange !== null) {
-			let arrayRangeStr: string = ""+this.arrayRange.min
-			if (!this.arrayRange.isFixed) {
-				arrayRangeStr += ".." + (this.arrayRange.max === null ? "N" : this.arrayRange.max)
-			}
-			typeName += "["+arrayRangeStr+"]"
+			typeName += "["+this.arrayRange+"]"
 		}
 		if (this.arrayNullable) { typeName += "?" }
 		return typeName
@@ -349,6 +819,7 @@ export class SsAttributeDataType {
 export class SsAttributeDef {
 	private readonly definitions: SsDefinitions
 	readonly name: string
+	description: string | null = null
 
 	private _dataType: SsAttributeDataType | null = null
 	
@@ -362,10 +833,25 @@ export class SsAttributeDef {
 		this._dataType = value
 	}
 
+	private _defaultValues: (string | null)[] | null = null
+
+	get defaultValues(): (string | null)[] | null {
+		return this._defaultValues === null ? null : [...this._defaultValues]
+	}
+
+	get hasDefault(): boolean {
+		return this._defaultValues !== null
+	}
+
 	constructor(name: string, definitions: SsDefinitions) {
 		this.definitions = definitions
 		this.name = name
 	}
+
+	setDefaultValues(values: (string | null)[] | null) {
+		if (values !== null && values.length === 0) { throw new Error(`Default of attribute "${this.name}" must have at least one value`) }
+		this._defaultValues = values === null ? null : [...values]
+	}
 }
 
 // ----------------------------------------------------------------------
@@ -411,16 +897,55 @@ export abstract class SsPredefinedTypeUtil {
 			case SsPredefinedType.String: return "String"
 			case SsPredefinedType.Date: return "Date"
 			case SsPredefinedType.Time: return "Time"
+			case SsPredefinedType.Base64: return "Base64"
 			case SsPredefinedType.DateTime: return "DateTime"
 		}
 		throw new Error("Invalid predefined type string")
 	}
+
+	static isValidValue(predefinedType: SsPredefinedType, str: string): boolean {
+		switch(predefinedType) {
+			case SsPredefinedType.Bool: return /^(true|false)$/i.test(str)
+			case SsPredefinedType.Int: return /^[-+]?[0-9]+$/.test(str)
+			case SsPredefinedType.UInt: return /^\+?[0-9]+$/.test(str)
+			case SsPredefinedType.Number: return /^[-+]?[0-9]+(\.[0-9]+)?([eE][-+]?[0-9]+)?$/.test(str)
+			case SsPredefinedType.String: return true
+			case SsPredefinedType.Date: return SsPredefinedTypeUtil.isValidDate(str)
+			case SsPredefinedType.Time: return SsPredefinedTypeUtil.isValidTime(str)
+			case SsPredefinedType.Base64: return /^([A-Za-z0-9+/]{4})*([A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(str)
+			case SsPredefinedType.DateTime: {
+				let match: RegExpExecArray | null = /^([^T ]+)[T ]([^Z+-]+)(Z|[-+][0-9]{2}:[0-9]{2})?$/.exec(str)
+				return match !== null && SsPredefinedTypeUtil.isValidDate(match[1]) && SsPredefinedTypeUtil.isValidTime(match[2])
+			}
+		}
+		throw new Error("Invalid predefined type")
+	}
+
+	private static isValidDate(str: string): boolean {
+		let match: RegExpExecArray | null = /^([0-9]{4})-([0-9]{2})-([0-9]{2})$/.exec(str)
+		if (match === null) { return false }
+		let year: number = parseInt(match[1])
+		let month: number = parseInt(match[2])
+		let day: number = parseInt(match[3])
+		if (month < 1 || month > 12 || day < 1) { return false }
+		let isLeapYear: boolean = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+		let daysInMonth: number[] = [31, isLeapYear ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+		return day <= daysInMonth[month-1]
+	}
+
+	private static isValidTime(str: string): boolean {
+		let match: RegExpExecArray | null = /^([0-9]{2}):([0-9]{2})(:([0-9]{2})(\.[0-9]{1,3})?)?$/.exec(str)
+		if (match === null) { return false }
+		let second: number = match[4] !== undefined ? parseInt(match[4]) : 0
+		return parseInt(match[1]) <= 23 && parseInt(match[2]) <= 59 && second <= 59
+	}
 }
 
 // ----------------------------------------------------------------------
 
 export abstract class SsValueTypeDef {
 	readonly name: string
+	description: string | null = null
 	
 	constructor(name: string) {
 		this.name = name
@@ -431,6 +956,7 @@ export abstract class SsValueTypeDef {
 
 export class SsEnumTypeDef extends SsValueTypeDef {
 	private readonly _values: string[]
+	private readonly valueDescriptions: Map<string, string> = new Map<string, string>()
 
 	get values(): string[] {
 		return [...this._values]
@@ -440,24 +966,233 @@ export class SsEnumTypeDef extends SsValueTypeDef {
 		super(name)
 		this._values = values
 	}
-}
 
-// ----------------------------------------------------------------------
+	getValueDescription(value: string): string | null {
+		return this.valueDescriptions.has(value) ? this.valueDescriptions.get(value)! : null
+	}
 
-export class SsStringTypeDef extends SsValueTypeDef {
-	
-	constructor(name: string) {
-		super(name)
+	setValueDescription(value: string, description: string | null) {
+		if (!this._values.includes(value)) { throw new Error(`Enum "${this.name}" has no value "${value}"`) }
+		if (description === null) { this.valueDescriptions.delete(value) }
+		else { this.valueDescriptions.set(value, description) }
 	}
 }
 
 // ----------------------------------------------------------------------
 
-export class SsNumberTypeDef extends SsValueTypeDef {
+export enum SsCharacterClass {
+	Letter,
+	Digit,
+	Whitespace,
+	Punctuation,
+	Symbol
+}
+
+// ----------------------------------------------------------------------
+
+export enum SsWhitespaceRule {
+	Preserve,
+	Trimmed,
+	Collapsed
+}
+
+// ----------------------------------------------------------------------
+
+export class SsStringTypeDef extends SsValueTypeDef {
+	private _minLength: number | null = null
+	private _maxLength: number | null = null
+	private _pattern: string | null = null
+	private _characterClasses: SsCharacterClass[] | null = null
+	whitespace: SsWhitespaceRule = SsWhitespaceRule.Preserve
+
+	get minLength(): number | null {
+		return this._minLength
+	}
+
+	get maxLength(): number | null {
+		return this._maxLength
+	}
+
+	get pattern(): string | null {
+		return this._pattern
+	}
+
+	get characterClasses(): SsCharacterClass[] | null {
+		return this._characterClasses === null ? null : [...this._characterClasses]
+	}
+
+	get patternRegExpSource(): string | null {
+		if (this._pattern === null) { return null }
+		return `^(?:${this._pattern})$`
+	}
+
+	get charactersRegExpSource(): string | null {
+		if (this._characterClasses === null) { return null }
+		let classesStr: string = this._characterClasses.map((x) => SsStringTypeDef.getCharacterClassRegExpString(x)).join("")
+		return `^[${classesStr}]*$`
+	}
 	
 	constructor(name: string) {
 		super(name)
 	}
+
+	setLength(minLength: number | null, maxLength: number | null) {
+		if (minLength !== null && (!Number.isInteger(minLength) || minLength < 0)) { throw new Error(`Invalid min length ${minLength}`) }
+		if (maxLength !== null && (!Number.isInteger(maxLength) || maxLength < 0)) { throw new Error(`Invalid max length ${maxLength}`) }
+		if (minLength !== null && maxLength !== null && minLength > maxLength) { throw new Error(`Min length ${minLength} is greater than max length ${maxLength}`) }
+		this._minLength = minLength
+		this._maxLength = maxLength
+	}
+
+	setPattern(pattern: string | null) {
+		if (pattern !== null) {
+			try {
+				new RegExp(pattern, "u")
+			} catch (e) {
+				throw new Error(`Invalid pattern "${pattern}"`)
+			}
+		}
+		this._pattern = pattern
+	}
+
+	setCharacterClasses(characterClasses: SsCharacterClass[] | null) {
+		if (characterClasses !== null && characterClasses.length === 0) { throw new Error("At least one character class required") }
+		this._characterClasses = characterClasses === null ? null : [...characterClasses]
+	}
+
+	getViolationOrNull(value: string): string | null {
+		let length: number = [...value].length
+		if ((this._minLength !== null && length < this._minLength) || (this._maxLength !== null && length > this._maxLength)) {
+			return `Value "${value}" has a length of ${length} but ${this.name} expects ${new SsRange(this._minLength, this._maxLength)}`
+		}
+		if (this._pattern !== null && !new RegExp(this.patternRegExpSource!, "u").test(value)) {
+			return `Value "${value}" does not match the pattern of ${this.name}`
+		}
+		if (this._characterClasses !== null && !new RegExp(this.charactersRegExpSource!, "u").test(value)) {
+			return `Value "${value}" contains characters not allowed by ${this.name}`
+		}
+		if (this.whitespace !== SsWhitespaceRule.Preserve && value !== value.trim()) {
+			return `Value "${value}" has leading or trailing whitespace not allowed by ${this.name}`
+		}
+		if (this.whitespace === SsWhitespaceRule.Collapsed && /\s\s/u.test(value)) {
+			return `Value "${value}" has consecutive whitespace not allowed by ${this.name}`
+		}
+		return null
+	}
+
+	static getCharacterClassRegExpString(characterClass: SsCharacterClass): string {
+		switch(characterClass) {
+			case SsCharacterClass.Letter: return "\\p{L}\\p{M}"
+			case SsCharacterClass.Digit: return "\\p{Nd}"
+			case SsCharacterClass.Whitespace: return "\\s"
+			case SsCharacterClass.Punctuation: return "\\p{P}"
+			case SsCharacterClass.Symbol: return "\\p{S}"
+		}
+		throw new Error("Invalid character class")
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SsNumberTypeDef extends SsValueTypeDef {
+	readonly baseType: SsPredefinedType
+	private _min: number | null = null
+	private _minExclusive: boolean = false
+	private _max: number | null = null
+	private _maxExclusive: boolean = false
+	private _step: number | null = null
+	private _decimalPlaces: number | null = null
+	unit: string | null = null
+
+	get min(): number | null {
+		return this._min
+	}
+
+	get minExclusive(): boolean {
+		return this._minExclusive
+	}
+
+	get max(): number | null {
+		return this._max
+	}
+
+	get maxExclusive(): boolean {
+		return this._maxExclusive
+	}
+
+	get step(): number | null {
+		return this._step
+	}
+
+	get decimalPlaces(): number | null {
+		return this._decimalPlaces
+	}
+
+	constructor(name: string, baseType: SsPredefinedType) {
+		super(name)
+		if (baseType !== SsPredefinedType.Int && baseType !== SsPredefinedType.UInt && baseType !== SsPredefinedType.Number) {
+			throw new Error(`Invalid base type "${SsPredefinedTypeUtil.getPredefinedTypeString(baseType)}" of number type "${name}"`)
+		}
+		this.baseType = baseType
+	}
+
+	setMin(min: number | null, exclusive: boolean = false) {
+		if (min !== null && this._max !== null && min > this._max) { throw new Error(`Min ${min} is greater than max ${this._max}`) }
+		this._min = min
+		this._minExclusive = min !== null && exclusive
+	}
+
+	setMax(max: number | null, exclusive: boolean = false) {
+		if (max !== null && this._min !== null && max < this._min) { throw new Error(`Max ${max} is less than min ${this._min}`) }
+		this._max = max
+		this._maxExclusive = max !== null && exclusive
+	}
+
+	setStep(step: number | null) {
+		if (step !== null && !(step > 0)) { throw new Error(`Step must be greater than zero`) }
+		if (step !== null && this._decimalPlaces !== null) { throw new Error(`Step and decimal places cannot be combined`) }
+		this._step = step
+	}
+
+	setDecimalPlaces(decimalPlaces: number | null) {
+		if (decimalPlaces !== null && (!Number.isInteger(decimalPlaces) || decimalPlaces < 0)) { throw new Error(`Invalid decimal places ${decimalPlaces}`) }
+		if (decimalPlaces !== null && this.baseType !== SsPredefinedType.Number) { throw new Error(`Decimal places are only allowed for base type Number`) }
+		if (decimalPlaces !== null && this._step !== null) { throw new Error(`Step and decimal places cannot be combined`) }
+		this._decimalPlaces = decimalPlaces
+	}
+
+	getRangeString(): string {
+		let parts: string[] = []
+		if (this._min !== null) { parts.push(`${this._minExclusive ? ">" : ">="} ${this._min}`) }
+		if (this._max !== null) { parts.push(`${this._maxExclusive ? "<" : "<="} ${this._max}`) }
+		let result: string = parts.join(" and ")
+		if (this.unit !== null) { result += ` ${this.unit}` }
+		return result
+	}
+
+	getViolationOrNull(value: string): string | null {
+		if (!SsPredefinedTypeUtil.isValidValue(this.baseType, value)) {
+			return `Value "${value}" is not a valid ${SsPredefinedTypeUtil.getPredefinedTypeString(this.baseType)}`
+		}
+		let number: number = parseFloat(value)
+		if ((this._min !== null && (this._minExclusive ? number <= this._min : number < this._min)) ||
+				(this._max !== null && (this._maxExclusive ? number >= this._max : number > this._max))) {
+			return `Value "${value}" is out of range of ${this.name} which expects ${this.getRangeString()}`
+		}
+		if (this._step !== null) {
+			let quotient: number = (number - (this._min ?? 0)) / this._step
+			if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+				return `Value "${value}" is not a multiple of step ${this._step} of ${this.name}`
+			}
+		}
+		if (this._decimalPlaces !== null) {
+			let factor: number = Math.pow(10, this._decimalPlaces)
+			if (Math.round(number * factor) / factor !== number) {
+				return `Value "${value}" has more than ${this._decimalPlaces} decimal places allowed by ${this.name}`
+			}
+		}
+		return null
+	}
 }
 
 // ----------------------------------------------------------------------
@@ -465,6 +1200,7 @@ export class SsNumberTypeDef extends SsValueTypeDef {
 export class SsStructDef {
 	private readonly definitions: SsDefinitions
 	readonly name: string
+	description: string | null = null
 
 	private readonly _values: SsStructValue[] = []
 
@@ -481,13 +1217,20 @@ export class SsStructDef {
 		this.name = name
 	}
 
-	addValue(name: string, optional: boolean, predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, nullable: boolean) {
-		let value: SsStructValue = new SsStructValue(name, optional, predefinedType, valueTypeDef, nullable)
+	addValue(name: string, optional: boolean, predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, nullable: boolean, defaultValue: string | null = null): SsStructValue {
+		let value: SsStructValue = new SsStructValue(name, optional, predefinedType, valueTypeDef, nullable, defaultValue)
 		if (this._values.length > 0) {
 			let lastOptional: boolean = this._values[this._values.length-1].optional
 			if (!optional && lastOptional) { throw new Error("Value is not optional but value before was optional") }
 		}
 		this._values.push(value)
+		return value
+	}
+
+	getValue(name: string): SsStructValue {
+		let value: SsStructValue | undefined = this._values.find((x) => x.name === name)
+		if (value === undefined) { throw new Error(`Struct "${this.name}" has no value "${name}"`) }
+		return value
 	}
 }
 
@@ -499,23 +1242,26 @@ export class SsStructValue {
 	readonly predefinedType: SsPredefinedType | null
 	readonly valueTypeDef: SsValueTypeDef | null
 	readonly nullable: boolean
+	readonly defaultValue: string | null
+	description: string | null = null
 
 	get isPredefinedType(): boolean {
 		return this.predefinedType !== null
 	}
 
-	constructor(name: string, optional: boolean, predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, nullable: boolean) {
+	constructor(name: string, optional: boolean, predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, nullable: boolean, defaultValue: string | null = null) {
 		this.name = name
 		this.optional = optional
 		this.predefinedType = predefinedType
 		this.valueTypeDef = valueTypeDef
 		this.nullable = nullable
+		this.defaultValue = defaultValue
 	}
 
-	getTypeString(): string {
+	getTypeString(getName: (def: SsValueTypeDef) => string = (def) => def.name): string {
 		let typeName: string
 		if (this.predefinedType !== null) { typeName = SsPredefinedTypeUtil.getPredefinedTypeString(this.predefinedType) }
-		else { typeName = this.valueTypeDef!.name }
+		else { typeName = getName(this.valueTypeDef!) }
 		if (this.nullable) { typeName += "?" }
 		return typeName
 	}
@@ -523,21 +1269,181 @@ export class SsStructValue {
 
 // ----------------------------------------------------------------------
 
+export enum SsValidationSeverity {
+	Error,
+	Warning
+}
+
+// ----------------------------------------------------------------------
+
+export enum SsValidationCode {
+	InvalidSml,
+	InvalidSchema,
+	InvalidRootElement,
+	ElementNotAllowed,
+	AttributeNotAllowed,
+	ElementNotEmpty,
+	MissingElement,
+	MissingAttribute,
+	InvalidOccurrence,
+	InvalidValueCount,
+	InvalidArraySize,
+	InvalidValue,
+	NullNotAllowed,
+	MissingChoice
+}
+
+// ----------------------------------------------------------------------
+
+export class SsValidationIssue {
+	readonly severity: SsValidationSeverity
+	readonly code: SsValidationCode
+	readonly message: string
+	readonly path: string
+	readonly lineNumber: number | null
+
+	get codeName(): string {
+		return SsValidationCode[this.code]
+	}
+
+	constructor(severity: SsValidationSeverity, code: SsValidationCode, message: string, path: string, lineNumber: number | null) {
+		this.severity = severity
+		this.code = code
+		this.message = message
+		this.path = path
+		this.lineNumber = lineNumber
+	}
+
+	toString(): string {
+		let location: string = this.path
+		if (this.lineNumber !== null) { location += (location.length > 0 ? " " : "") + `(line ${this.lineNumber})` }
+		return `${SsValidationSeverity[this.severity]} ${this.codeName}: ${location.length > 0 ? location + ": " : ""}${this.message}`
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class SsSchemaError extends Error {
+	readonly issues: SsValidationIssue[]
+
+	constructor(issues: SsValidationIssue[]) {
+		super("Could not parse schema because " + issues.map((x) => x.toString()).join(", "))
+		this.issues = issues
+	}
+}
+
+// ----------------------------------------------------------------------
+
+abstract class SsNodeUtil {
+	static getNodePath(path: string, sNode: SmlNamedNode, sSiblings: SmlNamedNode[]): string {
+		let sameNamed: SmlNamedNode[] = sSiblings.filter((x) => x.hasName(sNode.name))
+		let nodePath: string = (path.length > 0 ? path + "/" : "") + sNode.name
+		if (sameNamed.length > 1) {
+			nodePath += `[${sameNamed.indexOf(sNode)+1}]`
+		}
+		return nodePath
+	}
+
+	static getNodePaths(path: string, sNodes: SmlNamedNode[]): string[] {
+		return sNodes.map((x) => SsNodeUtil.getNodePath(path, x, sNodes))
+	}
+
+	private static addLineNumbers(sNode: SmlNode, lineNumber: number, lineNumbers: Map<SmlNode, number>): number {
+		lineNumbers.set(sNode, lineNumber)
+		lineNumber++
+		if (sNode instanceof SmlElement) {
+			for (let sChildNode of (sNode as SmlElement).nodes) {
+				lineNumber = SsNodeUtil.addLineNumbers(sChildNode, lineNumber, lineNumbers)
+			}
+			lineNumber++
+		}
+		return lineNumber
+	}
+
+	static getLineNumbers(document: SmlDocument): Map<SmlNode, number> {
+		let lineNumbers: Map<SmlNode, number> = new Map<SmlNode, number>()
+		SsNodeUtil.addLineNumbers(document.root, document.emptyNodesBefore.length + 1, lineNumbers)
+		return lineNumbers
+	}
+}
+
+// ----------------------------------------------------------------------
+
 class SmlSchemaLoader {
 	private schema: SmlSchema = new SmlSchema()
 
-	constructor() {
+	private lineNumbers: Map<SmlNode, number> = new Map<SmlNode, number>()
+	private readonly paths: string[] = []
+	private readonly sNodes: SmlNamedNode[] = []
+	private readonly extendedElementDefs: { elementDef: SsElementDef, sElementDef: SmlElement, path: string }[] = []
+
+	private readonly resolver: SsSchemaResolver | null
+	private readonly filePath: string | null
+	private readonly loadingFilePaths: string[]
+	private readonly loadedSchemas: Map<string, SmlSchema>
 
+	constructor(resolver: SsSchemaResolver | null = null, filePath: string | null = null, loadingFilePaths: string[] = [], loadedSchemas: Map<string, SmlSchema> = new Map<string, SmlSchema>()) {
+		this.resolver = resolver
+		this.filePath = filePath
+		this.loadingFilePaths = loadingFilePaths
+		this.loadedSchemas = loadedSchemas
+	}
+
+	private loadImport(sImportAttribute: SmlAttribute) {
+		sImportAttribute.assureValueCountMinMax(1, 2)
+		let importPath: string = sImportAttribute.getString(0)
+		let alias: string | null = sImportAttribute.valueCount === 2 ? sImportAttribute.getString(1) : null
+		if (this.resolver === null) { throw new Error(`Cannot import "${importPath}" because no schema resolver was specified`) }
+
+		let resolved: SsResolvedSchema = this.resolver.resolve(importPath, this.filePath)
+		if (this.loadingFilePaths.includes(resolved.path)) {
+			throw new Error(`Cyclic import of "${resolved.path}" (${[...this.loadingFilePaths, resolved.path].join(" -> ")})`)
+		}
+		let schema: SmlSchema | undefined = this.loadedSchemas.get(resolved.path)
+		if (schema === undefined) {
+			let loader: SmlSchemaLoader = new SmlSchemaLoader(this.resolver, resolved.path, this.loadingFilePaths, this.loadedSchemas)
+			try {
+				schema = loader.parse(resolved.content)
+			} catch (e) {
+				if (!(e instanceof SsSchemaError)) { throw e }
+				throw new Error(`Could not import "${resolved.path}" because ${(e as SsSchemaError).issues.map((x) => x.toString()).join(", ")}`)
+			}
+			this.loadedSchemas.set(resolved.path, schema)
+		}
+		this.schema.addImport(importPath, alias, schema)
+	}
+
+	private withNode<T>(sParent: SmlElement | null, sNode: SmlNamedNode, action: () => T): T {
+		let parentPath: string = this.paths.length > 0 ? this.paths[this.paths.length-1] : ""
+		let sSiblings: SmlNamedNode[] = [sNode]
+		if (sParent !== null) { sSiblings = sNode instanceof SmlElement ? sParent.elements() : sParent.attributes() }
+		this.paths.push(SsNodeUtil.getNodePath(parentPath, sNode, sSiblings))
+		this.sNodes.push(sNode)
+		let result: T = action()
+		this.paths.pop()
+		this.sNodes.pop()
+		return result
+	}
+
+	private static parseRange(str: string): SsRange {
+		let match: RegExpExecArray | null = /^([0-9]+)(\.\.([0-9]+|[nN]))?$/.exec(str)
+		if (match === null) { throw new Error(`Invalid range "${str}"`) }
+		let min: number = Number.parseInt(match[1])
+		if (match[2] === undefined) { return SsRange.fixed(min) }
+		let max: number | null = match[3].toUpperCase() === "N" ? null : Number.parseInt(match[3])
+		if (max !== null && max < min) { throw new Error(`Invalid range "${str}"`) }
+		return new SsRange(min, max)
 	}
 
 	private static getOccurrence(sAttribute: SmlAttribute, index: number): SsRange {
-		let occurrenceIndex: number = sAttribute.getEnum(["Required", "Optional", "Repeated+", "Repeated*"], index)
-		let occurrence: SsRange
-		if (occurrenceIndex === 0) { occurrence = SsRange.required() }
-		else if (occurrenceIndex === 1) { occurrence = SsRange.optional() }
-		else if (occurrenceIndex === 2) { occurrence = SsRange.repeatedPlus() }
-		else if (occurrenceIndex === 3) { occurrence = SsRange.repeatedStar() }
-		else { throw new Error("Could not get occurrence") }
+		let occurrenceStr: string = sAttribute.getString(index)
+		let occurrenceIndex: number = ["required", "optional", "repeated+", "repeated*"].indexOf(occurrenceStr.toLowerCase())
+		if (occurrenceIndex === 0) { return SsRange.required() }
+		else if (occurrenceIndex === 1) { return SsRange.optional() }
+		else if (occurrenceIndex === 2) { return SsRange.repeatedPlus() }
+		else if (occurrenceIndex === 3) { return SsRange.repeatedStar() }
+		let occurrence: SsRange = SmlSchemaLoader.parseRange(occurrenceStr)
+		if (occurrence.max === 0) { throw new Error(`Invalid occurrence "${occurrenceStr}"`) }
 		return occurrence
 	}
 
@@ -553,19 +1459,7 @@ class SmlSchemaLoader {
 			if (splitIndex < 0) { throw new Error("Invalid data type") }
 			let arrayBoundsStr: string = dataTypeStr.substring(splitIndex+1, dataTypeStr.length-1)
 			dataTypeStr = dataTypeStr.substring(0, splitIndex)
-			if (arrayBoundsStr.includes("..")) {
-				let parts: string[] = arrayBoundsStr.split("..", 2)
-				let minSize: number = Number.parseInt(parts[0])
-				let maxSize: number | null = null
-				if (parts[1].toUpperCase() !== "N") {
-					maxSize = Number.parseInt(parts[1])
-				}
-				arrayBounds = new SsRange(minSize, maxSize)
-			} else {
-				let fixedSize: number = Number.parseInt(arrayBoundsStr)
-				if (fixedSize < 0) { throw new Error("Invalid array size") }
-				arrayBounds = SsRange.fixed(fixedSize)
-			}
+			arrayBounds = SmlSchemaLoader.parseRange(arrayBoundsStr)
 		}
 		let nullable: boolean = false
 		if (dataTypeStr.endsWith("?")) {
@@ -585,46 +1479,138 @@ class SmlSchemaLoader {
 	}
 
 	private loadElementDef(sElementDef: SmlElement, elementDef: SsElementDef) {
-		sElementDef.assureElementNames(["Definitions", "UnorderedContent", "ListContent"])
-		sElementDef.assureAttributeNames(["Name"])
+		sElementDef.assureElementNames(["Definitions", "UnorderedContent", "OrderedContent", "ListContent"])
+		sElementDef.assureAttributeNames(["Name", "Extends", "Description"])
+		elementDef.description = SmlSchemaLoader.loadDescription(sElementDef)
 
 		let sDefinitionsElement: SmlElement | null = sElementDef.optionalElement("Definitions")
 		if (sDefinitionsElement !== null) {
-			sDefinitionsElement.assureElementNames(["EnumType", "Struct", "Attribute", "Element"])
-			sDefinitionsElement.assureNoAttributes()
-			this.loadDefinitions(sDefinitionsElement, elementDef.definitions)
+			this.withNode(sElementDef, sDefinitionsElement, () => {
+				sDefinitionsElement!.assureElementNames(["EnumType", "StringType", "NumberType", "Struct", "Attribute", "Element"])
+				sDefinitionsElement!.assureNoAttributes()
+				this.loadDefinitions(sDefinitionsElement!, elementDef.definitions)
+			})
 		}
 		
-		sElementDef.assureChoice(["UnorderedContent", "ListContent"], null, true)
+		sElementDef.assureChoice(["UnorderedContent", "OrderedContent", "ListContent"], null, true)
 		if (sElementDef.hasElement("ListContent")) {
-			throw new Error("Todo")
+			let sListContentElement: SmlElement = sElementDef.optionalElement("ListContent")!
+			this.withNode(sElementDef, sListContentElement, () => {
+				sListContentElement.assureAttributeCount(1)
+				this.loadContent(sListContentElement, elementDef, elementDef.setListContent())
+			})
 		} else if (sElementDef.hasElement("UnorderedContent")) {
-			let unorderedContent: SsUnorderedContent = elementDef.setUnorderedContent()
 			let sUnorderedContentElement: SmlElement = sElementDef.optionalElement("UnorderedContent")!
-			for (let sElementAttribute of sUnorderedContentElement.attributes("Element")) {
-				sElementAttribute.assureValueCount(2)
-				let elementName: string = sElementAttribute.getString(0)
-				let occurrence: SsRange = SmlSchemaLoader.getOccurrence(sElementAttribute, 1)
-				unorderedContent.addElement(elementName, occurrence)
-			}
-			for (let sAttributeAttribute of sUnorderedContentElement.attributes("Attribute")) {
-				sAttributeAttribute.assureValueCountMinMax(2, 3)
-				let attributeName: string = sAttributeAttribute.getString(0)
-				let occurrence: SsRange = SmlSchemaLoader.getOccurrence(sAttributeAttribute, 1)
-				if (sAttributeAttribute.valueCount === 2) {
-					unorderedContent.addAttribute(attributeName, occurrence)
+			this.withNode(sElementDef, sUnorderedContentElement, () => this.loadContent(sUnorderedContentElement, elementDef, elementDef.setUnorderedContent()))
+		} else if (sElementDef.hasElement("OrderedContent")) {
+			let sOrderedContentElement: SmlElement = sElementDef.optionalElement("OrderedContent")!
+			this.withNode(sElementDef, sOrderedContentElement, () => this.loadContent(sOrderedContentElement, elementDef, elementDef.setOrderedContent()))
+		}
+
+		let sExtendsAttribute: SmlAttribute | null = sElementDef.optionalAttribute("Extends")
+		if (sExtendsAttribute !== null) {
+			this.withNode(sElementDef, sExtendsAttribute, () => {
+				let baseElementDef: SsElementDef = elementDef.definitions.elementDefs.get(sExtendsAttribute!.asString())
+				elementDef.setBaseElementDef(baseElementDef)
+			})
+			this.extendedElementDefs.push({ elementDef: elementDef, sElementDef: sElementDef, path: this.paths[this.paths.length-1] })
+		}
+	}
+
+	private static loadDescription(sElement: SmlElement): string | null {
+		let sDescriptionAttribute: SmlAttribute | null = sElement.optionalAttribute("Description")
+		return sDescriptionAttribute === null ? null : sDescriptionAttribute.asString()
+	}
+
+	private loadValueDescriptions(sElement: SmlElement, setValueDescription: (value: string, description: string) => void) {
+		for (let sValueDescriptionAttribute of sElement.attributes("ValueDescription")) {
+			this.withNode(sElement, sValueDescriptionAttribute, () => {
+				sValueDescriptionAttribute.assureValueCount(2)
+				setValueDescription(sValueDescriptionAttribute.getString(0), sValueDescriptionAttribute.getString(1))
+			})
+		}
+	}
+
+	private loadInlineAttributeDef(sContentAttribute: SmlAttribute, attributeName: string, dataTypeIndex: number, elementDef: SsElementDef): SsAttributeDef {
+		let inlineAttributeDef: SsAttributeDef = new SsAttributeDef(attributeName, elementDef.definitions)
+		let dataTypeStr: string = sContentAttribute.getString(dataTypeIndex)
+		inlineAttributeDef.dataType = SmlSchemaLoader.loadDataType(dataTypeStr, elementDef.definitions)
+		return inlineAttributeDef
+	}
+
+	private loadChoice(sChoiceElement: SmlElement, elementDef: SsElementDef, content: SsUnorderedContent | SsOrderedContent) {
+		sChoiceElement.assureNoElements()
+		sChoiceElement.assureAttributeNames(["Occurrence", "Element", "Attribute"])
+		let sOccurrenceAttribute: SmlAttribute | null = sChoiceElement.optionalAttribute("Occurrence")
+		let occurrence: SsRange = sOccurrenceAttribute === null ? SsRange.required() : SmlSchemaLoader.getOccurrence(sOccurrenceAttribute.assureValueCount(1), 0)
+		let choice: SsChoice = new SsChoice(elementDef)
+		for (let sAlternativeAttribute of sChoiceElement.attributes()) {
+			if (sAlternativeAttribute.hasName("Occurrence")) { continue }
+			this.withNode(sChoiceElement, sAlternativeAttribute, () => {
+				if (sAlternativeAttribute.hasName("Element")) {
+					choice.addElement(sAlternativeAttribute.assureValueCount(1).getString(0))
 				} else {
-					let inlineAttributeDef: SsAttributeDef = new SsAttributeDef(attributeName, elementDef.definitions)
-					let dataTypeStr: string = sAttributeAttribute.getString(2)
-					inlineAttributeDef.dataType = SmlSchemaLoader.loadDataType(dataTypeStr, elementDef.definitions)
-					unorderedContent.addInlineAttribute(inlineAttributeDef, occurrence)
+					sAlternativeAttribute.assureValueCountMinMax(1, 2)
+					let attributeName: string = sAlternativeAttribute.getString(0)
+					if (sAlternativeAttribute.valueCount === 1) {
+						choice.addAttribute(attributeName)
+					} else {
+						choice.addInlineAttribute(this.loadInlineAttributeDef(sAlternativeAttribute, attributeName, 1, elementDef))
+					}
 				}
+			})
+		}
+		content.addChoice(choice, occurrence)
+	}
+
+	private loadContent(sContentElement: SmlElement, elementDef: SsElementDef, content: SsUnorderedContent | SsOrderedContent | SsListContent) {
+		if (content instanceof SsListContent) {
+			sContentElement.assureNoElements()
+		} else {
+			sContentElement.assureElementNames(["Choice"])
+		}
+		sContentElement.assureAttributeNames(["Element", "Attribute"])
+		let sContentNodes: SmlNamedNode[] = sContentElement.nodes.filter((x) => x instanceof SmlNamedNode) as SmlNamedNode[]
+		for (let sContentNode of sContentNodes) {
+			if (sContentNode instanceof SmlElement) {
+				this.withNode(sContentElement, sContentNode, () => this.loadChoice(sContentNode as SmlElement, elementDef, content as SsUnorderedContent | SsOrderedContent))
+				continue
 			}
+			let sContentAttribute: SmlAttribute = sContentNode as SmlAttribute
+			this.withNode(sContentElement, sContentAttribute, () => {
+				if (sContentAttribute.hasName("Element")) {
+					sContentAttribute.assureValueCount(2)
+					let elementName: string = sContentAttribute.getString(0)
+					let occurrence: SsRange = SmlSchemaLoader.getOccurrence(sContentAttribute, 1)
+					content.addElement(elementName, occurrence)
+				} else {
+					sContentAttribute.assureValueCountMinMax(2)
+					let attributeName: string = sContentAttribute.getString(0)
+					let occurrence: SsRange = SmlSchemaLoader.getOccurrence(sContentAttribute, 1)
+					if (sContentAttribute.valueCount === 2) {
+						content.addAttribute(attributeName, occurrence)
+					} else {
+						let inlineAttributeDef: SsAttributeDef = this.loadInlineAttributeDef(sContentAttribute, attributeName, 2, elementDef)
+						if (sContentAttribute.valueCount > 3) {
+							if (!occurrence.isOptional) { throw new Error(`Default value of attribute "${attributeName}" is only allowed if the attribute is optional`) }
+							let defaultValues: (string | null)[] = sContentAttribute.values.slice(3)
+							this.checkDefaultValues(defaultValues, inlineAttributeDef.dataType)
+							inlineAttributeDef.setDefaultValues(defaultValues)
+						}
+						content.addInlineAttribute(inlineAttributeDef, occurrence)
+					}
+				}
+			})
 		}
 	}
 
+	private checkDefaultValues(values: (string | null)[], dataType: SsAttributeDataType) {
+		let issues: SsValidationIssue[] = new SmlValidator(this.schema).validateValues(values, dataType)
+		if (issues.length > 0) { throw new Error(`Invalid default value: ${issues[0].message}`) }
+	}
+
 	private loadStructValue(sValueAttribute: SmlAttribute, structDef: SsStructDef, definitions: SsDefinitions) {
-		sValueAttribute.assureValueCount(3)
+		sValueAttribute.assureValueCountMinMax(3, 4)
 		let valueName: string = sValueAttribute.getString(0)
 		let optional: boolean = sValueAttribute.getEnum(["Required", "Optional"], 1) === 1
 		let typeStr: string = sValueAttribute.getString(2)
@@ -640,63 +1626,209 @@ class SmlSchemaLoader {
 			valueTypeDef = definitions.valueTypeDefs.get(typeStr)
 		}
 
-		structDef.addValue(valueName, optional, predefinedType, valueTypeDef, nullable)
+		let defaultValue: string | null = null
+		if (sValueAttribute.valueCount === 4) {
+			defaultValue = sValueAttribute.getString(3)
+			this.checkDefaultValues([defaultValue], new SsAttributeDataType(predefinedType, valueTypeDef, null, nullable, null, false))
+		}
+		structDef.addValue(valueName, optional, predefinedType, valueTypeDef, nullable, defaultValue)
 	}
 
 	private loadEnumTypeDef(sEnumTypeDef: SmlElement, definitions: SsDefinitions) {
 		sEnumTypeDef.assureNoElements()
-		sEnumTypeDef.assureAttributeNames(["Name", "Values"])
+		sEnumTypeDef.assureAttributeNames(["Name", "Values", "Description", "ValueDescription"])
 
 		let name: string = sEnumTypeDef.requiredAttribute("Name").asString()
 		let values: string[] = sEnumTypeDef.requiredAttribute("Values").asStringArray()
-		definitions.addEnum(name, values)
+		let enumTypeDef: SsEnumTypeDef = definitions.addEnum(name, values)
+		enumTypeDef.description = SmlSchemaLoader.loadDescription(sEnumTypeDef)
+		this.loadValueDescriptions(sEnumTypeDef, (value, description) => enumTypeDef.setValueDescription(value, description))
+	}
+
+	private loadStringTypeDef(sStringTypeDef: SmlElement, definitions: SsDefinitions) {
+		sStringTypeDef.assureNoElements()
+		sStringTypeDef.assureAttributeNames(["Name", "MinLength", "MaxLength", "Pattern", "Characters", "Whitespace", "Description"])
+
+		let name: string = sStringTypeDef.requiredAttribute("Name").asString()
+		let stringTypeDef: SsStringTypeDef = definitions.addStringType(name)
+		stringTypeDef.description = SmlSchemaLoader.loadDescription(sStringTypeDef)
+		let sMinLengthAttribute: SmlAttribute | null = sStringTypeDef.optionalAttribute("MinLength")
+		let sMaxLengthAttribute: SmlAttribute | null = sStringTypeDef.optionalAttribute("MaxLength")
+		let minLength: number | null = sMinLengthAttribute === null ? null : sMinLengthAttribute.asInt()
+		let maxLength: number | null = sMaxLengthAttribute === null ? null : sMaxLengthAttribute.asInt()
+		stringTypeDef.setLength(minLength, maxLength)
+
+		let sPatternAttribute: SmlAttribute | null = sStringTypeDef.optionalAttribute("Pattern")
+		if (sPatternAttribute !== null) {
+			this.withNode(sStringTypeDef, sPatternAttribute, () => stringTypeDef.setPattern(sPatternAttribute!.asString()))
+		}
+		let sCharactersAttribute: SmlAttribute | null = sStringTypeDef.optionalAttribute("Characters")
+		if (sCharactersAttribute !== null) {
+			let characterClassNames: string[] = ["Letter", "Digit", "Whitespace", "Punctuation", "Symbol"]
+			let characterClasses: SsCharacterClass[] = sCharactersAttribute.values.map((x, i) => sCharactersAttribute!.getEnum(characterClassNames, i) as SsCharacterClass)
+			stringTypeDef.setCharacterClasses(characterClasses)
+		}
+		let sWhitespaceAttribute: SmlAttribute | null = sStringTypeDef.optionalAttribute("Whitespace")
+		if (sWhitespaceAttribute !== null) {
+			stringTypeDef.whitespace = sWhitespaceAttribute.assureValueCount(1).getEnum(["Preserve", "Trimmed", "Collapsed"]) as SsWhitespaceRule
+		}
+	}
+
+	private static getNumberValue(sAttribute: SmlAttribute, index: number, baseType: SsPredefinedType): number {
+		let str: string = sAttribute.getString(index)
+		if (!SsPredefinedTypeUtil.isValidValue(baseType, str)) { throw new Error(`Value "${str}" of attribute "${sAttribute.name}" is not a valid ${SsPredefinedTypeUtil.getPredefinedTypeString(baseType)}`) }
+		return parseFloat(str)
+	}
+
+	private loadNumberTypeDef(sNumberTypeDef: SmlElement, definitions: SsDefinitions) {
+		sNumberTypeDef.assureNoElements()
+		sNumberTypeDef.assureAttributeNames(["Name", "BaseType", "Min", "Max", "Step", "DecimalPlaces", "Unit", "Description"])
+
+		let name: string = sNumberTypeDef.requiredAttribute("Name").asString()
+		let baseType: SsPredefinedType = [SsPredefinedType.Int, SsPredefinedType.UInt, SsPredefinedType.Number][sNumberTypeDef.requiredAttribute("BaseType").assureValueCount(1).getEnum(["Int", "UInt", "Number"])]
+		let numberTypeDef: SsNumberTypeDef = definitions.addNumberType(name, baseType)
+		numberTypeDef.description = SmlSchemaLoader.loadDescription(sNumberTypeDef)
+		
+		let sMinAttribute: SmlAttribute | null = sNumberTypeDef.optionalAttribute("Min")
+		if (sMinAttribute !== null) {
+			this.withNode(sNumberTypeDef, sMinAttribute, () => {
+				sMinAttribute!.assureValueCountMinMax(1, 2)
+				let exclusive: boolean = sMinAttribute!.valueCount === 2 && sMinAttribute!.getEnum(["Inclusive", "Exclusive"], 1) === 1
+				numberTypeDef.setMin(SmlSchemaLoader.getNumberValue(sMinAttribute!, 0, baseType), exclusive)
+			})
+		}
+		let sMaxAttribute: SmlAttribute | null = sNumberTypeDef.optionalAttribute("Max")
+		if (sMaxAttribute !== null) {
+			this.withNode(sNumberTypeDef, sMaxAttribute, () => {
+				sMaxAttribute!.assureValueCountMinMax(1, 2)
+				let exclusive: boolean = sMaxAttribute!.valueCount === 2 && sMaxAttribute!.getEnum(["Inclusive", "Exclusive"], 1) === 1
+				numberTypeDef.setMax(SmlSchemaLoader.getNumberValue(sMaxAttribute!, 0, baseType), exclusive)
+			})
+		}
+		sNumberTypeDef.assureChoice(null, ["Step", "DecimalPlaces"], true)
+		let sStepAttribute: SmlAttribute | null = sNumberTypeDef.optionalAttribute("Step")
+		if (sStepAttribute !== null) {
+			this.withNode(sNumberTypeDef, sStepAttribute, () => numberTypeDef.setStep(SmlSchemaLoader.getNumberValue(sStepAttribute!.assureValueCount(1), 0, baseType)))
+		}
+		let sDecimalPlacesAttribute: SmlAttribute | null = sNumberTypeDef.optionalAttribute("DecimalPlaces")
+		if (sDecimalPlacesAttribute !== null) {
+			this.withNode(sNumberTypeDef, sDecimalPlacesAttribute, () => numberTypeDef.setDecimalPlaces(sDecimalPlacesAttribute!.asInt()))
+		}
+		let sUnitAttribute: SmlAttribute | null = sNumberTypeDef.optionalAttribute("Unit")
+		if (sUnitAttribute !== null) {
+			numberTypeDef.unit = sUnitAttribute.asString()
+		}
 	}
 
 	private loadDefinitions(sElement: SmlElement, definitions: SsDefinitions) {
-		for (let sEnumTypeDef of sElement.elements("EnumType")) {
-			this.loadEnumTypeDef(sEnumTypeDef, definitions)
+		for (let sValueTypeDef of sElement.elements()) {
+			if (sValueTypeDef.hasName("EnumType")) {
+				this.withNode(sElement, sValueTypeDef, () => this.loadEnumTypeDef(sValueTypeDef, definitions))
+			} else if (sValueTypeDef.hasName("StringType")) {
+				this.withNode(sElement, sValueTypeDef, () => this.loadStringTypeDef(sValueTypeDef, definitions))
+			} else if (sValueTypeDef.hasName("NumberType")) {
+				this.withNode(sElement, sValueTypeDef, () => this.loadNumberTypeDef(sValueTypeDef, definitions))
+			}
 		}
 		for (let sStructDef of sElement.elements("Struct")) {
-			let name: string = sStructDef.requiredAttribute("Name").asString()
-			let structDef: SsStructDef = definitions.structDefs.add(name)
-			for (let sValueAttribute of sStructDef.attributes("Value")) {
-				this.loadStructValue(sValueAttribute, structDef, definitions)
-			}
+			this.withNode(sElement, sStructDef, () => {
+				sStructDef.assureNoElements()
+				sStructDef.assureAttributeNames(["Name", "Value", "Description", "ValueDescription"])
+				let name: string = sStructDef.requiredAttribute("Name").asString()
+				let structDef: SsStructDef = definitions.structDefs.add(name)
+				structDef.description = SmlSchemaLoader.loadDescription(sStructDef)
+				for (let sValueAttribute of sStructDef.attributes("Value")) {
+					this.withNode(sStructDef, sValueAttribute, () => this.loadStructValue(sValueAttribute, structDef, definitions))
+				}
+				this.loadValueDescriptions(sStructDef, (value, description) => structDef.getValue(value).description = description)
+			})
 		}
 		for (let sAttributeDef of sElement.elements("Attribute")) {
-			let name: string = sAttributeDef.requiredAttribute("Name").asString()
-			let attributeDef: SsAttributeDef = definitions.attributeDefs.add(name)
-			let dataTypeStr: string = sAttributeDef.requiredAttribute("DataType").asString()
-			attributeDef.dataType = SmlSchemaLoader.loadDataType(dataTypeStr, definitions)
+			this.withNode(sElement, sAttributeDef, () => {
+				sAttributeDef.assureNoElements()
+				sAttributeDef.assureAttributeNames(["Name", "DataType", "Default", "Description"])
+				let name: string = sAttributeDef.requiredAttribute("Name").asString()
+				let attributeDef: SsAttributeDef = definitions.attributeDefs.add(name)
+				attributeDef.description = SmlSchemaLoader.loadDescription(sAttributeDef)
+				let dataTypeStr: string = sAttributeDef.requiredAttribute("DataType").asString()
+				attributeDef.dataType = SmlSchemaLoader.loadDataType(dataTypeStr, definitions)
+				let sDefaultAttribute: SmlAttribute | null = sAttributeDef.optionalAttribute("Default")
+				if (sDefaultAttribute !== null) {
+					this.withNode(sAttributeDef, sDefaultAttribute, () => {
+						this.checkDefaultValues(sDefaultAttribute!.values, attributeDef.dataType)
+						attributeDef.setDefaultValues(sDefaultAttribute!.values)
+					})
+				}
+			})
+		}
+		let sElementDefs: SmlElement[] = sElement.elements("Element")
+		let elementDefs: SsElementDef[] = []
+		for (let sElementDef of sElementDefs) {
+			this.withNode(sElement, sElementDef, () => {
+				let name: string = sElementDef.requiredAttribute("Name").asString()
+				elementDefs.push(definitions.elementDefs.add(name))
+			})
 		}
-		for (let sElementDef of sElement.elements("Element")) {
-			let name: string = sElementDef.requiredAttribute("Name").asString()
-			let elementDef: SsElementDef = definitions.elementDefs.add(name)
-			this.loadElementDef(sElementDef, elementDef)
+		for (let i=0; i<sElementDefs.length; i++) {
+			this.withNode(sElement, sElementDefs[i], () => this.loadElementDef(sElementDefs[i], elementDefs[i]))
+		}
+	}
+
+	private getIssue(e: unknown): SsValidationIssue {
+		let message: string = e instanceof Error ? e.message : ""+e
+		let path: string = this.paths.length > 0 ? this.paths[this.paths.length-1] : ""
+		let lineNumber: number | null = null
+		if (e instanceof SmlParserError) {
+			lineNumber = (e as SmlParserError).lineIndex + 1
+		} else if (this.sNodes.length > 0 && this.lineNumbers.has(this.sNodes[this.sNodes.length-1])) {
+			lineNumber = this.lineNumbers.get(this.sNodes[this.sNodes.length-1])!
 		}
+		let code: SsValidationCode = e instanceof SmlParserError ? SsValidationCode.InvalidSml : SsValidationCode.InvalidSchema
+		return new SsValidationIssue(SsValidationSeverity.Error, code, message, path, lineNumber)
 	}
 
 	parse(content: string): SmlSchema {
+		if (this.filePath !== null) { this.loadingFilePaths.push(this.filePath) }
 		try {
 			let document: SmlDocument = SmlDocument.parse(content)
+			this.lineNumbers = SsNodeUtil.getLineNumbers(document)
 			let sRootElement: SmlElement = document.root
-			sRootElement.assureName("Schema")
-			sRootElement.assureElementNames(["EnumType", "Struct", "Attribute", "Element"])
-			sRootElement.assureAttributeNames(["RootElement"])
-
-			this.loadDefinitions(document.root, this.schema.definitions)
-			
-			let sRootElementAttribute: SmlAttribute | null = document.root.optionalAttribute("RootElement")
-			if (sRootElementAttribute !== null) {
-				let rootElementName: string = sRootElementAttribute.asString()
-				this.schema.setRootElementByName(rootElementName)
-			} else {
-				this.schema.setRootElementDefault()
-			}
+			this.withNode(null, sRootElement, () => {
+				sRootElement.assureName("Schema")
+				sRootElement.assureElementNames(["EnumType", "StringType", "NumberType", "Struct", "Attribute", "Element"])
+				sRootElement.assureAttributeNames(["Import", "RootElement"])
+
+				for (let sImportAttribute of sRootElement.attributes("Import")) {
+					this.withNode(sRootElement, sImportAttribute, () => this.loadImport(sImportAttribute))
+				}
+
+				this.loadDefinitions(sRootElement, this.schema.definitions)
+
+				for (let extendedElementDef of this.extendedElementDefs) {
+					this.paths.push(extendedElementDef.path)
+					this.sNodes.push(extendedElementDef.sElementDef)
+					let content: SsUnorderedContent = extendedElementDef.elementDef.content as SsUnorderedContent
+					content.checkInheritance()
+					this.paths.pop()
+					this.sNodes.pop()
+				}
+				
+				let sRootElementAttribute: SmlAttribute | null = sRootElement.optionalAttribute("RootElement")
+				if (sRootElementAttribute !== null) {
+					this.withNode(sRootElement, sRootElementAttribute, () => {
+						let rootElementName: string = sRootElementAttribute!.asString()
+						this.schema.setRootElementByName(rootElementName)
+					})
+				} else {
+					this.schema.setRootElementDefault()
+				}
+			})
 
 			return this.schema
 		} catch (e) {
-			throw new Error("Could not parse schema because "+e)
+			throw new SsSchemaError([this.getIssue(e)])
+		} finally {
+			if (this.filePath !== null) { this.loadingFilePaths.pop() }
 		}
 	}
 }
@@ -704,58 +1836,177 @@ class SmlSchemaLoader {
 // ----------------------------------------------------------------------
 
 class SmlSchemaSerializer {
-	private static serializeValueTypeDef(valueTypeDef: SsValueTypeDef, sElement: SmlElement) {
+	private readonly schema: SmlSchema
+	private readonly referenceNames: Map<Object, string> = new Map<Object, string>()
+
+	constructor(schema: SmlSchema) {
+		this.schema = schema
+		let unaliasedSchemas: SmlSchema[] = schema.imports.filter((x) => x.alias === null).map((x) => x.schema)
+		for (let schemaImport of schema.imports) {
+			if (schemaImport.alias === null || unaliasedSchemas.includes(schemaImport.schema)) { continue }
+			let definitions: SsDefinitions = schemaImport.schema.definitions
+			let defs: (SsValueTypeDef | SsStructDef | SsAttributeDef | SsElementDef)[] = [...definitions.valueTypeDefs.values, ...definitions.structDefs.values, ...definitions.attributeDefs.values, ...definitions.elementDefs.values]
+			for (let def of defs) {
+				this.referenceNames.set(def, schemaImport.alias + "." + def.name)
+			}
+		}
+	}
+
+	private getReferenceName(def: SsValueTypeDef | SsStructDef | SsAttributeDef | SsElementDef): string {
+		return this.referenceNames.has(def) ? this.referenceNames.get(def)! : def.name
+	}
+
+	private static serializeDescription(description: string | null, sElement: SmlElement) {
+		if (description !== null) { sElement.addAttribute("Description", [description]) }
+	}
+
+	private serializeValueTypeDef(valueTypeDef: SsValueTypeDef, sElement: SmlElement) {
 		if (valueTypeDef instanceof SsEnumTypeDef) {
 			let enumTypeDef: SsEnumTypeDef = valueTypeDef as SsEnumTypeDef
-			let sEnumTypeDef: SmlElement = sElement.addElement("EnumTypeDef")
+			let sEnumTypeDef: SmlElement = sElement.addElement("EnumType")
 			sEnumTypeDef.addAttribute("Name", [enumTypeDef.name])
 			sEnumTypeDef.addAttribute("Values", enumTypeDef.values)
+			SmlSchemaSerializer.serializeDescription(enumTypeDef.description, sEnumTypeDef)
+			for (let value of enumTypeDef.values) {
+				let valueDescription: string | null = enumTypeDef.getValueDescription(value)
+				if (valueDescription !== null) { sEnumTypeDef.addAttribute("ValueDescription", [value, valueDescription]) }
+			}
+		} else if (valueTypeDef instanceof SsStringTypeDef) {
+			let stringTypeDef: SsStringTypeDef = valueTypeDef as SsStringTypeDef
+			let sStringTypeDef: SmlElement = sElement.addElement("StringType")
+			sStringTypeDef.addAttribute("Name", [stringTypeDef.name])
+			if (stringTypeDef.minLength !== null) { sStringTypeDef.addAttribute("MinLength", [stringTypeDef.minLength.toString()]) }
+			if (stringTypeDef.maxLength !== null) { sStringTypeDef.addAttribute("MaxLength", [stringTypeDef.maxLength.toString()]) }
+			if (stringTypeDef.pattern !== null) { sStringTypeDef.addAttribute("Pattern", [stringTypeDef.pattern]) }
+			if (stringTypeDef.characterClasses !== null) { sStringTypeDef.addAttribute("Characters", stringTypeDef.characterClasses.map((x) => SsCharacterClass[x])) }
+			if (stringTypeDef.whitespace !== SsWhitespaceRule.Preserve) { sStringTypeDef.addAttribute("Whitespace", [SsWhitespaceRule[stringTypeDef.whitespace]]) }
+			SmlSchemaSerializer.serializeDescription(stringTypeDef.description, sStringTypeDef)
+		} else if (valueTypeDef instanceof SsNumberTypeDef) {
+			let numberTypeDef: SsNumberTypeDef = valueTypeDef as SsNumberTypeDef
+			let sNumberTypeDef: SmlElement = sElement.addElement("NumberType")
+			sNumberTypeDef.addAttribute("Name", [numberTypeDef.name])
+			sNumberTypeDef.addAttribute("BaseType", [SsPredefinedTypeUtil.getPredefinedTypeString(numberTypeDef.baseType)])
+			if (numberTypeDef.min !== null) { sNumberTypeDef.addAttribute("Min", numberTypeDef.minExclusive ? [numberTypeDef.min.toString(), "Exclusive"] : [numberTypeDef.min.toString()]) }
+			if (numberTypeDef.max !== null) { sNumberTypeDef.addAttribute("Max", numberTypeDef.maxExclusive ? [numberTypeDef.max.toString(), "Exclusive"] : [numberTypeDef.max.toString()]) }
+			if (numberTypeDef.step !== null) { sNumberTypeDef.addAttribute("Step", [numberTypeDef.step.toString()]) }
+			if (numberTypeDef.decimalPlaces !== null) { sNumberTypeDef.addAttribute("DecimalPlaces", [numberTypeDef.decimalPlaces.toString()]) }
+			if (numberTypeDef.unit !== null) { sNumberTypeDef.addAttribute("Unit", [numberTypeDef.unit]) }
+			SmlSchemaSerializer.serializeDescription(numberTypeDef.description, sNumberTypeDef)
 		} else {
 			throw new Error("Todo")
 		}
 	}
 
-	private static serializeStructDef(structDef: SsStructDef, sElement: SmlElement) {
-		let sStructDef: SmlElement = sElement.addElement("StructDef")
+	private serializeStructDef(structDef: SsStructDef, sElement: SmlElement) {
+		let sStructDef: SmlElement = sElement.addElement("Struct")
 		sStructDef.addAttribute("Name", [structDef.name])
+		SmlSchemaSerializer.serializeDescription(structDef.description, sStructDef)
 		for (let value of structDef.values) {
-			sStructDef.addAttribute("Value", [value.name, value.optional ? "Optional" : "Required", value.getTypeString()])
+			let values: string[] = [value.name, value.optional ? "Optional" : "Required", value.getTypeString((def) => this.getReferenceName(def))]
+			if (value.defaultValue !== null) { values.push(value.defaultValue) }
+			sStructDef.addAttribute("Value", values)
+		}
+		for (let value of structDef.values) {
+			if (value.description !== null) { sStructDef.addAttribute("ValueDescription", [value.name, value.description]) }
 		}
 	}
 
-	private static serializeOccurrence(occurrence: SsRange): string {
+	private serializeOccurrence(occurrence: SsRange): string {
 		if (occurrence.isRequired) { return "Required" }
 		else if (occurrence.isOptional) { return "Optional" }
 		else if (occurrence.isRepeatedPlus) { return "Repeated+" }
 		else if (occurrence.isRepeatedStar) { return "Repeated*" }
-		throw new Error("Invalid occurrence")
+		return occurrence.toString()
 	}
 
-	private static serializeAttributeDef(attributeDef: SsAttributeDef, sElement: SmlElement) {
-		let sAttributeDef: SmlElement = sElement.addElement("AttributeDef")
+	private serializeAttributeDef(attributeDef: SsAttributeDef, sElement: SmlElement) {
+		let sAttributeDef: SmlElement = sElement.addElement("Attribute")
 		sAttributeDef.addAttribute("Name", [attributeDef.name])
-		sAttributeDef.addAttribute("DataType", [attributeDef.dataType.toString()])
+		sAttributeDef.addAttribute("DataType", [attributeDef.dataType.toString((def) => this.getReferenceName(def))])
+		if (attributeDef.hasDefault) {
+			sAttributeDef.addAttribute("Default", attributeDef.defaultValues!)
+		}
+		SmlSchemaSerializer.serializeDescription(attributeDef.description, sAttributeDef)
+	}
+
+	private serializeContentElement(elementDef: SsElementDef, occurrence: SsRange, sContentElement: SmlElement) {
+		sContentElement.addAttribute("Element", [this.getReferenceName(elementDef), this.serializeOccurrence(occurrence)])
+	}
+
+	private serializeContentAttribute(attributeDef: SsAttributeDef, occurrence: SsRange, inline: boolean, sContentElement: SmlElement) {
+		let values: (string | null)[] = [this.getReferenceName(attributeDef), this.serializeOccurrence(occurrence)]
+		if (inline) {
+			values.push(attributeDef.dataType.toString((def) => this.getReferenceName(def)))
+			if (attributeDef.hasDefault) {
+				values.push(...attributeDef.defaultValues!)
+			}
+		}
+		sContentElement.addAttribute("Attribute", values)
+	}
+
+	private serializeContentChoice(choice: SsChoice, occurrence: SsRange, sContentElement: SmlElement) {
+		let sChoice: SmlElement = sContentElement.addElement("Choice")
+		if (!occurrence.isRequired) {
+			sChoice.addAttribute("Occurrence", [this.serializeOccurrence(occurrence)])
+		}
+		for (let alternative of choice.alternatives) {
+			if (alternative.isElement) {
+				sChoice.addAttribute("Element", [this.getReferenceName(alternative.elementDef!)])
+			} else if (alternative.inline) {
+				sChoice.addAttribute("Attribute", [alternative.attributeDef!.name, alternative.attributeDef!.dataType.toString((def) => this.getReferenceName(def))])
+			} else {
+				sChoice.addAttribute("Attribute", [this.getReferenceName(alternative.attributeDef!)])
+			}
+		}
 	}
 
-	private static serializeElementDef(elementDef: SsElementDef, sElement: SmlElement) {
-		let sElementDef: SmlElement = sElement.addElement("ElementDef")
+	private serializeElementDef(elementDef: SsElementDef, sElement: SmlElement) {
+		let sElementDef: SmlElement = sElement.addElement("Element")
 		sElementDef.addAttribute("Name", [elementDef.name])
-		this.serializeDefinitions(elementDef.definitions, sElementDef)
+		if (elementDef.baseElementDef !== null) {
+			sElementDef.addAttribute("Extends", [this.getReferenceName(elementDef.baseElementDef)])
+		}
+		SmlSchemaSerializer.serializeDescription(elementDef.description, sElementDef)
+		if (!elementDef.definitions.isEmpty) {
+			let sDefinitions: SmlElement = sElementDef.addElement("Definitions")
+			this.serializeDefinitions(elementDef.definitions, sDefinitions)
+		}
 		
 		if (elementDef.content !== null) {
 			if (elementDef.content instanceof SsUnorderedContent) {
 				let unorderedContent: SsUnorderedContent = elementDef.content as SsUnorderedContent
-				for (let unorderedAttribute of unorderedContent.unorderedAttributes) {
-					let occurrenceStr: string = SmlSchemaSerializer.serializeOccurrence(unorderedAttribute.occurrence)
-					let values: string[] = [unorderedAttribute.attributeDef.name, occurrenceStr]
-					if (unorderedAttribute.inline) {
-						values.push(unorderedAttribute.attributeDef.dataType.toString())
+				let sUnorderedContent: SmlElement = sElementDef.addElement("UnorderedContent")
+				for (let unorderedElement of unorderedContent.ownUnorderedElements) {
+					this.serializeContentElement(unorderedElement.elementDef, unorderedElement.occurrence, sUnorderedContent)
+				}
+				for (let unorderedAttribute of unorderedContent.ownUnorderedAttributes) {
+					this.serializeContentAttribute(unorderedAttribute.attributeDef, unorderedAttribute.occurrence, unorderedAttribute.inline, sUnorderedContent)
+				}
+				for (let unorderedChoice of unorderedContent.ownUnorderedChoices) {
+					this.serializeContentChoice(unorderedChoice.choice, unorderedChoice.occurrence, sUnorderedContent)
+				}
+			} else if (elementDef.content instanceof SsOrderedContent) {
+				let orderedContent: SsOrderedContent = elementDef.content as SsOrderedContent
+				let sOrderedContent: SmlElement = sElementDef.addElement("OrderedContent")
+				for (let item of orderedContent.items) {
+					if (item instanceof SsOrderedElement) {
+						let orderedElement: SsOrderedElement = item as SsOrderedElement
+						this.serializeContentElement(orderedElement.elementDef, orderedElement.occurrence, sOrderedContent)
+					} else if (item instanceof SsOrderedChoice) {
+						let orderedChoice: SsOrderedChoice = item as SsOrderedChoice
+						this.serializeContentChoice(orderedChoice.choice, orderedChoice.occurrence, sOrderedContent)
+					} else {
+						let orderedAttribute: SsOrderedAttribute = item as SsOrderedAttribute
+						this.serializeContentAttribute(orderedAttribute.attributeDef, orderedAttribute.occurrence, orderedAttribute.inline, sOrderedContent)
 					}
-					sElementDef.addAttribute("Attribute", values)
 				}
-				for (let unorderedElement of unorderedContent.unorderedElements) {
-					let occurrenceStr: string = SmlSchemaSerializer.serializeOccurrence(unorderedElement.occurrence)
-					sElementDef.addAttribute("Element", [unorderedElement.elementDef.name, occurrenceStr])
+			} else if (elementDef.content instanceof SsListContent) {
+				let listContent: SsListContent = elementDef.content as SsListContent
+				let sListContent: SmlElement = sElementDef.addElement("ListContent")
+				if (listContent.isElementList) {
+					this.serializeContentElement(listContent.listElementDef!, listContent.occurrence, sListContent)
+				} else {
+					this.serializeContentAttribute(listContent.listAttributeDef!, listContent.occurrence, listContent.inline, sListContent)
 				}
 			} else {
 				throw new Error("Todo")
@@ -763,26 +2014,30 @@ class SmlSchemaSerializer {
 		}
 	}
 
-	private static serializeDefinitions(definitions: SsDefinitions, sElement: SmlElement) {
+	private serializeDefinitions(definitions: SsDefinitions, sElement: SmlElement) {
 		for (let valueTypeDef of definitions.valueTypeDefs.values) {
-			SmlSchemaSerializer.serializeValueTypeDef(valueTypeDef, sElement)
+			this.serializeValueTypeDef(valueTypeDef, sElement)
 		}
 		for (let structDef of definitions.structDefs.values) {
-			SmlSchemaSerializer.serializeStructDef(structDef, sElement)
+			this.serializeStructDef(structDef, sElement)
 		}
 		for (let attributeDef of definitions.attributeDefs.values) {
-			SmlSchemaSerializer.serializeAttributeDef(attributeDef, sElement)
+			this.serializeAttributeDef(attributeDef, sElement)
 		}
 		for (let elementDef of definitions.elementDefs.values) {
-			SmlSchemaSerializer.serializeElementDef(elementDef, sElement)
+			this.serializeElementDef(elementDef, sElement)
 		}
 	}
 
-	static serialize(schema: SmlSchema): SmlDocument {
+	serialize(): SmlDocument {
 		let sRootElement: SmlElement = new SmlElement("Schema")
-		SmlSchemaSerializer.serializeDefinitions(schema.definitions, sRootElement)
-		if (schema.definitions.elementDefs.values.length > 1) {
-			sRootElement.addAttribute("RootElement", [schema.getRootElement().name])
+		for (let schemaImport of this.schema.imports) {
+			sRootElement.addAttribute("Import", schemaImport.alias === null ? [schemaImport.path] : [schemaImport.path, schemaImport.alias])
+		}
+		this.serializeDefinitions(this.schema.definitions, sRootElement)
+		let elementDefs: SsElementDef[] = this.schema.definitions.elementDefs.values
+		if (this.schema.hasRootElement && (elementDefs.length !== 1 || elementDefs[0] !== this.schema.getRootElement())) {
+			sRootElement.addAttribute("RootElement", [this.getReferenceName(this.schema.getRootElement())])
 		}
 		let document: SmlDocument = new SmlDocument(sRootElement)
 		return document
@@ -791,6 +2046,306 @@ class SmlSchemaSerializer {
 
 // ----------------------------------------------------------------------
 
-class SmlValidator {
+export class SmlValidator {
+	readonly schema: SmlSchema
+	private issues: SsValidationIssue[] = []
+	private lineNumbers: Map<SmlNode, number> = new Map<SmlNode, number>()
+
+	constructor(schema: SmlSchema) {
+		this.schema = schema
+	}
+
+	private addError(code: SsValidationCode, sNode: SmlNode, path: string, message: string) {
+		let lineNumber: number | null = this.lineNumbers.has(sNode) ? this.lineNumbers.get(sNode)! : null
+		this.issues.push(new SsValidationIssue(SsValidationSeverity.Error, code, message, path, lineNumber))
+	}
+
+	private validateElementalValue(value: string, predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null, sAttribute: SmlAttribute, path: string) {
+		if (predefinedType !== null) {
+			if (!SsPredefinedTypeUtil.isValidValue(predefinedType, value)) {
+				this.addError(SsValidationCode.InvalidValue, sAttribute, path, `Value "${value}" is not a valid ${SsPredefinedTypeUtil.getPredefinedTypeString(predefinedType)}`)
+			}
+		} else if (valueTypeDef instanceof SsEnumTypeDef) {
+			let enumTypeDef: SsEnumTypeDef = valueTypeDef as SsEnumTypeDef
+			if (enumTypeDef.values.find((x) => x.toLowerCase() === value.toLowerCase()) === undefined) {
+				this.addError(SsValidationCode.InvalidValue, sAttribute, path, `Value "${value}" is not a valid ${enumTypeDef.name} value`)
+			}
+		} else if (valueTypeDef instanceof SsStringTypeDef) {
+			let violation: string | null = (valueTypeDef as SsStringTypeDef).getViolationOrNull(value)
+			if (violation !== null) {
+				this.addError(SsValidationCode.InvalidValue, sAttribute, path, violation)
+			}
+		} else if (valueTypeDef instanceof SsNumberTypeDef) {
+			let violation: string | null = (valueTypeDef as SsNumberTypeDef).getViolationOrNull(value)
+			if (violation !== null) {
+				this.addError(SsValidationCode.InvalidValue, sAttribute, path, violation)
+			}
+		} else {
+			throw new Error("Todo")
+		}
+	}
+
+	private validateStructValues(values: (string | null)[], structDef: SsStructDef, sAttribute: SmlAttribute, path: string) {
+		let structValues: SsStructValue[] = structDef.values
+		let requiredCount: number = structValues.filter((x) => !x.optional).length
+		if (values.length < requiredCount || values.length > structValues.length) {
+			this.addError(SsValidationCode.InvalidValueCount, sAttribute, path, `Struct ${structDef.name} has ${values.length} values but expected ${new SsRange(requiredCount, structValues.length)}`)
+			return
+		}
+		for (let i=0; i<values.length; i++) {
+			let value: string | null = values[i]
+			let structValue: SsStructValue = structValues[i]
+			if (value === null) {
+				if (!structValue.nullable) { this.addError(SsValidationCode.NullNotAllowed, sAttribute, path, `Struct value "${structValue.name}" is not nullable`) }
+			} else {
+				this.validateElementalValue(value, structValue.predefinedType, structValue.valueTypeDef, sAttribute, path)
+			}
+		}
+	}
+
+	private validateItemValues(values: (string | null)[], dataType: SsAttributeDataType, sAttribute: SmlAttribute, path: string) {
+		if (values.length === 1 && values[0] === null) {
+			if (!dataType.nullable) { this.addError(SsValidationCode.NullNotAllowed, sAttribute, path, `Value is not nullable`) }
+		} else if (dataType.isStruct) {
+			this.validateStructValues(values, dataType.structDef!, sAttribute, path)
+		} else if (values.length !== 1) {
+			this.addError(SsValidationCode.InvalidValueCount, sAttribute, path, `Attribute has ${values.length} values but expected 1`)
+		} else {
+			this.validateElementalValue(values[0]!, dataType.predefinedType, dataType.valueTypeDef, sAttribute, path)
+		}
+	}
+
+	private validateAttribute(sAttribute: SmlAttribute, attributeDef: SsAttributeDef, path: string) {
+		this.validateAttributeValues(sAttribute, attributeDef.dataType, path)
+	}
+
+	private validateAttributeValues(sAttribute: SmlAttribute, dataType: SsAttributeDataType, path: string) {
+		let values: (string | null)[] = sAttribute.values
+		if (!dataType.isArray) {
+			this.validateItemValues(values, dataType, sAttribute, path)
+			return
+		}
+		if (values.length === 1 && values[0] === null && dataType.arrayNullable) { return }
+		let itemSize: number = dataType.isStruct ? dataType.structDef!.values.length : 1
+		if (values.length % itemSize !== 0) {
+			this.addError(SsValidationCode.InvalidValueCount, sAttribute, path, `Attribute has ${values.length} values which is not a multiple of struct ${dataType.structDef!.name}`)
+			return
+		}
+		let itemCount: number = values.length / itemSize
+		if (!dataType.arrayRange!.contains(itemCount)) {
+			this.addError(SsValidationCode.InvalidArraySize, sAttribute, path, `Attribute has ${itemCount} array items but expected ${dataType.arrayRange!}`)
+		}
+		for (let i=0; i<itemCount; i++) {
+			this.validateItemValues(values.slice(i*itemSize, (i+1)*itemSize), dataType, sAttribute, path)
+		}
+	}
+
+	private validateOccurrence(count: number, occurrence: SsRange, isElement: boolean, name: string, sElement: SmlElement, path: string) {
+		if (occurrence.contains(count)) { return }
+		let nodeType: string = isElement ? "element" : "attribute"
+		if (count === 0) {
+			let code: SsValidationCode = isElement ? SsValidationCode.MissingElement : SsValidationCode.MissingAttribute
+			this.addError(code, sElement, path, `Required ${nodeType} "${name}" is missing`)
+		} else {
+			this.addError(SsValidationCode.InvalidOccurrence, sElement, path, `The ${nodeType} "${name}" occurs ${count} times but expected ${occurrence}`)
+		}
+	}
+
+	private validateChoiceOccurrence(count: number, occurrence: SsRange, choice: SsChoice, sElement: SmlElement, path: string) {
+		if (occurrence.contains(count)) { return }
+		if (count === 0) {
+			this.addError(SsValidationCode.MissingChoice, sElement, path, `Required choice of ${choice} is missing`)
+		} else {
+			this.addError(SsValidationCode.InvalidOccurrence, sElement, path, `The choice of ${choice} occurs ${count} times but expected ${occurrence}`)
+		}
+	}
+
+	private validateChoiceAlternative(sNode: SmlNamedNode, alternative: SsChoiceAlternative, path: string) {
+		if (alternative.isElement) {
+			this.validateElement(sNode as SmlElement, alternative.elementDef!, path)
+		} else {
+			this.validateAttribute(sNode as SmlAttribute, alternative.attributeDef!, path)
+		}
+	}
+
+	private validateUnorderedChoiceAlternative(sNode: SmlNamedNode, unorderedChoices: SsUnorderedChoice[], choiceCounts: number[], path: string): boolean {
+		for (let i=0; i<unorderedChoices.length; i++) {
+			let alternative: SsChoiceAlternative | null = unorderedChoices[i].choice.getAlternativeOrNull(sNode)
+			if (alternative === null) { continue }
+			choiceCounts[i]++
+			this.validateChoiceAlternative(sNode, alternative, path)
+			return true
+		}
+		return false
+	}
+
+	private validateUnorderedContent(sElement: SmlElement, unorderedContent: SsUnorderedContent, path: string) {
+		let unorderedChoices: SsUnorderedChoice[] = unorderedContent.unorderedChoices
+		let choiceCounts: number[] = unorderedChoices.map(() => 0)
+
+		let sChildElements: SmlElement[] = sElement.elements()
+		let elementPaths: string[] = SsNodeUtil.getNodePaths(path, sChildElements)
+		let unorderedElements: SsUnorderedElement[] = unorderedContent.unorderedElements
+		let elementCounts: number[] = unorderedElements.map(() => 0)
+		for (let i=0; i<sChildElements.length; i++) {
+			let index: number = unorderedElements.findIndex((x) => sChildElements[i].hasName(x.elementDef.name))
+			if (index < 0 && this.validateUnorderedChoiceAlternative(sChildElements[i], unorderedChoices, choiceCounts, elementPaths[i])) { continue }
+			if (index < 0) {
+				this.addError(SsValidationCode.ElementNotAllowed, sChildElements[i], elementPaths[i], `Element "${sChildElements[i].name}" is not allowed in element "${sElement.name}"`)
+				continue
+			}
+			elementCounts[index]++
+			this.validateElement(sChildElements[i], unorderedElements[index].elementDef, elementPaths[i])
+		}
+		for (let i=0; i<unorderedElements.length; i++) {
+			this.validateOccurrence(elementCounts[i], unorderedElements[i].occurrence, true, unorderedElements[i].elementDef.name, sElement, path)
+		}
 
+		let sAttributes: SmlAttribute[] = sElement.attributes()
+		let attributePaths: string[] = SsNodeUtil.getNodePaths(path, sAttributes)
+		let unorderedAttributes: SsUnorderedAttribute[] = unorderedContent.unorderedAttributes
+		let attributeCounts: number[] = unorderedAttributes.map(() => 0)
+		for (let i=0; i<sAttributes.length; i++) {
+			let index: number = unorderedAttributes.findIndex((x) => sAttributes[i].hasName(x.attributeDef.name))
+			if (index < 0 && this.validateUnorderedChoiceAlternative(sAttributes[i], unorderedChoices, choiceCounts, attributePaths[i])) { continue }
+			if (index < 0) {
+				this.addError(SsValidationCode.AttributeNotAllowed, sAttributes[i], attributePaths[i], `Attribute "${sAttributes[i].name}" is not allowed in element "${sElement.name}"`)
+				continue
+			}
+			attributeCounts[index]++
+			this.validateAttribute(sAttributes[i], unorderedAttributes[index].attributeDef, attributePaths[i])
+		}
+		for (let i=0; i<unorderedAttributes.length; i++) {
+			this.validateOccurrence(attributeCounts[i], unorderedAttributes[i].occurrence, false, unorderedAttributes[i].attributeDef.name, sElement, path)
+		}
+		for (let i=0; i<unorderedChoices.length; i++) {
+			this.validateChoiceOccurrence(choiceCounts[i], unorderedChoices[i].occurrence, unorderedChoices[i].choice, sElement, path)
+		}
+	}
+
+	private validateOrderedContent(sElement: SmlElement, orderedContent: SsOrderedContent, path: string) {
+		let sChildElements: SmlElement[] = sElement.elements()
+		let sAttributes: SmlAttribute[] = sElement.attributes()
+		let sNodes: SmlNamedNode[] = sElement.nodes.filter((x) => x instanceof SmlNamedNode) as SmlNamedNode[]
+		let nodePaths: Map<SmlNamedNode, string> = new Map<SmlNamedNode, string>()
+		SsNodeUtil.getNodePaths(path, sChildElements).forEach((x, i) => nodePaths.set(sChildElements[i], x))
+		SsNodeUtil.getNodePaths(path, sAttributes).forEach((x, i) => nodePaths.set(sAttributes[i], x))
+
+		let index: number = 0
+		for (let item of orderedContent.items) {
+			if (item instanceof SsOrderedChoice) {
+				let orderedChoice: SsOrderedChoice = item as SsOrderedChoice
+				let count: number = 0
+				while (index < sNodes.length && (item.occurrence.max === null || count < item.occurrence.max)) {
+					let alternative: SsChoiceAlternative | null = orderedChoice.choice.getAlternativeOrNull(sNodes[index])
+					if (alternative === null) { break }
+					this.validateChoiceAlternative(sNodes[index], alternative, nodePaths.get(sNodes[index])!)
+					count++
+					index++
+				}
+				this.validateChoiceOccurrence(count, item.occurrence, orderedChoice.choice, sElement, path)
+				continue
+			}
+			let count: number = 0
+			let isElement: boolean = item instanceof SsOrderedElement
+			let name: string = isElement ? (item as SsOrderedElement).elementDef.name : (item as SsOrderedAttribute).attributeDef.name
+			while (index < sNodes.length && (item.occurrence.max === null || count < item.occurrence.max)) {
+				let sNode: SmlNamedNode = sNodes[index]
+				if ((sNode instanceof SmlElement) !== isElement || !sNode.hasName(name)) { break }
+				if (isElement) {
+					this.validateElement(sNode as SmlElement, (item as SsOrderedElement).elementDef, nodePaths.get(sNode)!)
+				} else {
+					this.validateAttribute(sNode as SmlAttribute, (item as SsOrderedAttribute).attributeDef, nodePaths.get(sNode)!)
+				}
+				count++
+				index++
+			}
+			this.validateOccurrence(count, item.occurrence, isElement, name, sElement, path)
+		}
+		for (; index < sNodes.length; index++) {
+			let sNode: SmlNamedNode = sNodes[index]
+			let isElement: boolean = sNode instanceof SmlElement
+			let code: SsValidationCode = isElement ? SsValidationCode.ElementNotAllowed : SsValidationCode.AttributeNotAllowed
+			this.addError(code, sNode, nodePaths.get(sNode)!, `${isElement ? "Element" : "Attribute"} "${sNode.name}" is not allowed at this position in element "${sElement.name}"`)
+		}
+	}
+
+	private validateListContent(sElement: SmlElement, listContent: SsListContent, path: string) {
+		let sChildElements: SmlElement[] = sElement.elements()
+		let sAttributes: SmlAttribute[] = sElement.attributes()
+		let elementPaths: string[] = SsNodeUtil.getNodePaths(path, sChildElements)
+		let attributePaths: string[] = SsNodeUtil.getNodePaths(path, sAttributes)
+		let count: number = 0
+		for (let i=0; i<sChildElements.length; i++) {
+			if (!listContent.isElementList || !sChildElements[i].hasName(listContent.listElementDef!.name)) {
+				this.addError(SsValidationCode.ElementNotAllowed, sChildElements[i], elementPaths[i], `Element "${sChildElements[i].name}" is not allowed in element "${sElement.name}"`)
+				continue
+			}
+			count++
+			this.validateElement(sChildElements[i], listContent.listElementDef!, elementPaths[i])
+		}
+		for (let i=0; i<sAttributes.length; i++) {
+			if (!listContent.isAttributeList || !sAttributes[i].hasName(listContent.listAttributeDef!.name)) {
+				this.addError(SsValidationCode.AttributeNotAllowed, sAttributes[i], attributePaths[i], `Attribute "${sAttributes[i].name}" is not allowed in element "${sElement.name}"`)
+				continue
+			}
+			count++
+			this.validateAttribute(sAttributes[i], listContent.listAttributeDef!, attributePaths[i])
+		}
+		let name: string = listContent.isElementList ? listContent.listElementDef!.name : listContent.listAttributeDef!.name
+		this.validateOccurrence(count, listContent.occurrence, listContent.isElementList, name, sElement, path)
+	}
+
+	private validateElement(sElement: SmlElement, elementDef: SsElementDef, path: string) {
+		let content: SsElementContent | null = elementDef.content
+		if (content === null) {
+			if (sElement.elements().length > 0 || sElement.attributes().length > 0) {
+				this.addError(SsValidationCode.ElementNotEmpty, sElement, path, `Element "${sElement.name}" must be empty`)
+			}
+		} else if (content instanceof SsUnorderedContent) {
+			this.validateUnorderedContent(sElement, content as SsUnorderedContent, path)
+		} else if (content instanceof SsOrderedContent) {
+			this.validateOrderedContent(sElement, content as SsOrderedContent, path)
+		} else if (content instanceof SsListContent) {
+			this.validateListContent(sElement, content as SsListContent, path)
+		} else {
+			throw new Error("Todo")
+		}
+	}
+
+	validate(document: SmlDocument): SsValidationIssue[] {
+		this.issues = []
+		this.lineNumbers = SsNodeUtil.getLineNumbers(document)
+		let sRootElement: SmlElement = document.root
+		if (!this.schema.hasRootElement) {
+			this.addError(SsValidationCode.InvalidSchema, sRootElement, sRootElement.name, `Schema has no root element`)
+			return this.issues
+		}
+		let rootElementDef: SsElementDef = this.schema.getRootElement()
+		if (!sRootElement.hasName(rootElementDef.name)) {
+			this.addError(SsValidationCode.InvalidRootElement, sRootElement, sRootElement.name, `Root element "${rootElementDef.name}" expected but has name "${sRootElement.name}"`)
+		} else {
+			this.validateElement(sRootElement, rootElementDef, sRootElement.name)
+		}
+		return this.issues
+	}
+
+	validateValues(values: (string | null)[], dataType: SsAttributeDataType): SsValidationIssue[] {
+		this.issues = []
+		this.lineNumbers = new Map<SmlNode, number>()
+		this.validateAttributeValues(new SmlAttribute("Value", values), dataType, "")
+		return this.issues
+	}
+
+	validateContent(content: string): SsValidationIssue[] {
+		let document: SmlDocument
+		try {
+			document = SmlDocument.parse(content)
+		} catch (e) {
+			let lineNumber: number | null = e instanceof SmlParserError ? (e as SmlParserError).lineIndex + 1 : null
+			let message: string = e instanceof Error ? e.message : ""+e
+			return [new SsValidationIssue(SsValidationSeverity.Error, SsValidationCode.InvalidSml, message, "", lineNumber)]
+		}
+		return this.validate(document)
+	}
 }
\ No newline at end of file
@@ -19,18 +19,62 @@ export class TsDocument {
 		this.imports.push(new TsImport(imports, from))
 	}
 	
-	addClass(header: string): TsClass {
-		let tsClass: TsClass = new TsClass(header)
+	addClass(name: string): TsClass {
+		let tsClass: TsClass = new TsClass(name)
 		this.types.push(tsClass)
 		return tsClass
 	}
 
-	addEnum(header: string): TsEnum {
-		let tsEnum: TsEnum = new TsEnum(header)
+	addEnum(name: string): TsEnum {
+		let tsEnum: TsEnum = new TsEnum(name)
 		this.types.push(tsEnum)
 		return tsEnum
 	}
 
+	addInterface(name: string): TsInterface {
+		let tsInterface: TsInterface = new TsInterface(name)
+		this.types.push(tsInterface)
+		return tsInterface
+	}
+
+	addTypeAlias(name: string, type: string): TsTypeAlias {
+		let tsTypeAlias: TsTypeAlias = new TsTypeAlias(name, type)
+		this.types.push(tsTypeAlias)
+		return tsTypeAlias
+	}
+
+	addFunction(name: string, parameters: TsParameter[], returnType: string | null): TsFunction {
+		let tsFunction: TsFunction = new TsFunction(name, parameters, returnType)
+		this.types.push(tsFunction)
+		return tsFunction
+	}
+
+	addConst(name: string, type: string | null, initializer: string): TsConst {
+		let tsConst: TsConst = new TsConst(name, type, initializer)
+		this.types.push(tsConst)
+		return tsConst
+	}
+
+	private static appendDocComment(sb: IndentedStringBuilder, node: TsNode, parameters: TsParameter[] = []) {
+		let lines: string[] = node.docComment === null ? [] : node.docComment.split("\n")
+		for (let parameter of parameters) {
+			if (parameter.docComment === null) { continue }
+			let parameterLines: string[] = parameter.docComment.split("\n")
+			lines.push(`@param ${parameter.name} ${parameterLines[0]}`, ...parameterLines.slice(1))
+		}
+		if (lines.length === 0) { return }
+		lines = lines.map((x) => x.replace(/\*\//g, "*\\/"))
+		if (lines.length === 1) {
+			sb.appendLine(`/** ${lines[0]} */`)
+			return
+		}
+		sb.appendLine("/**")
+		for (let line of lines) {
+			sb.appendLine(line.length === 0 ? " *" : ` * ${line}`)
+		}
+		sb.appendLine(" */")
+	}
+
 	toString(): string {
 		let sb: IndentedStringBuilder = new IndentedStringBuilder()
 
@@ -42,21 +86,25 @@ export class TsDocument {
 		}
 		
 		for (let tsType of this.types) {
+			sb.appendLine()
+			TsDocument.appendDocComment(sb, tsType, tsType instanceof TsFunction ? (tsType as TsFunction).parameters : [])
 			if (tsType instanceof TsClass) {
 				let tsClass: TsClass = tsType as TsClass
-				sb.appendLine()
 				sb.open(tsClass.header)
 				for (let property of tsClass.properties) {
-					sb.appendLine(property.line)
+					TsDocument.appendDocComment(sb, property)
+					sb.appendLine(property.toString())
 				}
 				if (tsClass.constructorImpl !== null) {
 					sb.appendLine()
+					TsDocument.appendDocComment(sb, tsClass.constructorImpl, tsClass.constructorImpl.parameters)
 					sb.open(tsClass.constructorImpl.header)
 					sb.appendLines(tsClass.constructorImpl.code.toString())
 					sb.close()
 				}
 				for (let method of tsClass.methods) {
 					sb.appendLine()
+					TsDocument.appendDocComment(sb, method, method.parameters)
 					sb.open(method.header)
 					sb.appendLines(method.code.toString())
 					sb.close()
@@ -64,13 +112,32 @@ export class TsDocument {
 				sb.close()
 			} else if (tsType instanceof TsEnum) {
 				let tsEnum: TsEnum = tsType as TsEnum
-				sb.appendLine()
 				sb.open(tsEnum.header)
 				for (let i=0; i<tsEnum.values.length; i++) {
 					let commaStr: string = i === tsEnum.values.length - 1 ? "" : ","
-					sb.appendLine(tsEnum.values[i]+commaStr)
+					TsDocument.appendDocComment(sb, tsEnum.values[i])
+					sb.appendLine(tsEnum.values[i].toString()+commaStr)
+				}
+				sb.close()
+			} else if (tsType instanceof TsInterface) {
+				let tsInterface: TsInterface = tsType as TsInterface
+				sb.open(tsInterface.header)
+				for (let property of tsInterface.properties) {
+					TsDocument.appendDocComment(sb, property)
+					sb.appendLine(property.toString())
 				}
 				sb.close()
+			} else if (tsType instanceof TsTypeAlias) {
+				let tsTypeAlias: TsTypeAlias = tsType as TsTypeAlias
+				sb.appendLine(`${tsTypeAlias.header} = ${tsTypeAlias.type}`)
+			} else if (tsType instanceof TsConst) {
+				let tsConst: TsConst = tsType as TsConst
+				sb.appendLine(`${tsConst.header} = ${tsConst.initializer}`)
+			} else if (tsType instanceof TsFunction) {
+				let tsFunction: TsFunction = tsType as TsFunction
+				sb.open(tsFunction.header)
+				sb.appendLines(tsFunction.code.toString())
+				sb.close()
 			}
 		}
 		return sb.toString()
@@ -79,55 +146,103 @@ export class TsDocument {
 
 // ----------------------------------------------------------------------
 
-export class TsType {
-	
+export abstract class TsNode {
+	docComment: string | null = null
+}
+
+// ----------------------------------------------------------------------
+
+export abstract class TsType extends TsNode {
+	readonly name: string
+	isExported: boolean = true
+
+	constructor(name: string) {
+		super()
+		this.name = name
+	}
+
+	protected get exportStr(): string {
+		return this.isExported ? "export " : ""
+	}
 }
 
 // ----------------------------------------------------------------------
 
 export class TsEnum extends TsType {
-	readonly header: string
+	readonly values: TsEnumValue[] = []
 
-	readonly values: string[] = []
+	constructor(name: string) {
+		super(name)
+	}
 
-	constructor(header: string) {
-		super()
-		this.header = header
+	get header(): string {
+		return `${this.exportStr}enum ${this.name}`
 	}
 
-	addValue(value: string) {
+	addValue(name: string, initializer: string | null = null): TsEnumValue {
+		let value: TsEnumValue = new TsEnumValue(name, initializer)
 		this.values.push(value)
+		return value
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class TsEnumValue extends TsNode {
+	readonly name: string
+	readonly initializer: string | null
+
+	constructor(name: string, initializer: string | null) {
+		super()
+		this.name = name
+		this.initializer = initializer
+	}
+
+	toString(): string {
+		return this.initializer === null ? this.name : `${this.name} = ${this.initializer}`
 	}
 }
 
 // ----------------------------------------------------------------------
 
 export class TsClass extends TsType {
-	readonly header: string
+	isAbstract: boolean = false
+	extendsType: string | null = null
 
-	properties: TsClassProperty[] = []
+	properties: TsProperty[] = []
 	methods: TsClassMethod[] = []
 	constructorImpl: TsClassConstructor | null = null
 
-	constructor(header: string) {
-		super()
-		this.header = header
+	constructor(name: string) {
+		super(name)
+	}
+
+	get header(): string {
+		let abstractStr: string = this.isAbstract ? "abstract " : ""
+		let extendsStr: string = this.extendsType === null ? "" : ` extends ${this.extendsType}`
+		return `${this.exportStr}${abstractStr}class ${this.name}${extendsStr}`
 	}
 
-	addMethod(header: string): TsClassMethod {
-		let method: TsClassMethod = new TsClassMethod(header)
+	addMethod(name: string, parameters: TsParameter[], returnType: string | null): TsClassMethod {
+		let method: TsClassMethod = new TsClassMethod(name, parameters, returnType)
 		this.methods.push(method)
 		return method
 	}
 
-	addProperty(line: string): TsClassProperty {
-		let property: TsClassProperty = new TsClassProperty(line)
+	addStaticMethod(name: string, parameters: TsParameter[], returnType: string | null): TsClassMethod {
+		let method: TsClassMethod = this.addMethod(name, parameters, returnType)
+		method.isStatic = true
+		return method
+	}
+
+	addProperty(name: string, type: string, initializer: string | null = null): TsProperty {
+		let property: TsProperty = new TsProperty(name, type, initializer)
 		this.properties.push(property)
 		return property
 	}
 
-	setConstructor(header: string): TsClassConstructor {
-		let constructor: TsClassConstructor = new TsClassConstructor(header)
+	setConstructor(parameters: TsParameter[]): TsClassConstructor {
+		let constructor: TsClassConstructor = new TsClassConstructor(parameters)
 		this.constructorImpl = constructor
 		return constructor
 	}
@@ -135,32 +250,165 @@ export class TsClass extends TsType {
 
 // ----------------------------------------------------------------------
 
-export class TsClassMethod {
-	readonly header: string
+export class TsInterface extends TsType {
+	readonly extendsTypes: string[] = []
+
+	properties: TsProperty[] = []
+
+	constructor(name: string) {
+		super(name)
+	}
+
+	get header(): string {
+		let extendsStr: string = this.extendsTypes.length === 0 ? "" : ` extends ${this.extendsTypes.join(", ")}`
+		return `${this.exportStr}interface ${this.name}${extendsStr}`
+	}
+
+	addProperty(name: string, type: string): TsProperty {
+		let property: TsProperty = new TsProperty(name, type)
+		this.properties.push(property)
+		return property
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class TsTypeAlias extends TsType {
+	readonly type: string
+
+	constructor(name: string, type: string) {
+		super(name)
+		this.type = type
+	}
+
+	get header(): string {
+		return `${this.exportStr}type ${this.name}`
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class TsConst extends TsType {
+	readonly type: string | null
+	readonly initializer: string
+
+	constructor(name: string, type: string | null, initializer: string) {
+		super(name)
+		this.type = type
+		this.initializer = initializer
+	}
+
+	get header(): string {
+		let typeStr: string = this.type === null ? "" : `: ${this.type}`
+		return `${this.exportStr}const ${this.name}${typeStr}`
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class TsFunction extends TsType {
+	readonly parameters: TsParameter[]
+	readonly returnType: string | null
 	readonly code: IndentedStringBuilder = new IndentedStringBuilder()
 
-	constructor(header: string) {
-		this.header = header
+	constructor(name: string, parameters: TsParameter[], returnType: string | null) {
+		super(name)
+		this.parameters = parameters
+		this.returnType = returnType
+	}
+
+	get header(): string {
+		return `${this.exportStr}function ${this.name}(${TsParameter.join(this.parameters)})${TsUtil.getReturnTypeStr(this.returnType)}`
 	}
 }
 
 // ----------------------------------------------------------------------
 
-export class TsClassProperty {
-	readonly line: string
+export class TsClassMethod extends TsNode {
+	readonly name: string
+	readonly parameters: TsParameter[]
+	readonly returnType: string | null
+	isStatic: boolean = false
+	isPrivate: boolean = false
+	readonly code: IndentedStringBuilder = new IndentedStringBuilder()
+
+	constructor(name: string, parameters: TsParameter[], returnType: string | null) {
+		super()
+		this.name = name
+		this.parameters = parameters
+		this.returnType = returnType
+	}
 
-	constructor(line: string) {
-		this.line = line
+	get header(): string {
+		let modifiersStr: string = (this.isPrivate ? "private " : "") + (this.isStatic ? "static " : "")
+		return `${modifiersStr}${this.name}(${TsParameter.join(this.parameters)})${TsUtil.getReturnTypeStr(this.returnType)}`
 	}
 }
 
 // ----------------------------------------------------------------------
 
-export class TsClassConstructor {
-	readonly header: string
+export class TsProperty extends TsNode {
+	readonly name: string
+	readonly type: string
+	initializer: string | null
+	isOptional: boolean = false
+	isReadonly: boolean = false
+	isStatic: boolean = false
+	isPrivate: boolean = false
 
-	constructor(header: string) {
-		this.header = header
+	constructor(name: string, type: string, initializer: string | null = null) {
+		super()
+		this.name = name
+		this.type = type
+		this.initializer = initializer
+	}
+
+	toString(): string {
+		let modifiersStr: string = (this.isPrivate ? "private " : "") + (this.isStatic ? "static " : "") + (this.isReadonly ? "readonly " : "")
+		let optionalStr: string = this.isOptional ? "?" : ""
+		let initializerStr: string = this.initializer === null ? "" : ` = ${this.initializer}`
+		return `${modifiersStr}${this.name}${optionalStr}: ${this.type}${initializerStr}`
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class TsParameter extends TsNode {
+	readonly name: string
+	readonly type: string
+	readonly initializer: string | null
+	isOptional: boolean = false
+
+	constructor(name: string, type: string, initializer: string | null = null) {
+		super()
+		this.name = name
+		this.type = type
+		this.initializer = initializer
+	}
+
+	toString(): string {
+		let optionalStr: string = this.isOptional ? "?" : ""
+		let initializerStr: string = this.initializer === null ? "" : ` = ${this.initializer}`
+		return `${this.name}${optionalStr}: ${this.type}${initializerStr}`
+	}
+
+	static join(parameters: TsParameter[]): string {
+		return parameters.map((x) => x.toString()).join(", ")
+	}
+}
+
+// ----------------------------------------------------------------------
+
+export class TsClassConstructor extends TsNode {
+	readonly parameters: TsParameter[]
+
+	constructor(parameters: TsParameter[]) {
+		super()
+		this.parameters = parameters
+	}
+
+	get header(): string {
+		return `constructor(${TsParameter.join(this.parameters)})`
 	}
 
 	readonly code: IndentedStringBuilder = new IndentedStringBuilder()
@@ -202,6 +450,10 @@ export class TsLookup {
 		this.names.push(name)
 	}
 
+	has(source: Object): boolean {
+		return this.lookup.has(source)
+	}
+
 	get(source: Object): Object {
 		if (!this.lookup.has(source)) { throw new Error("Does not contain source") }
 		return this.lookup.get(source)!
@@ -218,7 +470,16 @@ export class TsLookup {
 export abstract class TsUtil {
 	static escapeString(str: string): string {
 		let result: string = "\""
-		result += str // TODO iterate chars
+		for (let char of str) {
+			switch (char) {
+				case "\\": result += "\\\\"; break
+				case "\"": result += "\\\""; break
+				case "\n": result += "\\n"; break
+				case "\r": result += "\\r"; break
+				case "\t": result += "\\t"; break
+				default: result += char
+			}
+		}
 		result += "\""
 		return result
 	}
@@ -228,15 +489,26 @@ export abstract class TsUtil {
 		return escaped.join(", ")
 	}
 
-	static keywords: string[] = ["public", "internal"] // TODO
+	static getReturnTypeStr(returnType: string | null): string {
+		return returnType === null ? "" : `: ${returnType}`
+	}
+
+	static keywords: string[] = ["break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else", "enum",
+		"export", "extends", "false", "finally", "for", "function", "if", "implements", "import", "in", "instanceof", "interface", "internal", "let",
+		"new", "null", "package", "private", "protected", "public", "return", "static", "super", "switch", "this", "throw", "true", "try", "typeof",
+		"var", "void", "while", "with", "yield"]
 
 	static getIdentifier(str: string, startUpperCase: boolean): string {
+		let words: string[] = str.split(/[^\p{L}\p{Mn}\p{Mc}\p{Nd}\p{Nl}\p{Pc}$]+/u).filter((x) => x.length > 0)
+		str = words.map((x, i) => i === 0 ? x : x.substring(0, 1).toUpperCase() + x.substring(1)).join("")
+		if (str.length === 0 || /^[\p{Nd}\p{Mn}\p{Mc}]/u.test(str)) {
+			str = "_" + str
+		}
 		let firstChar: string = str.substring(0, 1)
 		str = (startUpperCase ? firstChar.toUpperCase() : firstChar.toLowerCase()) + str.substring(1)
 		if (TsUtil.keywords.indexOf(str) >= 0) {
 			str = "_" + str
 		}
-		// TODO iterate chars
 		return str
 	}
 }
@@ -250,6 +522,11 @@ export class IndentedStringBuilder {
 	private closingString: string = "}"
 	private firstLineStack: boolean[] = [true]
 	private lastWasEmpty: boolean = false
+	private readonly bracesOnNewLine: boolean
+
+	constructor(bracesOnNewLine: boolean = false) {
+		this.bracesOnNewLine = bracesOnNewLine
+	}
 
 	appendLine(line: string = ""): IndentedStringBuilder {
 		if (line.length === 0) {
@@ -275,7 +552,12 @@ export class IndentedStringBuilder {
 	}
 
 	open(openingLine: string): IndentedStringBuilder {
-		this.appendLine(openingLine + (openingLine === "" ? "" : " ") + this.openingString)
+		if (this.bracesOnNewLine) {
+			if (openingLine !== "") { this.appendLine(openingLine) }
+			this.appendLine(this.openingString)
+		} else {
+			this.appendLine(openingLine + (openingLine === "" ? "" : " ") + this.openingString)
+		}
 		this.indentationLevel++
 		this.firstLineStack.push(true)
 		return this
@@ -295,7 +577,13 @@ export class IndentedStringBuilder {
 
 		this.lastWasEmpty = false
 		this.indentationLevel--
-		this.appendLine(this.closingString + " " + line + " " + this.openingString)
+		if (this.bracesOnNewLine) {
+			this.appendLine(this.closingString)
+			this.appendLine(line)
+			this.appendLine(this.openingString)
+		} else {
+			this.appendLine(this.closingString + " " + line + " " + this.openingString)
+		}
 		this.indentationLevel++
 		this.firstLineStack[this.firstLineStack.length-1] = true
 		return this
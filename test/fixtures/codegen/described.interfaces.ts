@@ -0,0 +1,219 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode } from "./sml.js"
+
+abstract class ValueTypeUtils {
+	static asColorEnum(sAttribute: SmlAttribute): ColorEnum {
+		return sAttribute.assureValueCount(1).getEnum(["Red", "Green"])
+	}
+	
+	static getColorEnum(sAttribute: SmlAttribute, index: number): ColorEnum {
+		return sAttribute.getEnum(["Red", "Green"], index)
+	}
+	
+	static asColorEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): ColorEnum[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getColorEnum(sAttribute, i))
+	}
+	
+	static asNullableColorEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (ColorEnum | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getColorEnum(sAttribute, i))
+	}
+	
+	static getColorEnumString(value: ColorEnum): string {
+		return ["Red", "Green"][value]
+	}
+	
+	static checkPercentType(value: number): number {
+		if (value < 0 || value > 100) {
+			throw new Error("Value " + value + " is out of range of Percent which expects >= 0 and <= 100")
+		}
+		return value
+	}
+	
+	static asPercentType(sAttribute: SmlAttribute): number {
+		return ValueTypeUtils.checkPercentType(sAttribute.asInt())
+	}
+	
+	static getPercentType(sAttribute: SmlAttribute, index: number): number {
+		return ValueTypeUtils.checkPercentType(sAttribute.getInt(index))
+	}
+	
+	static asPercentTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): number[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getPercentType(sAttribute, i))
+	}
+	
+	static asNullablePercentTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (number | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getPercentType(sAttribute, i))
+	}
+	
+	static getPercentTypeString(value: number): string {
+		return ValueTypeUtils.checkPercentType(value).toString()
+	}
+}
+
+/** A paint color */
+export enum ColorEnum {
+	/** Warm red */
+	Red,
+	Green
+}
+
+/** A 2D point */
+export interface PointStruct {
+	x: number
+	/**
+	 * Vertical
+	 * position
+	 */
+	y: number
+}
+
+export function createPointStruct(): PointStruct {
+	return {
+		x: 0,
+		y: 0
+	}
+}
+
+export function loadPointStruct(sAttribute: SmlAttribute): PointStruct {
+	sAttribute.assureValueCountMinMax(2, 2)
+	return loadPointStructValues(sAttribute, 0, sAttribute.valueCount)
+}
+
+export function loadPointStructArray(sAttribute: SmlAttribute, min: number, max: number | null): PointStruct[] {
+	if (sAttribute.valueCount % 2 !== 0) {
+		throw new Error(`Value count of attribute "${sAttribute.name}" is not a multiple of 2`)
+	}
+	let count: number = sAttribute.valueCount / 2
+	if (count < min || (max !== null && count > max)) {
+		throw new Error(`Attribute "${sAttribute.name}" has ${count} array items but expected ${min}..${max === null ? "N" : max}`)
+	}
+	let structs: PointStruct[] = []
+	for (let i=0; i<count; i++) {
+		structs.push(loadPointStructValues(sAttribute, i*2, 2))
+	}
+	return structs
+}
+
+export function loadPointStructValues(sAttribute: SmlAttribute, index: number, count: number): PointStruct {
+	let struct: PointStruct = createPointStruct()
+	struct.x = sAttribute.getInt(index+0)
+	struct.y = sAttribute.getInt(index+1)
+	return struct
+}
+
+export function getPointStructValues(struct: PointStruct): (string | null)[] {
+	let values: (string | null)[] = []
+	values.push(struct.x.toString())
+	values.push(struct.y.toString())
+	return values
+}
+
+export function getPointStructArrayValues(structs: PointStruct[]): (string | null)[] {
+	let values: (string | null)[] = []
+	for (let struct of structs) {
+		values.push(...getPointStructValues(struct))
+	}
+	return values
+}
+
+/** The root element */
+export interface RootDocument {
+	/** A child *\/ with comment end */
+	childList: (ChildElement)[]
+	/** Relative size */
+	size: number | null
+	pos: PointStruct | null
+	col: ColorEnum | null
+}
+
+export function createRootDocument(): RootDocument {
+	return {
+		childList: [],
+		size: null,
+		pos: null,
+		col: null
+	}
+}
+
+export function loadRootDocument(sElement: SmlElement): RootDocument {
+	sElement.assureName("Root")
+	let element: RootDocument = createRootDocument()
+	sElement.assureElementNames(["Child"])
+	sElement.assureAttributeNames(["Size", "Pos", "Col"])
+	{
+		for (let sCurElement of sElement.elements("Child")) {
+			element.childList.push(loadChildElement(sCurElement))
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Size")
+		if (sCurAttribute !== null) {
+			element.size = ValueTypeUtils.asPercentType(sCurAttribute)
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Pos")
+		if (sCurAttribute !== null) {
+			element.pos = loadPointStruct(sCurAttribute)
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Col")
+		if (sCurAttribute !== null) {
+			element.col = ValueTypeUtils.asColorEnum(sCurAttribute)
+		}
+	}
+	return element
+}
+
+export function serializeRootDocument(element: RootDocument): SmlElement {
+	let sElement: SmlElement = new SmlElement("Root")
+	for (let item of element.childList) {
+		sElement.nodes.push(serializeChildElement(item))
+	}
+	if (element.size !== null) {
+		sElement.addAttribute("Size", [ValueTypeUtils.getPercentTypeString(element.size)])
+	}
+	if (element.pos !== null) {
+		sElement.addAttribute("Pos", getPointStructValues(element.pos))
+	}
+	if (element.col !== null) {
+		sElement.addAttribute("Col", [ValueTypeUtils.getColorEnumString(element.col)])
+	}
+	return sElement
+}
+
+export function parseRootDocument(content: string): RootDocument {
+	let sDocument: SmlDocument = SmlDocument.parse(content)
+	return loadRootDocument(sDocument.root)
+}
+
+export function toRootDocumentSmlDocument(element: RootDocument): SmlDocument {
+	return new SmlDocument(serializeRootDocument(element))
+}
+
+export function stringifyRootDocument(element: RootDocument): string {
+	return toRootDocumentSmlDocument(element).toString()
+}
+
+/** A child *\/ with comment end */
+export interface ChildElement {
+}
+
+export function createChildElement(): ChildElement {
+	return {}
+}
+
+export function loadChildElement(sElement: SmlElement): ChildElement {
+	sElement.assureName("Child")
+	let element: ChildElement = createChildElement()
+	
+	return element
+}
+
+export function serializeChildElement(element: ChildElement): SmlElement {
+	let sElement: SmlElement = new SmlElement("Child")
+	
+	return sElement
+}
\ No newline at end of file
@@ -0,0 +1,196 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode } from "./sml.js"
+
+abstract class ValueTypeUtils {
+	static asColorEnum(sAttribute: SmlAttribute): ColorEnum {
+		let values: ColorEnum[] = ["Red", "Green"]
+		return values[sAttribute.assureValueCount(1).getEnum(values)]
+	}
+	
+	static getColorEnum(sAttribute: SmlAttribute, index: number): ColorEnum {
+		let values: ColorEnum[] = ["Red", "Green"]
+		return values[sAttribute.getEnum(values, index)]
+	}
+	
+	static asColorEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): ColorEnum[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getColorEnum(sAttribute, i))
+	}
+	
+	static asNullableColorEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (ColorEnum | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getColorEnum(sAttribute, i))
+	}
+	
+	static getColorEnumString(value: ColorEnum): string {
+		return value
+	}
+	
+	static checkPercentType(value: number): number {
+		if (value < 0 || value > 100) {
+			throw new Error("Value " + value + " is out of range of Percent which expects >= 0 and <= 100")
+		}
+		return value
+	}
+	
+	static asPercentType(sAttribute: SmlAttribute): number {
+		return ValueTypeUtils.checkPercentType(sAttribute.asInt())
+	}
+	
+	static getPercentType(sAttribute: SmlAttribute, index: number): number {
+		return ValueTypeUtils.checkPercentType(sAttribute.getInt(index))
+	}
+	
+	static asPercentTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): number[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getPercentType(sAttribute, i))
+	}
+	
+	static asNullablePercentTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (number | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getPercentType(sAttribute, i))
+	}
+	
+	static getPercentTypeString(value: number): string {
+		return ValueTypeUtils.checkPercentType(value).toString()
+	}
+}
+
+/** A paint color */
+export type ColorEnum = "Red" | "Green"
+
+/** A 2D point */
+export class PointStruct {
+	x: number = 0
+	/**
+	 * Vertical
+	 * position
+	 */
+	y: number = 0
+	
+	static load(sAttribute: SmlAttribute): PointStruct {
+		sAttribute.assureValueCountMinMax(2, 2)
+		return PointStruct.loadValues(sAttribute, 0, sAttribute.valueCount)
+	}
+	
+	static loadArray(sAttribute: SmlAttribute, min: number, max: number | null): PointStruct[] {
+		if (sAttribute.valueCount % 2 !== 0) {
+			throw new Error(`Value count of attribute "${sAttribute.name}" is not a multiple of 2`)
+		}
+		let count: number = sAttribute.valueCount / 2
+		if (count < min || (max !== null && count > max)) {
+			throw new Error(`Attribute "${sAttribute.name}" has ${count} array items but expected ${min}..${max === null ? "N" : max}`)
+		}
+		let structs: PointStruct[] = []
+		for (let i=0; i<count; i++) {
+			structs.push(PointStruct.loadValues(sAttribute, i*2, 2))
+		}
+		return structs
+	}
+	
+	static loadValues(sAttribute: SmlAttribute, index: number, count: number): PointStruct {
+		let struct: PointStruct = new PointStruct()
+		struct.x = sAttribute.getInt(index+0)
+		struct.y = sAttribute.getInt(index+1)
+		return struct
+	}
+	
+	toValues(): (string | null)[] {
+		let values: (string | null)[] = []
+		values.push(this.x.toString())
+		values.push(this.y.toString())
+		return values
+	}
+	
+	static arrayToValues(structs: PointStruct[]): (string | null)[] {
+		let values: (string | null)[] = []
+		for (let struct of structs) {
+			values.push(...struct.toValues())
+		}
+		return values
+	}
+}
+
+/** The root element */
+export class RootDocument {
+	/** A child *\/ with comment end */
+	childList: (ChildElement)[] = []
+	/** Relative size */
+	size: number | null = null
+	pos: PointStruct | null = null
+	col: ColorEnum | null = null
+	
+	static load(sElement: SmlElement): RootDocument {
+		sElement.assureName("Root")
+		let element: RootDocument = new RootDocument()
+		sElement.assureElementNames(["Child"])
+		sElement.assureAttributeNames(["Size", "Pos", "Col"])
+		{
+			for (let sCurElement of sElement.elements("Child")) {
+				element.childList.push(ChildElement.load(sCurElement))
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Size")
+			if (sCurAttribute !== null) {
+				element.size = ValueTypeUtils.asPercentType(sCurAttribute)
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Pos")
+			if (sCurAttribute !== null) {
+				element.pos = PointStruct.load(sCurAttribute)
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Col")
+			if (sCurAttribute !== null) {
+				element.col = ValueTypeUtils.asColorEnum(sCurAttribute)
+			}
+		}
+		return element
+	}
+	
+	serialize(): SmlElement {
+		let sElement: SmlElement = new SmlElement("Root")
+		for (let item of this.childList) {
+			sElement.nodes.push(item.serialize())
+		}
+		if (this.size !== null) {
+			sElement.addAttribute("Size", [ValueTypeUtils.getPercentTypeString(this.size)])
+		}
+		if (this.pos !== null) {
+			sElement.addAttribute("Pos", this.pos.toValues())
+		}
+		if (this.col !== null) {
+			sElement.addAttribute("Col", [ValueTypeUtils.getColorEnumString(this.col)])
+		}
+		return sElement
+	}
+	
+	static parse(content: string): RootDocument {
+		let sDocument: SmlDocument = SmlDocument.parse(content)
+		return RootDocument.load(sDocument.root)
+	}
+	
+	toDocument(): SmlDocument {
+		return new SmlDocument(this.serialize())
+	}
+	
+	toString(): string {
+		return this.toDocument().toString()
+	}
+}
+
+/** A child *\/ with comment end */
+export class ChildElement {
+	static load(sElement: SmlElement): ChildElement {
+		sElement.assureName("Child")
+		let element: ChildElement = new ChildElement()
+		
+		return element
+	}
+	
+	serialize(): SmlElement {
+		let sElement: SmlElement = new SmlElement("Child")
+		
+		return sElement
+	}
+}
\ No newline at end of file
@@ -0,0 +1,515 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Globalization;
+using System.Linq;
+using System.Text.RegularExpressions;
+using Stenway.Sml;
+
+namespace Generated
+{
+	public class SmlLoadException : Exception
+	{
+		public SmlLoadException(string message) : base(message)
+		{
+		}
+	}
+	
+	internal static class SmlLoadUtils
+	{
+		public static bool HasName(string name, string expectedName)
+		{
+			return string.Equals(name, expectedName, StringComparison.OrdinalIgnoreCase);
+		}
+		
+		public static bool IsElement(SmlNode node, string name)
+		{
+			return node is SmlElement && HasName(((SmlElement)node).Name, name);
+		}
+		
+		public static bool IsAttribute(SmlNode node, string name)
+		{
+			return node is SmlAttribute && HasName(((SmlAttribute)node).Name, name);
+		}
+		
+		public static bool IsChoiceNode(SmlNode node, string[] elementNames, string[] attributeNames)
+		{
+			return elementNames.Any((x) => IsElement(node, x)) || attributeNames.Any((x) => IsAttribute(node, x));
+		}
+		
+		public static void AssureName(SmlElement sElement, string name)
+		{
+			if (!HasName(sElement.Name, name))
+			{
+				throw new SmlLoadException("Element with name \"" + name + "\" expected but found \"" + sElement.Name + "\"");
+			}
+		}
+		
+		public static void AssureNames(SmlElement sElement, string[] elementNames, string[] attributeNames)
+		{
+			foreach (SmlNode node in sElement.Nodes)
+			{
+				if (node is SmlElement && !elementNames.Any((x) => IsElement(node, x)))
+				{
+					throw new SmlLoadException("Element \"" + sElement.Name + "\" contains the unexpected element \"" + ((SmlElement)node).Name + "\"");
+				}
+				else if (node is SmlAttribute && !attributeNames.Any((x) => IsAttribute(node, x)))
+				{
+					throw new SmlLoadException("Element \"" + sElement.Name + "\" contains the unexpected attribute \"" + ((SmlAttribute)node).Name + "\"");
+				}
+			}
+		}
+		
+		public static void AssureCount(SmlElement sElement, int count, int min, int? max, string description)
+		{
+			if (count < min || (max != null && count > max))
+			{
+				throw new SmlLoadException("Element \"" + sElement.Name + "\" must contain " + min + ".." + (max == null ? "N" : max.ToString()) + " " + description + " but has " + count);
+			}
+		}
+		
+		public static List<SmlElement> Elements(SmlElement sElement, string name, int min, int? max)
+		{
+			List<SmlElement> result = sElement.Nodes.Where((x) => IsElement(x, name)).Cast<SmlElement>().ToList();
+			AssureCount(sElement, result.Count, min, max, "elements \"" + name + "\"");
+			return result;
+		}
+		
+		public static List<SmlAttribute> Attributes(SmlElement sElement, string name, int min, int? max)
+		{
+			List<SmlAttribute> result = sElement.Nodes.Where((x) => IsAttribute(x, name)).Cast<SmlAttribute>().ToList();
+			AssureCount(sElement, result.Count, min, max, "attributes \"" + name + "\"");
+			return result;
+		}
+		
+		public static List<SmlNode> ChoiceNodes(SmlElement sElement, string[] elementNames, string[] attributeNames, int min, int? max)
+		{
+			List<SmlNode> result = sElement.Nodes.Where((x) => IsChoiceNode(x, elementNames, attributeNames)).ToList();
+			AssureCount(sElement, result.Count, min, max, "nodes of the choice " + string.Join(", ", elementNames.Concat(attributeNames)));
+			return result;
+		}
+		
+		public static void AssureValueCount(SmlAttribute sAttribute, int min, int? max)
+		{
+			int count = sAttribute.Values.Length;
+			if (count < min || (max != null && count > max))
+			{
+				throw new SmlLoadException("Attribute \"" + sAttribute.Name + "\" must have " + min + ".." + (max == null ? "N" : max.ToString()) + " values but has " + count);
+			}
+		}
+		
+		public static bool IsNullValue(SmlAttribute sAttribute)
+		{
+			return sAttribute.Values.Length == 1 && sAttribute.Values[0] == null;
+		}
+		
+		public static string NotNull(string? value)
+		{
+			if (value == null)
+			{
+				throw new SmlLoadException("Value must not be null");
+			}
+			return value;
+		}
+		
+		public static string GetValue(SmlAttribute sAttribute)
+		{
+			AssureValueCount(sAttribute, 1, 1);
+			return NotNull(sAttribute.Values[0]);
+		}
+		
+		public static string? GetNullableValue(SmlAttribute sAttribute)
+		{
+			AssureValueCount(sAttribute, 1, 1);
+			return sAttribute.Values[0];
+		}
+		
+		public static string[] GetValues(SmlAttribute sAttribute, int min, int? max)
+		{
+			AssureValueCount(sAttribute, min, max);
+			return sAttribute.Values.Select((x) => NotNull(x)).ToArray();
+		}
+		
+		public static string?[] GetNullableValues(SmlAttribute sAttribute, int min, int? max)
+		{
+			AssureValueCount(sAttribute, min, max);
+			return sAttribute.Values;
+		}
+		
+		public static T? ParseNullableValue<T>(string? value, Func<string, T> parse) where T : struct
+		{
+			return value == null ? null : parse(value);
+		}
+		
+		public static T? ParseNullableObject<T>(string? value, Func<string, T> parse) where T : class
+		{
+			return value == null ? null : parse(value);
+		}
+		
+		public static bool ParseBool(string value)
+		{
+			if (HasName(value, "true"))
+			{
+				return true;
+			}
+			else if (HasName(value, "false"))
+			{
+				return false;
+			}
+			throw new SmlLoadException("Value \"" + value + "\" is not a valid Bool");
+		}
+		
+		public static long ParseInt(string value)
+		{
+			long result;
+			if (!Regex.IsMatch(value, "^[-+]?[0-9]+$") || !long.TryParse(value, NumberStyles.AllowLeadingSign, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Int");
+			}
+			return result;
+		}
+		
+		public static long ParseUInt(string value)
+		{
+			long result;
+			if (!Regex.IsMatch(value, "^[+]?[0-9]+$") || !long.TryParse(value, NumberStyles.AllowLeadingSign, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid UInt");
+			}
+			return result;
+		}
+		
+		public static double ParseNumber(string value)
+		{
+			double result;
+			if (!Regex.IsMatch(value, "^[-+]?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?$") || !double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Number");
+			}
+			return result;
+		}
+		
+		public static DateTime ParseDate(string value)
+		{
+			DateTime result;
+			if (!DateTime.TryParseExact(value, "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Date");
+			}
+			return result;
+		}
+		
+		public static TimeSpan ParseTime(string value)
+		{
+			TimeSpan result;
+			if (!TimeSpan.TryParseExact(value, new string[] { @"hh\:mm", @"hh\:mm\:ss", @"hh\:mm\:ss\.FFFFFFF" }, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Time");
+			}
+			return result;
+		}
+		
+		public static DateTimeOffset ParseDateTime(string value)
+		{
+			DateTimeOffset result;
+			if (!DateTimeOffset.TryParse(value, CultureInfo.InvariantCulture, DateTimeStyles.AssumeUniversal, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid DateTime");
+			}
+			return result;
+		}
+		
+		public static byte[] ParseBase64(string value)
+		{
+			try
+			{
+				return Convert.FromBase64String(value);
+			}
+			catch (FormatException)
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Base64 string");
+			}
+		}
+	}
+	
+	public static class ValueTypeUtils
+	{
+		public static ColorEnum ParseColorEnum(string value)
+		{
+			if (SmlLoadUtils.HasName(value, "Red"))
+			{
+				return ColorEnum.Red;
+			}
+			if (SmlLoadUtils.HasName(value, "Green"))
+			{
+				return ColorEnum.Green;
+			}
+			if (SmlLoadUtils.HasName(value, "LightBlue"))
+			{
+				return ColorEnum.LightBlue;
+			}
+			throw new SmlLoadException("Value \"" + value + "\" is not one of Red, Green, LightBlue");
+		}
+	}
+	
+	public enum ColorEnum
+	{
+		Red,
+		Green,
+		LightBlue
+	}
+	
+	public class PointStruct
+	{
+		public long X { get; set; }
+		public long Y { get; set; }
+		public ColorEnum? C { get; set; }
+		
+		public static PointStruct Load(SmlAttribute sAttribute)
+		{
+			SmlLoadUtils.AssureValueCount(sAttribute, 3, 3);
+			return LoadValues(sAttribute.Values, 0, sAttribute.Values.Length);
+		}
+		
+		public static PointStruct[] LoadArray(SmlAttribute sAttribute, int min, int? max)
+		{
+			if (sAttribute.Values.Length % 3 != 0)
+			{
+				throw new SmlLoadException("Value count of attribute \"" + sAttribute.Name + "\" is not a multiple of 3");
+			}
+			int count = sAttribute.Values.Length / 3;
+			if (count < min || (max != null && count > max))
+			{
+				throw new SmlLoadException("Attribute \"" + sAttribute.Name + "\" has " + count + " array items but expected " + min + ".." + (max == null ? "N" : max.ToString()));
+			}
+			PointStruct[] structs = new PointStruct[count];
+			for (int i=0; i<count; i++)
+			{
+				structs[i] = LoadValues(sAttribute.Values, i*3, 3);
+			}
+			return structs;
+		}
+		
+		public static PointStruct LoadValues(string?[] values, int index, int count)
+		{
+			PointStruct result = new PointStruct();
+			result.X = SmlLoadUtils.ParseInt(SmlLoadUtils.NotNull(values[index+0]));
+			result.Y = SmlLoadUtils.ParseInt(SmlLoadUtils.NotNull(values[index+1]));
+			result.C = SmlLoadUtils.ParseNullableValue(values[index+2], ValueTypeUtils.ParseColorEnum);
+			return result;
+		}
+	}
+	
+	public class GarageDocument
+	{
+		public List<CarElement> CarList { get; set; } = new List<CarElement>();
+		public VehicleElement? Vehicle { get; set; }
+		public ColorEnum Paint { get; set; } = ColorEnum.LightBlue;
+		public ColorEnum[]? Palette { get; set; }
+		public PointStruct Pos { get; set; } = PointStruct.Load(new SmlAttribute("Default", new string?[] { "1", "2", null }));
+		public PointStruct[]? Path { get; set; }
+		public List<OwnerOrTagChoice> OwnerOrTagList { get; set; } = new List<OwnerOrTagChoice>();
+		
+		public static GarageDocument Load(SmlElement sElement)
+		{
+			SmlLoadUtils.AssureName(sElement, "Garage");
+			GarageDocument element = new GarageDocument();
+			SmlLoadUtils.AssureNames(sElement, new string[] { "Car", "Vehicle", "Owner" }, new string[] { "Paint", "Palette", "Pos", "Path", "Tag" });
+			foreach (SmlElement sCurElement in SmlLoadUtils.Elements(sElement, "Car", 0, null))
+			{
+				element.CarList.Add(CarElement.Load(sCurElement));
+			}
+			foreach (SmlElement sCurElement in SmlLoadUtils.Elements(sElement, "Vehicle", 0, 1))
+			{
+				element.Vehicle = VehicleElement.Load(sCurElement);
+			}
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "Paint", 0, 1))
+			{
+				element.Paint = ValueTypeUtils.ParseColorEnum(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "Palette", 0, 1))
+			{
+				element.Palette = SmlLoadUtils.GetValues(sCurAttribute, 1, null).Select(ValueTypeUtils.ParseColorEnum).ToArray();
+			}
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "Pos", 0, 1))
+			{
+				element.Pos = PointStruct.Load(sCurAttribute);
+			}
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "Path", 0, 1))
+			{
+				element.Path = PointStruct.LoadArray(sCurAttribute, 1, null);
+			}
+			foreach (SmlNode sCurNode in SmlLoadUtils.ChoiceNodes(sElement, new string[] { "Owner" }, new string[] { "Tag" }, 0, null))
+			{
+				if (SmlLoadUtils.IsElement(sCurNode, "Owner"))
+				{
+					element.OwnerOrTagList.Add(new OwnerOrTagChoiceOwner(OwnerElement.Load((SmlElement)sCurNode)));
+				}
+				else if (SmlLoadUtils.IsAttribute(sCurNode, "Tag"))
+				{
+					SmlAttribute sCurAttribute = (SmlAttribute)sCurNode;
+					element.OwnerOrTagList.Add(new OwnerOrTagChoiceTag(SmlLoadUtils.GetValue(sCurAttribute)));
+				}
+			}
+			return element;
+		}
+		
+		public static GarageDocument Parse(string content)
+		{
+			SmlDocument sDocument = SmlDocument.Parse(content);
+			return Load(sDocument.Root);
+		}
+	}
+	
+	/// <summary>Choice of "Owner", "Tag"</summary>
+	public abstract class OwnerOrTagChoice
+	{
+	}
+	
+	public class OwnerOrTagChoiceOwner : OwnerOrTagChoice
+	{
+		public OwnerElement Value { get; set; }
+		
+		public OwnerOrTagChoiceOwner(OwnerElement value)
+		{
+			Value = value;
+		}
+	}
+	
+	public class OwnerOrTagChoiceTag : OwnerOrTagChoice
+	{
+		public string Value { get; set; }
+		
+		public OwnerOrTagChoiceTag(string value)
+		{
+			Value = value;
+		}
+	}
+	
+	public class VehicleElement
+	{
+		public OwnerElement? Owner { get; set; }
+		public long Wheels { get; set; } = 4;
+		
+		public static VehicleElement Load(SmlElement sElement)
+		{
+			SmlLoadUtils.AssureName(sElement, "Vehicle");
+			VehicleElement element = new VehicleElement();
+			SmlLoadUtils.AssureNames(sElement, new string[] { "Owner" }, new string[] { "Wheels" });
+			foreach (SmlElement sCurElement in SmlLoadUtils.Elements(sElement, "Owner", 0, 1))
+			{
+				element.Owner = OwnerElement.Load(sCurElement);
+			}
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "Wheels", 0, 1))
+			{
+				element.Wheels = SmlLoadUtils.ParseInt(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			return element;
+		}
+	}
+	
+	public class OwnerElement
+	{
+		public string Name { get; set; } = "";
+		public ColorEnum? Color { get; set; }
+		
+		public static OwnerElement Load(SmlElement sElement)
+		{
+			SmlLoadUtils.AssureName(sElement, "Owner");
+			OwnerElement element = new OwnerElement();
+			SmlNodeReader reader = new SmlNodeReader(sElement);
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("Name", 1, 1))
+			{
+				element.Name = SmlLoadUtils.GetValue(sCurAttribute);
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("Color", 0, 1))
+			{
+				element.Color = ValueTypeUtils.ParseColorEnum(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			reader.AssureEnd();
+			return element;
+		}
+	}
+	
+	internal class SmlNodeReader
+	{
+		private readonly SmlElement element;
+		private readonly List<SmlNode> nodes;
+		private int index = 0;
+		
+		public SmlNodeReader(SmlElement element)
+		{
+			this.element = element;
+			nodes = element.Nodes.Where((x) => x is SmlElement || x is SmlAttribute).ToList();
+		}
+		
+		private List<SmlNode> Nodes(Func<SmlNode, bool> isMatch, int min, int? max, string description)
+		{
+			List<SmlNode> result = new List<SmlNode>();
+			while (index < nodes.Count && (max == null || result.Count < max) && isMatch(nodes[index]))
+			{
+				result.Add(nodes[index]);
+				index++;
+			}
+			if (result.Count < min)
+			{
+				throw new SmlLoadException("Element \"" + element.Name + "\" must contain " + min + ".." + (max == null ? "N" : max.ToString()) + " " + description + " at this position but has " + result.Count);
+			}
+			return result;
+		}
+		
+		public IEnumerable<SmlElement> Elements(string name, int min, int? max)
+		{
+			return Nodes((x) => SmlLoadUtils.IsElement(x, name), min, max, "elements \"" + name + "\"").Cast<SmlElement>();
+		}
+		
+		public IEnumerable<SmlAttribute> Attributes(string name, int min, int? max)
+		{
+			return Nodes((x) => SmlLoadUtils.IsAttribute(x, name), min, max, "attributes \"" + name + "\"").Cast<SmlAttribute>();
+		}
+		
+		public IEnumerable<SmlNode> ChoiceNodes(string[] elementNames, string[] attributeNames, int min, int? max)
+		{
+			return Nodes((x) => SmlLoadUtils.IsChoiceNode(x, elementNames, attributeNames), min, max, "nodes of the choice " + string.Join(", ", elementNames.Concat(attributeNames)));
+		}
+		
+		public void AssureEnd()
+		{
+			if (index < nodes.Count)
+			{
+				SmlNode node = nodes[index];
+				string name = node is SmlElement ? ((SmlElement)node).Name : ((SmlAttribute)node).Name;
+				throw new SmlLoadException("Unexpected node \"" + name + "\" in element \"" + element.Name + "\"");
+			}
+		}
+	}
+	
+	public class CarElement : VehicleElement
+	{
+		public new OwnerElement Owner { get; set; } = new OwnerElement();
+		public long Doors { get; set; }
+		
+		public static new CarElement Load(SmlElement sElement)
+		{
+			SmlLoadUtils.AssureName(sElement, "Car");
+			CarElement element = new CarElement();
+			SmlLoadUtils.AssureNames(sElement, new string[] { "Owner" }, new string[] { "Wheels", "Doors" });
+			foreach (SmlElement sCurElement in SmlLoadUtils.Elements(sElement, "Owner", 1, 1))
+			{
+				element.Owner = OwnerElement.Load(sCurElement);
+			}
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "Wheels", 0, 1))
+			{
+				element.Wheels = SmlLoadUtils.ParseInt(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "Doors", 1, 1))
+			{
+				element.Doors = SmlLoadUtils.ParseInt(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			return element;
+		}
+	}
+}
\ No newline at end of file
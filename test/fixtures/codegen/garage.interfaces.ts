@@ -0,0 +1,398 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode } from "./sml.js"
+
+abstract class ValueTypeUtils {
+	static asColorEnum(sAttribute: SmlAttribute): ColorEnum {
+		return sAttribute.assureValueCount(1).getEnum(["Red", "Green", "LightBlue"])
+	}
+	
+	static getColorEnum(sAttribute: SmlAttribute, index: number): ColorEnum {
+		return sAttribute.getEnum(["Red", "Green", "LightBlue"], index)
+	}
+	
+	static asColorEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): ColorEnum[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getColorEnum(sAttribute, i))
+	}
+	
+	static asNullableColorEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (ColorEnum | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getColorEnum(sAttribute, i))
+	}
+	
+	static getColorEnumString(value: ColorEnum): string {
+		return ["Red", "Green", "LightBlue"][value]
+	}
+}
+
+export enum ColorEnum {
+	Red,
+	Green,
+	LightBlue
+}
+
+export interface PointStruct {
+	x: number
+	y: number
+	c: ColorEnum | null
+}
+
+export function createPointStruct(): PointStruct {
+	return {
+		x: 0,
+		y: 0,
+		c: null
+	}
+}
+
+export function loadPointStruct(sAttribute: SmlAttribute): PointStruct {
+	sAttribute.assureValueCountMinMax(3, 3)
+	return loadPointStructValues(sAttribute, 0, sAttribute.valueCount)
+}
+
+export function loadPointStructArray(sAttribute: SmlAttribute, min: number, max: number | null): PointStruct[] {
+	if (sAttribute.valueCount % 3 !== 0) {
+		throw new Error(`Value count of attribute "${sAttribute.name}" is not a multiple of 3`)
+	}
+	let count: number = sAttribute.valueCount / 3
+	if (count < min || (max !== null && count > max)) {
+		throw new Error(`Attribute "${sAttribute.name}" has ${count} array items but expected ${min}..${max === null ? "N" : max}`)
+	}
+	let structs: PointStruct[] = []
+	for (let i=0; i<count; i++) {
+		structs.push(loadPointStructValues(sAttribute, i*3, 3))
+	}
+	return structs
+}
+
+export function loadPointStructValues(sAttribute: SmlAttribute, index: number, count: number): PointStruct {
+	let struct: PointStruct = createPointStruct()
+	struct.x = sAttribute.getInt(index+0)
+	struct.y = sAttribute.getInt(index+1)
+	struct.c = (sAttribute.values[index+2] === null ? null : ValueTypeUtils.getColorEnum(sAttribute, index+2))
+	return struct
+}
+
+export function getPointStructValues(struct: PointStruct): (string | null)[] {
+	let values: (string | null)[] = []
+	values.push(struct.x.toString())
+	values.push(struct.y.toString())
+	values.push(struct.c === null ? null : ValueTypeUtils.getColorEnumString(struct.c))
+	return values
+}
+
+export function getPointStructArrayValues(structs: PointStruct[]): (string | null)[] {
+	let values: (string | null)[] = []
+	for (let struct of structs) {
+		values.push(...getPointStructValues(struct))
+	}
+	return values
+}
+
+export interface GarageDocument {
+	carList: (CarElement)[]
+	vehicle: VehicleElement | null
+	paint: ColorEnum
+	palette: ColorEnum[] | null
+	pos: PointStruct
+	path: PointStruct[] | null
+	ownerOrTagList: ({ kind: "Owner", value: OwnerElement } | { kind: "Tag", value: string })[]
+}
+
+export function createGarageDocument(): GarageDocument {
+	return {
+		carList: [],
+		vehicle: null,
+		paint: ColorEnum.LightBlue,
+		palette: null,
+		pos: loadPointStruct(new SmlAttribute("Default", ["1", "2", null])),
+		path: null,
+		ownerOrTagList: []
+	}
+}
+
+export function loadGarageDocument(sElement: SmlElement): GarageDocument {
+	sElement.assureName("Garage")
+	let element: GarageDocument = createGarageDocument()
+	sElement.assureElementNames(["Car", "Vehicle", "Owner"])
+	sElement.assureAttributeNames(["Paint", "Palette", "Pos", "Path", "Tag"])
+	{
+		for (let sCurElement of sElement.elements("Car")) {
+			element.carList.push(loadCarElement(sCurElement))
+		}
+	}
+	{
+		let sCurElement: SmlElement | null = sElement.optionalElement("Vehicle")
+		if (sCurElement !== null) {
+			element.vehicle = loadVehicleElement(sCurElement)
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Paint")
+		if (sCurAttribute !== null) {
+			element.paint = ValueTypeUtils.asColorEnum(sCurAttribute)
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Palette")
+		if (sCurAttribute !== null) {
+			element.palette = ValueTypeUtils.asColorEnumArray(sCurAttribute, 1, null)
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Pos")
+		if (sCurAttribute !== null) {
+			element.pos = loadPointStruct(sCurAttribute)
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Path")
+		if (sCurAttribute !== null) {
+			element.path = loadPointStructArray(sCurAttribute, 1, null)
+		}
+	}
+	{
+		for (let sCurNode of sElement.nodes) {
+			if (sCurNode.isElementWithName("Owner")) {
+				element.ownerOrTagList.push({ kind: "Owner", value: loadOwnerElement(sCurNode as SmlElement) })
+			} else if (sCurNode.isAttributeWithName("Tag")) {
+				let sCurAttribute: SmlAttribute = sCurNode as SmlAttribute
+				element.ownerOrTagList.push({ kind: "Tag", value: sCurAttribute.asString() })
+			}
+		}
+	}
+	return element
+}
+
+export function serializeGarageDocument(element: GarageDocument): SmlElement {
+	let sElement: SmlElement = new SmlElement("Garage")
+	for (let item of element.carList) {
+		sElement.nodes.push(serializeCarElement(item))
+	}
+	if (element.vehicle !== null) {
+		sElement.nodes.push(serializeVehicleElement(element.vehicle))
+	}
+	sElement.addAttribute("Paint", [ValueTypeUtils.getColorEnumString(element.paint)])
+	if (element.palette !== null) {
+		sElement.addAttribute("Palette", element.palette.map((x) => ValueTypeUtils.getColorEnumString(x)))
+	}
+	sElement.addAttribute("Pos", getPointStructValues(element.pos))
+	if (element.path !== null) {
+		sElement.addAttribute("Path", getPointStructArrayValues(element.path))
+	}
+	for (let item of element.ownerOrTagList) {
+		if (item.kind === "Owner") {
+			sElement.nodes.push(serializeOwnerElement(item.value))
+		} else if (item.kind === "Tag") {
+			sElement.addAttribute("Tag", [item.value])
+		}
+	}
+	return sElement
+}
+
+export function parseGarageDocument(content: string): GarageDocument {
+	let sDocument: SmlDocument = SmlDocument.parse(content)
+	return loadGarageDocument(sDocument.root)
+}
+
+export function toGarageDocumentSmlDocument(element: GarageDocument): SmlDocument {
+	return new SmlDocument(serializeGarageDocument(element))
+}
+
+export function stringifyGarageDocument(element: GarageDocument): string {
+	return toGarageDocumentSmlDocument(element).toString()
+}
+
+export interface VehicleElement {
+	owner: OwnerElement | null
+	wheels: number
+}
+
+export function createVehicleElement(): VehicleElement {
+	return {
+		owner: null,
+		wheels: 4
+	}
+}
+
+export function loadVehicleElement(sElement: SmlElement): VehicleElement {
+	sElement.assureName("Vehicle")
+	let element: VehicleElement = createVehicleElement()
+	sElement.assureElementNames(["Owner"])
+	sElement.assureAttributeNames(["Wheels"])
+	{
+		let sCurElement: SmlElement | null = sElement.optionalElement("Owner")
+		if (sCurElement !== null) {
+			element.owner = loadOwnerElement(sCurElement)
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Wheels")
+		if (sCurAttribute !== null) {
+			element.wheels = sCurAttribute.asInt()
+		}
+	}
+	return element
+}
+
+export function serializeVehicleElement(element: VehicleElement): SmlElement {
+	let sElement: SmlElement = new SmlElement("Vehicle")
+	if (element.owner !== null) {
+		sElement.nodes.push(serializeOwnerElement(element.owner))
+	}
+	sElement.addAttribute("Wheels", [element.wheels.toString()])
+	return sElement
+}
+
+export interface OwnerElement {
+	name: string
+	color: ColorEnum | null
+}
+
+class SmlNodeReader {
+	private readonly sNodes: SmlNamedNode[]
+	private index: number = 0
+	
+	constructor(sElement: SmlElement) {
+		this.sNodes = sElement.nodes.filter((x) => x instanceof SmlNamedNode) as SmlNamedNode[]
+	}
+	
+	private hasNode(name: string, isElement: boolean): boolean {
+		if (this.index >= this.sNodes.length) { return false }
+		let sNode: SmlNamedNode = this.sNodes[this.index]
+		return (sNode instanceof SmlElement) === isElement && sNode.hasName(name)
+	}
+	
+	private nodes(name: string, isElement: boolean, min: number, max: number | null): SmlNamedNode[] {
+		let result: SmlNamedNode[] = []
+		while ((max === null || result.length < max) && this.hasNode(name, isElement)) {
+			result.push(this.sNodes[this.index++])
+		}
+		if (result.length < min) {
+			throw new Error(`${isElement ? "Element" : "Attribute"} "${name}" expected at position ${this.index+1}`)
+		}
+		return result
+	}
+	
+	requiredElement(name: string): SmlElement {
+		return this.nodes(name, true, 1, 1)[0] as SmlElement
+	}
+	
+	optionalElement(name: string): SmlElement | null {
+		let sElements: SmlNamedNode[] = this.nodes(name, true, 0, 1)
+		return sElements.length > 0 ? sElements[0] as SmlElement : null
+	}
+	
+	elements(name: string, min: number, max: number | null): SmlElement[] {
+		return this.nodes(name, true, min, max) as SmlElement[]
+	}
+	
+	requiredAttribute(name: string): SmlAttribute {
+		return this.nodes(name, false, 1, 1)[0] as SmlAttribute
+	}
+	
+	optionalAttribute(name: string): SmlAttribute | null {
+		let sAttributes: SmlNamedNode[] = this.nodes(name, false, 0, 1)
+		return sAttributes.length > 0 ? sAttributes[0] as SmlAttribute : null
+	}
+	
+	attributes(name: string, min: number, max: number | null): SmlAttribute[] {
+		return this.nodes(name, false, min, max) as SmlAttribute[]
+	}
+	
+	choiceNodes(elementNames: string[], attributeNames: string[], min: number, max: number | null): SmlNamedNode[] {
+		let result: SmlNamedNode[] = []
+		while ((max === null || result.length < max) && this.index < this.sNodes.length) {
+			let sNode: SmlNamedNode = this.sNodes[this.index]
+			let names: string[] = sNode instanceof SmlElement ? elementNames : attributeNames
+			if (names.find((x) => sNode.hasName(x)) === undefined) { break }
+			result.push(this.sNodes[this.index++])
+		}
+		if (result.length < min) {
+			throw new Error(`One of ${[...elementNames, ...attributeNames].join(", ")} expected at position ${this.index+1}`)
+		}
+		return result
+	}
+	
+	assureEnd() {
+		if (this.index < this.sNodes.length) {
+			throw new Error(`Unexpected node "${this.sNodes[this.index].name}" at position ${this.index+1}`)
+		}
+	}
+}
+
+export function createOwnerElement(): OwnerElement {
+	return {
+		name: "",
+		color: null
+	}
+}
+
+export function loadOwnerElement(sElement: SmlElement): OwnerElement {
+	sElement.assureName("Owner")
+	let element: OwnerElement = createOwnerElement()
+	let reader: SmlNodeReader = new SmlNodeReader(sElement)
+	{
+		let sCurAttribute: SmlAttribute = reader.requiredAttribute("Name")
+		element.name = sCurAttribute.asString()
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("Color")
+		if (sCurAttribute !== null) {
+			element.color = ValueTypeUtils.asColorEnum(sCurAttribute)
+		}
+	}
+	reader.assureEnd()
+	return element
+}
+
+export function serializeOwnerElement(element: OwnerElement): SmlElement {
+	let sElement: SmlElement = new SmlElement("Owner")
+	sElement.addAttribute("Name", [element.name])
+	if (element.color !== null) {
+		sElement.addAttribute("Color", [ValueTypeUtils.getColorEnumString(element.color)])
+	}
+	return sElement
+}
+
+export interface CarElement extends VehicleElement {
+	owner: OwnerElement
+	doors: number
+}
+
+export function createCarElement(): CarElement {
+	return {
+		owner: createOwnerElement(),
+		wheels: 4,
+		doors: 0
+	}
+}
+
+export function loadCarElement(sElement: SmlElement): CarElement {
+	sElement.assureName("Car")
+	let element: CarElement = createCarElement()
+	sElement.assureElementNames(["Owner"])
+	sElement.assureAttributeNames(["Wheels", "Doors"])
+	{
+		let sCurElement: SmlElement = sElement.requiredElement("Owner")
+		element.owner = loadOwnerElement(sCurElement)
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Wheels")
+		if (sCurAttribute !== null) {
+			element.wheels = sCurAttribute.asInt()
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute = sElement.requiredAttribute("Doors")
+		element.doors = sCurAttribute.asInt()
+	}
+	return element
+}
+
+export function serializeCarElement(element: CarElement): SmlElement {
+	let sElement: SmlElement = new SmlElement("Car")
+	sElement.nodes.push(serializeOwnerElement(element.owner))
+	sElement.addAttribute("Wheels", [element.wheels.toString()])
+	sElement.addAttribute("Doors", [element.doors.toString()])
+	return sElement
+}
\ No newline at end of file
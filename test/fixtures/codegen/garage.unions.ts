@@ -0,0 +1,354 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode } from "./sml.js"
+
+abstract class ValueTypeUtils {
+	static asColorEnum(sAttribute: SmlAttribute): ColorEnum {
+		let values: ColorEnum[] = ["Red", "Green", "LightBlue"]
+		return values[sAttribute.assureValueCount(1).getEnum(values)]
+	}
+	
+	static getColorEnum(sAttribute: SmlAttribute, index: number): ColorEnum {
+		let values: ColorEnum[] = ["Red", "Green", "LightBlue"]
+		return values[sAttribute.getEnum(values, index)]
+	}
+	
+	static asColorEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): ColorEnum[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getColorEnum(sAttribute, i))
+	}
+	
+	static asNullableColorEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (ColorEnum | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getColorEnum(sAttribute, i))
+	}
+	
+	static getColorEnumString(value: ColorEnum): string {
+		return value
+	}
+}
+
+export type ColorEnum = "Red" | "Green" | "LightBlue"
+
+export class PointStruct {
+	x: number = 0
+	y: number = 0
+	c: ColorEnum | null = null
+	
+	static load(sAttribute: SmlAttribute): PointStruct {
+		sAttribute.assureValueCountMinMax(3, 3)
+		return PointStruct.loadValues(sAttribute, 0, sAttribute.valueCount)
+	}
+	
+	static loadArray(sAttribute: SmlAttribute, min: number, max: number | null): PointStruct[] {
+		if (sAttribute.valueCount % 3 !== 0) {
+			throw new Error(`Value count of attribute "${sAttribute.name}" is not a multiple of 3`)
+		}
+		let count: number = sAttribute.valueCount / 3
+		if (count < min || (max !== null && count > max)) {
+			throw new Error(`Attribute "${sAttribute.name}" has ${count} array items but expected ${min}..${max === null ? "N" : max}`)
+		}
+		let structs: PointStruct[] = []
+		for (let i=0; i<count; i++) {
+			structs.push(PointStruct.loadValues(sAttribute, i*3, 3))
+		}
+		return structs
+	}
+	
+	static loadValues(sAttribute: SmlAttribute, index: number, count: number): PointStruct {
+		let struct: PointStruct = new PointStruct()
+		struct.x = sAttribute.getInt(index+0)
+		struct.y = sAttribute.getInt(index+1)
+		struct.c = (sAttribute.values[index+2] === null ? null : ValueTypeUtils.getColorEnum(sAttribute, index+2))
+		return struct
+	}
+	
+	toValues(): (string | null)[] {
+		let values: (string | null)[] = []
+		values.push(this.x.toString())
+		values.push(this.y.toString())
+		values.push(this.c === null ? null : ValueTypeUtils.getColorEnumString(this.c))
+		return values
+	}
+	
+	static arrayToValues(structs: PointStruct[]): (string | null)[] {
+		let values: (string | null)[] = []
+		for (let struct of structs) {
+			values.push(...struct.toValues())
+		}
+		return values
+	}
+}
+
+export class GarageDocument {
+	carList: (CarElement)[] = []
+	vehicle: VehicleElement | null = null
+	paint: ColorEnum = "LightBlue"
+	palette: ColorEnum[] | null = null
+	pos: PointStruct = PointStruct.load(new SmlAttribute("Default", ["1", "2", null]))
+	path: PointStruct[] | null = null
+	ownerOrTagList: ({ kind: "Owner", value: OwnerElement } | { kind: "Tag", value: string })[] = []
+	
+	static load(sElement: SmlElement): GarageDocument {
+		sElement.assureName("Garage")
+		let element: GarageDocument = new GarageDocument()
+		sElement.assureElementNames(["Car", "Vehicle", "Owner"])
+		sElement.assureAttributeNames(["Paint", "Palette", "Pos", "Path", "Tag"])
+		{
+			for (let sCurElement of sElement.elements("Car")) {
+				element.carList.push(CarElement.load(sCurElement))
+			}
+		}
+		{
+			let sCurElement: SmlElement | null = sElement.optionalElement("Vehicle")
+			if (sCurElement !== null) {
+				element.vehicle = VehicleElement.load(sCurElement)
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Paint")
+			if (sCurAttribute !== null) {
+				element.paint = ValueTypeUtils.asColorEnum(sCurAttribute)
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Palette")
+			if (sCurAttribute !== null) {
+				element.palette = ValueTypeUtils.asColorEnumArray(sCurAttribute, 1, null)
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Pos")
+			if (sCurAttribute !== null) {
+				element.pos = PointStruct.load(sCurAttribute)
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Path")
+			if (sCurAttribute !== null) {
+				element.path = PointStruct.loadArray(sCurAttribute, 1, null)
+			}
+		}
+		{
+			for (let sCurNode of sElement.nodes) {
+				if (sCurNode.isElementWithName("Owner")) {
+					element.ownerOrTagList.push({ kind: "Owner", value: OwnerElement.load(sCurNode as SmlElement) })
+				} else if (sCurNode.isAttributeWithName("Tag")) {
+					let sCurAttribute: SmlAttribute = sCurNode as SmlAttribute
+					element.ownerOrTagList.push({ kind: "Tag", value: sCurAttribute.asString() })
+				}
+			}
+		}
+		return element
+	}
+	
+	serialize(): SmlElement {
+		let sElement: SmlElement = new SmlElement("Garage")
+		for (let item of this.carList) {
+			sElement.nodes.push(item.serialize())
+		}
+		if (this.vehicle !== null) {
+			sElement.nodes.push(this.vehicle.serialize())
+		}
+		sElement.addAttribute("Paint", [ValueTypeUtils.getColorEnumString(this.paint)])
+		if (this.palette !== null) {
+			sElement.addAttribute("Palette", this.palette.map((x) => ValueTypeUtils.getColorEnumString(x)))
+		}
+		sElement.addAttribute("Pos", this.pos.toValues())
+		if (this.path !== null) {
+			sElement.addAttribute("Path", PointStruct.arrayToValues(this.path))
+		}
+		for (let item of this.ownerOrTagList) {
+			if (item.kind === "Owner") {
+				sElement.nodes.push(item.value.serialize())
+			} else if (item.kind === "Tag") {
+				sElement.addAttribute("Tag", [item.value])
+			}
+		}
+		return sElement
+	}
+	
+	static parse(content: string): GarageDocument {
+		let sDocument: SmlDocument = SmlDocument.parse(content)
+		return GarageDocument.load(sDocument.root)
+	}
+	
+	toDocument(): SmlDocument {
+		return new SmlDocument(this.serialize())
+	}
+	
+	toString(): string {
+		return this.toDocument().toString()
+	}
+}
+
+export class VehicleElement {
+	owner: OwnerElement | null = null
+	wheels: number = 4
+	
+	static load(sElement: SmlElement): VehicleElement {
+		sElement.assureName("Vehicle")
+		let element: VehicleElement = new VehicleElement()
+		sElement.assureElementNames(["Owner"])
+		sElement.assureAttributeNames(["Wheels"])
+		{
+			let sCurElement: SmlElement | null = sElement.optionalElement("Owner")
+			if (sCurElement !== null) {
+				element.owner = OwnerElement.load(sCurElement)
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Wheels")
+			if (sCurAttribute !== null) {
+				element.wheels = sCurAttribute.asInt()
+			}
+		}
+		return element
+	}
+	
+	serialize(): SmlElement {
+		let sElement: SmlElement = new SmlElement("Vehicle")
+		if (this.owner !== null) {
+			sElement.nodes.push(this.owner.serialize())
+		}
+		sElement.addAttribute("Wheels", [this.wheels.toString()])
+		return sElement
+	}
+}
+
+export class OwnerElement {
+	name: string = ""
+	color: ColorEnum | null = null
+	
+	static load(sElement: SmlElement): OwnerElement {
+		sElement.assureName("Owner")
+		let element: OwnerElement = new OwnerElement()
+		let reader: SmlNodeReader = new SmlNodeReader(sElement)
+		{
+			let sCurAttribute: SmlAttribute = reader.requiredAttribute("Name")
+			element.name = sCurAttribute.asString()
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("Color")
+			if (sCurAttribute !== null) {
+				element.color = ValueTypeUtils.asColorEnum(sCurAttribute)
+			}
+		}
+		reader.assureEnd()
+		return element
+	}
+	
+	serialize(): SmlElement {
+		let sElement: SmlElement = new SmlElement("Owner")
+		sElement.addAttribute("Name", [this.name])
+		if (this.color !== null) {
+			sElement.addAttribute("Color", [ValueTypeUtils.getColorEnumString(this.color)])
+		}
+		return sElement
+	}
+}
+
+class SmlNodeReader {
+	private readonly sNodes: SmlNamedNode[]
+	private index: number = 0
+	
+	constructor(sElement: SmlElement) {
+		this.sNodes = sElement.nodes.filter((x) => x instanceof SmlNamedNode) as SmlNamedNode[]
+	}
+	
+	private hasNode(name: string, isElement: boolean): boolean {
+		if (this.index >= this.sNodes.length) { return false }
+		let sNode: SmlNamedNode = this.sNodes[this.index]
+		return (sNode instanceof SmlElement) === isElement && sNode.hasName(name)
+	}
+	
+	private nodes(name: string, isElement: boolean, min: number, max: number | null): SmlNamedNode[] {
+		let result: SmlNamedNode[] = []
+		while ((max === null || result.length < max) && this.hasNode(name, isElement)) {
+			result.push(this.sNodes[this.index++])
+		}
+		if (result.length < min) {
+			throw new Error(`${isElement ? "Element" : "Attribute"} "${name}" expected at position ${this.index+1}`)
+		}
+		return result
+	}
+	
+	requiredElement(name: string): SmlElement {
+		return this.nodes(name, true, 1, 1)[0] as SmlElement
+	}
+	
+	optionalElement(name: string): SmlElement | null {
+		let sElements: SmlNamedNode[] = this.nodes(name, true, 0, 1)
+		return sElements.length > 0 ? sElements[0] as SmlElement : null
+	}
+	
+	elements(name: string, min: number, max: number | null): SmlElement[] {
+		return this.nodes(name, true, min, max) as SmlElement[]
+	}
+	
+	requiredAttribute(name: string): SmlAttribute {
+		return this.nodes(name, false, 1, 1)[0] as SmlAttribute
+	}
+	
+	optionalAttribute(name: string): SmlAttribute | null {
+		let sAttributes: SmlNamedNode[] = this.nodes(name, false, 0, 1)
+		return sAttributes.length > 0 ? sAttributes[0] as SmlAttribute : null
+	}
+	
+	attributes(name: string, min: number, max: number | null): SmlAttribute[] {
+		return this.nodes(name, false, min, max) as SmlAttribute[]
+	}
+	
+	choiceNodes(elementNames: string[], attributeNames: string[], min: number, max: number | null): SmlNamedNode[] {
+		let result: SmlNamedNode[] = []
+		while ((max === null || result.length < max) && this.index < this.sNodes.length) {
+			let sNode: SmlNamedNode = this.sNodes[this.index]
+			let names: string[] = sNode instanceof SmlElement ? elementNames : attributeNames
+			if (names.find((x) => sNode.hasName(x)) === undefined) { break }
+			result.push(this.sNodes[this.index++])
+		}
+		if (result.length < min) {
+			throw new Error(`One of ${[...elementNames, ...attributeNames].join(", ")} expected at position ${this.index+1}`)
+		}
+		return result
+	}
+	
+	assureEnd() {
+		if (this.index < this.sNodes.length) {
+			throw new Error(`Unexpected node "${this.sNodes[this.index].name}" at position ${this.index+1}`)
+		}
+	}
+}
+
+export class CarElement extends VehicleElement {
+	owner: OwnerElement = new OwnerElement()
+	doors: number = 0
+	
+	static load(sElement: SmlElement): CarElement {
+		sElement.assureName("Car")
+		let element: CarElement = new CarElement()
+		sElement.assureElementNames(["Owner"])
+		sElement.assureAttributeNames(["Wheels", "Doors"])
+		{
+			let sCurElement: SmlElement = sElement.requiredElement("Owner")
+			element.owner = OwnerElement.load(sCurElement)
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Wheels")
+			if (sCurAttribute !== null) {
+				element.wheels = sCurAttribute.asInt()
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute = sElement.requiredAttribute("Doors")
+			element.doors = sCurAttribute.asInt()
+		}
+		return element
+	}
+	
+	serialize(): SmlElement {
+		let sElement: SmlElement = new SmlElement("Car")
+		sElement.nodes.push(this.owner.serialize())
+		sElement.addAttribute("Wheels", [this.wheels.toString()])
+		sElement.addAttribute("Doors", [this.doors.toString()])
+		return sElement
+	}
+}
\ No newline at end of file
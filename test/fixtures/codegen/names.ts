@@ -0,0 +1,179 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode } from "./sml.js"
+
+abstract class ValueTypeUtils {
+	static asColorEnum(sAttribute: SmlAttribute): ColorEnum {
+		return sAttribute.assureValueCount(1).getEnum(["Dark Blue", "red", "#1", "class"])
+	}
+	
+	static getColorEnum(sAttribute: SmlAttribute, index: number): ColorEnum {
+		return sAttribute.getEnum(["Dark Blue", "red", "#1", "class"], index)
+	}
+	
+	static asColorEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): ColorEnum[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getColorEnum(sAttribute, i))
+	}
+	
+	static asNullableColorEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (ColorEnum | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getColorEnum(sAttribute, i))
+	}
+	
+	static getColorEnumString(value: ColorEnum): string {
+		return ["Dark Blue", "red", "#1", "class"][value]
+	}
+	
+	static checkCode$1XType(value: string): string {
+		let length: number = [...value].length
+		if (length > 3) {
+			throw new Error("Value \"" + value + "\" has a length of " + length + " but Code`${1}\"x expects 0..3")
+		}
+		if (!new RegExp("^(?:[a-z]+)$", "u").test(value)) {
+			throw new Error("Value \"" + value + "\" does not match the pattern of Code`${1}\"x")
+		}
+		return value
+	}
+	
+	static asCode$1XType(sAttribute: SmlAttribute): string {
+		return ValueTypeUtils.checkCode$1XType(sAttribute.asString())
+	}
+	
+	static getCode$1XType(sAttribute: SmlAttribute, index: number): string {
+		return ValueTypeUtils.checkCode$1XType(sAttribute.getString(index))
+	}
+	
+	static asCode$1XTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): string[] {
+		return sAttribute.asStringArray(min, max).map((x) => ValueTypeUtils.checkCode$1XType(x))
+	}
+	
+	static asNullableCode$1XTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (string | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x) => x === null ? null : ValueTypeUtils.checkCode$1XType(x))
+	}
+	
+	static getCode$1XTypeString(value: string): string {
+		return ValueTypeUtils.checkCode$1XType(value)
+	}
+	
+	static checkSize$2YType(value: number): number {
+		if (value < 0 || value > 10) {
+			throw new Error("Value " + value + " is out of range of Size`${2}\"y which expects >= 0 and <= 10 `${u}\"")
+		}
+		let quotient: number = (value - 0) / 0.5
+		if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+			throw new Error("Value " + value + " is not a multiple of step 0.5 of Size`${2}\"y")
+		}
+		return value
+	}
+	
+	static asSize$2YType(sAttribute: SmlAttribute): number {
+		return ValueTypeUtils.checkSize$2YType(sAttribute.asFloat())
+	}
+	
+	static getSize$2YType(sAttribute: SmlAttribute, index: number): number {
+		return ValueTypeUtils.checkSize$2YType(sAttribute.getFloat(index))
+	}
+	
+	static asSize$2YTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): number[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getSize$2YType(sAttribute, i))
+	}
+	
+	static asNullableSize$2YTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (number | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getSize$2YType(sAttribute, i))
+	}
+	
+	static getSize$2YTypeString(value: number): string {
+		return ValueTypeUtils.checkSize$2YType(value).toString()
+	}
+}
+
+export enum ColorEnum {
+	DarkBlue,
+	Red,
+	_1,
+	Class
+}
+
+export class DocDocument {
+	firstName: ColorEnum = ColorEnum.DarkBlue
+	_class: number | null = null
+	code: string | null = null
+	size: number | null = null
+	xYOrXY: { kind: "x-y", value: string } | { kind: "x y", value: ColorEnum } = { kind: "x-y", value: "" }
+	
+	static load(sElement: SmlElement): DocDocument {
+		sElement.assureName("Doc")
+		let element: DocDocument = new DocDocument()
+		sElement.assureNoElements()
+		sElement.assureAttributeNames(["First Name", "class", "Code", "Size", "x-y", "x y"])
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("First Name")
+			if (sCurAttribute !== null) {
+				element.firstName = ValueTypeUtils.asColorEnum(sCurAttribute)
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("class")
+			if (sCurAttribute !== null) {
+				element._class = sCurAttribute.asInt()
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Code")
+			if (sCurAttribute !== null) {
+				element.code = ValueTypeUtils.asCode$1XType(sCurAttribute)
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Size")
+			if (sCurAttribute !== null) {
+				element.size = ValueTypeUtils.asSize$2YType(sCurAttribute)
+			}
+		}
+		{
+			sElement.assureChoice([], ["x-y", "x y"], false)
+			for (let sCurNode of sElement.nodes) {
+				if (sCurNode.isAttributeWithName("x-y")) {
+					let sCurAttribute: SmlAttribute = sCurNode as SmlAttribute
+					element.xYOrXY = { kind: "x-y", value: sCurAttribute.asString() }
+				} else if (sCurNode.isAttributeWithName("x y")) {
+					let sCurAttribute: SmlAttribute = sCurNode as SmlAttribute
+					element.xYOrXY = { kind: "x y", value: ValueTypeUtils.asColorEnum(sCurAttribute) }
+				}
+			}
+		}
+		return element
+	}
+	
+	serialize(): SmlElement {
+		let sElement: SmlElement = new SmlElement("Doc")
+		sElement.addAttribute("First Name", [ValueTypeUtils.getColorEnumString(this.firstName)])
+		if (this._class !== null) {
+			sElement.addAttribute("class", [this._class.toString()])
+		}
+		if (this.code !== null) {
+			sElement.addAttribute("Code", [ValueTypeUtils.getCode$1XTypeString(this.code)])
+		}
+		if (this.size !== null) {
+			sElement.addAttribute("Size", [ValueTypeUtils.getSize$2YTypeString(this.size)])
+		}
+		if (this.xYOrXY.kind === "x-y") {
+			sElement.addAttribute("x-y", [this.xYOrXY.value])
+		} else if (this.xYOrXY.kind === "x y") {
+			sElement.addAttribute("x y", [ValueTypeUtils.getColorEnumString(this.xYOrXY.value)])
+		}
+		return sElement
+	}
+	
+	static parse(content: string): DocDocument {
+		let sDocument: SmlDocument = SmlDocument.parse(content)
+		return DocDocument.load(sDocument.root)
+	}
+	
+	toDocument(): SmlDocument {
+		return new SmlDocument(this.serialize())
+	}
+	
+	toString(): string {
+		return this.toDocument().toString()
+	}
+}
\ No newline at end of file
@@ -0,0 +1,302 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Globalization;
+using System.Linq;
+using System.Text.RegularExpressions;
+using Stenway.Sml;
+
+namespace Generated
+{
+	public class SmlLoadException : Exception
+	{
+		public SmlLoadException(string message) : base(message)
+		{
+		}
+	}
+	
+	internal static class SmlLoadUtils
+	{
+		public static bool HasName(string name, string expectedName)
+		{
+			return string.Equals(name, expectedName, StringComparison.OrdinalIgnoreCase);
+		}
+		
+		public static bool IsElement(SmlNode node, string name)
+		{
+			return node is SmlElement && HasName(((SmlElement)node).Name, name);
+		}
+		
+		public static bool IsAttribute(SmlNode node, string name)
+		{
+			return node is SmlAttribute && HasName(((SmlAttribute)node).Name, name);
+		}
+		
+		public static bool IsChoiceNode(SmlNode node, string[] elementNames, string[] attributeNames)
+		{
+			return elementNames.Any((x) => IsElement(node, x)) || attributeNames.Any((x) => IsAttribute(node, x));
+		}
+		
+		public static void AssureName(SmlElement sElement, string name)
+		{
+			if (!HasName(sElement.Name, name))
+			{
+				throw new SmlLoadException("Element with name \"" + name + "\" expected but found \"" + sElement.Name + "\"");
+			}
+		}
+		
+		public static void AssureNames(SmlElement sElement, string[] elementNames, string[] attributeNames)
+		{
+			foreach (SmlNode node in sElement.Nodes)
+			{
+				if (node is SmlElement && !elementNames.Any((x) => IsElement(node, x)))
+				{
+					throw new SmlLoadException("Element \"" + sElement.Name + "\" contains the unexpected element \"" + ((SmlElement)node).Name + "\"");
+				}
+				else if (node is SmlAttribute && !attributeNames.Any((x) => IsAttribute(node, x)))
+				{
+					throw new SmlLoadException("Element \"" + sElement.Name + "\" contains the unexpected attribute \"" + ((SmlAttribute)node).Name + "\"");
+				}
+			}
+		}
+		
+		public static void AssureCount(SmlElement sElement, int count, int min, int? max, string description)
+		{
+			if (count < min || (max != null && count > max))
+			{
+				throw new SmlLoadException("Element \"" + sElement.Name + "\" must contain " + min + ".." + (max == null ? "N" : max.ToString()) + " " + description + " but has " + count);
+			}
+		}
+		
+		public static List<SmlElement> Elements(SmlElement sElement, string name, int min, int? max)
+		{
+			List<SmlElement> result = sElement.Nodes.Where((x) => IsElement(x, name)).Cast<SmlElement>().ToList();
+			AssureCount(sElement, result.Count, min, max, "elements \"" + name + "\"");
+			return result;
+		}
+		
+		public static List<SmlAttribute> Attributes(SmlElement sElement, string name, int min, int? max)
+		{
+			List<SmlAttribute> result = sElement.Nodes.Where((x) => IsAttribute(x, name)).Cast<SmlAttribute>().ToList();
+			AssureCount(sElement, result.Count, min, max, "attributes \"" + name + "\"");
+			return result;
+		}
+		
+		public static List<SmlNode> ChoiceNodes(SmlElement sElement, string[] elementNames, string[] attributeNames, int min, int? max)
+		{
+			List<SmlNode> result = sElement.Nodes.Where((x) => IsChoiceNode(x, elementNames, attributeNames)).ToList();
+			AssureCount(sElement, result.Count, min, max, "nodes of the choice " + string.Join(", ", elementNames.Concat(attributeNames)));
+			return result;
+		}
+		
+		public static void AssureValueCount(SmlAttribute sAttribute, int min, int? max)
+		{
+			int count = sAttribute.Values.Length;
+			if (count < min || (max != null && count > max))
+			{
+				throw new SmlLoadException("Attribute \"" + sAttribute.Name + "\" must have " + min + ".." + (max == null ? "N" : max.ToString()) + " values but has " + count);
+			}
+		}
+		
+		public static bool IsNullValue(SmlAttribute sAttribute)
+		{
+			return sAttribute.Values.Length == 1 && sAttribute.Values[0] == null;
+		}
+		
+		public static string NotNull(string? value)
+		{
+			if (value == null)
+			{
+				throw new SmlLoadException("Value must not be null");
+			}
+			return value;
+		}
+		
+		public static string GetValue(SmlAttribute sAttribute)
+		{
+			AssureValueCount(sAttribute, 1, 1);
+			return NotNull(sAttribute.Values[0]);
+		}
+		
+		public static string? GetNullableValue(SmlAttribute sAttribute)
+		{
+			AssureValueCount(sAttribute, 1, 1);
+			return sAttribute.Values[0];
+		}
+		
+		public static string[] GetValues(SmlAttribute sAttribute, int min, int? max)
+		{
+			AssureValueCount(sAttribute, min, max);
+			return sAttribute.Values.Select((x) => NotNull(x)).ToArray();
+		}
+		
+		public static string?[] GetNullableValues(SmlAttribute sAttribute, int min, int? max)
+		{
+			AssureValueCount(sAttribute, min, max);
+			return sAttribute.Values;
+		}
+		
+		public static T? ParseNullableValue<T>(string? value, Func<string, T> parse) where T : struct
+		{
+			return value == null ? null : parse(value);
+		}
+		
+		public static T? ParseNullableObject<T>(string? value, Func<string, T> parse) where T : class
+		{
+			return value == null ? null : parse(value);
+		}
+		
+		public static bool ParseBool(string value)
+		{
+			if (HasName(value, "true"))
+			{
+				return true;
+			}
+			else if (HasName(value, "false"))
+			{
+				return false;
+			}
+			throw new SmlLoadException("Value \"" + value + "\" is not a valid Bool");
+		}
+		
+		public static long ParseInt(string value)
+		{
+			long result;
+			if (!Regex.IsMatch(value, "^[-+]?[0-9]+$") || !long.TryParse(value, NumberStyles.AllowLeadingSign, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Int");
+			}
+			return result;
+		}
+		
+		public static long ParseUInt(string value)
+		{
+			long result;
+			if (!Regex.IsMatch(value, "^[+]?[0-9]+$") || !long.TryParse(value, NumberStyles.AllowLeadingSign, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid UInt");
+			}
+			return result;
+		}
+		
+		public static double ParseNumber(string value)
+		{
+			double result;
+			if (!Regex.IsMatch(value, "^[-+]?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?$") || !double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Number");
+			}
+			return result;
+		}
+		
+		public static DateTime ParseDate(string value)
+		{
+			DateTime result;
+			if (!DateTime.TryParseExact(value, "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Date");
+			}
+			return result;
+		}
+		
+		public static TimeSpan ParseTime(string value)
+		{
+			TimeSpan result;
+			if (!TimeSpan.TryParseExact(value, new string[] { @"hh\:mm", @"hh\:mm\:ss", @"hh\:mm\:ss\.FFFFFFF" }, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Time");
+			}
+			return result;
+		}
+		
+		public static DateTimeOffset ParseDateTime(string value)
+		{
+			DateTimeOffset result;
+			if (!DateTimeOffset.TryParse(value, CultureInfo.InvariantCulture, DateTimeStyles.AssumeUniversal, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid DateTime");
+			}
+			return result;
+		}
+		
+		public static byte[] ParseBase64(string value)
+		{
+			try
+			{
+				return Convert.FromBase64String(value);
+			}
+			catch (FormatException)
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Base64 string");
+			}
+		}
+	}
+	
+	public static class ValueTypeUtils
+	{
+		public static long ParsePercentType(string value)
+		{
+			long result = SmlLoadUtils.ParseInt(value);
+			if (result < 0 || result > 100)
+			{
+				throw new SmlLoadException("Value " + value + " is out of range of Percent which expects >= 0 and <= 100 percent");
+			}
+			double quotient = (result - 0) / 5.0;
+			if (Math.Abs(quotient - Math.Round(quotient)) > 1e-9)
+			{
+				throw new SmlLoadException("Value " + value + " is not a multiple of step 5 of Percent");
+			}
+			return result;
+		}
+		
+		public static double ParseTempType(string value)
+		{
+			double result = SmlLoadUtils.ParseNumber(value);
+			if (result <= -273.15)
+			{
+				throw new SmlLoadException("Value " + value + " is out of range of Temp which expects > -273.15 °C");
+			}
+			if (Math.Round(result, 1) != result)
+			{
+				throw new SmlLoadException("Value " + value + " has more than 1 decimal places allowed by Temp");
+			}
+			return result;
+		}
+	}
+	
+	public class RootDocument
+	{
+		public long P { get; set; }
+		public long[]? Ps { get; set; }
+		public double? T { get; set; }
+		
+		public static RootDocument Load(SmlElement sElement)
+		{
+			SmlLoadUtils.AssureName(sElement, "Root");
+			RootDocument element = new RootDocument();
+			SmlLoadUtils.AssureNames(sElement, new string[0], new string[] { "P", "Ps", "T" });
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "P", 1, 1))
+			{
+				element.P = ValueTypeUtils.ParsePercentType(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "Ps", 0, 1))
+			{
+				element.Ps = SmlLoadUtils.GetValues(sCurAttribute, 1, 3).Select(ValueTypeUtils.ParsePercentType).ToArray();
+			}
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "T", 0, 1))
+			{
+				element.T = ValueTypeUtils.ParseTempType(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			return element;
+		}
+		
+		public static RootDocument Parse(string content)
+		{
+			SmlDocument sDocument = SmlDocument.Parse(content);
+			return Load(sDocument.Root);
+		}
+	}
+}
\ No newline at end of file
@@ -0,0 +1,129 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode } from "./sml.js"
+
+abstract class ValueTypeUtils {
+	static checkPercentType(value: number): number {
+		if (value < 0 || value > 100) {
+			throw new Error("Value " + value + " is out of range of Percent which expects >= 0 and <= 100 percent")
+		}
+		let quotient: number = (value - 0) / 5
+		if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+			throw new Error("Value " + value + " is not a multiple of step 5 of Percent")
+		}
+		return value
+	}
+	
+	static asPercentType(sAttribute: SmlAttribute): number {
+		return ValueTypeUtils.checkPercentType(sAttribute.asInt())
+	}
+	
+	static getPercentType(sAttribute: SmlAttribute, index: number): number {
+		return ValueTypeUtils.checkPercentType(sAttribute.getInt(index))
+	}
+	
+	static asPercentTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): number[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getPercentType(sAttribute, i))
+	}
+	
+	static asNullablePercentTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (number | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getPercentType(sAttribute, i))
+	}
+	
+	static getPercentTypeString(value: number): string {
+		return ValueTypeUtils.checkPercentType(value).toString()
+	}
+	
+	static checkTempType(value: number): number {
+		if (value <= -273.15) {
+			throw new Error("Value " + value + " is out of range of Temp which expects > -273.15 °C")
+		}
+		if (Math.round(value * 10) / 10 !== value) {
+			throw new Error("Value " + value + " has more than 1 decimal places allowed by Temp")
+		}
+		return value
+	}
+	
+	static asTempType(sAttribute: SmlAttribute): number {
+		return ValueTypeUtils.checkTempType(sAttribute.asFloat())
+	}
+	
+	static getTempType(sAttribute: SmlAttribute, index: number): number {
+		return ValueTypeUtils.checkTempType(sAttribute.getFloat(index))
+	}
+	
+	static asTempTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): number[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getTempType(sAttribute, i))
+	}
+	
+	static asNullableTempTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (number | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getTempType(sAttribute, i))
+	}
+	
+	static getTempTypeString(value: number): string {
+		return ValueTypeUtils.checkTempType(value).toString()
+	}
+}
+
+export interface RootDocument {
+	p: number
+	ps: number[] | null
+	t: number | null
+}
+
+export function createRootDocument(): RootDocument {
+	return {
+		p: 0,
+		ps: null,
+		t: null
+	}
+}
+
+export function loadRootDocument(sElement: SmlElement): RootDocument {
+	sElement.assureName("Root")
+	let element: RootDocument = createRootDocument()
+	sElement.assureNoElements()
+	sElement.assureAttributeNames(["P", "Ps", "T"])
+	{
+		let sCurAttribute: SmlAttribute = sElement.requiredAttribute("P")
+		element.p = ValueTypeUtils.asPercentType(sCurAttribute)
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Ps")
+		if (sCurAttribute !== null) {
+			element.ps = ValueTypeUtils.asPercentTypeArray(sCurAttribute, 1, 3)
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("T")
+		if (sCurAttribute !== null) {
+			element.t = ValueTypeUtils.asTempType(sCurAttribute)
+		}
+	}
+	return element
+}
+
+export function serializeRootDocument(element: RootDocument): SmlElement {
+	let sElement: SmlElement = new SmlElement("Root")
+	sElement.addAttribute("P", [ValueTypeUtils.getPercentTypeString(element.p)])
+	if (element.ps !== null) {
+		sElement.addAttribute("Ps", element.ps.map((x) => ValueTypeUtils.getPercentTypeString(x)))
+	}
+	if (element.t !== null) {
+		sElement.addAttribute("T", [ValueTypeUtils.getTempTypeString(element.t)])
+	}
+	return sElement
+}
+
+export function parseRootDocument(content: string): RootDocument {
+	let sDocument: SmlDocument = SmlDocument.parse(content)
+	return loadRootDocument(sDocument.root)
+}
+
+export function toRootDocumentSmlDocument(element: RootDocument): SmlDocument {
+	return new SmlDocument(serializeRootDocument(element))
+}
+
+export function stringifyRootDocument(element: RootDocument): string {
+	return toRootDocumentSmlDocument(element).toString()
+}
\ No newline at end of file
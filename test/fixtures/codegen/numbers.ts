@@ -0,0 +1,121 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode } from "./sml.js"
+
+abstract class ValueTypeUtils {
+	static checkPercentType(value: number): number {
+		if (value < 0 || value > 100) {
+			throw new Error("Value " + value + " is out of range of Percent which expects >= 0 and <= 100 percent")
+		}
+		let quotient: number = (value - 0) / 5
+		if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+			throw new Error("Value " + value + " is not a multiple of step 5 of Percent")
+		}
+		return value
+	}
+	
+	static asPercentType(sAttribute: SmlAttribute): number {
+		return ValueTypeUtils.checkPercentType(sAttribute.asInt())
+	}
+	
+	static getPercentType(sAttribute: SmlAttribute, index: number): number {
+		return ValueTypeUtils.checkPercentType(sAttribute.getInt(index))
+	}
+	
+	static asPercentTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): number[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getPercentType(sAttribute, i))
+	}
+	
+	static asNullablePercentTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (number | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getPercentType(sAttribute, i))
+	}
+	
+	static getPercentTypeString(value: number): string {
+		return ValueTypeUtils.checkPercentType(value).toString()
+	}
+	
+	static checkTempType(value: number): number {
+		if (value <= -273.15) {
+			throw new Error("Value " + value + " is out of range of Temp which expects > -273.15 °C")
+		}
+		if (Math.round(value * 10) / 10 !== value) {
+			throw new Error("Value " + value + " has more than 1 decimal places allowed by Temp")
+		}
+		return value
+	}
+	
+	static asTempType(sAttribute: SmlAttribute): number {
+		return ValueTypeUtils.checkTempType(sAttribute.asFloat())
+	}
+	
+	static getTempType(sAttribute: SmlAttribute, index: number): number {
+		return ValueTypeUtils.checkTempType(sAttribute.getFloat(index))
+	}
+	
+	static asTempTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): number[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getTempType(sAttribute, i))
+	}
+	
+	static asNullableTempTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (number | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getTempType(sAttribute, i))
+	}
+	
+	static getTempTypeString(value: number): string {
+		return ValueTypeUtils.checkTempType(value).toString()
+	}
+}
+
+export class RootDocument {
+	p: number = 0
+	ps: number[] | null = null
+	t: number | null = null
+	
+	static load(sElement: SmlElement): RootDocument {
+		sElement.assureName("Root")
+		let element: RootDocument = new RootDocument()
+		sElement.assureNoElements()
+		sElement.assureAttributeNames(["P", "Ps", "T"])
+		{
+			let sCurAttribute: SmlAttribute = sElement.requiredAttribute("P")
+			element.p = ValueTypeUtils.asPercentType(sCurAttribute)
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Ps")
+			if (sCurAttribute !== null) {
+				element.ps = ValueTypeUtils.asPercentTypeArray(sCurAttribute, 1, 3)
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("T")
+			if (sCurAttribute !== null) {
+				element.t = ValueTypeUtils.asTempType(sCurAttribute)
+			}
+		}
+		return element
+	}
+	
+	serialize(): SmlElement {
+		let sElement: SmlElement = new SmlElement("Root")
+		sElement.addAttribute("P", [ValueTypeUtils.getPercentTypeString(this.p)])
+		if (this.ps !== null) {
+			sElement.addAttribute("Ps", this.ps.map((x) => ValueTypeUtils.getPercentTypeString(x)))
+		}
+		if (this.t !== null) {
+			sElement.addAttribute("T", [ValueTypeUtils.getTempTypeString(this.t)])
+		}
+		return sElement
+	}
+	
+	static parse(content: string): RootDocument {
+		let sDocument: SmlDocument = SmlDocument.parse(content)
+		return RootDocument.load(sDocument.root)
+	}
+	
+	toDocument(): SmlDocument {
+		return new SmlDocument(this.serialize())
+	}
+	
+	toString(): string {
+		return this.toDocument().toString()
+	}
+}
\ No newline at end of file
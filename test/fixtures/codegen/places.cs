@@ -0,0 +1,351 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Globalization;
+using System.Linq;
+using System.Text.RegularExpressions;
+using Stenway.Sml;
+
+namespace Generated
+{
+	public class SmlLoadException : Exception
+	{
+		public SmlLoadException(string message) : base(message)
+		{
+		}
+	}
+	
+	internal static class SmlLoadUtils
+	{
+		public static bool HasName(string name, string expectedName)
+		{
+			return string.Equals(name, expectedName, StringComparison.OrdinalIgnoreCase);
+		}
+		
+		public static bool IsElement(SmlNode node, string name)
+		{
+			return node is SmlElement && HasName(((SmlElement)node).Name, name);
+		}
+		
+		public static bool IsAttribute(SmlNode node, string name)
+		{
+			return node is SmlAttribute && HasName(((SmlAttribute)node).Name, name);
+		}
+		
+		public static bool IsChoiceNode(SmlNode node, string[] elementNames, string[] attributeNames)
+		{
+			return elementNames.Any((x) => IsElement(node, x)) || attributeNames.Any((x) => IsAttribute(node, x));
+		}
+		
+		public static void AssureName(SmlElement sElement, string name)
+		{
+			if (!HasName(sElement.Name, name))
+			{
+				throw new SmlLoadException("Element with name \"" + name + "\" expected but found \"" + sElement.Name + "\"");
+			}
+		}
+		
+		public static void AssureNames(SmlElement sElement, string[] elementNames, string[] attributeNames)
+		{
+			foreach (SmlNode node in sElement.Nodes)
+			{
+				if (node is SmlElement && !elementNames.Any((x) => IsElement(node, x)))
+				{
+					throw new SmlLoadException("Element \"" + sElement.Name + "\" contains the unexpected element \"" + ((SmlElement)node).Name + "\"");
+				}
+				else if (node is SmlAttribute && !attributeNames.Any((x) => IsAttribute(node, x)))
+				{
+					throw new SmlLoadException("Element \"" + sElement.Name + "\" contains the unexpected attribute \"" + ((SmlAttribute)node).Name + "\"");
+				}
+			}
+		}
+		
+		public static void AssureCount(SmlElement sElement, int count, int min, int? max, string description)
+		{
+			if (count < min || (max != null && count > max))
+			{
+				throw new SmlLoadException("Element \"" + sElement.Name + "\" must contain " + min + ".." + (max == null ? "N" : max.ToString()) + " " + description + " but has " + count);
+			}
+		}
+		
+		public static List<SmlElement> Elements(SmlElement sElement, string name, int min, int? max)
+		{
+			List<SmlElement> result = sElement.Nodes.Where((x) => IsElement(x, name)).Cast<SmlElement>().ToList();
+			AssureCount(sElement, result.Count, min, max, "elements \"" + name + "\"");
+			return result;
+		}
+		
+		public static List<SmlAttribute> Attributes(SmlElement sElement, string name, int min, int? max)
+		{
+			List<SmlAttribute> result = sElement.Nodes.Where((x) => IsAttribute(x, name)).Cast<SmlAttribute>().ToList();
+			AssureCount(sElement, result.Count, min, max, "attributes \"" + name + "\"");
+			return result;
+		}
+		
+		public static List<SmlNode> ChoiceNodes(SmlElement sElement, string[] elementNames, string[] attributeNames, int min, int? max)
+		{
+			List<SmlNode> result = sElement.Nodes.Where((x) => IsChoiceNode(x, elementNames, attributeNames)).ToList();
+			AssureCount(sElement, result.Count, min, max, "nodes of the choice " + string.Join(", ", elementNames.Concat(attributeNames)));
+			return result;
+		}
+		
+		public static void AssureValueCount(SmlAttribute sAttribute, int min, int? max)
+		{
+			int count = sAttribute.Values.Length;
+			if (count < min || (max != null && count > max))
+			{
+				throw new SmlLoadException("Attribute \"" + sAttribute.Name + "\" must have " + min + ".." + (max == null ? "N" : max.ToString()) + " values but has " + count);
+			}
+		}
+		
+		public static bool IsNullValue(SmlAttribute sAttribute)
+		{
+			return sAttribute.Values.Length == 1 && sAttribute.Values[0] == null;
+		}
+		
+		public static string NotNull(string? value)
+		{
+			if (value == null)
+			{
+				throw new SmlLoadException("Value must not be null");
+			}
+			return value;
+		}
+		
+		public static string GetValue(SmlAttribute sAttribute)
+		{
+			AssureValueCount(sAttribute, 1, 1);
+			return NotNull(sAttribute.Values[0]);
+		}
+		
+		public static string? GetNullableValue(SmlAttribute sAttribute)
+		{
+			AssureValueCount(sAttribute, 1, 1);
+			return sAttribute.Values[0];
+		}
+		
+		public static string[] GetValues(SmlAttribute sAttribute, int min, int? max)
+		{
+			AssureValueCount(sAttribute, min, max);
+			return sAttribute.Values.Select((x) => NotNull(x)).ToArray();
+		}
+		
+		public static string?[] GetNullableValues(SmlAttribute sAttribute, int min, int? max)
+		{
+			AssureValueCount(sAttribute, min, max);
+			return sAttribute.Values;
+		}
+		
+		public static T? ParseNullableValue<T>(string? value, Func<string, T> parse) where T : struct
+		{
+			return value == null ? null : parse(value);
+		}
+		
+		public static T? ParseNullableObject<T>(string? value, Func<string, T> parse) where T : class
+		{
+			return value == null ? null : parse(value);
+		}
+		
+		public static bool ParseBool(string value)
+		{
+			if (HasName(value, "true"))
+			{
+				return true;
+			}
+			else if (HasName(value, "false"))
+			{
+				return false;
+			}
+			throw new SmlLoadException("Value \"" + value + "\" is not a valid Bool");
+		}
+		
+		public static long ParseInt(string value)
+		{
+			long result;
+			if (!Regex.IsMatch(value, "^[-+]?[0-9]+$") || !long.TryParse(value, NumberStyles.AllowLeadingSign, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Int");
+			}
+			return result;
+		}
+		
+		public static long ParseUInt(string value)
+		{
+			long result;
+			if (!Regex.IsMatch(value, "^[+]?[0-9]+$") || !long.TryParse(value, NumberStyles.AllowLeadingSign, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid UInt");
+			}
+			return result;
+		}
+		
+		public static double ParseNumber(string value)
+		{
+			double result;
+			if (!Regex.IsMatch(value, "^[-+]?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?$") || !double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Number");
+			}
+			return result;
+		}
+		
+		public static DateTime ParseDate(string value)
+		{
+			DateTime result;
+			if (!DateTime.TryParseExact(value, "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Date");
+			}
+			return result;
+		}
+		
+		public static TimeSpan ParseTime(string value)
+		{
+			TimeSpan result;
+			if (!TimeSpan.TryParseExact(value, new string[] { @"hh\:mm", @"hh\:mm\:ss", @"hh\:mm\:ss\.FFFFFFF" }, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Time");
+			}
+			return result;
+		}
+		
+		public static DateTimeOffset ParseDateTime(string value)
+		{
+			DateTimeOffset result;
+			if (!DateTimeOffset.TryParse(value, CultureInfo.InvariantCulture, DateTimeStyles.AssumeUniversal, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid DateTime");
+			}
+			return result;
+		}
+		
+		public static byte[] ParseBase64(string value)
+		{
+			try
+			{
+				return Convert.FromBase64String(value);
+			}
+			catch (FormatException)
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Base64 string");
+			}
+		}
+	}
+	
+	public static class ValueTypeUtils
+	{
+		public static string ParseZipType(string value)
+		{
+			int length = value.Length - value.Count((c) => char.IsLowSurrogate(c));
+			if (length < 5 || length > 5)
+			{
+				throw new SmlLoadException("Value \"" + value + "\" has a length of " + length + " but Zip expects 5");
+			}
+			if (!Regex.IsMatch(value, "^(?:[0-9]+)$"))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" does not match the pattern of Zip");
+			}
+			return value;
+		}
+		
+		public static string ParseLabelType(string value)
+		{
+			int length = value.Length - value.Count((c) => char.IsLowSurrogate(c));
+			if (length > 20)
+			{
+				throw new SmlLoadException("Value \"" + value + "\" has a length of " + length + " but Label expects 0..20");
+			}
+			if (!Regex.IsMatch(value, "^[\\p{L}\\p{M}\\s]*$"))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" contains characters not allowed by Label");
+			}
+			if (value != value.Trim())
+			{
+				throw new SmlLoadException("Value \"" + value + "\" has leading or trailing whitespace not allowed by Label");
+			}
+			if (Regex.IsMatch(value, @"\s\s"))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" has consecutive whitespace not allowed by Label");
+			}
+			return value;
+		}
+	}
+	
+	public class PlaceStruct
+	{
+		public string Z { get; set; } = "";
+		public string? L { get; set; }
+		
+		public static PlaceStruct Load(SmlAttribute sAttribute)
+		{
+			SmlLoadUtils.AssureValueCount(sAttribute, 1, 2);
+			return LoadValues(sAttribute.Values, 0, sAttribute.Values.Length);
+		}
+		
+		public static PlaceStruct[] LoadArray(SmlAttribute sAttribute, int min, int? max)
+		{
+			if (sAttribute.Values.Length % 2 != 0)
+			{
+				throw new SmlLoadException("Value count of attribute \"" + sAttribute.Name + "\" is not a multiple of 2");
+			}
+			int count = sAttribute.Values.Length / 2;
+			if (count < min || (max != null && count > max))
+			{
+				throw new SmlLoadException("Attribute \"" + sAttribute.Name + "\" has " + count + " array items but expected " + min + ".." + (max == null ? "N" : max.ToString()));
+			}
+			PlaceStruct[] structs = new PlaceStruct[count];
+			for (int i=0; i<count; i++)
+			{
+				structs[i] = LoadValues(sAttribute.Values, i*2, 2);
+			}
+			return structs;
+		}
+		
+		public static PlaceStruct LoadValues(string?[] values, int index, int count)
+		{
+			PlaceStruct result = new PlaceStruct();
+			result.Z = ValueTypeUtils.ParseZipType(SmlLoadUtils.NotNull(values[index+0]));
+			if (count > 1)
+			{
+				result.L = SmlLoadUtils.ParseNullableObject(values[index+1], ValueTypeUtils.ParseLabelType);
+			}
+			return result;
+		}
+	}
+	
+	public class RootDocument
+	{
+		public string Z { get; set; } = "";
+		public string[]? Ls { get; set; }
+		public PlaceStruct? P { get; set; }
+		
+		public static RootDocument Load(SmlElement sElement)
+		{
+			SmlLoadUtils.AssureName(sElement, "Root");
+			RootDocument element = new RootDocument();
+			SmlLoadUtils.AssureNames(sElement, new string[0], new string[] { "Z", "Ls", "P" });
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "Z", 1, 1))
+			{
+				element.Z = ValueTypeUtils.ParseZipType(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "Ls", 0, 1))
+			{
+				element.Ls = SmlLoadUtils.GetValues(sCurAttribute, 1, 3).Select(ValueTypeUtils.ParseLabelType).ToArray();
+			}
+			foreach (SmlAttribute sCurAttribute in SmlLoadUtils.Attributes(sElement, "P", 0, 1))
+			{
+				element.P = PlaceStruct.Load(sCurAttribute);
+			}
+			return element;
+		}
+		
+		public static RootDocument Parse(string content)
+		{
+			SmlDocument sDocument = SmlDocument.Parse(content);
+			return Load(sDocument.Root);
+		}
+	}
+}
\ No newline at end of file
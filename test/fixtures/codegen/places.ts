@@ -0,0 +1,180 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode } from "./sml.js"
+
+abstract class ValueTypeUtils {
+	static checkZipType(value: string): string {
+		let length: number = [...value].length
+		if (length < 5 || length > 5) {
+			throw new Error("Value \"" + value + "\" has a length of " + length + " but Zip expects 5")
+		}
+		if (!new RegExp("^(?:[0-9]+)$", "u").test(value)) {
+			throw new Error("Value \"" + value + "\" does not match the pattern of Zip")
+		}
+		return value
+	}
+	
+	static asZipType(sAttribute: SmlAttribute): string {
+		return ValueTypeUtils.checkZipType(sAttribute.asString())
+	}
+	
+	static getZipType(sAttribute: SmlAttribute, index: number): string {
+		return ValueTypeUtils.checkZipType(sAttribute.getString(index))
+	}
+	
+	static asZipTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): string[] {
+		return sAttribute.asStringArray(min, max).map((x) => ValueTypeUtils.checkZipType(x))
+	}
+	
+	static asNullableZipTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (string | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x) => x === null ? null : ValueTypeUtils.checkZipType(x))
+	}
+	
+	static getZipTypeString(value: string): string {
+		return ValueTypeUtils.checkZipType(value)
+	}
+	
+	static checkLabelType(value: string): string {
+		let length: number = [...value].length
+		if (length > 20) {
+			throw new Error("Value \"" + value + "\" has a length of " + length + " but Label expects 0..20")
+		}
+		if (!new RegExp("^[\\p{L}\\p{M}\\s]*$", "u").test(value)) {
+			throw new Error("Value \"" + value + "\" contains characters not allowed by Label")
+		}
+		if (value !== value.trim()) {
+			throw new Error("Value \"" + value + "\" has leading or trailing whitespace not allowed by Label")
+		}
+		if (/\s\s/u.test(value)) {
+			throw new Error("Value \"" + value + "\" has consecutive whitespace not allowed by Label")
+		}
+		return value
+	}
+	
+	static asLabelType(sAttribute: SmlAttribute): string {
+		return ValueTypeUtils.checkLabelType(sAttribute.asString())
+	}
+	
+	static getLabelType(sAttribute: SmlAttribute, index: number): string {
+		return ValueTypeUtils.checkLabelType(sAttribute.getString(index))
+	}
+	
+	static asLabelTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): string[] {
+		return sAttribute.asStringArray(min, max).map((x) => ValueTypeUtils.checkLabelType(x))
+	}
+	
+	static asNullableLabelTypeArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (string | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x) => x === null ? null : ValueTypeUtils.checkLabelType(x))
+	}
+	
+	static getLabelTypeString(value: string): string {
+		return ValueTypeUtils.checkLabelType(value)
+	}
+}
+
+export class PlaceStruct {
+	z: string = ""
+	l: string | null = null
+	
+	static load(sAttribute: SmlAttribute): PlaceStruct {
+		sAttribute.assureValueCountMinMax(1, 2)
+		return PlaceStruct.loadValues(sAttribute, 0, sAttribute.valueCount)
+	}
+	
+	static loadArray(sAttribute: SmlAttribute, min: number, max: number | null): PlaceStruct[] {
+		if (sAttribute.valueCount % 2 !== 0) {
+			throw new Error(`Value count of attribute "${sAttribute.name}" is not a multiple of 2`)
+		}
+		let count: number = sAttribute.valueCount / 2
+		if (count < min || (max !== null && count > max)) {
+			throw new Error(`Attribute "${sAttribute.name}" has ${count} array items but expected ${min}..${max === null ? "N" : max}`)
+		}
+		let structs: PlaceStruct[] = []
+		for (let i=0; i<count; i++) {
+			structs.push(PlaceStruct.loadValues(sAttribute, i*2, 2))
+		}
+		return structs
+	}
+	
+	static loadValues(sAttribute: SmlAttribute, index: number, count: number): PlaceStruct {
+		let struct: PlaceStruct = new PlaceStruct()
+		struct.z = ValueTypeUtils.getZipType(sAttribute, index+0)
+		if (count > 1) {
+			struct.l = (sAttribute.values[index+1] === null ? null : ValueTypeUtils.getLabelType(sAttribute, index+1))
+		}
+		return struct
+	}
+	
+	toValues(): (string | null)[] {
+		let values: (string | null)[] = []
+		values.push(ValueTypeUtils.getZipTypeString(this.z))
+		if (this.l === null) {
+			return values
+		}
+		values.push(ValueTypeUtils.getLabelTypeString(this.l))
+		return values
+	}
+	
+	static arrayToValues(structs: PlaceStruct[]): (string | null)[] {
+		let values: (string | null)[] = []
+		for (let struct of structs) {
+			values.push(...struct.toValues())
+		}
+		return values
+	}
+}
+
+export class RootDocument {
+	z: string = ""
+	ls: string[] | null = null
+	p: PlaceStruct | null = null
+	
+	static load(sElement: SmlElement): RootDocument {
+		sElement.assureName("Root")
+		let element: RootDocument = new RootDocument()
+		sElement.assureNoElements()
+		sElement.assureAttributeNames(["Z", "Ls", "P"])
+		{
+			let sCurAttribute: SmlAttribute = sElement.requiredAttribute("Z")
+			element.z = ValueTypeUtils.asZipType(sCurAttribute)
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("Ls")
+			if (sCurAttribute !== null) {
+				element.ls = ValueTypeUtils.asLabelTypeArray(sCurAttribute, 1, 3)
+			}
+		}
+		{
+			let sCurAttribute: SmlAttribute | null = sElement.optionalAttribute("P")
+			if (sCurAttribute !== null) {
+				element.p = PlaceStruct.load(sCurAttribute)
+			}
+		}
+		return element
+	}
+	
+	serialize(): SmlElement {
+		let sElement: SmlElement = new SmlElement("Root")
+		sElement.addAttribute("Z", [ValueTypeUtils.getZipTypeString(this.z)])
+		if (this.ls !== null) {
+			sElement.addAttribute("Ls", this.ls.map((x) => ValueTypeUtils.getLabelTypeString(x)))
+		}
+		if (this.p !== null) {
+			sElement.addAttribute("P", this.p.toValues())
+		}
+		return sElement
+	}
+	
+	static parse(content: string): RootDocument {
+		let sDocument: SmlDocument = SmlDocument.parse(content)
+		return RootDocument.load(sDocument.root)
+	}
+	
+	toDocument(): SmlDocument {
+		return new SmlDocument(this.serialize())
+	}
+	
+	toString(): string {
+		return this.toDocument().toString()
+	}
+}
\ No newline at end of file
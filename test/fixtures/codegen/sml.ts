@@ -0,0 +1,3 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+export * from "@stenway/sml"
@@ -0,0 +1,81 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode } from "./sml.js"
+
+abstract class ValueTypeUtils {
+}
+
+export interface TableDocument {
+	rowList: (RowElement)[]
+}
+
+export function createTableDocument(): TableDocument {
+	return {
+		rowList: []
+	}
+}
+
+export function loadTableDocument(sElement: SmlElement): TableDocument {
+	sElement.assureName("Table")
+	let element: TableDocument = createTableDocument()
+	sElement.assureElementNames(["Row"])
+	sElement.assureNoAttributes()
+	{
+		for (let sCurElement of sElement.elements("Row")) {
+			element.rowList.push(loadRowElement(sCurElement))
+		}
+	}
+	return element
+}
+
+export function serializeTableDocument(element: TableDocument): SmlElement {
+	let sElement: SmlElement = new SmlElement("Table")
+	for (let item of element.rowList) {
+		sElement.nodes.push(serializeRowElement(item))
+	}
+	return sElement
+}
+
+export function parseTableDocument(content: string): TableDocument {
+	let sDocument: SmlDocument = SmlDocument.parse(content)
+	return loadTableDocument(sDocument.root)
+}
+
+export function toTableDocumentSmlDocument(element: TableDocument): SmlDocument {
+	return new SmlDocument(serializeTableDocument(element))
+}
+
+export function stringifyTableDocument(element: TableDocument): string {
+	return toTableDocumentSmlDocument(element).toString()
+}
+
+export interface RowElement {
+	cellList: (string | null)[]
+}
+
+export function createRowElement(): RowElement {
+	return {
+		cellList: []
+	}
+}
+
+export function loadRowElement(sElement: SmlElement): RowElement {
+	sElement.assureName("Row")
+	let element: RowElement = createRowElement()
+	sElement.assureNoElements()
+	sElement.assureAttributeNames(["Cell"])
+	{
+		for (let sCurAttribute of sElement.oneOrMoreAttributes("Cell")) {
+			element.cellList.push((sCurAttribute.isNullValue() ? null : sCurAttribute.asString()))
+		}
+	}
+	return element
+}
+
+export function serializeRowElement(element: RowElement): SmlElement {
+	let sElement: SmlElement = new SmlElement("Row")
+	for (let item of element.cellList) {
+		sElement.addAttribute("Cell", item === null ? [null] : [item])
+	}
+	return sElement
+}
\ No newline at end of file
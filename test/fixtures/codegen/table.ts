@@ -0,0 +1,69 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode } from "./sml.js"
+
+abstract class ValueTypeUtils {
+}
+
+export class TableDocument {
+	rowList: (RowElement)[] = []
+	
+	static load(sElement: SmlElement): TableDocument {
+		sElement.assureName("Table")
+		let element: TableDocument = new TableDocument()
+		sElement.assureElementNames(["Row"])
+		sElement.assureNoAttributes()
+		{
+			for (let sCurElement of sElement.elements("Row")) {
+				element.rowList.push(RowElement.load(sCurElement))
+			}
+		}
+		return element
+	}
+	
+	serialize(): SmlElement {
+		let sElement: SmlElement = new SmlElement("Table")
+		for (let item of this.rowList) {
+			sElement.nodes.push(item.serialize())
+		}
+		return sElement
+	}
+	
+	static parse(content: string): TableDocument {
+		let sDocument: SmlDocument = SmlDocument.parse(content)
+		return TableDocument.load(sDocument.root)
+	}
+	
+	toDocument(): SmlDocument {
+		return new SmlDocument(this.serialize())
+	}
+	
+	toString(): string {
+		return this.toDocument().toString()
+	}
+}
+
+export class RowElement {
+	cellList: (string | null)[] = []
+	
+	static load(sElement: SmlElement): RowElement {
+		sElement.assureName("Row")
+		let element: RowElement = new RowElement()
+		sElement.assureNoElements()
+		sElement.assureAttributeNames(["Cell"])
+		{
+			for (let sCurAttribute of sElement.oneOrMoreAttributes("Cell")) {
+				element.cellList.push((sCurAttribute.isNullValue() ? null : sCurAttribute.asString()))
+			}
+		}
+		return element
+	}
+	
+	serialize(): SmlElement {
+		let sElement: SmlElement = new SmlElement("Row")
+		for (let item of this.cellList) {
+			sElement.addAttribute("Cell", item === null ? [null] : [item])
+		}
+		return sElement
+	}
+}
\ No newline at end of file
@@ -0,0 +1,489 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+#nullable enable
+
+using System;
+using System.Collections.Generic;
+using System.Globalization;
+using System.Linq;
+using System.Text.RegularExpressions;
+using Stenway.Sml;
+
+namespace Generated
+{
+	public class SmlLoadException : Exception
+	{
+		public SmlLoadException(string message) : base(message)
+		{
+		}
+	}
+	
+	internal static class SmlLoadUtils
+	{
+		public static bool HasName(string name, string expectedName)
+		{
+			return string.Equals(name, expectedName, StringComparison.OrdinalIgnoreCase);
+		}
+		
+		public static bool IsElement(SmlNode node, string name)
+		{
+			return node is SmlElement && HasName(((SmlElement)node).Name, name);
+		}
+		
+		public static bool IsAttribute(SmlNode node, string name)
+		{
+			return node is SmlAttribute && HasName(((SmlAttribute)node).Name, name);
+		}
+		
+		public static bool IsChoiceNode(SmlNode node, string[] elementNames, string[] attributeNames)
+		{
+			return elementNames.Any((x) => IsElement(node, x)) || attributeNames.Any((x) => IsAttribute(node, x));
+		}
+		
+		public static void AssureName(SmlElement sElement, string name)
+		{
+			if (!HasName(sElement.Name, name))
+			{
+				throw new SmlLoadException("Element with name \"" + name + "\" expected but found \"" + sElement.Name + "\"");
+			}
+		}
+		
+		public static void AssureNames(SmlElement sElement, string[] elementNames, string[] attributeNames)
+		{
+			foreach (SmlNode node in sElement.Nodes)
+			{
+				if (node is SmlElement && !elementNames.Any((x) => IsElement(node, x)))
+				{
+					throw new SmlLoadException("Element \"" + sElement.Name + "\" contains the unexpected element \"" + ((SmlElement)node).Name + "\"");
+				}
+				else if (node is SmlAttribute && !attributeNames.Any((x) => IsAttribute(node, x)))
+				{
+					throw new SmlLoadException("Element \"" + sElement.Name + "\" contains the unexpected attribute \"" + ((SmlAttribute)node).Name + "\"");
+				}
+			}
+		}
+		
+		public static void AssureCount(SmlElement sElement, int count, int min, int? max, string description)
+		{
+			if (count < min || (max != null && count > max))
+			{
+				throw new SmlLoadException("Element \"" + sElement.Name + "\" must contain " + min + ".." + (max == null ? "N" : max.ToString()) + " " + description + " but has " + count);
+			}
+		}
+		
+		public static List<SmlElement> Elements(SmlElement sElement, string name, int min, int? max)
+		{
+			List<SmlElement> result = sElement.Nodes.Where((x) => IsElement(x, name)).Cast<SmlElement>().ToList();
+			AssureCount(sElement, result.Count, min, max, "elements \"" + name + "\"");
+			return result;
+		}
+		
+		public static List<SmlAttribute> Attributes(SmlElement sElement, string name, int min, int? max)
+		{
+			List<SmlAttribute> result = sElement.Nodes.Where((x) => IsAttribute(x, name)).Cast<SmlAttribute>().ToList();
+			AssureCount(sElement, result.Count, min, max, "attributes \"" + name + "\"");
+			return result;
+		}
+		
+		public static List<SmlNode> ChoiceNodes(SmlElement sElement, string[] elementNames, string[] attributeNames, int min, int? max)
+		{
+			List<SmlNode> result = sElement.Nodes.Where((x) => IsChoiceNode(x, elementNames, attributeNames)).ToList();
+			AssureCount(sElement, result.Count, min, max, "nodes of the choice " + string.Join(", ", elementNames.Concat(attributeNames)));
+			return result;
+		}
+		
+		public static void AssureValueCount(SmlAttribute sAttribute, int min, int? max)
+		{
+			int count = sAttribute.Values.Length;
+			if (count < min || (max != null && count > max))
+			{
+				throw new SmlLoadException("Attribute \"" + sAttribute.Name + "\" must have " + min + ".." + (max == null ? "N" : max.ToString()) + " values but has " + count);
+			}
+		}
+		
+		public static bool IsNullValue(SmlAttribute sAttribute)
+		{
+			return sAttribute.Values.Length == 1 && sAttribute.Values[0] == null;
+		}
+		
+		public static string NotNull(string? value)
+		{
+			if (value == null)
+			{
+				throw new SmlLoadException("Value must not be null");
+			}
+			return value;
+		}
+		
+		public static string GetValue(SmlAttribute sAttribute)
+		{
+			AssureValueCount(sAttribute, 1, 1);
+			return NotNull(sAttribute.Values[0]);
+		}
+		
+		public static string? GetNullableValue(SmlAttribute sAttribute)
+		{
+			AssureValueCount(sAttribute, 1, 1);
+			return sAttribute.Values[0];
+		}
+		
+		public static string[] GetValues(SmlAttribute sAttribute, int min, int? max)
+		{
+			AssureValueCount(sAttribute, min, max);
+			return sAttribute.Values.Select((x) => NotNull(x)).ToArray();
+		}
+		
+		public static string?[] GetNullableValues(SmlAttribute sAttribute, int min, int? max)
+		{
+			AssureValueCount(sAttribute, min, max);
+			return sAttribute.Values;
+		}
+		
+		public static T? ParseNullableValue<T>(string? value, Func<string, T> parse) where T : struct
+		{
+			return value == null ? null : parse(value);
+		}
+		
+		public static T? ParseNullableObject<T>(string? value, Func<string, T> parse) where T : class
+		{
+			return value == null ? null : parse(value);
+		}
+		
+		public static bool ParseBool(string value)
+		{
+			if (HasName(value, "true"))
+			{
+				return true;
+			}
+			else if (HasName(value, "false"))
+			{
+				return false;
+			}
+			throw new SmlLoadException("Value \"" + value + "\" is not a valid Bool");
+		}
+		
+		public static long ParseInt(string value)
+		{
+			long result;
+			if (!Regex.IsMatch(value, "^[-+]?[0-9]+$") || !long.TryParse(value, NumberStyles.AllowLeadingSign, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Int");
+			}
+			return result;
+		}
+		
+		public static long ParseUInt(string value)
+		{
+			long result;
+			if (!Regex.IsMatch(value, "^[+]?[0-9]+$") || !long.TryParse(value, NumberStyles.AllowLeadingSign, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid UInt");
+			}
+			return result;
+		}
+		
+		public static double ParseNumber(string value)
+		{
+			double result;
+			if (!Regex.IsMatch(value, "^[-+]?[0-9]+(\\.[0-9]+)?([eE][-+]?[0-9]+)?$") || !double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Number");
+			}
+			return result;
+		}
+		
+		public static DateTime ParseDate(string value)
+		{
+			DateTime result;
+			if (!DateTime.TryParseExact(value, "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Date");
+			}
+			return result;
+		}
+		
+		public static TimeSpan ParseTime(string value)
+		{
+			TimeSpan result;
+			if (!TimeSpan.TryParseExact(value, new string[] { @"hh\:mm", @"hh\:mm\:ss", @"hh\:mm\:ss\.FFFFFFF" }, CultureInfo.InvariantCulture, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Time");
+			}
+			return result;
+		}
+		
+		public static DateTimeOffset ParseDateTime(string value)
+		{
+			DateTimeOffset result;
+			if (!DateTimeOffset.TryParse(value, CultureInfo.InvariantCulture, DateTimeStyles.AssumeUniversal, out result))
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid DateTime");
+			}
+			return result;
+		}
+		
+		public static byte[] ParseBase64(string value)
+		{
+			try
+			{
+				return Convert.FromBase64String(value);
+			}
+			catch (FormatException)
+			{
+				throw new SmlLoadException("Value \"" + value + "\" is not a valid Base64 string");
+			}
+		}
+	}
+	
+	public static class ValueTypeUtils
+	{
+		public static ModeEnum ParseModeEnum(string value)
+		{
+			if (SmlLoadUtils.HasName(value, "fast"))
+			{
+				return ModeEnum.Fast;
+			}
+			if (SmlLoadUtils.HasName(value, "slow"))
+			{
+				return ModeEnum.Slow;
+			}
+			throw new SmlLoadException("Value \"" + value + "\" is not one of fast, slow");
+		}
+	}
+	
+	public enum ModeEnum
+	{
+		Fast,
+		Slow
+	}
+	
+	public class DocDocument
+	{
+		public bool B { get; set; }
+		public long I { get; set; }
+		public long U { get; set; } = 7;
+		public double N { get; set; } = 2.0;
+		public string S { get; set; } = "a b";
+		public DateTime? D { get; set; }
+		public TimeSpan? T { get; set; }
+		public DateTimeOffset? DT { get; set; }
+		public byte[]? Bin { get; set; }
+		public double?[]? Ns { get; set; }
+		public DateTime[]? Ds { get; set; }
+		public ModeEnum[] Ms { get; set; } = new ModeEnum[] { ModeEnum.Slow, ModeEnum.Fast };
+		public List<string?[]> StrsList { get; set; } = new List<string?[]>();
+		public List<FlagOrNoteChoice> FlagOrNoteList { get; set; } = new List<FlagOrNoteChoice>();
+		public List<ItemElement> ItemList { get; set; } = new List<ItemElement>();
+		public ItemOrModeChoice ItemOrMode { get; set; } = new ItemOrModeChoiceItem(new ItemElement());
+		
+		public static DocDocument Load(SmlElement sElement)
+		{
+			SmlLoadUtils.AssureName(sElement, "Doc");
+			DocDocument element = new DocDocument();
+			SmlNodeReader reader = new SmlNodeReader(sElement);
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("B", 1, 1))
+			{
+				element.B = SmlLoadUtils.ParseBool(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("I", 1, 1))
+			{
+				element.I = SmlLoadUtils.ParseInt(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("U", 0, 1))
+			{
+				element.U = SmlLoadUtils.ParseUInt(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("N", 0, 1))
+			{
+				element.N = SmlLoadUtils.ParseNumber(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("S", 0, 1))
+			{
+				element.S = SmlLoadUtils.GetValue(sCurAttribute);
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("D", 0, 1))
+			{
+				element.D = SmlLoadUtils.ParseDate(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("T", 0, 1))
+			{
+				element.T = SmlLoadUtils.ParseTime(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("DT", 0, 1))
+			{
+				element.DT = SmlLoadUtils.ParseDateTime(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("Bin", 0, 1))
+			{
+				element.Bin = SmlLoadUtils.ParseBase64(SmlLoadUtils.GetValue(sCurAttribute));
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("Ns", 0, 1))
+			{
+				element.Ns = SmlLoadUtils.GetNullableValues(sCurAttribute, 0, null).Select((x) => SmlLoadUtils.ParseNullableValue(x, SmlLoadUtils.ParseNumber)).ToArray();
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("Ds", 0, 1))
+			{
+				element.Ds = (SmlLoadUtils.IsNullValue(sCurAttribute) ? null : SmlLoadUtils.GetValues(sCurAttribute, 1, null).Select(SmlLoadUtils.ParseDate).ToArray());
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("Ms", 0, 1))
+			{
+				element.Ms = SmlLoadUtils.GetValues(sCurAttribute, 1, null).Select(ValueTypeUtils.ParseModeEnum).ToArray();
+			}
+			foreach (SmlAttribute sCurAttribute in reader.Attributes("Strs", 0, null))
+			{
+				element.StrsList.Add(SmlLoadUtils.GetNullableValues(sCurAttribute, 2, 3));
+			}
+			foreach (SmlNode sCurNode in reader.ChoiceNodes(new string[0], new string[] { "Flag", "Note" }, 0, null))
+			{
+				if (SmlLoadUtils.IsAttribute(sCurNode, "Flag"))
+				{
+					SmlAttribute sCurAttribute = (SmlAttribute)sCurNode;
+					element.FlagOrNoteList.Add(new FlagOrNoteChoiceFlag(SmlLoadUtils.ParseBool(SmlLoadUtils.GetValue(sCurAttribute))));
+				}
+				else if (SmlLoadUtils.IsAttribute(sCurNode, "Note"))
+				{
+					SmlAttribute sCurAttribute = (SmlAttribute)sCurNode;
+					element.FlagOrNoteList.Add(new FlagOrNoteChoiceNote(SmlLoadUtils.GetNullableValue(sCurAttribute)));
+				}
+			}
+			foreach (SmlElement sCurElement in reader.Elements("Item", 1, null))
+			{
+				element.ItemList.Add(ItemElement.Load(sCurElement));
+			}
+			foreach (SmlNode sCurNode in reader.ChoiceNodes(new string[] { "Item" }, new string[] { "Mode" }, 1, 1))
+			{
+				if (SmlLoadUtils.IsElement(sCurNode, "Item"))
+				{
+					element.ItemOrMode = new ItemOrModeChoiceItem(ItemElement.Load((SmlElement)sCurNode));
+				}
+				else if (SmlLoadUtils.IsAttribute(sCurNode, "Mode"))
+				{
+					SmlAttribute sCurAttribute = (SmlAttribute)sCurNode;
+					element.ItemOrMode = new ItemOrModeChoiceMode(ValueTypeUtils.ParseModeEnum(SmlLoadUtils.GetValue(sCurAttribute)));
+				}
+			}
+			reader.AssureEnd();
+			return element;
+		}
+		
+		public static DocDocument Parse(string content)
+		{
+			SmlDocument sDocument = SmlDocument.Parse(content);
+			return Load(sDocument.Root);
+		}
+	}
+	
+	internal class SmlNodeReader
+	{
+		private readonly SmlElement element;
+		private readonly List<SmlNode> nodes;
+		private int index = 0;
+		
+		public SmlNodeReader(SmlElement element)
+		{
+			this.element = element;
+			nodes = element.Nodes.Where((x) => x is SmlElement || x is SmlAttribute).ToList();
+		}
+		
+		private List<SmlNode> Nodes(Func<SmlNode, bool> isMatch, int min, int? max, string description)
+		{
+			List<SmlNode> result = new List<SmlNode>();
+			while (index < nodes.Count && (max == null || result.Count < max) && isMatch(nodes[index]))
+			{
+				result.Add(nodes[index]);
+				index++;
+			}
+			if (result.Count < min)
+			{
+				throw new SmlLoadException("Element \"" + element.Name + "\" must contain " + min + ".." + (max == null ? "N" : max.ToString()) + " " + description + " at this position but has " + result.Count);
+			}
+			return result;
+		}
+		
+		public IEnumerable<SmlElement> Elements(string name, int min, int? max)
+		{
+			return Nodes((x) => SmlLoadUtils.IsElement(x, name), min, max, "elements \"" + name + "\"").Cast<SmlElement>();
+		}
+		
+		public IEnumerable<SmlAttribute> Attributes(string name, int min, int? max)
+		{
+			return Nodes((x) => SmlLoadUtils.IsAttribute(x, name), min, max, "attributes \"" + name + "\"").Cast<SmlAttribute>();
+		}
+		
+		public IEnumerable<SmlNode> ChoiceNodes(string[] elementNames, string[] attributeNames, int min, int? max)
+		{
+			return Nodes((x) => SmlLoadUtils.IsChoiceNode(x, elementNames, attributeNames), min, max, "nodes of the choice " + string.Join(", ", elementNames.Concat(attributeNames)));
+		}
+		
+		public void AssureEnd()
+		{
+			if (index < nodes.Count)
+			{
+				SmlNode node = nodes[index];
+				string name = node is SmlElement ? ((SmlElement)node).Name : ((SmlAttribute)node).Name;
+				throw new SmlLoadException("Unexpected node \"" + name + "\" in element \"" + element.Name + "\"");
+			}
+		}
+	}
+	
+	/// <summary>Choice of "Flag", "Note"</summary>
+	public abstract class FlagOrNoteChoice
+	{
+	}
+	
+	public class FlagOrNoteChoiceFlag : FlagOrNoteChoice
+	{
+		public bool Value { get; set; }
+		
+		public FlagOrNoteChoiceFlag(bool value)
+		{
+			Value = value;
+		}
+	}
+	
+	public class FlagOrNoteChoiceNote : FlagOrNoteChoice
+	{
+		public string? Value { get; set; }
+		
+		public FlagOrNoteChoiceNote(string? value)
+		{
+			Value = value;
+		}
+	}
+	
+	/// <summary>Choice of "Item", "Mode"</summary>
+	public abstract class ItemOrModeChoice
+	{
+	}
+	
+	public class ItemOrModeChoiceItem : ItemOrModeChoice
+	{
+		public ItemElement Value { get; set; }
+		
+		public ItemOrModeChoiceItem(ItemElement value)
+		{
+			Value = value;
+		}
+	}
+	
+	public class ItemOrModeChoiceMode : ItemOrModeChoice
+	{
+		public ModeEnum Value { get; set; }
+		
+		public ItemOrModeChoiceMode(ModeEnum value)
+		{
+			Value = value;
+		}
+	}
+	
+	public class ItemElement
+	{
+		public static ItemElement Load(SmlElement sElement)
+		{
+			SmlLoadUtils.AssureName(sElement, "Item");
+			ItemElement element = new ItemElement();
+			
+			return element;
+		}
+	}
+}
\ No newline at end of file
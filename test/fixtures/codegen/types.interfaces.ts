@@ -0,0 +1,465 @@
+// This document was generated. Do not modify. Changes might be overwritten.
+
+import { SmlDocument, SmlElement, SmlAttribute, SmlNamedNode } from "./sml.js"
+
+abstract class ValueTypeUtils {
+	private static readonly base64Chars: string = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"
+	
+	static asModeEnum(sAttribute: SmlAttribute): ModeEnum {
+		return sAttribute.assureValueCount(1).getEnum(["fast", "slow"])
+	}
+	
+	static getModeEnum(sAttribute: SmlAttribute, index: number): ModeEnum {
+		return sAttribute.getEnum(["fast", "slow"], index)
+	}
+	
+	static asModeEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): ModeEnum[] {
+		return sAttribute.asStringArray(min, max).map((_, i) => ValueTypeUtils.getModeEnum(sAttribute, i))
+	}
+	
+	static asNullableModeEnumArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (ModeEnum | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : ValueTypeUtils.getModeEnum(sAttribute, i))
+	}
+	
+	static getModeEnumString(value: ModeEnum): string {
+		return ["fast", "slow"][value]
+	}
+	
+	static checkUInt(value: number): number {
+		if (value < 0) {
+			throw new Error(`Value ${value} is not a valid UInt`)
+		}
+		return value
+	}
+	
+	static parseDateTime(str: string): Date {
+		let date: Date = new Date(str)
+		if (!/^[0-9]{4}-[0-9]{2}-[0-9]{2}[T ][0-9]{2}:[0-9]{2}(:[0-9]{2}(\.[0-9]{1,3})?)?(Z|[-+][0-9]{2}:[0-9]{2})?$/.test(str) || isNaN(date.getTime())) {
+			throw new Error(`Invalid date time "${str}"`)
+		}
+		return date
+	}
+	
+	static parseBase64(str: string): Uint8Array {
+		if (!/^([A-Za-z0-9+/]{4})*([A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(str)) {
+			throw new Error(`Invalid Base64 string "${str}"`)
+		}
+		let paddingCount: number = str.endsWith("==") ? 2 : (str.endsWith("=") ? 1 : 0)
+		let bytes: Uint8Array = new Uint8Array(str.length / 4 * 3 - paddingCount)
+		let byteIndex: number = 0
+		for (let i=0; i<str.length; i+=4) {
+			let bits: number = 0
+			for (let j=0; j<4; j++) {
+				let char: string = str.charAt(i+j)
+				bits = (bits << 6) | (char === "=" ? 0 : ValueTypeUtils.base64Chars.indexOf(char))
+			}
+			for (let j=0; j<3 && byteIndex < bytes.length; j++) {
+				bytes[byteIndex++] = (bits >> (16 - j*8)) & 0xFF
+			}
+		}
+		return bytes
+	}
+	
+	static getBase64String(bytes: Uint8Array): string {
+		let result: string = ""
+		for (let i=0; i<bytes.length; i+=3) {
+			let count: number = Math.min(3, bytes.length - i)
+			let bits: number = (bytes[i] << 16) | ((count > 1 ? bytes[i+1] : 0) << 8) | (count > 2 ? bytes[i+2] : 0)
+			for (let j=0; j<4; j++) {
+				result += j > count ? "=" : ValueTypeUtils.base64Chars.charAt((bits >> (18 - j*6)) & 0x3F)
+			}
+		}
+		return result
+	}
+	
+	static asNullableNumberArray(sAttribute: SmlAttribute, min: number | null, max: number | null): (number | null)[] {
+		return sAttribute.asNullableStringArray(min, max).map((x, i) => x === null ? null : sAttribute.getFloat(i))
+	}
+}
+
+export enum ModeEnum {
+	Fast,
+	Slow
+}
+
+export interface DocDocument {
+	b: boolean
+	i: number
+	u: number
+	n: number
+	s: string
+	d: DateValue | null
+	t: TimeValue | null
+	dT: Date | null
+	bin: Uint8Array | null
+	ns: (number | null)[] | null
+	ds: DateValue[] | null
+	ms: ModeEnum[]
+	strsList: ((string | null)[])[]
+	flagOrNoteList: ({ kind: "Flag", value: boolean } | { kind: "Note", value: string | null })[]
+	itemList: (ItemElement)[]
+	itemOrMode: { kind: "Item", value: ItemElement } | { kind: "Mode", value: ModeEnum }
+}
+
+class SmlNodeReader {
+	private readonly sNodes: SmlNamedNode[]
+	private index: number = 0
+	
+	constructor(sElement: SmlElement) {
+		this.sNodes = sElement.nodes.filter((x) => x instanceof SmlNamedNode) as SmlNamedNode[]
+	}
+	
+	private hasNode(name: string, isElement: boolean): boolean {
+		if (this.index >= this.sNodes.length) { return false }
+		let sNode: SmlNamedNode = this.sNodes[this.index]
+		return (sNode instanceof SmlElement) === isElement && sNode.hasName(name)
+	}
+	
+	private nodes(name: string, isElement: boolean, min: number, max: number | null): SmlNamedNode[] {
+		let result: SmlNamedNode[] = []
+		while ((max === null || result.length < max) && this.hasNode(name, isElement)) {
+			result.push(this.sNodes[this.index++])
+		}
+		if (result.length < min) {
+			throw new Error(`${isElement ? "Element" : "Attribute"} "${name}" expected at position ${this.index+1}`)
+		}
+		return result
+	}
+	
+	requiredElement(name: string): SmlElement {
+		return this.nodes(name, true, 1, 1)[0] as SmlElement
+	}
+	
+	optionalElement(name: string): SmlElement | null {
+		let sElements: SmlNamedNode[] = this.nodes(name, true, 0, 1)
+		return sElements.length > 0 ? sElements[0] as SmlElement : null
+	}
+	
+	elements(name: string, min: number, max: number | null): SmlElement[] {
+		return this.nodes(name, true, min, max) as SmlElement[]
+	}
+	
+	requiredAttribute(name: string): SmlAttribute {
+		return this.nodes(name, false, 1, 1)[0] as SmlAttribute
+	}
+	
+	optionalAttribute(name: string): SmlAttribute | null {
+		let sAttributes: SmlNamedNode[] = this.nodes(name, false, 0, 1)
+		return sAttributes.length > 0 ? sAttributes[0] as SmlAttribute : null
+	}
+	
+	attributes(name: string, min: number, max: number | null): SmlAttribute[] {
+		return this.nodes(name, false, min, max) as SmlAttribute[]
+	}
+	
+	choiceNodes(elementNames: string[], attributeNames: string[], min: number, max: number | null): SmlNamedNode[] {
+		let result: SmlNamedNode[] = []
+		while ((max === null || result.length < max) && this.index < this.sNodes.length) {
+			let sNode: SmlNamedNode = this.sNodes[this.index]
+			let names: string[] = sNode instanceof SmlElement ? elementNames : attributeNames
+			if (names.find((x) => sNode.hasName(x)) === undefined) { break }
+			result.push(this.sNodes[this.index++])
+		}
+		if (result.length < min) {
+			throw new Error(`One of ${[...elementNames, ...attributeNames].join(", ")} expected at position ${this.index+1}`)
+		}
+		return result
+	}
+	
+	assureEnd() {
+		if (this.index < this.sNodes.length) {
+			throw new Error(`Unexpected node "${this.sNodes[this.index].name}" at position ${this.index+1}`)
+		}
+	}
+}
+
+export class DateValue {
+	readonly year: number
+	readonly month: number
+	readonly day: number
+	
+	constructor(year: number = 1970, month: number = 1, day: number = 1) {
+		if (!DateValue.isValid(year, month, day)) {
+			throw new Error(`Invalid date ${year}-${month}-${day}`)
+		}
+		this.year = year
+		this.month = month
+		this.day = day
+	}
+	
+	static isValid(year: number, month: number, day: number): boolean {
+		if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) {
+			return false
+		}
+		if (year < 0 || year > 9999 || month < 1 || month > 12 || day < 1) {
+			return false
+		}
+		let isLeapYear: boolean = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+		let daysInMonth: number[] = [31, isLeapYear ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+		return day <= daysInMonth[month-1]
+	}
+	
+	static parse(str: string): DateValue {
+		let match: RegExpExecArray | null = /^([0-9]{4})-([0-9]{2})-([0-9]{2})$/.exec(str)
+		if (match === null || !DateValue.isValid(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]))) {
+			throw new Error(`Invalid date "${str}"`)
+		}
+		return new DateValue(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]))
+	}
+	
+	toString(): string {
+		return `${this.year.toString().padStart(4, "0")}-${this.month.toString().padStart(2, "0")}-${this.day.toString().padStart(2, "0")}`
+	}
+}
+
+export class TimeValue {
+	readonly hour: number
+	readonly minute: number
+	readonly second: number
+	readonly millisecond: number
+	
+	constructor(hour: number = 0, minute: number = 0, second: number = 0, millisecond: number = 0) {
+		if (!TimeValue.isValid(hour, minute, second, millisecond)) {
+			throw new Error(`Invalid time ${hour}:${minute}:${second}.${millisecond}`)
+		}
+		this.hour = hour
+		this.minute = minute
+		this.second = second
+		this.millisecond = millisecond
+	}
+	
+	static isValid(hour: number, minute: number, second: number, millisecond: number): boolean {
+		if (!Number.isInteger(hour) || !Number.isInteger(minute) || !Number.isInteger(second) || !Number.isInteger(millisecond)) {
+			return false
+		}
+		return hour >= 0 && hour <= 23 && minute >= 0 && minute <= 59 && second >= 0 && second <= 59 && millisecond >= 0 && millisecond <= 999
+	}
+	
+	static parse(str: string): TimeValue {
+		let match: RegExpExecArray | null = /^([0-9]{2}):([0-9]{2})(?::([0-9]{2})(?:\.([0-9]{1,3}))?)?$/.exec(str)
+		if (match !== null) {
+			let second: number = match[3] !== undefined ? parseInt(match[3]) : 0
+			let millisecond: number = match[4] !== undefined ? parseInt(match[4].padEnd(3, "0")) : 0
+			if (TimeValue.isValid(parseInt(match[1]), parseInt(match[2]), second, millisecond)) {
+				return new TimeValue(parseInt(match[1]), parseInt(match[2]), second, millisecond)
+			}
+		}
+		throw new Error(`Invalid time "${str}"`)
+	}
+	
+	toString(): string {
+		let result: string = `${this.hour.toString().padStart(2, "0")}:${this.minute.toString().padStart(2, "0")}:${this.second.toString().padStart(2, "0")}`
+		if (this.millisecond !== 0) {
+			result += "." + this.millisecond.toString().padStart(3, "0")
+		}
+		return result
+	}
+}
+
+export function createDocDocument(): DocDocument {
+	return {
+		b: false,
+		i: 0,
+		u: 7,
+		n: 2,
+		s: "a b",
+		d: null,
+		t: null,
+		dT: null,
+		bin: null,
+		ns: null,
+		ds: null,
+		ms: [ModeEnum.Slow, ModeEnum.Fast],
+		strsList: [],
+		flagOrNoteList: [],
+		itemList: [],
+		itemOrMode: { kind: "Item", value: createItemElement() }
+	}
+}
+
+export function loadDocDocument(sElement: SmlElement): DocDocument {
+	sElement.assureName("Doc")
+	let element: DocDocument = createDocDocument()
+	let reader: SmlNodeReader = new SmlNodeReader(sElement)
+	{
+		let sCurAttribute: SmlAttribute = reader.requiredAttribute("B")
+		element.b = sCurAttribute.asBool()
+	}
+	{
+		let sCurAttribute: SmlAttribute = reader.requiredAttribute("I")
+		element.i = sCurAttribute.asInt()
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("U")
+		if (sCurAttribute !== null) {
+			element.u = ValueTypeUtils.checkUInt(sCurAttribute.asInt())
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("N")
+		if (sCurAttribute !== null) {
+			element.n = sCurAttribute.asFloat()
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("S")
+		if (sCurAttribute !== null) {
+			element.s = sCurAttribute.asString()
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("D")
+		if (sCurAttribute !== null) {
+			element.d = DateValue.parse(sCurAttribute.asString())
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("T")
+		if (sCurAttribute !== null) {
+			element.t = TimeValue.parse(sCurAttribute.asString())
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("DT")
+		if (sCurAttribute !== null) {
+			element.dT = ValueTypeUtils.parseDateTime(sCurAttribute.asString())
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("Bin")
+		if (sCurAttribute !== null) {
+			element.bin = ValueTypeUtils.parseBase64(sCurAttribute.asString())
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("Ns")
+		if (sCurAttribute !== null) {
+			element.ns = ValueTypeUtils.asNullableNumberArray(sCurAttribute, null, null)
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("Ds")
+		if (sCurAttribute !== null) {
+			element.ds = (sCurAttribute.isNullValue() ? null : sCurAttribute.asStringArray().map((x) => DateValue.parse(x)))
+		}
+	}
+	{
+		let sCurAttribute: SmlAttribute | null = reader.optionalAttribute("Ms")
+		if (sCurAttribute !== null) {
+			element.ms = ValueTypeUtils.asModeEnumArray(sCurAttribute, 1, null)
+		}
+	}
+	{
+		for (let sCurAttribute of reader.attributes("Strs", 0, null)) {
+			element.strsList.push(sCurAttribute.asNullableStringArray(2, 3))
+		}
+	}
+	{
+		for (let sCurNode of reader.choiceNodes([], ["Flag", "Note"], 0, null)) {
+			if (sCurNode.isAttributeWithName("Flag")) {
+				let sCurAttribute: SmlAttribute = sCurNode as SmlAttribute
+				element.flagOrNoteList.push({ kind: "Flag", value: sCurAttribute.asBool() })
+			} else if (sCurNode.isAttributeWithName("Note")) {
+				let sCurAttribute: SmlAttribute = sCurNode as SmlAttribute
+				element.flagOrNoteList.push({ kind: "Note", value: (sCurAttribute.isNullValue() ? null : sCurAttribute.asString()) })
+			}
+		}
+	}
+	{
+		for (let sCurElement of reader.elements("Item", 1, null)) {
+			element.itemList.push(loadItemElement(sCurElement))
+		}
+	}
+	{
+		for (let sCurNode of reader.choiceNodes(["Item"], ["Mode"], 1, 1)) {
+			if (sCurNode.isElementWithName("Item")) {
+				element.itemOrMode = { kind: "Item", value: loadItemElement(sCurNode as SmlElement) }
+			} else if (sCurNode.isAttributeWithName("Mode")) {
+				let sCurAttribute: SmlAttribute = sCurNode as SmlAttribute
+				element.itemOrMode = { kind: "Mode", value: ValueTypeUtils.asModeEnum(sCurAttribute) }
+			}
+		}
+	}
+	reader.assureEnd()
+	return element
+}
+
+export function serializeDocDocument(element: DocDocument): SmlElement {
+	let sElement: SmlElement = new SmlElement("Doc")
+	sElement.addAttribute("B", [(element.b ? "true" : "false")])
+	sElement.addAttribute("I", [element.i.toString()])
+	sElement.addAttribute("U", [element.u.toString()])
+	sElement.addAttribute("N", [element.n.toString()])
+	sElement.addAttribute("S", [element.s])
+	if (element.d !== null) {
+		sElement.addAttribute("D", [element.d.toString()])
+	}
+	if (element.t !== null) {
+		sElement.addAttribute("T", [element.t.toString()])
+	}
+	if (element.dT !== null) {
+		sElement.addAttribute("DT", [element.dT.toISOString()])
+	}
+	if (element.bin !== null) {
+		sElement.addAttribute("Bin", [ValueTypeUtils.getBase64String(element.bin)])
+	}
+	if (element.ns !== null) {
+		sElement.addAttribute("Ns", element.ns.map((x) => x === null ? null : x.toString()))
+	}
+	if (element.ds !== null) {
+		sElement.addAttribute("Ds", element.ds === null ? [null] : element.ds.map((x) => x.toString()))
+	}
+	sElement.addAttribute("Ms", element.ms.map((x) => ValueTypeUtils.getModeEnumString(x)))
+	for (let item of element.strsList) {
+		sElement.addAttribute("Strs", item.map((x) => x === null ? null : x))
+	}
+	for (let item of element.flagOrNoteList) {
+		if (item.kind === "Flag") {
+			sElement.addAttribute("Flag", [(item.value ? "true" : "false")])
+		} else if (item.kind === "Note") {
+			sElement.addAttribute("Note", item.value === null ? [null] : [item.value])
+		}
+	}
+	for (let item of element.itemList) {
+		sElement.nodes.push(serializeItemElement(item))
+	}
+	if (element.itemOrMode.kind === "Item") {
+		sElement.nodes.push(serializeItemElement(element.itemOrMode.value))
+	} else if (element.itemOrMode.kind === "Mode") {
+		sElement.addAttribute("Mode", [ValueTypeUtils.getModeEnumString(element.itemOrMode.value)])
+	}
+	return sElement
+}
+
+export function parseDocDocument(content: string): DocDocument {
+	let sDocument: SmlDocument = SmlDocument.parse(content)
+	return loadDocDocument(sDocument.root)
+}
+
+export function toDocDocumentSmlDocument(element: DocDocument): SmlDocument {
+	return new SmlDocument(serializeDocDocument(element))
+}
+
+export function stringifyDocDocument(element: DocDocument): string {
+	return toDocDocumentSmlDocument(element).toString()
+}
+
+export interface ItemElement {
+}
+
+export function createItemElement(): ItemElement {
+	return {}
+}
+
+export function loadItemElement(sElement: SmlElement): ItemElement {
+	sElement.assureName("Item")
+	let element: ItemElement = createItemElement()
+	
+	return element
+}
+
+export function serializeItemElement(element: ItemElement): SmlElement {
+	let sElement: SmlElement = new SmlElement("Item")
+	
+	return sElement
+}
\ No newline at end of file
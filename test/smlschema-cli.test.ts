@@ -0,0 +1,261 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { SmlSchemaCli, SmlSchemaCliExitCode } from "../src/smlschema-cli.js"
+import { SmlSchema } from "../src/smlschema.js"
+
+// ----------------------------------------------------------------------
+
+const schemaContent: string = `Schema
+	RootElement Config
+	Element
+		Name Config
+		UnorderedContent
+			Attribute Name Required String
+			Attribute Port Optional Int
+		End
+	End
+End
+`
+
+let tempPath: string = ""
+
+function getPath(...segments: string[]): string {
+	return path.join(tempPath, ...segments)
+}
+
+function writeFile(fileName: string, content: string): string {
+	let filePath: string = getPath(fileName)
+	fs.mkdirSync(path.dirname(filePath), { recursive: true })
+	fs.writeFileSync(filePath, content, "utf-8")
+	return filePath
+}
+
+function run(...args: string[]): { exitCode: SmlSchemaCliExitCode, stdout: string, stderr: string } {
+	let stdout: string = ""
+	let stderr: string = ""
+	let exitCode: SmlSchemaCliExitCode = new SmlSchemaCli((text) => stdout += text, (text) => stderr += text).run(args)
+	return { exitCode, stdout, stderr }
+}
+
+beforeEach(() => {
+	tempPath = fs.mkdtempSync(path.join(os.tmpdir(), "smlschema-cli-"))
+	writeFile("config.schema", schemaContent)
+	writeFile("docs/a.sml", "Config\n\tName a\nEnd\n")
+	writeFile("docs/b.sml", "Config\n\tName b\n\tPort 80\nEnd\n")
+	writeFile("invalid/c.sml", "Config\n\tPort x\nEnd\n")
+})
+
+afterEach(() => {
+	fs.rmSync(tempPath, { recursive: true, force: true })
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaCli usage", () => {
+	test("Help", () => {
+		expect(run("help")).toEqual({ exitCode: SmlSchemaCliExitCode.Success, stdout: SmlSchemaCli.usage, stderr: "" })
+	})
+
+	test.each([
+		[[], "No command given"],
+		[["unknown"], "Unknown command \"unknown\""],
+		[["check", "--unknown"], "Unknown option --unknown"],
+		[["codegen", "-o"], "Option -o requires a value"],
+		[["validate", "config.schema"], "Command validate requires a schema and at least one document"],
+	])("%j", (args, message) => {
+		let result = run(...args)
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Error)
+		expect(result.stdout).toBe("")
+		expect(result.stderr).toBe(`Error: ${message}\n\n${SmlSchemaCli.usage}`)
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaCli validate", () => {
+	test("Valid documents", () => {
+		expect(run("validate", getPath("config.schema"), getPath("docs/a.sml"), getPath("docs/b.sml"))).toEqual({ exitCode: SmlSchemaCliExitCode.Success, stdout: "", stderr: "" })
+	})
+
+	test("Invalid document", () => {
+		let result = run("validate", getPath("config.schema"), getPath("invalid/c.sml"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Failure)
+		expect(result.stdout.split("\n")).toEqual([
+			`${getPath("invalid/c.sml")}: Error InvalidValue: Config/Port (line 2): Value "x" is not a valid Int`,
+			`${getPath("invalid/c.sml")}: Error MissingAttribute: Config (line 1): Required attribute "Name" is missing`,
+			"",
+		])
+	})
+
+	test("Glob expansion", () => {
+		let result = run("validate", "--json", getPath("config.schema"), getPath("**", "*.sml"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Failure)
+		let json = JSON.parse(result.stdout)
+		expect(json.valid).toBe(false)
+		expect(json.files.map((x: { file: string, valid: boolean }) => [x.file, x.valid])).toEqual([
+			[getPath("docs/a.sml"), true],
+			[getPath("docs/b.sml"), true],
+			[getPath("invalid/c.sml"), false],
+		])
+		expect(json.files[2].issues[0]).toEqual({ severity: "Error", code: "InvalidValue", message: "Value \"x\" is not a valid Int", path: "Config/Port", line: 2 })
+	})
+
+	test("JSON output of valid documents", () => {
+		let result = run("validate", "--json", getPath("config.schema"), getPath("docs", "?.sml"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Success)
+		expect(JSON.parse(result.stdout)).toEqual({ valid: true, files: [
+			{ file: getPath("docs/a.sml"), valid: true, issues: [] },
+			{ file: getPath("docs/b.sml"), valid: true, issues: [] },
+		] })
+	})
+
+	test("Glob without matches", () => {
+		let result = run("validate", getPath("config.schema"), getPath("docs", "*.txt"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Error)
+		expect(result.stderr).toBe(`Error: No files match "${getPath("docs", "*.txt")}"\n`)
+	})
+
+	test("Missing document", () => {
+		let result = run("validate", getPath("config.schema"), getPath("missing.sml"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Error)
+		expect(result.stderr).toBe(`Error: Could not read file "${getPath("missing.sml")}"\n`)
+	})
+
+	test("Invalid schema", () => {
+		writeFile("broken.schema", "Schema\n\tRootElement Missing\nEnd\n")
+		let result = run("validate", "--json", getPath("broken.schema"), getPath("docs/a.sml"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Failure)
+		let json = JSON.parse(result.stdout)
+		expect(json.valid).toBe(false)
+		expect(json.files.map((x: { file: string }) => x.file)).toEqual([getPath("broken.schema")])
+		expect(json.files[0].issues.map((x: { code: string }) => x.code)).toEqual(["InvalidSchema"])
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaCli check", () => {
+	test("Valid and invalid schemas", () => {
+		writeFile("broken.schema", "Schema\n\tRootElement Missing\nEnd\n")
+		expect(run("check", getPath("config.schema"))).toEqual({ exitCode: SmlSchemaCliExitCode.Success, stdout: "", stderr: "" })
+
+		let result = run("check", getPath("*.schema"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Failure)
+		expect(result.stdout.startsWith(`${getPath("broken.schema")}: Error InvalidSchema: `)).toBe(true)
+
+		let json = JSON.parse(run("check", "--json", getPath("*.schema")).stdout)
+		expect(json.valid).toBe(false)
+		expect(json.files.map((x: { file: string, valid: boolean }) => [x.file, x.valid])).toEqual([[getPath("broken.schema"), false], [getPath("config.schema"), true]])
+	})
+
+	test("Missing schema", () => {
+		let result = run("check", getPath("missing.schema"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Error)
+		expect(result.stderr).toBe(`Error: Schema file "${getPath("missing.schema")}" does not exist\n`)
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaCli codegen", () => {
+	test("TypeScript", () => {
+		let result = run("codegen", getPath("config.schema"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Success)
+		expect(result.stdout).toContain("export class ConfigDocument {")
+	})
+
+	test("TypeScript options", () => {
+		let result = run("codegen", "--target", "interfaces", "--try-load", getPath("config.schema"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Success)
+		expect(result.stdout).toContain("export interface ConfigDocument {")
+		expect(result.stdout).toContain("export class SmlLoadContext {")
+	})
+
+	test("C# to output file", () => {
+		let outputPath: string = getPath("Config.cs")
+		expect(run("codegen", "--language", "cs", "--namespace", "My.Config", "-o", outputPath, getPath("config.schema"))).toEqual({ exitCode: SmlSchemaCliExitCode.Success, stdout: "", stderr: "" })
+		expect(fs.readFileSync(outputPath, "utf-8")).toContain("namespace My.Config")
+	})
+
+	test.each([
+		[["--language", "java"], "Unknown language \"java\""],
+		[["--target", "records"], "Unknown target \"records\""],
+	])("%j", (args, message) => {
+		let result = run("codegen", ...args, getPath("config.schema"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Error)
+		expect(result.stderr.startsWith(`Error: ${message}\n`)).toBe(true)
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaCli format", () => {
+	let formattedContent: string = SmlSchema.parse(schemaContent).toString() + "\n"
+	let unformattedContent: string = schemaContent.replace(/\t/g, "  ")
+
+	test("Stdout", () => {
+		let filePath: string = writeFile("unformatted.schema", unformattedContent)
+		expect(run("format", filePath)).toEqual({ exitCode: SmlSchemaCliExitCode.Success, stdout: formattedContent, stderr: "" })
+		expect(fs.readFileSync(filePath, "utf-8")).toBe(unformattedContent)
+	})
+
+	test("Check", () => {
+		let filePath: string = writeFile("unformatted.schema", unformattedContent)
+		writeFile("config.schema", formattedContent)
+		expect(run("format", "--check", getPath("config.schema"))).toEqual({ exitCode: SmlSchemaCliExitCode.Success, stdout: "", stderr: "" })
+		expect(run("format", "--check", getPath("*.schema"))).toEqual({ exitCode: SmlSchemaCliExitCode.Failure, stdout: `${filePath}\n`, stderr: "" })
+		expect(JSON.parse(run("format", "--check", "--json", getPath("*.schema")).stdout)).toEqual({ formatted: false, files: [filePath] })
+		expect(fs.readFileSync(filePath, "utf-8")).toBe(unformattedContent)
+	})
+
+	test("Write", () => {
+		let filePath: string = writeFile("unformatted.schema", unformattedContent)
+		expect(run("format", "--write", filePath)).toEqual({ exitCode: SmlSchemaCliExitCode.Success, stdout: `${filePath}\n`, stderr: "" })
+		expect(fs.readFileSync(filePath, "utf-8")).toBe(formattedContent)
+	})
+
+	test("Write refused for files with comments", () => {
+		let commentedPath: string = writeFile("commented.schema", "# Comment\n" + unformattedContent)
+		let filePath: string = writeFile("unformatted.schema", unformattedContent)
+		let result = run("format", "--write", getPath("*.schema"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Error)
+		expect(result.stderr).toBe(`Error: Schema file "${commentedPath}" contains comments which would be lost by formatting\n`)
+		expect(fs.readFileSync(commentedPath, "utf-8")).toBe("# Comment\n" + unformattedContent)
+		expect(fs.readFileSync(filePath, "utf-8")).toBe(unformattedContent)
+	})
+
+	test("Multiple schemas require write or check", () => {
+		writeFile("other.schema", schemaContent)
+		let result = run("format", getPath("*.schema"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Error)
+		expect(result.stderr.startsWith("Error: Formatting multiple schemas requires --write or --check\n")).toBe(true)
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaCli infer", () => {
+	test("Stdout", () => {
+		let result = run("infer", getPath("docs", "*.sml"))
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Success)
+		let schema: SmlSchema = SmlSchema.parse(result.stdout)
+		expect(schema.getRootElement().name).toBe("Config")
+		expect(run("validate", writeFile("inferred.schema", result.stdout), getPath("docs", "*.sml")).exitCode).toBe(SmlSchemaCliExitCode.Success)
+	})
+
+	test("Output file", () => {
+		let outputPath: string = getPath("inferred.schema")
+		expect(run("infer", "--exact-array-ranges", "-o", outputPath, getPath("docs/a.sml"))).toEqual({ exitCode: SmlSchemaCliExitCode.Success, stdout: "", stderr: "" })
+		expect(SmlSchema.parse(fs.readFileSync(outputPath, "utf-8")).getRootElement().name).toBe("Config")
+	})
+
+	test("Invalid document", () => {
+		let filePath: string = writeFile("broken.sml", "Config\n")
+		let result = run("infer", filePath)
+		expect(result.exitCode).toBe(SmlSchemaCliExitCode.Error)
+		expect(result.stderr.startsWith("Error: ")).toBe(true)
+	})
+})
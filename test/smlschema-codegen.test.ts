@@ -0,0 +1,469 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import * as fs from "fs"
+import * as path from "path"
+import * as ts from "typescript"
+import * as sml from "../src/sml.js"
+import { SmlSchema, SsAttributeDataType, SsAttributeDef, SsElementDef, SsPredefinedType, SsRange, SsUnorderedContent } from "../src/smlschema.js"
+import { SmlSchemaCodeGen, SmlSchemaCodeGenBackend, SmlSchemaCodeGenOptions, SmlSchemaCodeGenTarget, SmlSchemaTsCodeGenBackend } from "../src/smlschema-codegen.js"
+import { SmlSchemaCsCodeGenBackend } from "../src/smlschema-codegen-cs.js"
+import { SmlSchemaJsonSchemaExporter, SsJsonSchema } from "../src/smlschema-jsonschema.js"
+
+// ----------------------------------------------------------------------
+
+// Run with UPDATE_GOLDEN=1 to rewrite the expected files after an intended change of the generated code
+const fixturesPath: string = path.join(__dirname, "fixtures", "codegen")
+const updateGolden: boolean = process.env.UPDATE_GOLDEN === "1"
+
+function expectGolden(fileName: string, actual: string) {
+	let filePath: string = path.join(fixturesPath, fileName)
+	if (updateGolden) {
+		fs.writeFileSync(filePath, actual, "utf-8")
+	}
+	expect(fs.existsSync(filePath)).toBe(true)
+	expect(actual).toBe(fs.readFileSync(filePath, "utf-8"))
+}
+
+function getOptions(target: SmlSchemaCodeGenTarget, enumsAsStringUnions: boolean): SmlSchemaCodeGenOptions {
+	let options: SmlSchemaCodeGenOptions = new SmlSchemaCodeGenOptions()
+	options.target = target
+	options.enumsAsStringUnions = enumsAsStringUnions
+	return options
+}
+
+// TypeScript golden file suffixes with the options they are generated with
+const tsVariants: [string, SmlSchemaCodeGenOptions][] = [
+	["", getOptions(SmlSchemaCodeGenTarget.Classes, false)],
+	[".interfaces", getOptions(SmlSchemaCodeGenTarget.Interfaces, false)],
+	[".unions", getOptions(SmlSchemaCodeGenTarget.Classes, true)],
+]
+
+function generate(schemaFileName: string, backend: SmlSchemaCodeGenBackend): string {
+	let schema: SmlSchema = SmlSchema.parse(fs.readFileSync(path.join(fixturesPath, schemaFileName), "utf-8"))
+	return new SmlSchemaCodeGen(schema, backend).generate()
+}
+
+// Transpiles generated TypeScript code and runs it against the SML library the package depends on
+function runGeneratedCode(code: string): any {
+	let js: string = ts.transpileModule(code, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 } }).outputText
+	let module: { exports: any } = { exports: {} }
+	let require = (name: string): unknown => {
+		if (name !== "./sml.js") { throw new Error(`Unexpected import "${name}"`) }
+		return sml
+	}
+	new Function("require", "module", "exports", js)(require, module, module.exports)
+	return module.exports
+}
+
+function loadGeneratedModule(schemaContent: string, options: SmlSchemaCodeGenOptions = new SmlSchemaCodeGenOptions()): any {
+	return runGeneratedCode(new SmlSchemaCodeGen(SmlSchema.parse(schemaContent), options).generate())
+}
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaCodeGen golden files", () => {
+	let schemaFileNames: string[] = fs.readdirSync(fixturesPath).filter((x) => x.endsWith(".schema")).sort()
+
+	test("fixtures exist", () => {
+		expect(schemaFileNames.length).toBeGreaterThan(0)
+	})
+
+	for (let schemaFileName of schemaFileNames) {
+		let baseName: string = schemaFileName.substring(0, schemaFileName.length - ".schema".length)
+
+		for (let [suffix, options] of tsVariants) {
+			test(`${baseName}${suffix} TypeScript`, () => {
+				expectGolden(baseName + suffix + ".ts", generate(schemaFileName, new SmlSchemaTsCodeGenBackend(options)))
+			})
+		}
+
+		test(`${baseName} C#`, () => {
+			expectGolden(baseName + ".cs", generate(schemaFileName, new SmlSchemaCsCodeGenBackend()))
+		})
+	}
+})
+
+// ----------------------------------------------------------------------
+
+describe("Schema without root element", () => {
+	function createSchema(): SmlSchema {
+		let schema: SmlSchema = new SmlSchema()
+		let attributeDef: SsAttributeDef = schema.definitions.attributeDefs.add("X")
+		attributeDef.dataType = new SsAttributeDataType(SsPredefinedType.Int, null, null, false, null, false)
+		let pointDef: SsElementDef = schema.definitions.elementDefs.add("Point")
+		pointDef.setUnorderedContent().addAttribute("X", SsRange.required())
+		let lineDef: SsElementDef = schema.definitions.elementDefs.add("Line")
+		let lineContent: SsUnorderedContent = lineDef.setUnorderedContent()
+		lineContent.addElement("Point", SsRange.repeatedStar())
+		return schema
+	}
+
+	test("has no root element", () => {
+		expect(createSchema().hasRootElement).toBe(false)
+	})
+
+	test("TypeScript generates element classes only", () => {
+		let code: string = new SmlSchemaCodeGen(createSchema(), new SmlSchemaTsCodeGenBackend(new SmlSchemaCodeGenOptions())).generate()
+		expect(code).toContain("export class PointElement")
+		expect(code).toContain("export class LineElement")
+		expect(code).not.toContain("Document {")
+		expect(code).not.toContain("SmlDocument.parse")
+	})
+
+	test("C# generates element classes only", () => {
+		let code: string = new SmlSchemaCodeGen(createSchema(), new SmlSchemaCsCodeGenBackend()).generate()
+		expect(code).toContain("public class PointElement")
+		expect(code).toContain("public class LineElement")
+		expect(code).not.toContain("Document\n")
+		expect(code).not.toContain("SmlDocument.Parse")
+	})
+
+	test("JSON Schema contains definitions only", () => {
+		let jsonSchema: SsJsonSchema = new SmlSchemaJsonSchemaExporter(createSchema()).export()
+		expect(jsonSchema.$ref).toBeUndefined()
+		expect(jsonSchema.title).toBeUndefined()
+		expect(Object.keys(jsonSchema.$defs as SsJsonSchema).sort()).toEqual(["LineElement", "PointElement"])
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaCodeGen golden TypeScript files", () => {
+	test("type-check against the SML library", () => {
+		let fileNames: string[] = fs.readdirSync(fixturesPath).filter((x) => x.endsWith(".ts")).map((x) => path.join(fixturesPath, x))
+		let program: ts.Program = ts.createProgram(fileNames, {
+			strict: true,
+			noEmit: true,
+			skipLibCheck: true,
+			target: ts.ScriptTarget.ES2019,
+			module: ts.ModuleKind.CommonJS,
+			lib: ["lib.es2019.d.ts"],
+			types: []
+		})
+		let messages: string[] = ts.getPreEmitDiagnostics(program).map((x) => {
+			let location: string = x.file === undefined ? "" : `${path.basename(x.file.fileName)}:${x.file.getLineAndCharacterOfPosition(x.start!).line+1}: `
+			return location + ts.flattenDiagnosticMessageText(x.messageText, "\n")
+		})
+		expect(messages).toEqual([])
+	})
+
+	for (let sampleFileName of fs.readdirSync(fixturesPath).filter((x) => x.endsWith(".sml")).sort()) {
+		let baseName: string = sampleFileName.substring(0, sampleFileName.length - ".sml".length)
+
+		for (let [suffix, options] of tsVariants) {
+			test(`${baseName}${suffix} loads and serializes ${sampleFileName}`, () => {
+				let generated: any = runGeneratedCode(fs.readFileSync(path.join(fixturesPath, baseName + suffix + ".ts"), "utf-8"))
+				let content: string = fs.readFileSync(path.join(fixturesPath, sampleFileName), "utf-8")
+				let serialized: string
+				if (options.target === SmlSchemaCodeGenTarget.Interfaces) {
+					let parseFunctionName: string = Object.keys(generated).find((x) => x.startsWith("parse") && x.endsWith("Document"))!
+					let documentName: string = parseFunctionName.substring("parse".length)
+					serialized = generated["stringify" + documentName](generated[parseFunctionName](content))
+				} else {
+					let documentClassName: string = Object.keys(generated).find((x) => x.endsWith("Document"))!
+					serialized = generated[documentClassName].parse(content).toString()
+				}
+				expect(serialized).toBe(sml.SmlDocument.parse(content, false).toString())
+			})
+		}
+	}
+})
+
+// ----------------------------------------------------------------------
+
+describe("Generated TypeScript predefined types", () => {
+	let generated: any = loadGeneratedModule(`Schema
+	Element
+		Name Root
+		UnorderedContent
+			Attribute D Required Date
+			Attribute T Required Time
+			Attribute B64 Required Base64
+			Attribute DT Required DateTime
+			Attribute U Required UInt
+			Attribute N Required Number
+			Attribute Flags Optional Bool[0..N]
+			Attribute Dates Optional Date?[0..N]
+			Attribute Us Optional UInt[0..3]
+			Attribute Ns Optional Number?[0..N]
+		End
+	End
+End`)
+
+	test("loads values", () => {
+		let root: any = generated.RootDocument.parse(`Root
+	D 2022-02-28
+	T 12:30:15
+	B64 SGVsbG8=
+	DT 2022-02-28T12:30:00Z
+	U 7
+	N 2.5
+	Flags true false
+	Dates 2022-01-01 -
+	Us 1 2
+	Ns 1.5 -
+End`)
+		expect(root.d.toString()).toBe("2022-02-28")
+		expect(root.t.toString()).toBe("12:30:15")
+		expect(Array.from(root.b64)).toEqual([72, 101, 108, 108, 111])
+		expect(root.dT.toISOString()).toBe("2022-02-28T12:30:00.000Z")
+		expect(root.u).toBe(7)
+		expect(root.n).toBe(2.5)
+		expect(root.flags).toEqual([true, false])
+		expect(root.dates.map((x: any) => x === null ? null : x.toString())).toEqual(["2022-01-01", null])
+		expect(root.us).toEqual([1, 2])
+		expect(root.ns).toEqual([1.5, null])
+		expect(generated.RootDocument.parse(root.toString()).toString()).toBe(root.toString())
+	})
+
+	test("single value arrays with zero minimum", () => {
+		let root: any = generated.RootDocument.parse("Root\n\tD 2022-02-28\n\tT 00:00\n\tB64 AA==\n\tDT \"2022-02-28 12:30\"\n\tU 0\n\tN 1\n\tFlags true\n\tUs 3\nEnd")
+		expect(root.flags).toEqual([true])
+		expect(root.us).toEqual([3])
+	})
+
+	test("rejects invalid values", () => {
+		let content: string = "Root\n\tD 2022-02-28\n\tT 00:00\n\tB64 AA==\n\tDT 2022-02-28T12:30:00Z\n\tU 0\n\tN 1\nEnd"
+		expect(() => generated.RootDocument.parse(content.replace("U 0", "U -1"))).toThrow("Value -1 is not a valid UInt")
+		expect(() => generated.RootDocument.parse(content.replace("2022-02-28T12:30:00Z", "yesterday"))).toThrow(`Invalid date time "yesterday"`)
+		expect(() => generated.RootDocument.parse(content.replace("N 1", "N 1\n\tUs 1 2 3 4"))).toThrow()
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("Generated TypeScript enum arrays", () => {
+	let generated: any = loadGeneratedModule(`Schema
+	EnumType
+		Name Color
+		Values Red Green Blue
+	End
+	Element
+		Name Root
+		UnorderedContent
+			Attribute Colors Required Color[0..N]
+			Attribute MaybeColors Optional Color?[0..2]
+		End
+	End
+End`)
+
+	test("loads arrays with zero minimum", () => {
+		let root: any = generated.RootDocument.parse("Root\n\tColors Red Green\n\tMaybeColors Blue -\nEnd")
+		expect(root.colors).toEqual([generated.ColorEnum.Red, generated.ColorEnum.Green])
+		expect(root.maybeColors).toEqual([generated.ColorEnum.Blue, null])
+		expect(root.toString()).toBe(generated.RootDocument.parse(root.toString()).toString())
+	})
+
+	test("checks maximum and values", () => {
+		expect(() => generated.RootDocument.parse("Root\n\tColors Red\n\tMaybeColors Red Red Red\nEnd")).toThrow()
+		expect(() => generated.RootDocument.parse("Root\n\tColors Red Purple\nEnd")).toThrow()
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("Generated TypeScript interfaces with enums as string unions", () => {
+	let schemaContent: string = `Schema
+	RootElement Root
+	EnumType
+		Name Color
+		Values Red Green
+	End
+	Element
+		Name Root
+		UnorderedContent
+			Attribute Color Optional Color Green
+			Attribute Colors Optional Color[1..N]
+			Element Item Repeated*
+		End
+	End
+	Element
+		Name Item
+		OrderedContent
+			Attribute Size Required Int
+		End
+	End
+End`
+	let generated: any = loadGeneratedModule(schemaContent, getOptions(SmlSchemaCodeGenTarget.Interfaces, true))
+
+	test("loads plain objects with string values", () => {
+		let root: any = generated.parseRootDocument("Root\n\tColors red Green\n\tItem\n\t\tSize 2\n\tEnd\nEnd")
+		expect(root).toEqual({ color: "Green", colors: ["Red", "Green"], itemList: [{ size: 2 }] })
+		expect(Object.getPrototypeOf(root)).toBe(Object.prototype)
+		expect(generated.stringifyRootDocument(root)).toBe("Root\n\tItem\n\t\tSize 2\n\tEnd\n\tColor Green\n\tColors Red Green\nEnd")
+	})
+
+	test("creates defaults and serializes edited objects", () => {
+		let root: any = generated.createRootDocument()
+		expect(root).toEqual({ color: "Green", colors: null, itemList: [] })
+		root.color = "Red"
+		root.itemList.push({ size: 5 })
+		expect(generated.stringifyRootDocument(root)).toBe("Root\n\tItem\n\t\tSize 5\n\tEnd\n\tColor Red\nEnd")
+	})
+
+	test("rejects unknown values", () => {
+		expect(() => generated.parseRootDocument("Root\n\tColor Blue\nEnd")).toThrow()
+	})
+
+	test("string unions with classes", () => {
+		let classes: any = loadGeneratedModule(schemaContent, getOptions(SmlSchemaCodeGenTarget.Classes, true))
+		expect(classes.ColorEnum).toBeUndefined()
+		let root: any = classes.RootDocument.parse("Root\n\tColor Red\nEnd")
+		expect(root.color).toBe("Red")
+		expect(root.toString()).toBe("Root\n\tColor Red\nEnd")
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("Generated TypeScript tryLoad", () => {
+	let schemaContent: string = fs.readFileSync(path.join(fixturesPath, "garage.schema"), "utf-8")
+	let content: string = `Garage
+	Car
+		Owner
+			Name A
+			Color Purple
+		End
+		Doors x
+	End
+	Car
+		Doors 4
+	End
+	Paint Blue
+	Pos 1 2
+End`
+	let expectedErrors: string[] = [
+		"Garage/Car[1]/Owner/Color: Value of attribute \"Color\" at index 0 is not a valid enum value",
+		"Garage/Car[1]/Doors: Value of attribute \"Doors\" at index 0 is not an integer",
+		"Garage/Car[2]: Element \"Car\" must contain one element \"Owner\" but contains 0",
+		"Garage/Paint: Value of attribute \"Paint\" at index 0 is not a valid enum value",
+		"Garage/Pos: Attribute \"Pos\" must have a minimum value count of 3 but has 2",
+	]
+
+	function getTryLoadOptions(target: SmlSchemaCodeGenTarget): SmlSchemaCodeGenOptions {
+		let options: SmlSchemaCodeGenOptions = getOptions(target, false)
+		options.generateTryLoad = true
+		return options
+	}
+
+	test("collects all errors with element paths", () => {
+		let generated: any = loadGeneratedModule(schemaContent, getTryLoadOptions(SmlSchemaCodeGenTarget.Classes))
+		let result: { value: any, errors: any[] } = generated.GarageDocument.tryParse(content)
+		expect(result.errors.map((x) => x.toString())).toEqual(expectedErrors)
+		expect(result.value.carList.length).toBe(2)
+		expect(result.value.carList[1].doors).toBe(4)
+		expect(() => generated.GarageDocument.parse(content)).toThrow()
+	})
+
+	test("interfaces target collects the same errors", () => {
+		let generated: any = loadGeneratedModule(schemaContent, getTryLoadOptions(SmlSchemaCodeGenTarget.Interfaces))
+		let result: { value: any, errors: any[] } = generated.tryParseGarageDocument(content)
+		expect(result.errors.map((x) => x.toString())).toEqual(expectedErrors)
+	})
+
+	test("valid document has no errors", () => {
+		let generated: any = loadGeneratedModule(schemaContent, getTryLoadOptions(SmlSchemaCodeGenTarget.Classes))
+		let sampleContent: string = fs.readFileSync(path.join(fixturesPath, "garage.sml"), "utf-8")
+		let result: { value: any, errors: any[] } = generated.GarageDocument.tryParse(sampleContent)
+		expect(result.errors).toEqual([])
+		expect(result.value.toString()).toBe(sml.SmlDocument.parse(sampleContent, false).toString())
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("Code generation backends", () => {
+	test.each([
+		["TypeScript", () => new SmlSchemaTsCodeGenBackend(getOptions(SmlSchemaCodeGenTarget.Classes, false))],
+		["TypeScript interfaces", () => new SmlSchemaTsCodeGenBackend(getOptions(SmlSchemaCodeGenTarget.Interfaces, true))],
+		["C#", () => new SmlSchemaCsCodeGenBackend()],
+	])("%s backend can be reused", (_, createBackend: () => SmlSchemaCodeGenBackend) => {
+		let backend: SmlSchemaCodeGenBackend = createBackend()
+		let garage: SmlSchema = SmlSchema.parse(fs.readFileSync(path.join(fixturesPath, "garage.schema"), "utf-8"))
+		let types: SmlSchema = SmlSchema.parse(fs.readFileSync(path.join(fixturesPath, "types.schema"), "utf-8"))
+		let expected: string = new SmlSchemaCodeGen(types, createBackend()).generate()
+		new SmlSchemaCodeGen(garage, backend).generate()
+		expect(new SmlSchemaCodeGen(types, backend).generate()).toBe(expected)
+		expect(new SmlSchemaCodeGen(types, backend).generate()).toBe(expected)
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("Generated TypeScript string type arrays", () => {
+	let generated: any = loadGeneratedModule(`Schema
+	StringType
+		Name Code
+		MaxLength 3
+		Pattern "[a-z]+"
+	End
+	Element
+		Name Root
+		UnorderedContent
+			Attribute Codes Optional Code[0..N]
+			Attribute MaybeCodes Optional Code?[0..N]
+		End
+	End
+End`)
+
+	test("loads arrays with zero minimum", () => {
+		let root: any = generated.RootDocument.parse("Root\n\tCodes ab cde\n\tMaybeCodes - x\nEnd")
+		expect(root.codes).toEqual(["ab", "cde"])
+		expect(root.maybeCodes).toEqual([null, "x"])
+		expect(root.toString()).toBe(generated.RootDocument.parse(root.toString()).toString())
+	})
+
+	test("checks item constraints", () => {
+		expect(() => generated.RootDocument.parse("Root\n\tCodes ab abcd\nEnd")).toThrow(`Value "abcd" has a length of 4 but Code expects 0..3`)
+		expect(() => generated.RootDocument.parse("Root\n\tCodes AB\nEnd")).toThrow(`Value "AB" does not match the pattern of Code`)
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("Generated TypeScript number types", () => {
+	let generated: any = loadGeneratedModule(`Schema
+	NumberType
+		Name Count
+		BaseType UInt
+		Max 10
+	End
+	NumberType
+		Name Temp
+		BaseType Number
+		Min -273.15 Exclusive
+		DecimalPlaces 1
+	End
+	NumberType
+		Name Even
+		BaseType Int
+		Step 2
+	End
+	Element
+		Name Root
+		UnorderedContent
+			Attribute C Required Count
+			Attribute T Optional Temp
+			Attribute Ts Optional Temp[0..N]
+			Attribute Es Optional Even?[0..N]
+		End
+	End
+End`)
+
+	test("loads values and arrays with zero minimum", () => {
+		let root: any = generated.RootDocument.parse("Root\n\tC 3\n\tT 21.5\n\tTs -10.5 0\n\tEs 4 - -2\nEnd")
+		expect(root.c).toBe(3)
+		expect(root.t).toBe(21.5)
+		expect(root.ts).toEqual([-10.5, 0])
+		expect(root.es).toEqual([4, null, -2])
+		expect(root.toString()).toBe(generated.RootDocument.parse(root.toString()).toString())
+	})
+
+	test("checks base types and constraints", () => {
+		expect(() => generated.RootDocument.parse("Root\n\tC -1\nEnd")).toThrow("Value -1 is not a valid UInt")
+		expect(() => generated.RootDocument.parse("Root\n\tC 11\nEnd")).toThrow("Value 11 is out of range of Count which expects <= 10")
+		expect(() => generated.RootDocument.parse("Root\n\tC 1.5\nEnd")).toThrow()
+		expect(() => generated.RootDocument.parse("Root\n\tC 1\n\tTs 1.25\nEnd")).toThrow("Value 1.25 has more than 1 decimal places allowed by Temp")
+		expect(() => generated.RootDocument.parse("Root\n\tC 1\n\tEs 3\nEnd")).toThrow("Value 3 is not a multiple of step 2 of Even")
+	})
+})
@@ -0,0 +1,250 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import { SmlSchema, SsMemorySchemaResolver } from "../src/smlschema.js"
+import { SmlSchemaComparer, SsCompatibility, SsSchemaDiff } from "../src/smlschema-diff.js"
+
+// ----------------------------------------------------------------------
+
+function compare(oldContent: string, newContent: string, resolver: SsMemorySchemaResolver | null = null): SsSchemaDiff {
+	return SmlSchemaComparer.compare(SmlSchema.parse(oldContent, resolver, "/main.schema"), SmlSchema.parse(newContent, resolver, "/main.schema"))
+}
+
+function getChanges(oldContent: string, newContent: string): string[] {
+	return compare(oldContent, newContent).changes.map((x) => x.toString())
+}
+
+function getRootSchema(content: string, definitions: string = ""): string {
+	return `Schema
+	RootElement Root${definitions}
+	Element
+		Name Root
+		UnorderedContent
+${content}
+		End
+	End
+End`
+}
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaComparer occurrences", () => {
+	test.each([
+		["Optional", "Required", "Forward"],
+		["Required", "Optional", "Backward"],
+		["Repeated+", "Repeated*", "Backward"],
+		["Repeated*", "Repeated+", "Forward"],
+		["Required", "Repeated+", "Backward"],
+		["Optional", "1..3", "Breaking"],
+	])("%s to %s", (oldOccurrence, newOccurrence, compatibility) => {
+		let diff: SsSchemaDiff = compare(getRootSchema(`\t\t\tAttribute A ${oldOccurrence} Int`), getRootSchema(`\t\t\tAttribute A ${newOccurrence} Int`))
+		expect(diff.changes.map((x) => [x.kindName, x.compatibilityName, x.path])).toEqual([["OccurrenceChanged", compatibility, "Root/A"]])
+		expect(diff.compatibility).toBe(SsCompatibility[compatibility as keyof typeof SsCompatibility])
+	})
+
+	test("Unchanged schema", () => {
+		let content: string = getRootSchema("\t\t\tAttribute A Required Int")
+		expect(compare(content, content).compatibility).toBe(SsCompatibility.Full)
+		expect(getChanges(content, content)).toEqual([])
+	})
+
+	test("Added and removed children", () => {
+		expect(getChanges(getRootSchema("\t\t\tAttribute A Optional Int\n\t\t\tElement Root Required"), getRootSchema("\t\t\tAttribute B Optional Int"))).toEqual([
+			"Breaking ElementRemoved: Root/Root: Child element \"Root\" in element \"Root\" was removed",
+			"Forward AttributeRemoved: Root/A: Attribute \"A\" in element \"Root\" was removed",
+			"Backward AttributeAdded: Root/B: Attribute \"B\" in element \"Root\" was added",
+		])
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaComparer data types", () => {
+	test.each([
+		["Int", "Int?", "Backward"],
+		["Int?", "Int", "Forward"],
+		["Int[1..N]", "Int[1..N]?", "Backward"],
+		["UInt", "Int", "Backward"],
+		["Int", "Number", "Backward"],
+		["Number", "Int", "Forward"],
+		["Bool", "String", "Backward"],
+		["Int[1..3]", "Int[0..N]", "Backward"],
+		["Int[0..N]", "Int[2..N]", "Forward"],
+		["Int[1..3]", "Int[2..N]", "Breaking"],
+		["Bool", "Int", "Breaking"],
+	])("%s to %s", (oldDataType, newDataType, compatibility) => {
+		let diff: SsSchemaDiff = compare(getRootSchema(`\t\t\tAttribute A Required ${oldDataType}`), getRootSchema(`\t\t\tAttribute A Required ${newDataType}`))
+		expect(diff.changes.map((x) => [x.kindName, x.compatibilityName, x.path])).toEqual([["DataTypeChanged", compatibility, "Root/A"]])
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaComparer value types", () => {
+	let getEnumSchema = (values: string): string => getRootSchema("\t\t\tAttribute A Required Color", `
+	EnumType
+		Name Color
+		Values ${values}
+	End`)
+
+	test("Enum values", () => {
+		expect(getChanges(getEnumSchema("Red Green"), getEnumSchema("Red Blue"))).toEqual([
+			"Forward EnumValueRemoved: Color/Green: Value \"Green\" was removed from enum \"Color\"",
+			"Backward EnumValueAdded: Color/Blue: Value \"Blue\" was added to enum \"Color\"",
+		])
+		expect(compare(getEnumSchema("Red"), getEnumSchema("Red Green")).compatibility).toBe(SsCompatibility.Backward)
+	})
+
+	let getNumberSchema = (constraints: string): string => getRootSchema("\t\t\tAttribute A Required Amount", `
+	NumberType
+		Name Amount
+		BaseType Int${constraints}
+	End`)
+
+	test.each([
+		["\n\t\tMin 0", "", "Backward"],
+		["", "\n\t\tMin 0", "Forward"],
+		["\n\t\tMin 0\n\t\tMax 10", "\n\t\tMin 1\n\t\tMax 20", "Breaking"],
+		["\n\t\tStep 2", "", "Backward"],
+	])("Number type %j to %j", (oldConstraints, newConstraints, compatibility) => {
+		let diff: SsSchemaDiff = compare(getNumberSchema(oldConstraints), getNumberSchema(newConstraints))
+		expect(diff.changes.map((x) => [x.kindName, x.compatibilityName, x.path])).toEqual([["ValueTypeDefChanged", compatibility, "Amount"]])
+	})
+
+	let getStringSchema = (constraints: string): string => getRootSchema("\t\t\tAttribute A Required Code", `
+	StringType
+		Name Code${constraints}
+	End`)
+
+	test.each([
+		["\n\t\tMaxLength 5", "\n\t\tMaxLength 10", "Backward"],
+		["\n\t\tMinLength 1", "\n\t\tMinLength 2", "Forward"],
+		["", "\n\t\tPattern \"[a-z]+\"", "Breaking"],
+	])("String type %j to %j", (oldConstraints, newConstraints, compatibility) => {
+		let diff: SsSchemaDiff = compare(getStringSchema(oldConstraints), getStringSchema(newConstraints))
+		expect(diff.changes.map((x) => [x.kindName, x.compatibilityName, x.path])).toEqual([["ValueTypeDefChanged", compatibility, "Code"]])
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaComparer structs", () => {
+	let getStructSchema = (values: string): string => getRootSchema("\t\t\tAttribute A Required Point", `
+	Struct
+		Name Point
+${values}
+	End`)
+
+	test("Optional value added and removed at the end", () => {
+		let oldContent: string = getStructSchema("\t\tValue X Required Int")
+		let newContent: string = getStructSchema("\t\tValue X Required Int\n\t\tValue Y Optional Int")
+		expect(getChanges(oldContent, newContent)).toEqual(["Backward StructValueAdded: Point/Y: Value \"Y\" was added to struct \"Point\""])
+		expect(getChanges(newContent, oldContent)).toEqual(["Forward StructValueRemoved: Point/Y: Value \"Y\" was removed from struct \"Point\""])
+	})
+
+	test("Required value added", () => {
+		expect(getChanges(getStructSchema("\t\tValue X Required Int"), getStructSchema("\t\tValue X Required Int\n\t\tValue Y Required Int"))).toEqual([
+			"Breaking StructValueAdded: Point/Y: Value \"Y\" was added to struct \"Point\"",
+		])
+	})
+
+	test("Value changed", () => {
+		expect(getChanges(getStructSchema("\t\tValue X Required Int"), getStructSchema("\t\tValue X Required Number?"))).toEqual([
+			"Backward StructValueChanged: Point/X: Value \"X\" of struct \"Point\" changed from Required Int to Required Number?",
+		])
+	})
+
+	test("Values reordered", () => {
+		let changes: string[] = getChanges(getStructSchema("\t\tValue X Required Int\n\t\tValue Y Required Int"), getStructSchema("\t\tValue Y Required Int\n\t\tValue X Required Int"))
+		expect(changes.every((x) => x.startsWith("Breaking"))).toBe(true)
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaComparer definitions", () => {
+	let getVehicleSchema = (extendsStr: string): string => `Schema
+	RootElement Garage
+	Element
+		Name Garage
+		UnorderedContent
+			Element Car Repeated*
+		End
+	End
+	Element
+		Name Car${extendsStr}
+		UnorderedContent
+			Attribute Doors Required Int
+		End
+	End
+	Element
+		Name Vehicle
+		UnorderedContent
+			Attribute Wheels Required Int
+		End
+	End
+End`
+
+	test("Base element change is reported with the inherited content changes", () => {
+		expect(getChanges(getVehicleSchema(""), getVehicleSchema("\n\t\tExtends Vehicle"))).toEqual([
+			"Full BaseElementChanged: Car: Base element of element \"Car\" changed from none to \"Vehicle\"",
+			"Breaking AttributeAdded: Car/Wheels: Attribute \"Wheels\" in element \"Car\" was added",
+		])
+	})
+
+	test("Unreferenced definitions do not affect documents", () => {
+		let oldContent: string = getRootSchema("\t\t\tAttribute A Required Int")
+		let newContent: string = getRootSchema("\t\t\tAttribute A Required Int", `
+	EnumType
+		Name Color
+		Values Red
+	End`)
+		expect(compare(oldContent, newContent).compatibility).toBe(SsCompatibility.Full)
+		expect(compare(newContent, oldContent).compatibility).toBe(SsCompatibility.Full)
+	})
+
+	test("Referenced definition removed is reported at the reference", () => {
+		let oldContent: string = getRootSchema("\t\t\tAttribute A Required Color", `
+	EnumType
+		Name Color
+		Values Red
+	End`)
+		let newContent: string = getRootSchema("\t\t\tAttribute A Required String")
+		expect(getChanges(oldContent, newContent)).toEqual([
+			"Full ValueTypeDefRemoved: Color: Value type \"Color\" was removed",
+			"Backward DataTypeChanged: Root/A: Data type of attribute \"A\" in element \"Root\" changed from Color to String",
+		])
+	})
+
+	test("Definition removed from a schema without root element", () => {
+		let oldContent: string = "Schema\n\tEnumType\n\t\tName Color\n\t\tValues Red\n\tEnd\n\tEnumType\n\t\tName Size\n\t\tValues S\n\tEnd\nEnd"
+		let newContent: string = "Schema\n\tEnumType\n\t\tName Color\n\t\tValues Red\n\tEnd\nEnd"
+		expect(getChanges(oldContent, newContent)).toEqual(["Breaking ValueTypeDefRemoved: Size: Value type \"Size\" was removed"])
+		expect(getChanges(newContent, oldContent)).toEqual(["Full ValueTypeDefAdded: Size: Value type \"Size\" was added"])
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaComparer imports", () => {
+	let getResolver = (colors: string): SsMemorySchemaResolver => new SsMemorySchemaResolver(new Map<string, string>([
+		["/colors.schema", `Schema\n\tEnumType\n\t\tName Color\n\t\tValues ${colors}\n\tEnd\nEnd`],
+		["/other.schema", "Schema\n\tEnumType\n\t\tName Size\n\t\tValues S M\n\tEnd\nEnd"],
+	]))
+
+	test("Imported definitions are compared", () => {
+		let content: string = getRootSchema("\t\t\tAttribute A Required Color").replace("\tRootElement Root", "\tImport colors.schema\n\tRootElement Root")
+		let diff: SsSchemaDiff = SmlSchemaComparer.compare(SmlSchema.parse(content, getResolver("Red Green"), "/main.schema"), SmlSchema.parse(content, getResolver("Red"), "/main.schema"))
+		expect(diff.changes.map((x) => x.toString())).toEqual(["Forward EnumValueRemoved: colors.schema/Color/Green: Value \"Green\" was removed from enum \"Color\""])
+	})
+
+	test("Imports added, removed and aliased", () => {
+		let oldContent: string = getRootSchema("\t\t\tAttribute A Required Color").replace("\tRootElement Root", "\tImport colors.schema\n\tImport other.schema\n\tRootElement Root")
+		let newContent: string = getRootSchema("\t\t\tAttribute A Required C.Color").replace("\tRootElement Root", "\tImport colors.schema C\n\tRootElement Root")
+		let diff: SsSchemaDiff = compare(oldContent, newContent, getResolver("Red"))
+		expect(diff.changes.map((x) => x.toString())).toEqual([
+			"Full ImportAliasChanged: colors.schema: Alias of import \"colors.schema\" changed from none to \"C\"",
+			"Full ImportRemoved: other.schema: Import \"other.schema\" was removed",
+		])
+		expect(compare(newContent, oldContent, getResolver("Red")).changes.map((x) => x.kindName)).toEqual(["ImportAliasChanged", "ImportAdded"])
+	})
+})
@@ -0,0 +1,138 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { SmlSchema, SsMemorySchemaResolver, SsSchemaError, SsValidationIssue } from "../src/smlschema.js"
+import { SmlSchemaFile } from "../src/smlschema-io.js"
+
+// ----------------------------------------------------------------------
+
+const colorsContent: string = "Schema\n\tEnumType\n\t\tName Color\n\t\tValues Red Green\n\tEnd\nEnd"
+
+function getMainContent(imports: string, dataType: string): string {
+	return `Schema
+${imports}
+	Element
+		Name Root
+		UnorderedContent
+			Attribute A Required ${dataType}
+		End
+	End
+End`
+}
+
+function getIssues(action: () => void): string[] {
+	try {
+		action()
+	} catch (e) {
+		if (e instanceof SsSchemaError) { return (e as SsSchemaError).issues.map((x: SsValidationIssue) => x.message) }
+		throw e
+	}
+	return []
+}
+
+// ----------------------------------------------------------------------
+
+describe("SsMemorySchemaResolver", () => {
+	let resolver: SsMemorySchemaResolver = new SsMemorySchemaResolver(new Map<string, string>([
+		["/lib/colors.schema", colorsContent],
+		["main.schema", "Schema\nEnd"],
+	]))
+
+	test.each([
+		["/lib/colors.schema", null, "/lib/colors.schema"],
+		["lib/colors.schema", null, "/lib/colors.schema"],
+		["./lib/./colors.schema", null, "/lib/colors.schema"],
+		["../lib/colors.schema", null, "/lib/colors.schema"],
+		["/main.schema", null, "/main.schema"],
+		["colors.schema", "/lib/main.schema", "/lib/colors.schema"],
+		["../lib/colors.schema", "/other/main.schema", "/lib/colors.schema"],
+		["/main.schema", "/lib/colors.schema", "/main.schema"],
+		["colors.schema", "lib/main.schema", "/lib/colors.schema"],
+	])("%s relative to %s", (filePath, basePath, expectedPath) => {
+		expect(resolver.resolve(filePath, basePath).path).toBe(expectedPath)
+	})
+
+	test("Missing schema", () => {
+		expect(() => resolver.resolve("missing.schema", "/lib/main.schema")).toThrow(`Schema "/lib/missing.schema" not found`)
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SsFileSystemSchemaResolver", () => {
+	test("Relative imports", () => {
+		let tempPath: string = fs.mkdtempSync(path.join(os.tmpdir(), "smlschema-import-"))
+		try {
+			fs.mkdirSync(path.join(tempPath, "lib"))
+			fs.writeFileSync(path.join(tempPath, "lib", "colors.schema"), "\uFEFF" + colorsContent, "utf-8")
+			fs.writeFileSync(path.join(tempPath, "main.schema"), getMainContent("\tImport lib/colors.schema", "Color"), "utf-8")
+			let schema: SmlSchema = SmlSchemaFile.loadSync(path.join(tempPath, "main.schema"))
+			expect(schema.imports.map((x) => x.path)).toEqual(["lib/colors.schema"])
+			expect(schema.importedDefinitions.valueTypeDefs.has("Color")).toBe(true)
+		} finally {
+			fs.rmSync(tempPath, { recursive: true, force: true })
+		}
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchema imports", () => {
+	let resolver: SsMemorySchemaResolver = new SsMemorySchemaResolver(new Map<string, string>([
+		["/lib/colors.schema", colorsContent],
+		["/lib/shapes.schema", "Schema\n\tImport colors.schema\n\tStruct\n\t\tName Shape\n\t\tValue C Required Color\n\tEnd\nEnd"],
+		["/cycle/a.schema", "Schema\n\tImport b.schema\nEnd"],
+		["/cycle/b.schema", "Schema\n\tImport a.schema\nEnd"],
+		["/cycle/self.schema", "Schema\n\tImport self.schema\nEnd"],
+	]))
+
+	function parse(imports: string, dataType: string): SmlSchema {
+		return SmlSchema.parse(getMainContent(imports, dataType), resolver, "/main.schema")
+	}
+
+	test("Alias", () => {
+		let schema: SmlSchema = parse("\tImport lib/colors.schema C", "C.Color")
+		expect(schema.importedDefinitions.valueTypeDefs.has("C.Color")).toBe(true)
+		expect(schema.importedDefinitions.valueTypeDefs.has("Color")).toBe(false)
+		expect(schema.toString()).toBe(getMainContent("\tImport lib/colors.schema C", "C.Color"))
+		expect(getIssues(() => parse("\tImport lib/colors.schema C", "Color"))).toEqual(["StructDef \"Color\" not defined in ElementDef \"Root\""])
+	})
+
+	test("Same schema imported with and without alias", () => {
+		let schema: SmlSchema = parse("\tImport lib/colors.schema\n\tImport lib/colors.schema C", "Color")
+		expect(schema.importedDefinitions.valueTypeDefs.get("C.Color")).toBe(schema.importedDefinitions.valueTypeDefs.get("Color"))
+		expect(schema.toString()).toBe(getMainContent("\tImport lib/colors.schema\n\tImport lib/colors.schema C", "Color"))
+		expect(parse("\tImport lib/colors.schema C\n\tImport lib/colors.schema", "C.Color").toString()).toBe(getMainContent("\tImport lib/colors.schema C\n\tImport lib/colors.schema", "Color"))
+	})
+
+	test("Imported schemas are shared", () => {
+		let schema: SmlSchema = parse("\tImport lib/colors.schema\n\tImport lib/shapes.schema S", "S.Shape")
+		expect(schema.imports[1].schema.imports[0].schema).toBe(schema.imports[0].schema)
+	})
+
+	test("Duplicate and invalid aliases", () => {
+		expect(getIssues(() => parse("\tImport lib/colors.schema C\n\tImport lib/shapes.schema C", "C.Color"))).toEqual(["Import alias \"C\" already used"])
+		expect(getIssues(() => parse("\tImport lib/colors.schema C.D", "C.D.Color"))).toEqual(["Invalid import alias \"C.D\""])
+	})
+
+	test("Local definition shadowing an import", () => {
+		let imports: string = "\tImport lib/colors.schema\n\tEnumType\n\t\tName Color\n\t\tValues Blue\n\tEnd"
+		expect(getIssues(() => parse(imports, "Color"))).toEqual(["ValueTypeDef \"Color\" of schema would shadow an imported ValueTypeDef"])
+		expect(() => parse(imports.replace("colors.schema", "colors.schema C"), "Color")).not.toThrow()
+	})
+
+	test("Cycle detection", () => {
+		expect(getIssues(() => SmlSchema.parse("Schema\n\tImport cycle/a.schema\nEnd", resolver, "/main.schema"))).toEqual([
+			"Could not import \"/cycle/a.schema\" because Error InvalidSchema: Schema/Import (line 2): Could not import \"/cycle/b.schema\" because Error InvalidSchema: Schema/Import (line 2): Cyclic import of \"/cycle/a.schema\" (/main.schema -> /cycle/a.schema -> /cycle/b.schema -> /cycle/a.schema)",
+		])
+		expect(getIssues(() => SmlSchema.parse("Schema\n\tImport self.schema\nEnd", resolver, "/cycle/self.schema"))).toEqual([
+			"Cyclic import of \"/cycle/self.schema\" (/cycle/self.schema -> /cycle/self.schema)",
+		])
+	})
+
+	test("Import without resolver", () => {
+		expect(getIssues(() => SmlSchema.parse("Schema\n\tImport lib/colors.schema\nEnd"))).toEqual(["Cannot import \"lib/colors.schema\" because no schema resolver was specified"])
+	})
+})
@@ -0,0 +1,177 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import { SmlDocument } from "../src/sml.js"
+import { SmlSchema, SmlValidator, SsAttributeDataType, SsElementDef, SsEnumTypeDef, SsUnorderedContent } from "../src/smlschema.js"
+import { SmlSchemaInferenceOptions, SmlSchemaInferrer } from "../src/smlschema-inference.js"
+
+// ----------------------------------------------------------------------
+
+const samples: string[] = [
+`Config
+	Name a
+	Port 80
+	Mode fast
+	Ratio 0.5
+	Sizes 1 2 3
+	Tags x -
+	Server
+		Host h1
+	End
+	Server
+		Host h2
+	End
+	Day 2022-01-01
+End`,
+`Config
+	Name b
+	Port -1
+	Mode fast
+	Ratio 2
+	Sizes 4 5
+	Server
+		Host h3
+	End
+	Log
+	End
+	At 10:30
+End`,
+]
+
+function infer(contents: string[], options: SmlSchemaInferenceOptions = new SmlSchemaInferenceOptions()): SmlSchema {
+	return SmlSchemaInferrer.infer(contents.map((x) => SmlDocument.parse(x)), options)
+}
+
+function getContent(schema: SmlSchema, elementName: string): SsUnorderedContent {
+	return schema.definitions.elementDefs.get(elementName).content as SsUnorderedContent
+}
+
+function getAttributes(schema: SmlSchema, elementName: string): string[] {
+	return getContent(schema, elementName).unorderedAttributes.map((x) => `${x.attributeDef.name} ${x.occurrence} ${x.attributeDef.dataType}`)
+}
+
+function validate(schema: SmlSchema, content: string): string[] {
+	return new SmlValidator(schema).validateContent(content).map((x) => x.codeName)
+}
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaInferrer", () => {
+	let schema: SmlSchema = infer(samples)
+
+	test("root element", () => {
+		expect(schema.getRootElement().name).toBe("Config")
+	})
+
+	test("element occurrences", () => {
+		expect(getContent(schema, "Config").unorderedElements.map((x) => `${x.elementDef.name} ${x.occurrence}`)).toEqual(["Server 1..N", "Log 0..1"])
+	})
+
+	test("attribute occurrences and data types", () => {
+		expect(getAttributes(schema, "Config")).toEqual([
+			"Name 1 String",
+			"Port 1 Int",
+			"Mode 1 Mode",
+			"Ratio 1 Number",
+			"Sizes 1 UInt[1..N]",
+			"Tags 0..1 String?[1..N]",
+			"Day 0..1 Date",
+			"At 0..1 Time",
+		])
+		expect(getAttributes(schema, "Server")).toEqual(["Host 1 String"])
+	})
+
+	test("samples are valid", () => {
+		for (let sample of samples) {
+			expect(validate(schema, sample)).toEqual([])
+		}
+	})
+
+	test("schema can be serialized and parsed", () => {
+		expect(SmlSchema.parse(schema.toString()).toString()).toBe(schema.toString())
+	})
+
+	test("repeated elements", () => {
+		let repeatedSchema: SmlSchema = infer(["Root\n\tItem\n\tEnd\n\tItem\n\tEnd\nEnd", "Root\nEnd"])
+		expect(getContent(repeatedSchema, "Root").unorderedElements.map((x) => x.occurrence.toString())).toEqual(["0..N"])
+	})
+
+	test("predefined types", () => {
+		let typesSchema: SmlSchema = infer(["Root\n\tB true\n\tU 1\n\tI -1\n\tN 1.5\n\tD 2022-01-01\n\tT 12:00\n\tDT 2022-01-01T12:00:00Z\n\tMixed 1\nEnd", "Root\n\tB false\n\tU 2\n\tI 2\n\tN 3\n\tD 2022-12-31\n\tT 23:59:59\n\tDT 2022-12-31T23:59:59Z\n\tMixed true\nEnd"])
+		let dataTypes: string[] = getContent(typesSchema, "Root").unorderedAttributes.map((x) => x.attributeDef.dataType.toString())
+		expect(dataTypes).toEqual(["Bool", "UInt", "Int", "Number", "Date", "Time", "DateTime", "String"])
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaInferrer array ranges", () => {
+	let larger: string = samples[1].replace("Sizes 4 5", "Sizes 1 2 3 4 5 6")
+	let smaller: string = samples[1].replace("Sizes 4 5", "Sizes 4")
+
+	test("open-ended by default", () => {
+		let schema: SmlSchema = infer(samples)
+		let dataType: SsAttributeDataType = getContent(schema, "Config").unorderedAttributes.find((x) => x.attributeDef.name === "Sizes")!.attributeDef.dataType
+		expect(dataType.arrayRange!.toString()).toBe("1..N")
+		expect(validate(schema, larger)).toEqual([])
+		expect(validate(schema, smaller)).toEqual([])
+	})
+
+	test("exact bounds", () => {
+		let options: SmlSchemaInferenceOptions = new SmlSchemaInferenceOptions()
+		options.exactArrayRanges = true
+		let schema: SmlSchema = infer(samples, options)
+		expect(getAttributes(schema, "Config").filter((x) => x.startsWith("Sizes") || x.startsWith("Tags"))).toEqual(["Sizes 1 UInt[2..3]", "Tags 0..1 String?[2]"])
+		expect(validate(schema, larger)).toEqual(["InvalidArraySize"])
+		expect(validate(schema, smaller)).toEqual(["InvalidArraySize"])
+		for (let sample of samples) {
+			expect(validate(schema, sample)).toEqual([])
+		}
+	})
+
+	test("single values are not arrays", () => {
+		let options: SmlSchemaInferenceOptions = new SmlSchemaInferenceOptions()
+		options.exactArrayRanges = true
+		expect(getAttributes(infer(["Root\n\tA 1\nEnd"], options), "Root")).toEqual(["A 1 UInt"])
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaInferrer enums", () => {
+	test("enough samples per value", () => {
+		let schema: SmlSchema = infer(["Root\n\tMode slow fast slow fast\nEnd"])
+		expect(getAttributes(schema, "Root")).toEqual(["Mode 1 Mode[1..N]"])
+		expect((schema.definitions.valueTypeDefs.get("Mode") as SsEnumTypeDef).values).toEqual(["fast", "slow"])
+	})
+
+	test("too few samples per value", () => {
+		expect(getAttributes(infer(["Root\n\tMode slow fast\nEnd"]), "Root")).toEqual(["Mode 1 String[1..N]"])
+	})
+
+	test("disabled", () => {
+		let options: SmlSchemaInferenceOptions = new SmlSchemaInferenceOptions()
+		options.inferEnums = false
+		expect(getAttributes(infer(["Root\n\tMode slow slow\nEnd"], options), "Root")).toEqual(["Mode 1 String[1..N]"])
+	})
+
+	test("unique names", () => {
+		let schema: SmlSchema = infer(["Root\n\tMode a a\n\tChild\n\t\tMode b b\n\tEnd\nEnd"])
+		expect(schema.definitions.valueTypeDefs.values.map((x) => x.name)).toEqual(["Mode", "Mode2"])
+		let elementDef: SsElementDef = schema.definitions.elementDefs.get("Child")
+		expect((elementDef.content as SsUnorderedContent).unorderedAttributes[0].attributeDef.dataType.toString()).toBe("Mode2[1..N]")
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaInferrer errors", () => {
+	test("no documents", () => {
+		expect(() => new SmlSchemaInferrer().toSchema()).toThrow("No documents added")
+	})
+
+	test("different root elements", () => {
+		let inferrer: SmlSchemaInferrer = new SmlSchemaInferrer()
+		inferrer.addContent("A\nEnd")
+		expect(() => inferrer.addContent("B\nEnd")).toThrow("Root element \"B\" differs from root element \"A\" of previous documents")
+	})
+})
@@ -0,0 +1,55 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import { SmlSchema } from "../src/smlschema.js"
+import { SmlSchemaJsonSchemaExporter, SsJsonSchema } from "../src/smlschema-jsonschema.js"
+
+// ----------------------------------------------------------------------
+
+function getDefs(content: string): { [name: string]: SsJsonSchema } {
+	return new SmlSchemaJsonSchemaExporter(SmlSchema.parse(content)).export().$defs as { [name: string]: SsJsonSchema }
+}
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchemaJsonSchemaExporter number types", () => {
+	let defs: { [name: string]: SsJsonSchema } = getDefs(`Schema
+	NumberType
+		Name Even
+		BaseType Int
+		Min 0
+		Step 2
+	End
+	NumberType
+		Name Odd
+		BaseType Int
+		Min 1
+		Step 2
+		Description "Odd numbers"
+	End
+	NumberType
+		Name Price
+		BaseType Number
+		DecimalPlaces 2
+	End
+	Element
+		Name Root
+		UnorderedContent
+			Attribute E Required Even
+			Attribute O Required Odd
+			Attribute P Required Price
+		End
+	End
+End`)
+
+	test("step aligned with minimum", () => {
+		expect(defs.EvenType).toEqual({ type: "integer", minimum: 0, multipleOf: 2 })
+	})
+
+	test("step offset from minimum is documented", () => {
+		expect(defs.OddType).toEqual({ type: "integer", minimum: 1, description: "Odd numbers. Value must be 1 plus a multiple of 2" })
+	})
+
+	test("decimal places", () => {
+		expect(defs.PriceType).toEqual({ type: "number", multipleOf: 0.01 })
+	})
+})
@@ -0,0 +1,509 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import { SmlSchema, SsAttributeDataType, SsAttributeDef, SsCharacterClass, SsChoice, SsDefinitions, SsElementDef, SsEnumTypeDef, SsListContent, SsNumberTypeDef, SsOrderedAttribute, SsOrderedChoice, SsOrderedContent, SsOrderedElement, SsPredefinedType, SsRange, SsStringTypeDef, SsStructDef, SsUnorderedContent, SsValueTypeDef, SsWhitespaceRule } from "../src/smlschema.js"
+
+// ----------------------------------------------------------------------
+
+class Random {
+	private state: number
+
+	constructor(seed: number) {
+		this.state = seed >>> 0
+	}
+
+	next(): number {
+		this.state = (this.state + 0x6D2B79F5) >>> 0
+		let t: number = this.state
+		t = Math.imul(t ^ (t >>> 15), t | 1)
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+	}
+
+	int(min: number, max: number): number {
+		return min + Math.floor(this.next() * (max - min + 1))
+	}
+
+	bool(probability: number = 0.5): boolean {
+		return this.next() < probability
+	}
+
+	pick<T>(items: T[]): T {
+		return items[this.int(0, items.length-1)]
+	}
+
+	pickSome<T>(items: T[], min: number, max: number): T[] {
+		let remaining: T[] = [...items]
+		let result: T[] = []
+		let count: number = Math.min(this.int(min, max), remaining.length)
+		for (let i=0; i<count; i++) {
+			result.push(remaining.splice(this.int(0, remaining.length-1), 1)[0])
+		}
+		return result
+	}
+}
+
+// ----------------------------------------------------------------------
+
+class RandomSchemaScope {
+	readonly valueTypeDefs: SsValueTypeDef[]
+	readonly structDefs: SsStructDef[]
+	readonly attributeDefs: SsAttributeDef[]
+	readonly elementDefs: SsElementDef[]
+
+	constructor(parentScope: RandomSchemaScope | null) {
+		this.valueTypeDefs = parentScope === null ? [] : [...parentScope.valueTypeDefs]
+		this.structDefs = parentScope === null ? [] : [...parentScope.structDefs]
+		this.attributeDefs = parentScope === null ? [] : [...parentScope.attributeDefs]
+		this.elementDefs = parentScope === null ? [] : [...parentScope.elementDefs]
+	}
+}
+
+// ----------------------------------------------------------------------
+
+class RandomSchemaGenerator {
+	private readonly random: Random
+	private readonly sampleValues: Map<SsValueTypeDef, string> = new Map<SsValueTypeDef, string>()
+	private nameCounter: number = 0
+	readonly features: Set<string> = new Set<string>()
+
+	private static readonly predefinedTypes: SsPredefinedType[] = [SsPredefinedType.Bool, SsPredefinedType.Int, SsPredefinedType.UInt, SsPredefinedType.Number,
+		SsPredefinedType.String, SsPredefinedType.Date, SsPredefinedType.Time, SsPredefinedType.Base64, SsPredefinedType.DateTime]
+	private static readonly predefinedSampleValues: string[] = ["true", "-42", "42", "3.5", "Hello World", "2022-02-28", "23:59:30", "U01M", "2022-02-28T23:59:30Z"]
+	private static readonly texts: string[] = ["Plain text", "With \"quotes\"", "Hash # and slash /", "Line one\nLine two", "  padded  ", "Ümläut ✓", "-"]
+
+	constructor(seed: number) {
+		this.random = new Random(seed)
+	}
+
+	private getName(prefix: string): string {
+		this.nameCounter++
+		return prefix + this.nameCounter
+	}
+
+	private getDescription(): string | null {
+		return this.random.bool(0.3) ? this.random.pick(RandomSchemaGenerator.texts) : null
+	}
+
+	private getOccurrence(): SsRange {
+		switch (this.random.int(0, 6)) {
+			case 0: return SsRange.optional()
+			case 1: return SsRange.repeatedPlus()
+			case 2: return SsRange.repeatedStar()
+			case 3: return SsRange.fixed(this.random.int(2, 4))
+			case 4: return new SsRange(this.random.int(0, 2), this.random.int(3, 6))
+			case 5: return new SsRange(this.random.int(2, 3), null)
+			default: return SsRange.required()
+		}
+	}
+
+	private addEnum(definitions: SsDefinitions, scope: RandomSchemaScope) {
+		let values: string[] = this.random.pickSome(["Red", "Dark Blue", "green", "#1", "Value \"quoted\"", "x-y", "-"], 1, 4)
+		let enumTypeDef: SsEnumTypeDef = definitions.addEnum(this.getName("Enum"), values)
+		enumTypeDef.description = this.getDescription()
+		for (let value of values) {
+			enumTypeDef.setValueDescription(value, this.getDescription())
+		}
+		this.sampleValues.set(enumTypeDef, values[0])
+		scope.valueTypeDefs.push(enumTypeDef)
+		this.features.add("enum")
+	}
+
+	private addStringType(definitions: SsDefinitions, scope: RandomSchemaScope) {
+		let stringTypeDef: SsStringTypeDef = definitions.addStringType(this.getName("String"))
+		stringTypeDef.description = this.getDescription()
+		if (this.random.bool()) {
+			stringTypeDef.setLength(this.random.bool() ? this.random.int(0, 4) : null, this.random.bool() ? this.random.int(4, 20) : null)
+		}
+		if (this.random.bool(0.3)) {
+			stringTypeDef.setPattern(this.random.pick(["[A-Za-z]+[0-9]*", "\\w+", "[A-Z][a-z]+[0-9]{2}"]))
+		}
+		if (this.random.bool(0.3)) {
+			stringTypeDef.setCharacterClasses([SsCharacterClass.Letter, SsCharacterClass.Digit, ...this.random.pickSome([SsCharacterClass.Whitespace, SsCharacterClass.Punctuation, SsCharacterClass.Symbol], 0, 3)])
+		}
+		if (this.random.bool(0.3)) {
+			stringTypeDef.whitespace = this.random.pick([SsWhitespaceRule.Trimmed, SsWhitespaceRule.Collapsed])
+		}
+		this.sampleValues.set(stringTypeDef, "Ab12")
+		scope.valueTypeDefs.push(stringTypeDef)
+		this.features.add("string")
+	}
+
+	private addNumberType(definitions: SsDefinitions, scope: RandomSchemaScope) {
+		let baseType: SsPredefinedType = this.random.pick([SsPredefinedType.Int, SsPredefinedType.UInt, SsPredefinedType.Number])
+		let numberTypeDef: SsNumberTypeDef = definitions.addNumberType(this.getName("Number"), baseType)
+		numberTypeDef.description = this.getDescription()
+		let isNumber: boolean = baseType === SsPredefinedType.Number
+		let step: number | null = this.random.bool(0.4) ? this.random.pick(isNumber ? [0.25, 0.5, 2] : [1, 2, 5]) : null
+		let unit: number = step ?? (isNumber ? 0.25 : 1)
+		let sampleUnits: number = baseType === SsPredefinedType.UInt ? this.random.int(0, 20) : this.random.int(-20, 20)
+		if (this.random.bool()) {
+			let minUnits: number = this.random.int(baseType === SsPredefinedType.UInt ? -sampleUnits : -5, 0)
+			numberTypeDef.setMin((sampleUnits + minUnits) * unit, minUnits < 0 && this.random.bool())
+		}
+		if (this.random.bool()) {
+			let maxUnits: number = this.random.int(0, 5)
+			numberTypeDef.setMax((sampleUnits + maxUnits) * unit, maxUnits > 0 && this.random.bool())
+		}
+		if (step !== null) {
+			numberTypeDef.setStep(step)
+		} else if (isNumber && this.random.bool(0.4)) {
+			numberTypeDef.setDecimalPlaces(this.random.int(2, 4))
+		}
+		if (this.random.bool(0.3)) {
+			numberTypeDef.unit = this.random.pick(["kg", "m/s", "°C", "km per h"])
+		}
+		this.sampleValues.set(numberTypeDef, (sampleUnits * unit).toString())
+		scope.valueTypeDefs.push(numberTypeDef)
+		this.features.add("number")
+	}
+
+	private getSampleValue(predefinedType: SsPredefinedType | null, valueTypeDef: SsValueTypeDef | null): string {
+		if (valueTypeDef !== null) { return this.sampleValues.get(valueTypeDef)! }
+		return RandomSchemaGenerator.predefinedSampleValues[RandomSchemaGenerator.predefinedTypes.indexOf(predefinedType!)]
+	}
+
+	private addStruct(definitions: SsDefinitions, scope: RandomSchemaScope) {
+		let structDef: SsStructDef = definitions.structDefs.add(this.getName("Struct"))
+		structDef.description = this.getDescription()
+		let valueCount: number = this.random.int(1, 4)
+		let firstOptionalIndex: number = this.random.bool(0.3) ? this.random.int(1, valueCount) : valueCount
+		for (let i=0; i<valueCount; i++) {
+			let valueTypeDef: SsValueTypeDef | null = scope.valueTypeDefs.length > 0 && this.random.bool() ? this.random.pick(scope.valueTypeDefs) : null
+			let predefinedType: SsPredefinedType | null = valueTypeDef === null ? this.random.pick(RandomSchemaGenerator.predefinedTypes) : null
+			let defaultValue: string | null = null
+			if (this.random.bool(0.3)) {
+				defaultValue = this.getSampleValue(predefinedType, valueTypeDef)
+				this.features.add("structDefault")
+			}
+			let value = structDef.addValue(this.getName("Value"), i >= firstOptionalIndex, predefinedType, valueTypeDef, this.random.bool(0.2), defaultValue)
+			value.description = this.getDescription()
+		}
+		scope.structDefs.push(structDef)
+		this.features.add("struct")
+	}
+
+	private getDataType(scope: RandomSchemaScope): SsAttributeDataType {
+		let kind: number = this.random.int(0, 2)
+		let predefinedType: SsPredefinedType | null = null
+		let valueTypeDef: SsValueTypeDef | null = null
+		let structDef: SsStructDef | null = null
+		if (kind === 1 && scope.valueTypeDefs.length > 0) {
+			valueTypeDef = this.random.pick(scope.valueTypeDefs)
+		} else if (kind === 2 && scope.structDefs.length > 0) {
+			structDef = this.random.pick(scope.structDefs)
+		} else {
+			predefinedType = this.random.pick(RandomSchemaGenerator.predefinedTypes)
+		}
+		let arrayRange: SsRange | null = null
+		if (this.random.bool(0.3) && (structDef === null || !structDef.hasOptional)) {
+			arrayRange = this.random.pick([SsRange.repeatedStar(), SsRange.repeatedPlus(), SsRange.fixed(this.random.int(1, 3)), new SsRange(this.random.int(0, 2), this.random.int(3, 5))])
+		}
+		let nullable: boolean = (arrayRange === null || structDef === null) && this.random.bool(0.2)
+		return new SsAttributeDataType(predefinedType, valueTypeDef, structDef, nullable, arrayRange, arrayRange !== null && this.random.bool(0.2))
+	}
+
+	private getDefaultValues(dataType: SsAttributeDataType): (string | null)[] {
+		let getItemValues = (): (string | null)[] => {
+			if (dataType.isStruct) { return dataType.structDef!.values.map((x) => this.getSampleValue(x.predefinedType, x.valueTypeDef)) }
+			return [this.getSampleValue(dataType.predefinedType, dataType.valueTypeDef)]
+		}
+		if (!dataType.isArray) {
+			return dataType.nullable && this.random.bool(0.3) ? [null] : getItemValues()
+		}
+		if (dataType.arrayNullable && this.random.bool(0.3)) { return [null] }
+		let values: (string | null)[] = []
+		let itemCount: number = Math.max(dataType.arrayRange!.min ?? 0, 1)
+		for (let i=0; i<itemCount; i++) {
+			values.push(...(dataType.nullable && this.random.bool(0.3) ? [null] : getItemValues()))
+		}
+		return values
+	}
+
+	private addAttributeDef(definitions: SsDefinitions, scope: RandomSchemaScope) {
+		let attributeDef: SsAttributeDef = definitions.attributeDefs.add(this.getName("Attribute"))
+		attributeDef.dataType = this.getDataType(scope)
+		attributeDef.description = this.getDescription()
+		if (this.random.bool(0.3)) {
+			attributeDef.setDefaultValues(this.getDefaultValues(attributeDef.dataType))
+			this.features.add("attributeDefault")
+		}
+		scope.attributeDefs.push(attributeDef)
+	}
+
+	private getInlineAttributeDef(elementDef: SsElementDef, scope: RandomSchemaScope, occurrence: SsRange | null): SsAttributeDef {
+		let inlineAttributeDef: SsAttributeDef = new SsAttributeDef(this.getName("Inline"), elementDef.definitions)
+		inlineAttributeDef.dataType = this.getDataType(scope)
+		if (occurrence !== null && occurrence.isOptional && this.random.bool()) {
+			inlineAttributeDef.setDefaultValues(this.getDefaultValues(inlineAttributeDef.dataType))
+			this.features.add("inlineDefault")
+		}
+		this.features.add("inline")
+		return inlineAttributeDef
+	}
+
+	private getChoice(elementDef: SsElementDef, scope: RandomSchemaScope, elementDefs: SsElementDef[], attributeDefs: SsAttributeDef[]): SsChoice {
+		let choice: SsChoice = new SsChoice(elementDef)
+		for (let childElementDef of this.random.pickSome(elementDefs, 0, 2)) {
+			choice.addElement(childElementDef.name)
+		}
+		for (let attributeDef of this.random.pickSome(attributeDefs, 0, 2)) {
+			choice.addAttribute(attributeDef.name)
+		}
+		while (choice.alternatives.length < 2) {
+			choice.addInlineAttribute(this.getInlineAttributeDef(elementDef, scope, null))
+		}
+		this.features.add("choice")
+		return choice
+	}
+
+	private generateUnorderedContent(elementDef: SsElementDef, scope: RandomSchemaScope, elementDefs: SsElementDef[]) {
+		let content: SsUnorderedContent = elementDef.isUnordered ? elementDef.content as SsUnorderedContent : elementDef.setUnorderedContent()
+		let usedNames: string[] = []
+		if (elementDef.baseElementDef !== null && elementDef.baseElementDef.isUnordered) {
+			let baseContent: SsUnorderedContent = elementDef.baseElementDef.content as SsUnorderedContent
+			usedNames.push(...baseContent.unorderedElements.map((x) => x.elementDef.name), ...baseContent.unorderedAttributes.map((x) => x.attributeDef.name))
+			for (let unorderedChoice of baseContent.unorderedChoices) {
+				usedNames.push(...unorderedChoice.choice.alternatives.map((x) => x.name))
+			}
+		}
+		let availableElementDefs: SsElementDef[] = elementDefs.filter((x) => !usedNames.includes(x.name))
+		let availableAttributeDefs: SsAttributeDef[] = scope.attributeDefs.filter((x) => !usedNames.includes(x.name))
+		let childElementDefs: SsElementDef[] = this.random.pickSome(availableElementDefs, 0, 3)
+		let attributeDefs: SsAttributeDef[] = this.random.pickSome(availableAttributeDefs, 0, 3)
+		for (let childElementDef of childElementDefs) {
+			content.addElement(childElementDef.name, this.getOccurrence())
+		}
+		for (let attributeDef of attributeDefs) {
+			content.addAttribute(attributeDef.name, this.getOccurrence())
+		}
+		for (let i=this.random.int(0, 2); i>0; i--) {
+			let occurrence: SsRange = this.getOccurrence()
+			content.addInlineAttribute(this.getInlineAttributeDef(elementDef, scope, occurrence), occurrence)
+		}
+		if (this.random.bool(0.4)) {
+			let choice: SsChoice = this.getChoice(elementDef, scope, availableElementDefs.filter((x) => !childElementDefs.includes(x)), availableAttributeDefs.filter((x) => !attributeDefs.includes(x)))
+			content.addChoice(choice, this.getOccurrence())
+		}
+		this.features.add("unordered")
+	}
+
+	private generateOrderedContent(elementDef: SsElementDef, scope: RandomSchemaScope, elementDefs: SsElementDef[]) {
+		let content: SsOrderedContent = elementDef.setOrderedContent()
+		for (let i=this.random.int(1, 5); i>0; i--) {
+			let kind: number = this.random.int(0, 3)
+			let occurrence: SsRange = this.getOccurrence()
+			if (kind === 0 && elementDefs.length > 0) {
+				content.addElement(this.random.pick(elementDefs).name, occurrence)
+			} else if (kind === 1 && scope.attributeDefs.length > 0) {
+				content.addAttribute(this.random.pick(scope.attributeDefs).name, occurrence)
+			} else if (kind === 2) {
+				content.addChoice(this.getChoice(elementDef, scope, elementDefs, scope.attributeDefs), occurrence)
+			} else {
+				content.addInlineAttribute(this.getInlineAttributeDef(elementDef, scope, occurrence), occurrence)
+			}
+		}
+		this.features.add("ordered")
+	}
+
+	private generateListContent(elementDef: SsElementDef, scope: RandomSchemaScope, elementDefs: SsElementDef[]) {
+		let content: SsListContent = elementDef.setListContent()
+		let kind: number = this.random.int(0, 2)
+		let occurrence: SsRange = this.getOccurrence()
+		if (kind === 0 && elementDefs.length > 0) {
+			content.addElement(this.random.pick(elementDefs).name, occurrence)
+		} else if (kind === 1 && scope.attributeDefs.length > 0) {
+			content.addAttribute(this.random.pick(scope.attributeDefs).name, occurrence)
+		} else {
+			content.addInlineAttribute(this.getInlineAttributeDef(elementDef, scope, occurrence), occurrence)
+		}
+		this.features.add("list")
+	}
+
+	private addElementDef(definitions: SsDefinitions, scope: RandomSchemaScope, depth: number) {
+		let elementDef: SsElementDef = definitions.elementDefs.add(this.getName("Element"))
+		elementDef.description = this.getDescription()
+		let elementScope: RandomSchemaScope = new RandomSchemaScope(scope)
+		if (depth < 2 && this.random.bool(0.4)) {
+			this.addDefinitions(elementDef.definitions, elementScope, depth + 1)
+			if (!elementDef.definitions.isEmpty) { this.features.add("nestedDefinitions") }
+		}
+		let elementDefs: SsElementDef[] = [...elementScope.elementDefs]
+		if (this.random.bool(0.2)) { elementDefs.push(elementDef) }
+		
+		let baseElementDefs: SsElementDef[] = elementScope.elementDefs.filter((x) => x.content === null || x.isUnordered)
+		let kind: number = this.random.int(0, 4)
+		if (kind === 0 && baseElementDefs.length > 0) {
+			elementDef.setBaseElementDef(this.random.pick(baseElementDefs))
+			this.generateUnorderedContent(elementDef, elementScope, elementDefs)
+			this.features.add("extends")
+		} else if (kind === 1) {
+			this.generateUnorderedContent(elementDef, elementScope, elementDefs)
+		} else if (kind === 2) {
+			this.generateOrderedContent(elementDef, elementScope, elementDefs)
+		} else if (kind === 3) {
+			this.generateListContent(elementDef, elementScope, elementDefs)
+		}
+		scope.elementDefs.push(elementDef)
+	}
+
+	private addDefinitions(definitions: SsDefinitions, scope: RandomSchemaScope, depth: number) {
+		for (let i=this.random.int(0, 5); i>0; i--) {
+			let kind: number = this.random.int(0, 2)
+			if (kind === 0) { this.addEnum(definitions, scope) }
+			else if (kind === 1) { this.addStringType(definitions, scope) }
+			else { this.addNumberType(definitions, scope) }
+		}
+		for (let i=this.random.int(0, 2); i>0; i--) {
+			this.addStruct(definitions, scope)
+		}
+		for (let i=this.random.int(0, 3); i>0; i--) {
+			this.addAttributeDef(definitions, scope)
+		}
+		for (let i=this.random.int(0, 3); i>0; i--) {
+			this.addElementDef(definitions, scope, depth)
+		}
+	}
+
+	generate(): SmlSchema {
+		let schema: SmlSchema = new SmlSchema()
+		this.addDefinitions(schema.definitions, new RandomSchemaScope(null), 0)
+		let elementDefs: SsElementDef[] = schema.definitions.elementDefs.values
+		if (elementDefs.length > 1) {
+			schema.setRootElementByName(this.random.pick(elementDefs).name)
+		} else {
+			schema.setRootElementDefault()
+		}
+		return schema
+	}
+}
+
+// ----------------------------------------------------------------------
+
+function describeRange(range: SsRange | null): unknown {
+	if (range === null) { return null }
+	return [range.min ?? 0, range.max]
+}
+
+function describeDataType(dataType: SsAttributeDataType): unknown {
+	return {
+		predefinedType: dataType.predefinedType,
+		valueTypeDef: dataType.valueTypeDef === null ? null : dataType.valueTypeDef.name,
+		structDef: dataType.structDef === null ? null : dataType.structDef.name,
+		nullable: dataType.nullable,
+		arrayRange: describeRange(dataType.arrayRange),
+		arrayNullable: dataType.arrayNullable
+	}
+}
+
+function describeAttributeDef(attributeDef: SsAttributeDef): unknown {
+	return {
+		name: attributeDef.name,
+		description: attributeDef.description,
+		dataType: describeDataType(attributeDef.dataType),
+		defaultValues: attributeDef.defaultValues
+	}
+}
+
+function describeValueTypeDef(valueTypeDef: SsValueTypeDef): unknown {
+	if (valueTypeDef instanceof SsEnumTypeDef) {
+		let enumTypeDef: SsEnumTypeDef = valueTypeDef as SsEnumTypeDef
+		return { kind: "enum", name: enumTypeDef.name, description: enumTypeDef.description,
+			values: enumTypeDef.values.map((x) => [x, enumTypeDef.getValueDescription(x)]) }
+	} else if (valueTypeDef instanceof SsStringTypeDef) {
+		let stringTypeDef: SsStringTypeDef = valueTypeDef as SsStringTypeDef
+		return { kind: "string", name: stringTypeDef.name, description: stringTypeDef.description,
+			minLength: stringTypeDef.minLength, maxLength: stringTypeDef.maxLength, pattern: stringTypeDef.pattern,
+			characterClasses: stringTypeDef.characterClasses, whitespace: stringTypeDef.whitespace }
+	}
+	let numberTypeDef: SsNumberTypeDef = valueTypeDef as SsNumberTypeDef
+	return { kind: "number", name: numberTypeDef.name, description: numberTypeDef.description, baseType: numberTypeDef.baseType,
+		min: numberTypeDef.min, minExclusive: numberTypeDef.minExclusive, max: numberTypeDef.max, maxExclusive: numberTypeDef.maxExclusive,
+		step: numberTypeDef.step, decimalPlaces: numberTypeDef.decimalPlaces, unit: numberTypeDef.unit }
+}
+
+function describeStructDef(structDef: SsStructDef): unknown {
+	return {
+		name: structDef.name,
+		description: structDef.description,
+		values: structDef.values.map((x) => ({ name: x.name, optional: x.optional, type: x.getTypeString(), defaultValue: x.defaultValue, description: x.description }))
+	}
+}
+
+function describeChoice(choice: SsChoice): unknown {
+	return choice.alternatives.map((x) => x.isElement ? { element: x.name } : { attribute: x.inline ? describeAttributeDef(x.attributeDef!) : x.name })
+}
+
+function describeContentAttribute(attributeDef: SsAttributeDef, inline: boolean): unknown {
+	return inline ? describeAttributeDef(attributeDef) : attributeDef.name
+}
+
+function describeElementDef(elementDef: SsElementDef): unknown {
+	let content: unknown = null
+	if (elementDef.content instanceof SsUnorderedContent) {
+		let unorderedContent: SsUnorderedContent = elementDef.content as SsUnorderedContent
+		content = {
+			unorderedElements: unorderedContent.ownUnorderedElements.map((x) => [x.elementDef.name, describeRange(x.occurrence)]),
+			unorderedAttributes: unorderedContent.ownUnorderedAttributes.map((x) => [describeContentAttribute(x.attributeDef, x.inline), describeRange(x.occurrence)]),
+			unorderedChoices: unorderedContent.ownUnorderedChoices.map((x) => [describeChoice(x.choice), describeRange(x.occurrence)])
+		}
+	} else if (elementDef.content instanceof SsOrderedContent) {
+		content = (elementDef.content as SsOrderedContent).items.map((x) => {
+			if (x instanceof SsOrderedElement) { return { element: (x as SsOrderedElement).elementDef.name, occurrence: describeRange(x.occurrence) } }
+			else if (x instanceof SsOrderedChoice) { return { choice: describeChoice((x as SsOrderedChoice).choice), occurrence: describeRange(x.occurrence) } }
+			let orderedAttribute: SsOrderedAttribute = x as SsOrderedAttribute
+			return { attribute: describeContentAttribute(orderedAttribute.attributeDef, orderedAttribute.inline), occurrence: describeRange(x.occurrence) }
+		})
+	} else if (elementDef.content instanceof SsListContent) {
+		let listContent: SsListContent = elementDef.content as SsListContent
+		content = {
+			list: listContent.isElementList ? { element: listContent.listElementDef!.name } : { attribute: describeContentAttribute(listContent.listAttributeDef!, listContent.inline) },
+			occurrence: describeRange(listContent.occurrence)
+		}
+	}
+	return {
+		name: elementDef.name,
+		description: elementDef.description,
+		baseElementDef: elementDef.baseElementDef === null ? null : elementDef.baseElementDef.name,
+		definitions: describeDefinitions(elementDef.definitions),
+		content: content
+	}
+}
+
+function describeDefinitions(definitions: SsDefinitions): unknown {
+	return {
+		valueTypeDefs: definitions.valueTypeDefs.values.map((x) => describeValueTypeDef(x)),
+		structDefs: definitions.structDefs.values.map((x) => describeStructDef(x)),
+		attributeDefs: definitions.attributeDefs.values.map((x) => describeAttributeDef(x)),
+		elementDefs: definitions.elementDefs.values.map((x) => describeElementDef(x))
+	}
+}
+
+function describeSchema(schema: SmlSchema): unknown {
+	return {
+		definitions: describeDefinitions(schema.definitions),
+		rootElement: schema.hasRootElement ? schema.getRootElement().name : null
+	}
+}
+
+// ----------------------------------------------------------------------
+
+describe("SmlSchema round trip", () => {
+	let features: Set<string> = new Set<string>()
+
+	for (let seed=1; seed<=200; seed++) {
+		test(`random schema ${seed}`, () => {
+			let generator: RandomSchemaGenerator = new RandomSchemaGenerator(seed)
+			let schema: SmlSchema = generator.generate()
+			generator.features.forEach((x) => features.add(x))
+			let content: string = schema.toString()
+			let parsedSchema: SmlSchema = SmlSchema.parse(content)
+			expect(parsedSchema.toString()).toBe(content)
+			expect(describeSchema(parsedSchema)).toEqual(describeSchema(schema))
+		})
+	}
+
+	test("random schemas cover all features", () => {
+		expect([...features].sort()).toEqual(["attributeDefault", "choice", "enum", "extends", "inline", "inlineDefault", "list", "nestedDefinitions", "number",
+			"ordered", "string", "struct", "structDefault", "unordered"])
+	})
+})
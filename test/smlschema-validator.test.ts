@@ -0,0 +1,164 @@
+﻿/* (C) Stefan John / Stenway / SimpleML.com / 2022 */
+
+import { SmlSchema, SmlValidator, SsSchemaError, SsValidationCode, SsValidationIssue } from "../src/smlschema.js"
+
+// ----------------------------------------------------------------------
+
+let schema: SmlSchema = SmlSchema.parse(`Schema
+	RootElement Root
+	EnumType
+		Name Color
+		Values Red Green
+	End
+	Struct
+		Name Point
+		Value X Required Int
+		Value Y Required Int
+	End
+	Element
+		Name Root
+		UnorderedContent
+			Attribute Count Required Int
+			Attribute Color Optional Color
+			Attribute Values Optional Int[1..2]
+			Attribute Pos Optional Point
+			Attribute Label Optional String?
+			Element Item Repeated+
+			Element Empty Optional
+			Choice
+				Element A
+				Attribute B Int
+			End
+		End
+	End
+	Element
+		Name Item
+		OrderedContent
+			Attribute Id Required Int
+			Element Empty Optional
+		End
+	End
+	Element
+		Name Empty
+	End
+	Element
+		Name A
+	End
+End`)
+
+function validate(content: string): SsValidationIssue[] {
+	return new SmlValidator(schema).validateContent(content)
+}
+
+// ----------------------------------------------------------------------
+
+describe("SmlValidator", () => {
+	let cases: [SsValidationCode, string][] = [
+		[SsValidationCode.InvalidSml, "Root\n\tCount 1\n"],
+		[SsValidationCode.InvalidRootElement, "Other\nEnd"],
+		[SsValidationCode.ElementNotAllowed, "Root\n\tCount 1\n\tItem\n\t\tId 1\n\tEnd\n\tB 1\n\tUnknown\n\tEnd\nEnd"],
+		[SsValidationCode.AttributeNotAllowed, "Root\n\tCount 1\n\tItem\n\t\tId 1\n\tEnd\n\tB 1\n\tUnknown 1\nEnd"],
+		[SsValidationCode.ElementNotEmpty, "Root\n\tCount 1\n\tItem\n\t\tId 1\n\tEnd\n\tB 1\n\tEmpty\n\t\tX 1\n\tEnd\nEnd"],
+		[SsValidationCode.MissingElement, "Root\n\tCount 1\n\tB 1\nEnd"],
+		[SsValidationCode.MissingAttribute, "Root\n\tItem\n\t\tId 1\n\tEnd\n\tB 1\nEnd"],
+		[SsValidationCode.InvalidOccurrence, "Root\n\tCount 1\n\tCount 2\n\tItem\n\t\tId 1\n\tEnd\n\tB 1\nEnd"],
+		[SsValidationCode.InvalidValueCount, "Root\n\tCount 1 2\n\tItem\n\t\tId 1\n\tEnd\n\tB 1\nEnd"],
+		[SsValidationCode.InvalidArraySize, "Root\n\tCount 1\n\tValues 1 2 3\n\tItem\n\t\tId 1\n\tEnd\n\tB 1\nEnd"],
+		[SsValidationCode.InvalidValue, "Root\n\tCount 1\n\tColor Blue\n\tItem\n\t\tId 1\n\tEnd\n\tB 1\nEnd"],
+		[SsValidationCode.NullNotAllowed, "Root\n\tCount -\n\tItem\n\t\tId 1\n\tEnd\n\tB 1\nEnd"],
+		[SsValidationCode.MissingChoice, "Root\n\tCount 1\n\tItem\n\t\tId 1\n\tEnd\nEnd"],
+	]
+
+	test("Valid document", () => {
+		expect(validate("Root\n\tCount 1\n\tColor green\n\tValues 1 2\n\tPos 1 2\n\tLabel -\n\tItem\n\t\tId 1\n\t\tEmpty\n\t\tEnd\n\tEnd\n\tA\n\tEnd\nEnd")).toEqual([])
+	})
+
+	test.each(cases.map(([code, content]) => [SsValidationCode[code], content]))("%s", (codeName, content) => {
+		expect(validate(content).map((x) => x.codeName)).toEqual([codeName])
+	})
+
+	test("Schema without root element", () => {
+		let schemaWithoutRoot: SmlSchema = SmlSchema.parse("Schema\n\tEnumType\n\t\tName Color\n\t\tValues Red Green\n\tEnd\nEnd")
+		let issues: SsValidationIssue[] = new SmlValidator(schemaWithoutRoot).validateContent("Root\nEnd")
+		expect(issues.map((x) => x.toString())).toEqual(["Error InvalidSchema: Root (line 1): Schema has no root element"])
+	})
+
+	test("Every validation code is covered", () => {
+		let codes: SsValidationCode[] = [...cases.map(([code]) => code), SsValidationCode.InvalidSchema]
+		let allCodes: SsValidationCode[] = Object.values(SsValidationCode).filter((x) => typeof x === "number") as SsValidationCode[]
+		expect(codes.sort()).toEqual(allCodes.sort())
+	})
+})
+
+// ----------------------------------------------------------------------
+
+describe("SmlValidator issue locations", () => {
+	test("Nested paths", () => {
+		let issues: SsValidationIssue[] = validate(`Root
+	Count 1
+	B 1
+	Item
+		Id 1
+	End
+	Item
+		Id x
+		Empty
+			Y 2
+		End
+	End
+End`)
+		expect(issues.map((x) => x.toString())).toEqual([
+			"Error InvalidValue: Root/Item[2]/Id (line 8): Value \"x\" is not a valid Int",
+			"Error ElementNotEmpty: Root/Item[2]/Empty (line 9): Element \"Empty\" must be empty",
+		])
+	})
+
+	test("Line numbers after blank and comment lines", () => {
+		let issues: SsValidationIssue[] = validate(`# Leading comment
+
+Root
+	# Comment
+
+	Count 1 # Trailing comment
+	Item
+
+		# Comment
+		Id x
+	End
+	Unknown 1
+End`)
+		expect(issues.map((x) => [x.path, x.lineNumber])).toEqual([
+			["Root/Item/Id", 10],
+			["Root/Unknown", 12],
+			["Root", 3],
+		])
+		expect(issues.map((x) => x.codeName)).toEqual(["InvalidValue", "AttributeNotAllowed", "MissingChoice"])
+	})
+
+	test("Invalid SML line number", () => {
+		let issues: SsValidationIssue[] = validate("Root\n\tCount 1\n\tItem\n\t\tId 1\nEnd")
+		expect(issues.map((x) => [x.codeName, x.lineNumber])).toEqual([["InvalidSml", 5]])
+	})
+
+	test("Schema loader issues", () => {
+		let error: unknown = null
+		try {
+			SmlSchema.parse(`Schema
+	RootElement Root
+
+	# Comment
+	Element
+		Name Root
+		UnorderedContent
+			Attribute Count Required Unknown
+		End
+	End
+End`)
+		} catch (e) {
+			error = e
+		}
+		expect(error).toBeInstanceOf(SsSchemaError)
+		let issues: SsValidationIssue[] = (error as SsSchemaError).issues
+		expect(issues.map((x) => [x.codeName, x.path, x.lineNumber])).toEqual([["InvalidSchema", "Schema/Element/UnorderedContent/Attribute", 8]])
+	})
+})